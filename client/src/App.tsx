@@ -21,6 +21,7 @@ import MarketplaceLanding from "@/pages/workshop/MarketplaceLanding";
 import SupplierGrid from "@/pages/workshop/SupplierGrid";
 import SupplierStore from "@/pages/workshop/SupplierStore";
 import WorkshopCart from "@/pages/WorkshopCart";
+import SavedLists from "@/pages/workshop/SavedLists";
 import WorkshopOrders from "@/pages/WorkshopOrders";
 import WorkshopInventory from "@/pages/WorkshopInventory";
 import StaffAttendance from "@/pages/StaffAttendance";
@@ -44,6 +45,9 @@ import RunnerWallet from "@/pages/RunnerWallet";
 import RunnerSettings from "@/pages/RunnerSettings";
 import CustomerDashboard from "@/pages/CustomerDashboard";
 import AdminDashboard from "@/pages/AdminDashboard";
+import AdminTaxonomy from "@/pages/AdminTaxonomy";
+import AdminModeration from "@/pages/AdminModeration";
+import AdminReviewModeration from "@/pages/AdminReviewModeration";
 import Orders from "@/pages/Orders";
 import Parts from "@/pages/Parts";
 import Jobs from "@/pages/Jobs";
@@ -121,6 +125,9 @@ function DashboardRouter() {
       <Route path="/workshop/cart">
         {() => <ProtectedRoute component={WorkshopCart} allowedRoles={['workshop']} />}
       </Route>
+      <Route path="/workshop/saved-lists">
+        {() => <ProtectedRoute component={SavedLists} allowedRoles={['workshop']} />}
+      </Route>
       <Route path="/workshop/orders">
         {() => <ProtectedRoute component={WorkshopOrders} allowedRoles={['workshop']} />}
       </Route>
@@ -169,6 +176,15 @@ function DashboardRouter() {
       <Route path="/admin/dashboard">
         {() => <ProtectedRoute component={AdminDashboard} allowedRoles={['admin']} />}
       </Route>
+      <Route path="/admin/taxonomy">
+        {() => <ProtectedRoute component={AdminTaxonomy} allowedRoles={['admin']} />}
+      </Route>
+      <Route path="/admin/moderation">
+        {() => <ProtectedRoute component={AdminModeration} allowedRoles={['admin']} />}
+      </Route>
+      <Route path="/admin/reviews">
+        {() => <ProtectedRoute component={AdminReviewModeration} allowedRoles={['admin']} />}
+      </Route>
       
       {/* Other feature routes - protected but accessible by all authenticated users */}
       <Route path="/orders">
@@ -13,6 +13,10 @@ import {
   Store,
   ClipboardList,
   PackageOpen,
+  ListChecks,
+  FolderTree,
+  ShieldCheck,
+  MessageSquareWarning,
 } from "lucide-react";
 import { Link, useLocation } from "wouter";
 import {
@@ -61,6 +65,12 @@ const menuItems: MenuItem[] = [
     icon: ShoppingCart,
     roles: ["workshop"],
   },
+  {
+    title: "Saved Lists",
+    url: "/workshop/saved-lists",
+    icon: ListChecks,
+    roles: ["workshop"],
+  },
   {
     title: "Inventory",
     url: "/workshop/inventory",
@@ -100,6 +110,25 @@ const menuItems: MenuItem[] = [
     icon: Wrench,
     roles: ["customer"],
   },
+  // Admin menu items
+  {
+    title: "Catalogue Taxonomy",
+    url: "/admin/taxonomy",
+    icon: FolderTree,
+    roles: ["admin"],
+  },
+  {
+    title: "Listing Moderation",
+    url: "/admin/moderation",
+    icon: ShieldCheck,
+    roles: ["admin"],
+  },
+  {
+    title: "Review Moderation",
+    url: "/admin/reviews",
+    icon: MessageSquareWarning,
+    roles: ["admin"],
+  },
   {
     title: "Notifications",
     url: "/notifications",
@@ -0,0 +1,361 @@
+import { useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Star, Camera, X, Trash2, BadgeCheck, Flag } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import { useLanguage } from "@/contexts/LanguageContext";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import {
+  useReviews,
+  useReviewEligibility,
+  useCreateReview,
+  useDeleteReview,
+  useReplyToReview,
+  useReportReview,
+  type TargetReviews,
+} from "@/hooks/api/useReviews";
+import type { ReviewReportReason, ReviewTargetType } from "@shared/schema";
+
+const MAX_REVIEW_PHOTOS = 5;
+
+const REPORT_REASONS: ReviewReportReason[] = ['fake', 'abusive', 'spam', 'conflict_of_interest', 'other'];
+
+interface ReviewsSectionProps {
+  targetType: ReviewTargetType;
+  targetId: string;
+  enabled?: boolean;
+}
+
+// Upload a photo through the object storage upload flow and return its stored path
+async function uploadReviewPhoto(file: File): Promise<string> {
+  const uploadResponse = await fetch('/api/product-images/upload', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ contentType: file.type }),
+  });
+  if (!uploadResponse.ok) {
+    throw new Error('Failed to get upload URL');
+  }
+  const { objectId, uploadUrl } = await uploadResponse.json();
+
+  const uploadResult = await fetch(uploadUrl, { method: 'PUT', body: file });
+  if (!uploadResult.ok) {
+    throw new Error('Failed to upload image');
+  }
+
+  const finalizeResponse = await fetch('/api/product-images', {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ objectId }),
+  });
+  if (!finalizeResponse.ok) {
+    throw new Error('Failed to finalize upload');
+  }
+  const { imagePath } = await finalizeResponse.json();
+  return imagePath;
+}
+
+function Stars({ rating, onSelect, size = "h-4 w-4" }: { rating: number; onSelect?: (rating: number) => void; size?: string }) {
+  return (
+    <div className="flex items-center gap-0.5">
+      {[1, 2, 3, 4, 5].map((value) => (
+        <Star
+          key={value}
+          className={`${size} ${value <= Math.round(rating) ? "fill-yellow-400 text-yellow-400" : "text-muted-foreground"} ${onSelect ? "cursor-pointer" : ""}`}
+          onClick={onSelect ? () => onSelect(value) : undefined}
+          data-testid={onSelect ? `star-select-${value}` : undefined}
+        />
+      ))}
+    </div>
+  );
+}
+
+function ReviewForm({ targetType, targetId }: { targetType: ReviewTargetType; targetId: string }) {
+  const { t } = useLanguage();
+  const { toast } = useToast();
+  const createReview = useCreateReview();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [rating, setRating] = useState(0);
+  const [comment, setComment] = useState("");
+  const [photos, setPhotos] = useState<string[]>([]);
+  const [isUploading, setIsUploading] = useState(false);
+
+  const handlePhoto = async (file: File | undefined) => {
+    if (!file) return;
+    setIsUploading(true);
+    try {
+      const path = await uploadReviewPhoto(file);
+      setPhotos(prev => [...prev, path]);
+    } catch (error: any) {
+      toast({ title: t("reviews.photoFailed"), description: error?.message, variant: "destructive" });
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const submit = async () => {
+    try {
+      await createReview.mutateAsync({
+        targetType,
+        targetId,
+        rating,
+        comment: comment.trim() || undefined,
+        photos,
+      });
+      toast({ title: t("reviews.submitted") });
+    } catch (error: any) {
+      toast({ title: t("reviews.submitFailed"), description: error?.message, variant: "destructive" });
+    }
+  };
+
+  return (
+    <div className="border rounded-md p-3 space-y-3" data-testid="form-review">
+      <p className="text-sm font-medium">{t("reviews.write")}</p>
+      <Stars rating={rating} onSelect={setRating} size="h-6 w-6" />
+      <Textarea
+        value={comment}
+        onChange={(e) => setComment(e.target.value)}
+        placeholder={t("reviews.commentPlaceholder")}
+        maxLength={1000}
+        data-testid="input-review-comment"
+      />
+      <div className="flex flex-wrap gap-2 items-center">
+        {photos.map((photo) => (
+          <div key={photo} className="relative">
+            <img src={photo} alt="" className="w-16 h-16 rounded object-cover" />
+            <button
+              type="button"
+              className="absolute -top-1 -right-1 bg-background rounded-full border"
+              onClick={() => setPhotos(prev => prev.filter(p => p !== photo))}
+            >
+              <X className="h-3 w-3" />
+            </button>
+          </div>
+        ))}
+        {photos.length < MAX_REVIEW_PHOTOS && (
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={isUploading}
+            data-testid="button-review-photo"
+          >
+            <Camera className="h-4 w-4 mr-1" />
+            {t("reviews.addPhoto")}
+          </Button>
+        )}
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="image/*"
+          className="hidden"
+          onChange={(e) => {
+            handlePhoto(e.target.files?.[0]);
+            e.target.value = "";
+          }}
+        />
+      </div>
+      <Button
+        onClick={submit}
+        disabled={rating === 0 || (comment.trim().length > 0 && comment.trim().length < 10) || isUploading || createReview.isPending}
+        data-testid="button-submit-review"
+      >
+        {t("reviews.submit")}
+      </Button>
+    </div>
+  );
+}
+
+function ReportReviewForm({ reviewId, onDone }: { reviewId: string; onDone: () => void }) {
+  const { t } = useLanguage();
+  const { toast } = useToast();
+  const reportReview = useReportReview();
+  const [reason, setReason] = useState<ReviewReportReason | "">("");
+  const [details, setDetails] = useState("");
+
+  const submit = async () => {
+    if (!reason) return;
+    try {
+      await reportReview.mutateAsync({ id: reviewId, data: { reason, details: details.trim() || undefined } });
+      toast({ title: t("reviews.report.sent") });
+      onDone();
+    } catch (error: any) {
+      toast({ title: t("reviews.report.failed"), description: error?.message, variant: "destructive" });
+    }
+  };
+
+  return (
+    <div className="border rounded-md p-3 space-y-2" data-testid={`form-report-review-${reviewId}`}>
+      <Select value={reason} onValueChange={(value) => setReason(value as ReviewReportReason)}>
+        <SelectTrigger data-testid={`select-report-reason-${reviewId}`}>
+          <SelectValue placeholder={t("reviews.report.reasonPlaceholder")} />
+        </SelectTrigger>
+        <SelectContent>
+          {REPORT_REASONS.map((value) => (
+            <SelectItem key={value} value={value}>{t(`reviews.report.reasons.${value}`)}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Textarea
+        value={details}
+        onChange={(e) => setDetails(e.target.value)}
+        placeholder={t("reviews.report.detailsPlaceholder")}
+        maxLength={1000}
+        className="min-h-[40px]"
+      />
+      <div className="flex gap-2">
+        <Button size="sm" onClick={submit} disabled={!reason || reportReview.isPending} data-testid={`button-submit-report-${reviewId}`}>
+          {t("reviews.report.submit")}
+        </Button>
+        <Button size="sm" variant="ghost" onClick={onDone}>{t("common.cancel")}</Button>
+      </div>
+    </div>
+  );
+}
+
+function ReviewItem({ review, canReply, isOwn, canReport }: { review: TargetReviews['reviews'][number]; canReply: boolean; isOwn: boolean; canReport: boolean }) {
+  const { t } = useLanguage();
+  const { toast } = useToast();
+  const replyToReview = useReplyToReview();
+  const deleteReview = useDeleteReview();
+  const [reply, setReply] = useState(review.reply || "");
+  const [isReporting, setIsReporting] = useState(false);
+
+  const submitReply = async () => {
+    try {
+      await replyToReview.mutateAsync({ id: review.id, data: { reply: reply.trim() } });
+      toast({ title: t("reviews.replySaved") });
+    } catch (error: any) {
+      toast({ title: t("reviews.replyFailed"), description: error?.message, variant: "destructive" });
+    }
+  };
+
+  return (
+    <div className="space-y-2 border-b pb-3 last:border-b-0" data-testid={`review-${review.id}`}>
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2 flex-wrap">
+          <span className="text-sm font-medium">{review.reviewerName}</span>
+          <Badge variant="secondary" className="text-xs gap-1">
+            <BadgeCheck className="h-3 w-3" />
+            {t("reviews.verified")}
+          </Badge>
+          {review.status !== 'published' && (
+            <Badge variant="outline" className="text-xs" data-testid={`badge-review-status-${review.id}`}>
+              {t(`reviews.status.${review.status}`)}
+            </Badge>
+          )}
+        </div>
+        {canReport && !isReporting && (
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => setIsReporting(true)}
+            title={t("reviews.report.title")}
+            data-testid={`button-report-review-${review.id}`}
+          >
+            <Flag className="h-4 w-4 text-muted-foreground" />
+          </Button>
+        )}
+        {isOwn && (
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => deleteReview.mutate(review)}
+            disabled={deleteReview.isPending}
+            title={t("reviews.delete")}
+            data-testid={`button-delete-review-${review.id}`}
+          >
+            <Trash2 className="h-4 w-4 text-destructive" />
+          </Button>
+        )}
+      </div>
+      <div className="flex items-center gap-2">
+        <Stars rating={review.rating} />
+        {review.createdAt && (
+          <span className="text-xs text-muted-foreground">
+            {formatDistanceToNow(new Date(review.createdAt), { addSuffix: true })}
+          </span>
+        )}
+      </div>
+      {review.comment && <p className="text-sm">{review.comment}</p>}
+      {isReporting && <ReportReviewForm reviewId={review.id} onDone={() => setIsReporting(false)} />}
+      {(review.photos?.length ?? 0) > 0 && (
+        <div className="flex gap-2 flex-wrap">
+          {review.photos!.map((photo) => (
+            <a key={photo} href={photo} target="_blank" rel="noreferrer">
+              <img src={photo} alt="" className="w-16 h-16 rounded object-cover" />
+            </a>
+          ))}
+        </div>
+      )}
+      {review.reply && !canReply && (
+        <div className="text-sm bg-muted rounded p-2">
+          <span className="text-xs text-muted-foreground block">{t("reviews.ownerReply")}</span>
+          {review.reply}
+        </div>
+      )}
+      {canReply && (
+        <div className="flex flex-col sm:flex-row gap-2">
+          <Textarea
+            value={reply}
+            onChange={(e) => setReply(e.target.value)}
+            placeholder={t("reviews.replyPlaceholder")}
+            maxLength={1000}
+            className="min-h-[40px] flex-1"
+            data-testid={`input-review-reply-${review.id}`}
+          />
+          <Button
+            onClick={submitReply}
+            disabled={!reply.trim() || reply.trim() === review.reply || replyToReview.isPending}
+            data-testid={`button-review-reply-${review.id}`}
+          >
+            {t(review.reply ? "reviews.updateReply" : "reviews.reply")}
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default function ReviewsSection({ targetType, targetId, enabled = true }: ReviewsSectionProps) {
+  const { t } = useLanguage();
+  const { user } = useAuth();
+  const { data } = useReviews(targetType, targetId, enabled);
+  const { data: eligibility } = useReviewEligibility(targetType, targetId, enabled && !!user);
+  const summary = data?.summary;
+  const reviews = data?.reviews ?? [];
+
+  return (
+    <div className="space-y-4" data-testid={`section-reviews-${targetType}`}>
+      <div className="flex items-center gap-3">
+        <Stars rating={summary?.rating ?? 0} size="h-5 w-5" />
+        <span className="font-semibold" data-testid="text-review-rating">{(summary?.rating ?? 0).toFixed(1)}</span>
+        <span className="text-sm text-muted-foreground" data-testid="text-review-count">
+          {t("reviews.count").replace("{count}", String(summary?.reviewCount ?? 0))}
+        </span>
+      </div>
+
+      {eligibility?.canReview && <ReviewForm targetType={targetType} targetId={targetId} />}
+
+      {reviews.length === 0 ? (
+        <p className="text-sm text-muted-foreground">{t("reviews.empty")}</p>
+      ) : (
+        <div className="space-y-3">
+          {reviews.map((review) => (
+            <ReviewItem
+              key={review.id}
+              review={review}
+              canReply={!!eligibility?.canReply}
+              isOwn={review.userId === user?.id}
+              canReport={!!user && review.userId !== user.id}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
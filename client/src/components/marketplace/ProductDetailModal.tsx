@@ -3,8 +3,17 @@ import { Dialog, DialogContent } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Input } from "@/components/ui/input";
-import { ShoppingCart, MessageCircle, Plus, Minus, X, ChevronLeft, ChevronRight, Package } from "lucide-react";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ShoppingCart, MessageCircle, Plus, Minus, X, ChevronLeft, ChevronRight, Package, Bell, ListPlus, HelpCircle, Star } from "lucide-react";
 import { useLanguage } from "@/contexts/LanguageContext";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { useSavedLists, useAddSavedListItem } from "@/hooks/api/useSavedLists";
+import { useProductQuestions, useAskProductQuestion } from "@/hooks/api/useProductQuestions";
+import { apiRequest } from "@/lib/queryClient";
+import ReviewsSection from "@/components/ReviewsSection";
 import type { Part } from "@shared/schema";
 
 interface ProductDetailModalProps {
@@ -27,6 +36,59 @@ export default function ProductDetailModal({
   const { t } = useLanguage();
   const [quantity, setQuantity] = useState(1);
   const [currentImageIndex, setCurrentImageIndex] = useState(0);
+  const [autoAddOnRestock, setAutoAddOnRestock] = useState(false);
+  const [isSubscribing, setIsSubscribing] = useState(false);
+  const [saveListId, setSaveListId] = useState("");
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const isWorkshop = user?.role === 'workshop';
+  const { data: savedLists = [] } = useSavedLists(isOpen && isWorkshop);
+  const addToList = useAddSavedListItem();
+  const { data: questions = [] } = useProductQuestions(product.id, isOpen);
+  const askQuestion = useAskProductQuestion();
+  const [questionText, setQuestionText] = useState("");
+
+  // Backorderable parts can be ordered beyond stock; the excess ships when stock arrives
+  const maxQuantity = product.allowBackorder ? 9999 : product.stockQuantity;
+  const isOrderable = product.stockQuantity > 0 || product.allowBackorder;
+  const backorderQuantity = Math.max(quantity - Math.max(product.stockQuantity, 0), 0);
+
+  const subscribeToRestock = async () => {
+    setIsSubscribing(true);
+    try {
+      await apiRequest(`/api/marketplace/products/${product.id}/restock-subscriptions`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ autoOrderQuantity: autoAddOnRestock ? quantity : null }),
+      });
+      toast({ title: t('marketplace.restockSubscribed') });
+    } catch (error: any) {
+      toast({ title: t('marketplace.restockSubscribeFailed'), description: error?.message, variant: "destructive" });
+    } finally {
+      setIsSubscribing(false);
+    }
+  };
+
+  const saveToList = async () => {
+    if (!saveListId) return;
+    try {
+      await addToList.mutateAsync({ listId: saveListId, item: { partId: product.id, quantity } });
+      toast({ title: t('workshop.savedLists.toasts.saved') });
+    } catch (error: any) {
+      toast({ title: t('workshop.savedLists.toasts.failed'), description: error?.message, variant: "destructive" });
+    }
+  };
+
+  const submitQuestion = async () => {
+    if (questionText.trim().length < 5) return;
+    try {
+      await askQuestion.mutateAsync({ partId: product.id, data: { question: questionText.trim() } });
+      setQuestionText("");
+      toast({ title: t('marketplace.questions.asked') });
+    } catch (error: any) {
+      toast({ title: t('marketplace.questions.askFailed'), description: error?.message, variant: "destructive" });
+    }
+  };
 
   const images = product.images && product.images.length > 0 
     ? product.images 
@@ -35,7 +97,7 @@ export default function ProductDetailModal({
       : [];
 
   const incrementQuantity = () => {
-    if (quantity < product.stockQuantity) {
+    if (quantity < maxQuantity) {
       setQuantity(quantity + 1);
     }
   };
@@ -176,6 +238,11 @@ export default function ProductDetailModal({
                   ? `${t('marketplace.stock')}: ${product.stockQuantity}`
                   : t('marketplace.outOfStock')}
               </Badge>
+              {product.allowBackorder && product.stockQuantity <= 0 && (
+                <Badge variant="secondary" data-testid="badge-backorder">
+                  {t('marketplace.backorder')}
+                </Badge>
+              )}
               <Badge variant="outline" data-testid="badge-category">
                 {getCategoryDisplay(product.category, t('_lang') as 'en' | 'ms')}
               </Badge>
@@ -184,6 +251,12 @@ export default function ProductDetailModal({
               )}
             </div>
 
+            {product.expectedRestockDate && product.stockQuantity <= 0 && (
+              <p className="text-sm text-muted-foreground" data-testid="text-expected-restock">
+                {t('marketplace.expectedRestock').replace("{date}", new Date(product.expectedRestockDate).toLocaleDateString())}
+              </p>
+            )}
+
             {/* SKU & GarageHub Code */}
             <div className="space-y-1 text-sm text-muted-foreground">
               {product.garagehubCode && (
@@ -249,11 +322,11 @@ export default function ProductDetailModal({
                 <Input
                   type="number"
                   min="1"
-                  max={product.stockQuantity}
+                  max={maxQuantity}
                   value={quantity}
                   onChange={(e) => {
                     const val = parseInt(e.target.value);
-                    if (val >= 1 && val <= product.stockQuantity) {
+                    if (val >= 1 && val <= maxQuantity) {
                       setQuantity(val);
                     }
                   }}
@@ -264,12 +337,17 @@ export default function ProductDetailModal({
                   variant="outline"
                   size="icon"
                   onClick={incrementQuantity}
-                  disabled={quantity >= product.stockQuantity}
+                  disabled={quantity >= maxQuantity}
                   data-testid="button-increase-quantity"
                 >
                   <Plus className="h-4 w-4" />
                 </Button>
               </div>
+              {product.allowBackorder && backorderQuantity > 0 && (
+                <p className="text-sm text-muted-foreground mt-2" data-testid="text-backorder-quantity">
+                  {t('marketplace.willBackorder').replace("{count}", String(backorderQuantity))}
+                </p>
+              )}
             </div>
 
             {/* Action Buttons */}
@@ -279,7 +357,7 @@ export default function ProductDetailModal({
                 className="w-full bg-[#FF6B35] hover:bg-[#FF6B35]/90 text-white"
                 size="lg"
                 onClick={() => onBuyNow(product, quantity)}
-                disabled={product.stockQuantity === 0}
+                disabled={!isOrderable}
                 data-testid="button-buy-now"
               >
                 {t('marketplace.buyNow')}
@@ -291,7 +369,7 @@ export default function ProductDetailModal({
                   variant="outline"
                   className="flex-1"
                   onClick={() => onAddToCart(product, quantity)}
-                  disabled={product.stockQuantity === 0}
+                  disabled={!isOrderable}
                   data-testid="button-add-to-cart"
                 >
                   <ShoppingCart className="h-4 w-4 mr-2" />
@@ -307,9 +385,118 @@ export default function ProductDetailModal({
                   {t('marketplace.chat')}
                 </Button>
               </div>
+
+              {/* Save to a parts list */}
+              {isWorkshop && savedLists.length > 0 && (
+                <div className="flex gap-2">
+                  <Select value={saveListId} onValueChange={setSaveListId}>
+                    <SelectTrigger className="flex-1" data-testid="select-saved-list">
+                      <SelectValue placeholder={t('workshop.savedLists.chooseList')} />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {savedLists.map((list) => (
+                        <SelectItem key={list.id} value={list.id}>{list.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    variant="outline"
+                    onClick={saveToList}
+                    disabled={!saveListId || addToList.isPending}
+                    data-testid="button-save-to-list"
+                  >
+                    <ListPlus className="h-4 w-4 mr-2" />
+                    {t('workshop.savedLists.saveToList')}
+                  </Button>
+                </div>
+              )}
+
+              {/* Back-in-stock alert */}
+              {product.stockQuantity <= 0 && (
+                <div className="space-y-2 pt-2">
+                  <Button
+                    variant="secondary"
+                    className="w-full"
+                    onClick={subscribeToRestock}
+                    disabled={isSubscribing}
+                    data-testid="button-notify-restock"
+                  >
+                    <Bell className="h-4 w-4 mr-2" />
+                    {t('marketplace.notifyRestock')}
+                  </Button>
+                  <label className="flex items-center gap-2 text-sm text-muted-foreground">
+                    <Checkbox
+                      checked={autoAddOnRestock}
+                      onCheckedChange={(checked) => setAutoAddOnRestock(checked === true)}
+                      data-testid="checkbox-auto-add-restock"
+                    />
+                    {t('marketplace.autoAddRestock')}
+                  </label>
+                </div>
+              )}
             </div>
           </div>
         </div>
+
+        {/* Questions & Answers */}
+        <div className="border-t p-6 space-y-4" data-testid="section-product-questions">
+          <h3 className="font-semibold flex items-center gap-2">
+            <HelpCircle className="h-4 w-4" />
+            {t('marketplace.questions.title')}
+          </h3>
+
+          {isWorkshop && (
+            <div className="flex flex-col sm:flex-row gap-2">
+              <Textarea
+                value={questionText}
+                onChange={(e) => setQuestionText(e.target.value)}
+                placeholder={t('marketplace.questions.askPlaceholder')}
+                maxLength={1000}
+                className="min-h-[40px] flex-1"
+                data-testid="input-product-question"
+              />
+              <Button
+                onClick={submitQuestion}
+                disabled={questionText.trim().length < 5 || askQuestion.isPending}
+                data-testid="button-ask-question"
+              >
+                {t('marketplace.questions.ask')}
+              </Button>
+            </div>
+          )}
+
+          {questions.length === 0 ? (
+            <p className="text-sm text-muted-foreground">{t('marketplace.questions.empty')}</p>
+          ) : (
+            <div className="space-y-4">
+              {questions.map((question) => (
+                <div key={question.id} className="space-y-1" data-testid={`question-${question.id}`}>
+                  <p className="text-sm font-medium">Q: {question.question}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {t('marketplace.questions.askedBy').replace("{name}", question.workshopName)}
+                  </p>
+                  {question.answer ? (
+                    <div className="text-sm bg-muted rounded p-2">
+                      <span className="text-xs text-muted-foreground block">{t('marketplace.questions.answer')}</span>
+                      {question.answer}
+                    </div>
+                  ) : (
+                    <Badge variant="outline" className="text-xs">{t('marketplace.questions.awaitingAnswer')}</Badge>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* Reviews */}
+        <div className="border-t p-6 space-y-4" data-testid="section-product-reviews">
+          <h3 className="font-semibold flex items-center gap-2">
+            <Star className="h-4 w-4" />
+            {t('reviews.title')}
+          </h3>
+          <ReviewsSection targetType="product" targetId={product.id} enabled={isOpen} />
+        </div>
       </DialogContent>
     </Dialog>
   );
@@ -135,7 +135,9 @@ export function AIImageUploadForm({ supplierId, onSuccess }: AIImageUploadFormPr
       });
 
       if (!response.ok) {
-        throw new Error('Analysis failed');
+        // e.g. the supplier's daily AI extraction limit
+        const body = await response.json().catch(() => null);
+        throw new Error(body?.message || 'Analysis failed');
       }
 
       const result = await response.json();
@@ -154,10 +156,12 @@ export function AIImageUploadForm({ supplierId, onSuccess }: AIImageUploadFormPr
         title: "AI Analysis Complete",
         description: "Product details extracted! Review and adjust if needed.",
       });
-    } catch (error) {
+    } catch (error: any) {
       toast({
         title: "Analysis Failed",
-        description: "Failed to analyze image. Please try again.",
+        description: error?.message && error.message !== 'Analysis failed'
+          ? error.message
+          : "Failed to analyze image. Please try again.",
         variant: "destructive",
       });
     } finally {
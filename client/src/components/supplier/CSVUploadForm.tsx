@@ -2,10 +2,11 @@ import { useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
 import { Card, CardContent } from "@/components/ui/card";
-import { Download, Upload, AlertCircle, CheckCircle2 } from "lucide-react";
+import { Download, Upload, AlertCircle, CheckCircle2, FileDown, FileWarning } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
-import { apiRequest, queryClient } from "@/lib/queryClient";
+import { queryClient } from "@/lib/queryClient";
 import { useLanguage } from "@/contexts/LanguageContext";
 
 interface CSVUploadFormProps {
@@ -13,19 +14,60 @@ interface CSVUploadFormProps {
   onSuccess: () => void;
 }
 
+type ImportAction = 'create' | 'update' | 'unchanged' | 'error';
+
+interface ImportPlanItem {
+  rows: number[];
+  action: ImportAction;
+  partId: string | null;
+  garagehubCode: string | null;
+  name: string | null;
+  sku: string | null;
+  changes: Record<string, { from: unknown; to: unknown }>;
+  errors: Array<{ row: number; field: string; value: string; message: string }>;
+  duplicates: Array<{ partId: string | null; garagehubCode: string | null; name: string | null; row: number | null; score: number }>;
+}
+
+interface ImportResponse {
+  importId: string;
+  dryRun: boolean;
+  summary: { totalRows: number; created: number; updated: number; unchanged: number; errors: number; possibleDuplicates: number };
+  items: ImportPlanItem[];
+  errors: Array<{ row: number; field: string; value: string; message: string }>;
+  errorReportUrl: string | null;
+}
+
+const PREVIEW_LIMIT = 50;
+
+const ACTION_VARIANTS: Record<ImportAction, "default" | "secondary" | "outline" | "destructive"> = {
+  create: "default",
+  update: "secondary",
+  unchanged: "outline",
+  error: "destructive",
+};
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined || value === '') return '-';
+  if (Array.isArray(value)) return value.map(formatValue).join('; ');
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
 export function CSVUploadForm({ supplierId, onSuccess }: CSVUploadFormProps) {
   const { t } = useLanguage();
   const { toast } = useToast();
   const [file, setFile] = useState<File | null>(null);
+  const [isPreviewing, setIsPreviewing] = useState(false);
   const [isUploading, setIsUploading] = useState(false);
-  const [preview, setPreview] = useState<any[]>([]);
+  const [preview, setPreview] = useState<ImportResponse | null>(null);
 
   const downloadTemplate = () => {
-    const csvContent = "name,sku,description,category,price,stockQuantity,imageUrl\n" +
-      "Brake Pads Front,BP-001,High quality ceramic brake pads,Brakes,89.90,50,\n" +
-      "Oil Filter,OF-002,Premium oil filter for most vehicles,Filters,15.50,100,\n" +
-      "Spark Plug,SP-003,Iridium spark plug,Ignition,12.00,200,";
-    
+    const csvContent = "name,sku,garagehubCode,description,category,partCategory,brand,model,vehicleMake,vehicleModel,vehicleYearFrom,vehicleYearTo,compatibility,price,stockQuantity,imageUrl,images,oemNumbers,aftermarketNumbers,variantGroup,variantName,variantOptions\n" +
+      "Brake Pads Front,BP-001,,High quality ceramic brake pads,Brakes,brake,Bendix,,Perodua,Myvi,2018,2022,\"Perodua:Myvi:2018-2022; Perodua:Bezza:2016-\",89.90,50,,,Perodua:04465-BZ010,Bendix:DB1234,,,\n" +
+      "Oil Filter,OF-002,,Premium oil filter for most vehicles,Filters,service,Sakura,,,,,,,15.50,100,,,,,,,\n" +
+      "Engine Oil 5W-30,OIL-5W30-4L,,Fully synthetic engine oil,Lubricant,fluids,Petronas,,,,,,,120.00,20,,,,,oil-5w30,4L,viscosity=5W-30; volumeLitres=4\n" +
+      ",OIL-5W30-1L,,,,,,,,,,,,35.00,60,,,,,oil-5w30,1L,viscosity=5W-30; volumeLitres=1\n";
+
     const blob = new Blob([csvContent], { type: 'text/csv' });
     const url = window.URL.createObjectURL(blob);
     const a = document.createElement('a');
@@ -35,10 +77,29 @@ export function CSVUploadForm({ supplierId, onSuccess }: CSVUploadFormProps) {
     window.URL.revokeObjectURL(url);
   };
 
-  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+  // Send the file to the import endpoint; dryRun only computes the plan
+  const submitImport = async (selectedFile: File, dryRun: boolean): Promise<ImportResponse> => {
+    const formData = new FormData();
+    formData.append('file', selectedFile);
+
+    const response = await fetch(
+      `/api/marketplace/suppliers/${supplierId}/products/import${dryRun ? '?dryRun=1' : ''}`,
+      { method: 'POST', body: formData }
+    );
+
+    if (!response.ok) {
+      const body = await response.json().catch(() => null);
+      throw new Error(body?.message || 'Upload failed');
+    }
+
+    return response.json();
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const selectedFile = e.target.files?.[0];
     if (selectedFile) {
-      if (selectedFile.type !== 'text/csv' && !selectedFile.name.endsWith('.csv')) {
+      const name = selectedFile.name.toLowerCase();
+      if (!name.endsWith('.csv') && !name.endsWith('.xlsx')) {
         toast({
           title: t("supplier.csvUpload.toasts.invalidFileTitle"),
           description: t("supplier.csvUpload.toasts.invalidFileDesc"),
@@ -47,29 +108,21 @@ export function CSVUploadForm({ supplierId, onSuccess }: CSVUploadFormProps) {
         return;
       }
       setFile(selectedFile);
-      parseCSVPreview(selectedFile);
-    }
-  };
+      setPreview(null);
 
-  const parseCSVPreview = (file: File) => {
-    const reader = new FileReader();
-    reader.onload = (e) => {
-      const text = e.target?.result as string;
-      const lines = text.split('\n').filter(line => line.trim());
-      const headers = lines[0].split(',').map(h => h.trim());
-      
-      const data = lines.slice(1, 6).map(line => {
-        const values = line.split(',');
-        const obj: any = {};
-        headers.forEach((header, index) => {
-          obj[header] = values[index]?.trim() || '';
+      setIsPreviewing(true);
+      try {
+        setPreview(await submitImport(selectedFile, true));
+      } catch (error) {
+        toast({
+          title: t("supplier.csvUpload.toasts.uploadFailedTitle"),
+          description: error instanceof Error ? error.message : t("supplier.csvUpload.toasts.uploadFailedDesc"),
+          variant: "destructive",
         });
-        return obj;
-      });
-      
-      setPreview(data);
-    };
-    reader.readAsText(file);
+      } finally {
+        setIsPreviewing(false);
+      }
+    }
   };
 
   const handleUpload = async () => {
@@ -84,34 +137,29 @@ export function CSVUploadForm({ supplierId, onSuccess }: CSVUploadFormProps) {
 
     setIsUploading(true);
     try {
-      const formData = new FormData();
-      formData.append('csv', file);
-      formData.append('supplierId', supplierId);
-
-      const response = await fetch('/api/supplier/products/bulk-csv', {
-        method: 'POST',
-        body: formData,
-      });
-
-      if (!response.ok) {
-        throw new Error('Upload failed');
-      }
-
-      const result = await response.json();
+      const result = await submitImport(file, false);
 
       toast({
         title: t("supplier.csvUpload.toasts.successTitle"),
-        description: `${result.count} ${t("supplier.csvUpload.toasts.successDesc")}`,
+        description: `${result.summary.created + result.summary.updated} ${t("supplier.csvUpload.toasts.successDesc")}`,
       });
 
       queryClient.invalidateQueries({ queryKey: ['/api/parts'] });
+      queryClient.invalidateQueries({ queryKey: [`/api/marketplace/suppliers/${supplierId}`] });
+
+      if (result.errors.length > 0) {
+        // Keep the dialog open so the skipped rows and error report stay visible
+        setPreview(result);
+        return;
+      }
+
       setFile(null);
-      setPreview([]);
+      setPreview(null);
       onSuccess();
     } catch (error) {
       toast({
         title: t("supplier.csvUpload.toasts.uploadFailedTitle"),
-        description: t("supplier.csvUpload.toasts.uploadFailedDesc"),
+        description: error instanceof Error ? error.message : t("supplier.csvUpload.toasts.uploadFailedDesc"),
         variant: "destructive",
       });
     } finally {
@@ -119,6 +167,9 @@ export function CSVUploadForm({ supplierId, onSuccess }: CSVUploadFormProps) {
     }
   };
 
+  const changedItems = preview?.items.filter(item => item.action !== 'unchanged') ?? [];
+  const canImport = !!preview?.dryRun && preview.summary.created + preview.summary.updated > 0;
+
   return (
     <div className="space-y-4">
       <Card className="border-dashed bg-muted/20">
@@ -143,6 +194,20 @@ export function CSVUploadForm({ supplierId, onSuccess }: CSVUploadFormProps) {
               <Download className="h-4 w-4" />
               {t("supplier.csvUpload.downloadTemplate")}
             </Button>
+            <div className="flex flex-wrap justify-center gap-2">
+              <Button asChild variant="ghost" size="sm" className="gap-2" data-testid="button-export-csv">
+                <a href={`/api/marketplace/suppliers/${supplierId}/products/export?format=csv`} download>
+                  <FileDown className="h-4 w-4" />
+                  {t("supplier.csvUpload.exportCsv")}
+                </a>
+              </Button>
+              <Button asChild variant="ghost" size="sm" className="gap-2" data-testid="button-export-xlsx">
+                <a href={`/api/marketplace/suppliers/${supplierId}/products/export?format=xlsx`} download>
+                  <FileDown className="h-4 w-4" />
+                  {t("supplier.csvUpload.exportXlsx")}
+                </a>
+              </Button>
+            </div>
           </div>
         </CardContent>
       </Card>
@@ -152,7 +217,7 @@ export function CSVUploadForm({ supplierId, onSuccess }: CSVUploadFormProps) {
         <Input
           id="csv-file"
           type="file"
-          accept=".csv"
+          accept=".csv,.xlsx"
           onChange={handleFileChange}
           data-testid="input-csv-file"
         />
@@ -162,40 +227,94 @@ export function CSVUploadForm({ supplierId, onSuccess }: CSVUploadFormProps) {
             {file.name}
           </div>
         )}
+        {isPreviewing && (
+          <p className="text-sm text-muted-foreground">{t("supplier.csvUpload.checking")}</p>
+        )}
       </div>
 
-      {preview.length > 0 && (
+      {preview && (
         <Card>
           <CardContent className="pt-6">
-            <div className="space-y-2">
+            <div className="space-y-3">
               <div className="flex items-center gap-2 text-sm font-medium">
                 <AlertCircle className="h-4 w-4 text-primary" />
-                {t("supplier.csvUpload.preview")}
+                {preview.dryRun ? t("supplier.csvUpload.preview") : t("supplier.csvUpload.result")}
               </div>
-              <div className="overflow-x-auto">
-                <table className="w-full text-sm">
-                  <thead>
-                    <tr className="border-b">
-                      <th className="text-left p-2">{t("supplier.csvUpload.tableName")}</th>
-                      <th className="text-left p-2">{t("supplier.csvUpload.tableSKU")}</th>
-                      <th className="text-left p-2">{t("supplier.csvUpload.tableCategory")}</th>
-                      <th className="text-left p-2">{t("supplier.csvUpload.tablePrice")}</th>
-                      <th className="text-left p-2">{t("supplier.csvUpload.tableStock")}</th>
-                    </tr>
-                  </thead>
-                  <tbody>
-                    {preview.map((row, index) => (
-                      <tr key={index} className="border-b">
-                        <td className="p-2">{row.name}</td>
-                        <td className="p-2">{row.sku}</td>
-                        <td className="p-2">{row.category}</td>
-                        <td className="p-2">RM {row.price}</td>
-                        <td className="p-2">{row.stockQuantity}</td>
-                      </tr>
-                    ))}
-                  </tbody>
-                </table>
+
+              <div className="flex flex-wrap gap-2 text-sm" data-testid="import-summary">
+                <Badge variant="default">{preview.summary.created} {t("supplier.csvUpload.actions.create")}</Badge>
+                <Badge variant="secondary">{preview.summary.updated} {t("supplier.csvUpload.actions.update")}</Badge>
+                <Badge variant="outline">{preview.summary.unchanged} {t("supplier.csvUpload.actions.unchanged")}</Badge>
+                <Badge variant="destructive">{preview.summary.errors} {t("supplier.csvUpload.actions.error")}</Badge>
+                {preview.summary.possibleDuplicates > 0 && (
+                  <Badge variant="outline" className="border-amber-500 text-amber-700">
+                    {preview.summary.possibleDuplicates} {t("supplier.csvUpload.possibleDuplicates")}
+                  </Badge>
+                )}
               </div>
+
+              {preview.errorReportUrl && (
+                <Button asChild variant="outline" size="sm" className="gap-2" data-testid="button-download-error-report">
+                  <a href={preview.errorReportUrl} download>
+                    <FileWarning className="h-4 w-4" />
+                    {t("supplier.csvUpload.downloadErrorReport")}
+                  </a>
+                </Button>
+              )}
+
+              {changedItems.length > 0 && (
+                <div className="overflow-x-auto max-h-80">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="border-b">
+                        <th className="text-left p-2">{t("supplier.csvUpload.tableRow")}</th>
+                        <th className="text-left p-2">{t("supplier.csvUpload.tableAction")}</th>
+                        <th className="text-left p-2">{t("supplier.csvUpload.tableName")}</th>
+                        <th className="text-left p-2">{t("supplier.csvUpload.tableSKU")}</th>
+                        <th className="text-left p-2">{t("supplier.csvUpload.tableChanges")}</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {changedItems.slice(0, PREVIEW_LIMIT).map((item) => (
+                        <tr key={item.rows.join('-')} className="border-b align-top">
+                          <td className="p-2">{item.rows.join(', ')}</td>
+                          <td className="p-2">
+                            <Badge variant={ACTION_VARIANTS[item.action]}>
+                              {t(`supplier.csvUpload.actions.${item.action}`)}
+                            </Badge>
+                          </td>
+                          <td className="p-2">{item.name || item.garagehubCode}</td>
+                          <td className="p-2">{item.sku}</td>
+                          <td className="p-2 text-xs">
+                            {item.action === 'error'
+                              ? item.errors.map((error, index) => (
+                                  <div key={index} className="text-destructive">{error.field}: {error.message}</div>
+                                ))
+                              : Object.entries(item.changes).map(([field, change]) => (
+                                  <div key={field}>
+                                    <span className="font-medium">{field}</span>
+                                    {item.action === 'update' && <> {formatValue(change.from)} &rarr;</>} {formatValue(change.to)}
+                                  </div>
+                                ))}
+                            {item.duplicates.map((duplicate, index) => (
+                              <div key={`duplicate-${index}`} className="text-amber-700" data-testid={`import-duplicate-${item.rows[0]}-${index}`}>
+                                {duplicate.partId
+                                  ? t("supplier.csvUpload.duplicateOfListing").replace("{name}", `${duplicate.name} (${duplicate.garagehubCode})`)
+                                  : t("supplier.csvUpload.duplicateOfRow").replace("{row}", String(duplicate.row))}
+                              </div>
+                            ))}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                  {changedItems.length > PREVIEW_LIMIT && (
+                    <p className="text-xs text-muted-foreground p-2">
+                      +{changedItems.length - PREVIEW_LIMIT} {t("supplier.csvUpload.moreRows")}
+                    </p>
+                  )}
+                </div>
+              )}
             </div>
           </CardContent>
         </Card>
@@ -203,7 +322,7 @@ export function CSVUploadForm({ supplierId, onSuccess }: CSVUploadFormProps) {
 
       <Button
         onClick={handleUpload}
-        disabled={!file || isUploading}
+        disabled={!file || !canImport || isPreviewing || isUploading}
         className="w-full"
         data-testid="button-upload-csv"
       >
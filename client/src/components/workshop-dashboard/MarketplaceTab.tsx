@@ -11,13 +11,13 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { ShoppingCart, Search, Store, Package, Plus, Minus, Trash2, CreditCard, MapPin, Filter } from "lucide-react";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { useTaxonomy } from "@/hooks/api/useTaxonomy";
 import type { Part, Supplier } from "@shared/schema";
 
 interface MarketplaceTabProps {
   workshopId: string;
 }
 
-const PRODUCT_CATEGORIES = ['All', 'OEM', 'Lubricant', 'Battery', 'Tyre', 'Tools', 'Accessories', 'Other'] as const;
 const MALAYSIAN_STATES = ['All States', 'Johor', 'Kedah', 'Kelantan', 'Melaka', 'Negeri Sembilan', 'Pahang', 'Perak', 'Perlis', 'Pulau Pinang', 'Sabah', 'Sarawak', 'Selangor', 'Terengganu', 'Kuala Lumpur', 'Labuan', 'Putrajaya'] as const;
 
 export default function MarketplaceTab({ workshopId }: MarketplaceTabProps) {
@@ -26,6 +26,7 @@ export default function MarketplaceTab({ workshopId }: MarketplaceTabProps) {
   const [selectedState, setSelectedState] = useState<string>('All States');
   const [isCartOpen, setIsCartOpen] = useState(false);
   const { toast } = useToast();
+  const { data: taxonomy } = useTaxonomy();
 
   // Fetch all parts
   const { data: allParts, isLoading: partsLoading } = useQuery<Part[]>({
@@ -58,13 +59,13 @@ export default function MarketplaceTab({ workshopId }: MarketplaceTabProps) {
 
   // Add to cart mutation
   const addToCartMutation = useMutation({
-    mutationFn: async ({ partId, supplierId, quantity }: { partId: string; supplierId: string; quantity: number }) => {
-      return apiRequest('/api/cart/items', {
+    mutationFn: async ({ partId, quantity }: { partId: string; supplierId: string; quantity: number }) => {
+      return apiRequest('/api/marketplace/cart/items', {
         method: 'POST',
         headers: {
           "Content-Type": "application/json",
         },
-        body: JSON.stringify({ partId, supplierId, quantity, deliveryType: 'runner' }),
+        body: JSON.stringify({ partId, quantity, source: 'marketplace_search' }),
       });
     },
     onSuccess: () => {
@@ -79,7 +80,7 @@ export default function MarketplaceTab({ workshopId }: MarketplaceTabProps) {
   // Update cart item mutation
   const updateCartItemMutation = useMutation({
     mutationFn: async ({ id, quantity }: { id: string; quantity: number }) => {
-      return apiRequest(`/api/cart/items/${id}`, {
+      return apiRequest(`/api/marketplace/cart/items/${id}`, {
         method: 'PATCH',
         headers: {
           "Content-Type": "application/json",
@@ -114,21 +115,24 @@ export default function MarketplaceTab({ workshopId }: MarketplaceTabProps) {
   // Checkout mutation
   const checkoutMutation = useMutation({
     mutationFn: async () => {
-      return apiRequest('/api/cart/checkout', {
+      return apiRequest<{ orders: any[] }>('/api/marketplace/cart/checkout', {
         method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ deliveryType: 'runner', paymentMethod: 'wallet' }),
       });
     },
-    onSuccess: (data: any) => {
+    onSuccess: (data) => {
       queryClient.invalidateQueries({ queryKey: ['/api/cart'] });
       queryClient.invalidateQueries({ queryKey: ['/api/orders'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/wallet/balance'] });
       setIsCartOpen(false);
       toast({ 
         title: "Success", 
         description: `${data.orders.length} order(s) created successfully` 
       });
     },
-    onError: () => {
-      toast({ title: "Error", description: "Failed to complete checkout", variant: "destructive" });
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message || "Failed to complete checkout", variant: "destructive" });
     },
   });
 
@@ -197,9 +201,10 @@ export default function MarketplaceTab({ workshopId }: MarketplaceTabProps) {
                 <SelectValue placeholder="Category" />
               </SelectTrigger>
               <SelectContent>
-                {PRODUCT_CATEGORIES.map(cat => (
-                  <SelectItem key={cat} value={cat} data-testid={`option-category-${cat}`}>
-                    {cat}
+                <SelectItem value="All" data-testid="option-category-All">All</SelectItem>
+                {taxonomy?.categories.map(cat => (
+                  <SelectItem key={cat.id} value={cat.labelEn} data-testid={`option-category-${cat.slug}`}>
+                    {cat.labelEn}
                   </SelectItem>
                 ))}
               </SelectContent>
@@ -416,6 +416,35 @@ const translations: Record<Language, any> = {
           actions: "Tindakan",
         },
       },
+      savedLists: {
+        title: "Senarai Simpanan",
+        subtitle: "Senarai alat ganti yang kerap dibeli, merentas pembekal",
+        newListPlaceholder: "cth. Kit servis Myvi 10k",
+        createList: "Cipta Senarai",
+        noLists: "Tiada senarai lagi",
+        emptyList: "Senarai ini kosong. Simpan alat ganti dari halaman produk.",
+        selectList: "Pilih senarai untuk melihat harga dan stok semasa",
+        chooseList: "Pilih senarai",
+        items: "item",
+        part: "Alat Ganti",
+        supplier: "Pembekal",
+        qty: "Ktt",
+        price: "Harga",
+        stock: "Stok",
+        unavailable: "Tiada",
+        priceDropped: "Turun RM{amount}",
+        total: "Jumlah",
+        addAllToCart: "Tambah Semua ke Troli",
+        deleteList: "Padam Senarai",
+        saveToList: "Simpan ke Senarai",
+        toasts: {
+          listCreated: "Senarai dicipta",
+          saved: "Disimpan ke senarai",
+          addedToCart: "{count} item ditambah ke troli",
+          someSkipped: "Sebahagian item tiada stok dan tidak ditambah sepenuhnya",
+          failed: "Tindakan gagal",
+        },
+      },
       cart: {
         checkout: "Daftar Keluar",
         reviewOrder: "Semak pesanan anda dan lengkapkan pembelian",
@@ -423,6 +452,10 @@ const translations: Record<Language, any> = {
         addPartsPrompt: "Tambah alat ganti dari marketplace",
         browseMarketplace: "Layari Marketplace",
         orderItems: "Item Pesanan",
+        frequentlyBoughtTogether: "Kerap Dibeli Bersama",
+        frequentlyBoughtTogetherDesc: "Bengkel lain yang membeli alat ganti ini turut membeli",
+        addRecommendation: "Tambah",
+        recommendationAdded: "Ditambah ke troli",
         supplierOrder: "Pesanan Pembekal",
         suppliers: "pembekal",
         items: "item",
@@ -459,12 +492,18 @@ const translations: Record<Language, any> = {
         free: "Percuma",
         calculating: "Mengira...",
         total: "Jumlah",
+        voucherPlaceholder: "Kod baucar",
+        applyVoucher: "Guna",
+        removeVoucher: "Buang",
+        voucherDiscount: "Diskaun Baucar",
         insufficientBalance: "Baki dompet tidak mencukupi. Sila tambah nilai atau pilih kaedah pembayaran lain.",
         calculatingDelivery: "Mengira Penghantaran...",
         processing: "Memproses...",
         placeOrder: "Buat Pesanan",
         termsAgreement: "Dengan membuat pesanan ini, anda bersetuju dengan terma dan syarat kami",
         toasts: {
+          voucherApplied: "Baucar digunakan",
+          voucherInvalid: "Baucar tidak boleh digunakan",
           addressRequired: "Alamat penghantaran diperlukan",
           addressRequiredDesc: "Sila masukkan alamat penghantaran untuk penghantaran runner",
           calculatingCharge: "Mengira caj penghantaran",
@@ -485,6 +524,86 @@ const translations: Record<Language, any> = {
         title: "Dashboard Admin",
         subtitle: "Urus platform dan pengguna",
       },
+      taxonomy: {
+        title: "Taksonomi Katalog",
+        subtitle: "Jenama, model, kategori dan sub-kategori yang digunakan di seluruh marketplace",
+        brands: "Jenama & Model",
+        categories: "Kategori",
+        unmapped: "Tidak Dipetakan",
+        labelEn: "Label (English)",
+        labelMs: "Label (Melayu)",
+        aliases: "Alias (dipisahkan koma)",
+        partCategory: "Kategori Alat Ganti",
+        addBrand: "Tambah Jenama",
+        addModel: "Tambah Model",
+        addCategory: "Tambah Kategori",
+        addSubcategory: "Tambah Sub-kategori",
+        active: "Aktif",
+        delete: "Padam",
+        confirmDelete: "Padam istilah ini berserta semua istilah di bawahnya?",
+        unmappedCategories: "Kategori tanpa padanan",
+        unmappedMakes: "Jenama kenderaan tanpa padanan",
+        unmappedHint: "Tambah istilah atau alias supaya nilai ini dipetakan semasa import dan suntingan produk.",
+        listings: "senarai",
+        nothingUnmapped: "Semua nilai dipetakan",
+        toasts: {
+          saved: "Taksonomi dikemas kini",
+          failed: "Gagal mengemas kini taksonomi",
+        },
+      },
+      moderation: {
+        title: "Moderasi Senarai",
+        subtitle: "Semak produk baharu dan yang disunting sebelum ia dipaparkan di marketplace",
+        pending: "Menunggu",
+        rejected: "Ditolak",
+        approved: "Diluluskan",
+        empty: "Tiada senarai dalam baris gilir",
+        supplier: "Pembekal",
+        unverified: "Belum disahkan",
+        flags: "Sebab",
+        reason: "Sebab (wajib untuk penolakan)",
+        approve: "Luluskan",
+        reject: "Tolak",
+        reasonRequired: "Sila nyatakan sebab penolakan",
+        flagLabels: {
+          unverified_supplier: "Pembekal belum disahkan",
+          price_out_of_range: "Harga di luar julat",
+          price_outlier: "Harga luar biasa untuk kategori",
+          keyword: "Kata kunci",
+        },
+        toasts: {
+          approved: "Senarai diluluskan",
+          rejected: "Senarai ditolak",
+          failed: "Gagal menyimpan keputusan",
+        },
+      },
+      reviews: {
+        title: "Moderasi Ulasan",
+        subtitle: "Ulasan yang ditahan secara automatik atau dilaporkan oleh pengguna",
+        held: "Ditahan",
+        reported: "Dilaporkan",
+        hidden: "Disembunyikan",
+        empty: "Tiada ulasan dalam baris gilir",
+        reviewer: "Pengulas",
+        accountCreated: "Akaun dibuat {date}",
+        target: "Sasaran",
+        holdReasons: "Sebab ditahan",
+        reports: "Laporan ({count})",
+        note: "Nota (pilihan)",
+        hide: "Sembunyikan",
+        restore: "Pulihkan",
+        holdReasonLabels: {
+          phone_number: "Nombor telefon",
+          profanity: "Kata kesat",
+          review_burst: "Lonjakan ulasan akaun baharu",
+          reported: "Banyak laporan",
+        },
+        toasts: {
+          hidden: "Ulasan disembunyikan",
+          restored: "Ulasan dipulihkan",
+          failed: "Gagal menyimpan keputusan",
+        },
+      },
     },
     supplier: {
       dashboard: {
@@ -492,30 +611,9 @@ const translations: Record<Language, any> = {
         subtitle: "Urus produk dan pesanan",
         accessDenied: "Akses Ditolak",
         needSupplierRole: "Anda perlu menjadi pembekal untuk mengakses halaman ini.",
-        categories: {
-          oem: "OEM",
-          lubricant: "Pelincir",
-          battery: "Bateri",
-          tyre: "Tayar",
-          tools: "Alatan",
-          accessories: "Aksesori",
-          other: "Lain-lain",
-          engine: "Enjin",
-          transmission: "Transmisi",
-          brake: "Brek",
-          suspension: "Suspensi",
-          electrical: "Elektrik",
-          cooling: "Penyejukan",
-          body: "Badan",
-          interior: "Dalaman",
-          exterior: "Luaran",
-          wheel: "Roda",
-          filters: "Penapis",
-          ignition: "Pencucuhan",
-          fluids: "Cecair",
-        },
         validation: {
           productNameRequired: "Nama produk diperlukan",
+          categoryRequired: "Kategori diperlukan",
           priceGreaterThanZero: "Harga mesti lebih besar daripada 0",
           stockMinZero: "Stok mesti 0 atau lebih besar",
           validUrl: "Mestilah URL yang sah",
@@ -525,6 +623,7 @@ const translations: Record<Language, any> = {
           success: "Berjaya",
           error: "Ralat",
           productCreated: "Produk berjaya dicipta",
+          possibleDuplicates: "Produk ini mungkin sudah disenaraikan",
           productCreateFailed: "Gagal mencipta produk",
           productUpdated: "Produk berjaya dikemas kini",
           productUpdateFailed: "Gagal mengemas kini produk",
@@ -580,11 +679,74 @@ const translations: Record<Language, any> = {
           incomingOrders: "Pesanan Masuk",
           incomingOrdersDesc: "Urus pesanan daripada bengkel",
           lowStock: "Stok Rendah",
+          pendingReview: "Menunggu Semakan",
+          rejected: "Ditolak",
         },
         tabs: {
           products: "Produk",
           orders: "Pesanan",
           messages: "Mesej",
+          questions: "Soalan",
+          analytics: "Analitik",
+          duplicates: "Pendua",
+        },
+        duplicates: {
+          title: "Senarai Pendua",
+          desc: "Produk anda yang kelihatan seperti alat ganti yang sama. Gabungkan untuk menyimpan satu senarai; sejarah pesanan dikekalkan.",
+          empty: "Tiada senarai pendua ditemui.",
+          stock: "Stok {count}",
+          keep: "Simpan #{code}",
+          merge: "Gabung",
+          confirmTitle: "Gabungkan senarai?",
+          confirmDesc: "#{duplicate} akan ditutup dan stok, troli, ulasan serta soalannya dipindahkan ke #{keep}. Pesanan lama tidak berubah.",
+          merged: "Senarai digabungkan",
+          mergeFailed: "Gagal menggabungkan senarai",
+          signals: {
+            sku: "SKU sama",
+            part_number: "Nombor alat ganti sama",
+            name: "Nama serupa",
+            fitment: "Kenderaan sama",
+            image: "Gambar serupa",
+          },
+        },
+        analytics: {
+          title: "Prestasi Kedai",
+          desc: "Dikemas kini setiap malam. Data terkini ialah semalam.",
+          range: "{from} hingga {to}",
+          last7: "7 hari",
+          last30: "30 hari",
+          last90: "90 hari",
+          storeViews: "Lawatan Kedai",
+          searchImpressions: "Paparan Carian",
+          productViews: "Lawatan Produk",
+          addToCarts: "Tambah ke Troli",
+          orders: "Pesanan",
+          revenue: "Hasil",
+          viewToCart: "{rate}% lawatan produk ditambah ke troli",
+          cartToOrder: "{rate}% tambahan troli menjadi pesanan",
+          products: "Penukaran Produk",
+          product: "Produk",
+          unitsSold: "Unit Dijual",
+          conversion: "Penukaran",
+          noProducts: "Tiada aktiviti produk dalam tempoh ini",
+          notFoundInStore: "Dicari di kedai anda tetapi tiada hasil",
+          notFoundInMarketplace: "Dicari di pasaran tetapi tiada hasil",
+          noTerms: "Tiada carian tanpa hasil",
+          searches: "{count} carian",
+        },
+        questions: {
+          title: "Soalan Produk",
+          desc: "Jawapan anda dipaparkan kepada semua pembeli di halaman produk",
+          unanswered: "Belum Dijawab",
+          answered: "Dijawab",
+          empty: "Tiada soalan",
+          from: "Daripada {name}",
+          answerPlaceholder: "Tulis jawapan anda...",
+          submit: "Hantar Jawapan",
+          update: "Kemas Kini Jawapan",
+          delete: "Padam",
+          saved: "Jawapan disimpan",
+          failed: "Gagal menyimpan jawapan",
         },
         alert: {
           pendingApproval: "Menunggu Kelulusan Admin",
@@ -608,11 +770,29 @@ const translations: Record<Language, any> = {
         aiImageUpload: "Muat Naik Gambar AI",
       },
       csvUpload: {
-        title: "Muat Naik Fail CSV",
-        description: "Import berbilang produk sekaligus menggunakan format CSV",
+        title: "Muat Naik Fail CSV / Excel",
+        description: "Tambah atau kemas kini berbilang produk sekaligus. Produk dipadankan mengikut SKU atau kod GarageHub.",
         downloadTemplate: "Muat Turun Templat",
-        selectFile: "Pilih Fail CSV",
-        preview: "Pratonton (5 baris pertama)",
+        exportCsv: "Eksport Katalog (CSV)",
+        exportXlsx: "Eksport Katalog (Excel)",
+        selectFile: "Pilih Fail CSV atau XLSX",
+        preview: "Pratonton Perubahan (belum disimpan)",
+        result: "Keputusan Import",
+        checking: "Menyemak fail...",
+        downloadErrorReport: "Muat Turun Laporan Ralat",
+        moreRows: "lagi produk dengan perubahan",
+        possibleDuplicates: "mungkin pendua",
+        duplicateOfListing: "Mungkin pendua bagi {name}",
+        duplicateOfRow: "Mungkin pendua bagi produk baru di baris {row}",
+        tableRow: "Baris",
+        tableAction: "Tindakan",
+        tableChanges: "Perubahan",
+        actions: {
+          create: "baru",
+          update: "dikemas kini",
+          unchanged: "tiada perubahan",
+          error: "ralat",
+        },
         tableName: "Nama",
         tableSKU: "SKU",
         tableCategory: "Kategori",
@@ -622,11 +802,11 @@ const translations: Record<Language, any> = {
         importProducts: "Import Produk",
         toasts: {
           invalidFileTitle: "Fail Tidak Sah",
-          invalidFileDesc: "Sila muat naik fail CSV",
+          invalidFileDesc: "Sila muat naik fail CSV atau XLSX",
           noFileTitle: "Tiada Fail",
-          noFileDesc: "Sila pilih fail CSV untuk dimuat naik",
+          noFileDesc: "Sila pilih fail CSV atau XLSX untuk dimuat naik",
           successTitle: "Berjaya",
-          successDesc: "produk diimport dengan jayanya",
+          successDesc: "produk ditambah atau dikemas kini",
           uploadFailedTitle: "Muat Naik Gagal",
           uploadFailedDesc: "Gagal mengimport CSV. Sila semak format fail anda.",
         },
@@ -674,6 +854,63 @@ const translations: Record<Language, any> = {
       runnerDelivery: "Penghantaran Runner",
       calculated: "Dikira",
       runnerDeliveryDesc: "Runner akan hantar terus ke lokasi anda",
+      backorder: "Boleh Ditempah",
+      expectedRestock: "Jangkaan stok masuk: {date}",
+      willBackorder: "{count} unit akan ditempah dan dihantar apabila stok tiba",
+      notifyRestock: "Maklumkan Apabila Ada Stok",
+      autoAddRestock: "Tambah ke troli secara automatik apabila stok tiba",
+      restockSubscribed: "Kami akan memaklumkan anda apabila produk ini ada stok",
+      restockSubscribeFailed: "Gagal melanggan makluman stok",
+      questions: {
+        title: "Soalan & Jawapan",
+        empty: "Belum ada soalan. Tanya pembekal tentang keserasian atau spesifikasi.",
+        askPlaceholder: "Tanya tentang keserasian, saiz atau spesifikasi...",
+        ask: "Tanya",
+        askedBy: "Ditanya oleh {name}",
+        awaitingAnswer: "Menunggu jawapan pembekal",
+        answer: "Jawapan pembekal",
+        asked: "Soalan anda telah dihantar kepada pembekal",
+        askFailed: "Gagal menghantar soalan",
+      },
+    },
+    reviews: {
+      title: "Ulasan",
+      count: "({count} ulasan)",
+      empty: "Belum ada ulasan.",
+      verified: "Pembelian disahkan",
+      write: "Tulis ulasan",
+      commentPlaceholder: "Kongsi pengalaman anda (sekurang-kurangnya 10 aksara)...",
+      addPhoto: "Tambah foto",
+      photoFailed: "Gagal memuat naik foto",
+      submit: "Hantar ulasan",
+      submitted: "Terima kasih atas ulasan anda",
+      submitFailed: "Gagal menghantar ulasan",
+      delete: "Padam ulasan",
+      ownerReply: "Balasan peniaga",
+      replyPlaceholder: "Balas ulasan ini secara terbuka...",
+      reply: "Balas",
+      updateReply: "Kemas kini balasan",
+      replySaved: "Balasan disimpan",
+      replyFailed: "Gagal menyimpan balasan",
+      status: {
+        held: "Dalam semakan",
+        hidden: "Disembunyikan oleh moderator",
+      },
+      report: {
+        title: "Laporkan ulasan",
+        reasonPlaceholder: "Pilih sebab",
+        detailsPlaceholder: "Butiran tambahan (pilihan)",
+        submit: "Hantar laporan",
+        sent: "Terima kasih, laporan anda akan disemak",
+        failed: "Gagal menghantar laporan",
+        reasons: {
+          fake: "Ulasan palsu",
+          abusive: "Kesat atau menghina",
+          spam: "Spam atau iklan",
+          conflict_of_interest: "Ditulis oleh pesaing atau pemilik",
+          other: "Lain-lain",
+        },
+      },
     },
     towing: {
       dashboard: {
@@ -1095,6 +1332,35 @@ const translations: Record<Language, any> = {
           actions: "Actions",
         },
       },
+      savedLists: {
+        title: "Saved Lists",
+        subtitle: "Parts you buy regularly, across suppliers",
+        newListPlaceholder: "e.g. Myvi 10k service kit",
+        createList: "Create List",
+        noLists: "No lists yet",
+        emptyList: "This list is empty. Save parts from a product page.",
+        selectList: "Select a list to see current prices and stock",
+        chooseList: "Choose a list",
+        items: "items",
+        part: "Part",
+        supplier: "Supplier",
+        qty: "Qty",
+        price: "Price",
+        stock: "Stock",
+        unavailable: "Unavailable",
+        priceDropped: "RM{amount} cheaper",
+        total: "Total",
+        addAllToCart: "Add All to Cart",
+        deleteList: "Delete List",
+        saveToList: "Save to List",
+        toasts: {
+          listCreated: "List created",
+          saved: "Saved to list",
+          addedToCart: "{count} item(s) added to cart",
+          someSkipped: "Some items are out of stock and were not fully added",
+          failed: "Action failed",
+        },
+      },
       cart: {
         checkout: "Checkout",
         reviewOrder: "Review your order and complete purchase",
@@ -1102,6 +1368,10 @@ const translations: Record<Language, any> = {
         addPartsPrompt: "Add some parts from the marketplace",
         browseMarketplace: "Browse Marketplace",
         orderItems: "Order Items",
+        frequentlyBoughtTogether: "Frequently Bought Together",
+        frequentlyBoughtTogetherDesc: "Workshops that bought these parts also bought",
+        addRecommendation: "Add",
+        recommendationAdded: "Added to cart",
         supplierOrder: "Supplier Order",
         suppliers: "supplier(s)",
         items: "item(s)",
@@ -1138,12 +1408,18 @@ const translations: Record<Language, any> = {
         free: "Free",
         calculating: "Calculating...",
         total: "Total",
+        voucherPlaceholder: "Voucher code",
+        applyVoucher: "Apply",
+        removeVoucher: "Remove",
+        voucherDiscount: "Voucher Discount",
         insufficientBalance: "Insufficient wallet balance. Please top up or choose another payment method.",
         calculatingDelivery: "Calculating Delivery...",
         processing: "Processing...",
         placeOrder: "Place Order",
         termsAgreement: "By placing this order, you agree to our terms and conditions",
         toasts: {
+          voucherApplied: "Voucher applied",
+          voucherInvalid: "Voucher cannot be used",
           addressRequired: "Delivery address required",
           addressRequiredDesc: "Please enter a delivery address for runner delivery",
           calculatingCharge: "Calculating delivery charge",
@@ -1164,6 +1440,86 @@ const translations: Record<Language, any> = {
         title: "Admin Dashboard",
         subtitle: "Manage platform and users",
       },
+      taxonomy: {
+        title: "Catalogue Taxonomy",
+        subtitle: "Brands, models, categories and sub-categories used across the marketplace",
+        brands: "Brands & Models",
+        categories: "Categories",
+        unmapped: "Unmapped",
+        labelEn: "Label (English)",
+        labelMs: "Label (Malay)",
+        aliases: "Aliases (comma separated)",
+        partCategory: "Part Category",
+        addBrand: "Add Brand",
+        addModel: "Add Model",
+        addCategory: "Add Category",
+        addSubcategory: "Add Sub-category",
+        active: "Active",
+        delete: "Delete",
+        confirmDelete: "Delete this term and everything under it?",
+        unmappedCategories: "Categories without a match",
+        unmappedMakes: "Vehicle makes without a match",
+        unmappedHint: "Add a term or alias so these values are mapped on import and product edits.",
+        listings: "listings",
+        nothingUnmapped: "Everything is mapped",
+        toasts: {
+          saved: "Taxonomy updated",
+          failed: "Failed to update taxonomy",
+        },
+      },
+      moderation: {
+        title: "Listing Moderation",
+        subtitle: "Review new and edited products before they appear in the marketplace",
+        pending: "Pending",
+        rejected: "Rejected",
+        approved: "Approved",
+        empty: "No listings in the queue",
+        supplier: "Supplier",
+        unverified: "Unverified",
+        flags: "Flags",
+        reason: "Reason (required to reject)",
+        approve: "Approve",
+        reject: "Reject",
+        reasonRequired: "Please give a reason for rejecting",
+        flagLabels: {
+          unverified_supplier: "Unverified supplier",
+          price_out_of_range: "Price out of range",
+          price_outlier: "Unusual price for category",
+          keyword: "Keyword",
+        },
+        toasts: {
+          approved: "Listing approved",
+          rejected: "Listing rejected",
+          failed: "Failed to save decision",
+        },
+      },
+      reviews: {
+        title: "Review Moderation",
+        subtitle: "Reviews held automatically or reported by users",
+        held: "Held",
+        reported: "Reported",
+        hidden: "Hidden",
+        empty: "No reviews in the queue",
+        reviewer: "Reviewer",
+        accountCreated: "Account created {date}",
+        target: "Target",
+        holdReasons: "Held because",
+        reports: "Reports ({count})",
+        note: "Note (optional)",
+        hide: "Hide",
+        restore: "Restore",
+        holdReasonLabels: {
+          phone_number: "Phone number",
+          profanity: "Profanity",
+          review_burst: "Burst from new accounts",
+          reported: "Multiple reports",
+        },
+        toasts: {
+          hidden: "Review hidden",
+          restored: "Review restored",
+          failed: "Failed to save decision",
+        },
+      },
     },
     supplier: {
       dashboard: {
@@ -1171,30 +1527,9 @@ const translations: Record<Language, any> = {
         subtitle: "Manage products and orders",
         accessDenied: "Access Denied",
         needSupplierRole: "You need to be a supplier to access this page.",
-        categories: {
-          oem: "OEM",
-          lubricant: "Lubricant",
-          battery: "Battery",
-          tyre: "Tyre",
-          tools: "Tools",
-          accessories: "Accessories",
-          other: "Other",
-          engine: "Engine",
-          transmission: "Transmission",
-          brake: "Brake",
-          suspension: "Suspension",
-          electrical: "Electrical",
-          cooling: "Cooling",
-          body: "Body",
-          interior: "Interior",
-          exterior: "Exterior",
-          wheel: "Wheel",
-          filters: "Filters",
-          ignition: "Ignition",
-          fluids: "Fluids",
-        },
         validation: {
           productNameRequired: "Product name is required",
+          categoryRequired: "Category is required",
           priceGreaterThanZero: "Price must be greater than 0",
           stockMinZero: "Stock must be 0 or greater",
           validUrl: "Must be a valid URL",
@@ -1204,6 +1539,7 @@ const translations: Record<Language, any> = {
           success: "Success",
           error: "Error",
           productCreated: "Product created successfully",
+          possibleDuplicates: "This product may already be listed",
           productCreateFailed: "Failed to create product",
           productUpdated: "Product updated successfully",
           productUpdateFailed: "Failed to update product",
@@ -1259,11 +1595,74 @@ const translations: Record<Language, any> = {
           incomingOrders: "Incoming Orders",
           incomingOrdersDesc: "Manage orders from workshops",
           lowStock: "Low Stock",
+          pendingReview: "Pending Review",
+          rejected: "Rejected",
         },
         tabs: {
           products: "Products",
           orders: "Orders",
           messages: "Messages",
+          questions: "Questions",
+          analytics: "Analytics",
+          duplicates: "Duplicates",
+        },
+        duplicates: {
+          title: "Duplicate Listings",
+          desc: "Your products that look like the same part. Merge them to keep one listing; order history is preserved.",
+          empty: "No duplicate listings found.",
+          stock: "Stock {count}",
+          keep: "Keep #{code}",
+          merge: "Merge",
+          confirmTitle: "Merge listings?",
+          confirmDesc: "#{duplicate} will be closed and its stock, carts, reviews and questions moved to #{keep}. Past orders are unchanged.",
+          merged: "Listings merged",
+          mergeFailed: "Failed to merge listings",
+          signals: {
+            sku: "Same SKU",
+            part_number: "Same part number",
+            name: "Similar name",
+            fitment: "Same vehicle",
+            image: "Similar photo",
+          },
+        },
+        analytics: {
+          title: "Store Performance",
+          desc: "Updated nightly. The latest data is from yesterday.",
+          range: "{from} to {to}",
+          last7: "7 days",
+          last30: "30 days",
+          last90: "90 days",
+          storeViews: "Store Views",
+          searchImpressions: "Search Impressions",
+          productViews: "Product Views",
+          addToCarts: "Add to Cart",
+          orders: "Orders",
+          revenue: "Revenue",
+          viewToCart: "{rate}% of product views added to cart",
+          cartToOrder: "{rate}% of cart adds became orders",
+          products: "Product Conversion",
+          product: "Product",
+          unitsSold: "Units Sold",
+          conversion: "Conversion",
+          noProducts: "No product activity in this period",
+          notFoundInStore: "Searched in your store with no results",
+          notFoundInMarketplace: "Searched in the marketplace with no results",
+          noTerms: "No zero-result searches",
+          searches: "{count} searches",
+        },
+        questions: {
+          title: "Product Questions",
+          desc: "Your answers are shown to every buyer on the product page",
+          unanswered: "Unanswered",
+          answered: "Answered",
+          empty: "No questions",
+          from: "From {name}",
+          answerPlaceholder: "Write your answer...",
+          submit: "Post Answer",
+          update: "Update Answer",
+          delete: "Delete",
+          saved: "Answer saved",
+          failed: "Failed to save answer",
         },
         alert: {
           pendingApproval: "Pending Admin Approval",
@@ -1287,11 +1686,29 @@ const translations: Record<Language, any> = {
         aiImageUpload: "AI Image Upload",
       },
       csvUpload: {
-        title: "Upload CSV File",
-        description: "Import multiple products at once using CSV format",
+        title: "Upload CSV / Excel File",
+        description: "Add or update many products at once. Products are matched by SKU or GarageHub code.",
         downloadTemplate: "Download Template",
-        selectFile: "Select CSV File",
-        preview: "Preview (first 5 rows)",
+        exportCsv: "Export Catalogue (CSV)",
+        exportXlsx: "Export Catalogue (Excel)",
+        selectFile: "Select CSV or XLSX File",
+        preview: "Preview of Changes (not saved yet)",
+        result: "Import Result",
+        checking: "Checking file...",
+        downloadErrorReport: "Download Error Report",
+        moreRows: "more products with changes",
+        possibleDuplicates: "possible duplicates",
+        duplicateOfListing: "Possible duplicate of {name}",
+        duplicateOfRow: "Possible duplicate of the new product on row {row}",
+        tableRow: "Row",
+        tableAction: "Action",
+        tableChanges: "Changes",
+        actions: {
+          create: "new",
+          update: "updated",
+          unchanged: "unchanged",
+          error: "errors",
+        },
         tableName: "Name",
         tableSKU: "SKU",
         tableCategory: "Category",
@@ -1301,11 +1718,11 @@ const translations: Record<Language, any> = {
         importProducts: "Import Products",
         toasts: {
           invalidFileTitle: "Invalid File",
-          invalidFileDesc: "Please upload a CSV file",
+          invalidFileDesc: "Please upload a CSV or XLSX file",
           noFileTitle: "No File",
-          noFileDesc: "Please select a CSV file to upload",
+          noFileDesc: "Please select a CSV or XLSX file to upload",
           successTitle: "Success",
-          successDesc: "products imported successfully",
+          successDesc: "products added or updated",
           uploadFailedTitle: "Upload Failed",
           uploadFailedDesc: "Failed to import CSV. Please check your file format.",
         },
@@ -1353,6 +1770,63 @@ const translations: Record<Language, any> = {
       runnerDelivery: "Runner Delivery",
       calculated: "Calculated",
       runnerDeliveryDesc: "Runner will deliver directly to your location",
+      backorder: "Available on Backorder",
+      expectedRestock: "Expected restock: {date}",
+      willBackorder: "{count} unit(s) will be backordered and shipped when stock arrives",
+      notifyRestock: "Notify Me When In Stock",
+      autoAddRestock: "Add to my cart automatically when stock arrives",
+      restockSubscribed: "We'll let you know when this product is back in stock",
+      restockSubscribeFailed: "Failed to subscribe to restock alerts",
+      questions: {
+        title: "Questions & Answers",
+        empty: "No questions yet. Ask the supplier about fitment or specifications.",
+        askPlaceholder: "Ask about fitment, sizes or specifications...",
+        ask: "Ask",
+        askedBy: "Asked by {name}",
+        awaitingAnswer: "Awaiting the supplier's answer",
+        answer: "Supplier's answer",
+        asked: "Your question was sent to the supplier",
+        askFailed: "Failed to send question",
+      },
+    },
+    reviews: {
+      title: "Reviews",
+      count: "({count} reviews)",
+      empty: "No reviews yet.",
+      verified: "Verified purchase",
+      write: "Write a review",
+      commentPlaceholder: "Share your experience (at least 10 characters)...",
+      addPhoto: "Add photo",
+      photoFailed: "Failed to upload photo",
+      submit: "Submit review",
+      submitted: "Thanks for your review",
+      submitFailed: "Failed to submit review",
+      delete: "Delete review",
+      ownerReply: "Response from the business",
+      replyPlaceholder: "Reply publicly to this review...",
+      reply: "Reply",
+      updateReply: "Update reply",
+      replySaved: "Reply saved",
+      replyFailed: "Failed to save reply",
+      status: {
+        held: "Under review",
+        hidden: "Hidden by a moderator",
+      },
+      report: {
+        title: "Report review",
+        reasonPlaceholder: "Choose a reason",
+        detailsPlaceholder: "Additional details (optional)",
+        submit: "Send report",
+        sent: "Thanks, your report will be reviewed",
+        failed: "Failed to send report",
+        reasons: {
+          fake: "Fake review",
+          abusive: "Abusive or offensive",
+          spam: "Spam or advertising",
+          conflict_of_interest: "Written by a competitor or the owner",
+          other: "Other",
+        },
+      },
     },
     towing: {
       dashboard: {
@@ -0,0 +1,61 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import type { MergeListing, Part } from "@shared/schema";
+
+export type DuplicateSignal = 'sku' | 'part_number' | 'name' | 'fitment' | 'image';
+
+type ListingSummary = Pick<Part, 'id' | 'garagehubCode' | 'name' | 'sku' | 'price' | 'stockQuantity' | 'moderationStatus'> & { createdAt: string | null };
+
+// Pair of the supplier's own listings (GET /api/marketplace/suppliers/:id/duplicates), older listing first
+export interface SupplierDuplicatePair {
+  listing: ListingSummary;
+  duplicate: ListingSummary;
+  score: number;
+  signals: DuplicateSignal[];
+  imageSimilarity?: number;
+}
+
+// Listing that looks like a given one (GET /api/marketplace/suppliers/:id/products/:partId/duplicates)
+export interface DuplicateCandidate {
+  partId: string;
+  supplierId: string;
+  supplierName: string;
+  sameSupplier: boolean;
+  garagehubCode: string;
+  name: string;
+  sku: string | null;
+  moderationStatus: Part['moderationStatus'];
+  score: number;
+  signals: DuplicateSignal[];
+  imageSimilarity?: number;
+}
+
+export function useSupplierDuplicates(supplierId: string | undefined) {
+  return useQuery<SupplierDuplicatePair[]>({
+    queryKey: ['/api/marketplace/suppliers', supplierId, 'duplicates'],
+    enabled: !!supplierId,
+  });
+}
+
+export function useListingDuplicates(supplierId: string | undefined, partId: string | undefined) {
+  return useQuery<DuplicateCandidate[]>({
+    queryKey: ['/api/marketplace/suppliers', supplierId, 'products', partId, 'duplicates'],
+    enabled: !!supplierId && !!partId,
+  });
+}
+
+export function useMergeListing(supplierId: string) {
+  return useMutation({
+    mutationFn: async ({ keepId, data }: { keepId: string; data: MergeListing }) => {
+      return apiRequest<{ kept: Part; merged: Part }>(`/api/marketplace/suppliers/${supplierId}/products/${keepId}/merge`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(data),
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/marketplace/suppliers', supplierId] });
+      queryClient.invalidateQueries({ queryKey: ['/api/parts'] });
+    },
+  });
+}
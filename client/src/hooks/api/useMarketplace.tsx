@@ -0,0 +1,110 @@
+import { useInfiniteQuery } from "@tanstack/react-query";
+import type { CursorPage, Part, Supplier } from "@shared/schema";
+
+const DEFAULT_LIMIT = 24;
+
+type QueryParams = Record<string, string | number | boolean | undefined | null>;
+
+// Fetch one page of a cursor-paginated endpoint ({ items, nextCursor } contract)
+async function fetchCursorPage<T>(url: string, params: QueryParams, cursor: string | null): Promise<T> {
+  const search = new URLSearchParams();
+  for (const [key, value] of Object.entries(params)) {
+    if (value !== undefined && value !== null && value !== '' && value !== false) {
+      search.append(key, String(value));
+    }
+  }
+  if (cursor) search.append('cursor', cursor);
+
+  const response = await fetch(`${url}?${search}`, { credentials: "include" });
+  if (!response.ok) {
+    const text = (await response.text()) || response.statusText;
+    throw new Error(`${response.status}: ${text}`);
+  }
+  return response.json();
+}
+
+export interface SupplierListParams {
+  type?: string;
+  state?: string;
+  q?: string;
+  sort?: string; // rating | newest | name | distance (with lat/lng), e.g. "rating:desc"
+  lat?: number;
+  lng?: number;
+  limit?: number;
+}
+
+export function useMarketplaceSuppliers(params: SupplierListParams) {
+  return useInfiniteQuery<CursorPage<Supplier>>({
+    queryKey: ['/api/marketplace/suppliers', params],
+    initialPageParam: null,
+    queryFn: ({ pageParam }) => fetchCursorPage<CursorPage<Supplier>>(
+      '/api/marketplace/suppliers',
+      { ...params, limit: params.limit ?? DEFAULT_LIMIT },
+      pageParam as string | null,
+    ),
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+  });
+}
+
+export interface FacetBucket {
+  value: string;
+  count: number;
+}
+
+export interface PartFacets {
+  vehicleMake: FacetBucket[];
+  vehicleModel: FacetBucket[];
+  partCategory: FacetBucket[];
+  category: FacetBucket[];
+  supplierType: FacetBucket[];
+  priceBand: FacetBucket[];
+  inStock: { inStock: number; outOfStock: number };
+}
+
+export interface SupplierProductParams {
+  q?: string;
+  brand?: string;
+  model?: string;
+  category?: string;
+  partCategory?: string;
+  inStock?: boolean;
+  minPrice?: number;
+  maxPrice?: number;
+  sort?: string; // price | newest | name | stock, e.g. "price:asc"
+  limit?: number;
+}
+
+export function useSupplierProducts(supplierId: string | undefined, params: SupplierProductParams) {
+  return useInfiniteQuery<CursorPage<Part> & { facets: PartFacets }>({
+    queryKey: ['/api/marketplace/suppliers', supplierId, 'products', params],
+    enabled: !!supplierId,
+    initialPageParam: null,
+    queryFn: ({ pageParam }) => fetchCursorPage<CursorPage<Part> & { facets: PartFacets }>(
+      `/api/marketplace/suppliers/${supplierId}/products`,
+      { ...params, inStock: params.inStock ? '1' : undefined, facets: '1', limit: params.limit ?? DEFAULT_LIMIT },
+      pageParam as string | null,
+    ),
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+  });
+}
+
+export interface ChatThread {
+  workshopId: string;
+  workshopName: string;
+  lastMessage: string;
+  lastMessageAt: Date;
+  unreadCount?: number;
+}
+
+export function useChatThreads(params: { sort?: string; limit?: number } = {}) {
+  return useInfiniteQuery<CursorPage<ChatThread>>({
+    queryKey: ['/api/marketplace/chat/threads', params],
+    initialPageParam: null,
+    queryFn: ({ pageParam }) => fetchCursorPage<CursorPage<ChatThread>>(
+      '/api/marketplace/chat/threads',
+      { ...params, limit: params.limit ?? DEFAULT_LIMIT },
+      pageParam as string | null,
+    ),
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+  });
+}
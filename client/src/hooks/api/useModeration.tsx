@@ -0,0 +1,29 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import type { ListingModerationDecision, ListingModerationStatus, Part } from "@shared/schema";
+
+// Response item of GET /api/marketplace/moderation/queue
+export interface ModerationQueueItem extends Part {
+  supplier: { id: string; name: string; isVerified: boolean; userId: string };
+}
+
+export function useModerationQueue(status: ListingModerationStatus = 'pending') {
+  return useQuery<ModerationQueueItem[]>({
+    queryKey: ['/api/marketplace/moderation/queue', { status }],
+  });
+}
+
+export function useModerateListing() {
+  return useMutation({
+    mutationFn: async ({ partId, decision }: { partId: string; decision: ListingModerationDecision }) => {
+      return apiRequest<Part>(`/api/marketplace/moderation/products/${partId}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(decision),
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/marketplace/moderation/queue'] });
+    },
+  });
+}
@@ -1,6 +1,49 @@
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { queryClient, apiRequest } from "@/lib/queryClient";
-import type { Part, InsertPart } from "@shared/schema";
+import type { Part, InsertPart, PartCategory, PartNumber, PartVariant, PartPriceTier } from "@shared/schema";
+import type { PublicProductQuestion } from "./useProductQuestions";
+
+// Response shape of GET /api/marketplace/fitment
+export interface FitmentResult {
+  vehicle: { make: string; model: string; yearFrom: number; yearTo: number };
+  total: number;
+  groups: Array<{
+    partCategory: PartCategory;
+    count: number;
+    parts: Array<Part & { supplier: { id: string; name: string; state: string; city: string; rating: string; isVerified: boolean } }>;
+  }>;
+  nextCursor: string | null;
+}
+
+// Response shape of GET /api/marketplace/search
+export interface PartSearchResult {
+  results: Array<Part & { score: number; supplier: { id: string; name: string; state: string; city: string } }>;
+  total: number;
+  page: number;
+  limit: number;
+  expandedTerms: string[][];
+}
+
+type SupplierSummary = { id: string; name: string; state: string; city: string; rating: string; isVerified: boolean };
+
+// Listing linked through the OEM/aftermarket part-number cross-reference
+export type CrossReferencePart = Part & { supplier: SupplierSummary; matchedNumbers: string[] };
+
+// Recommended listing: score is association confidence (summed over cart lines) or order count for popular parts
+export type RecommendedPart = Part & { supplier: SupplierSummary; score: number };
+
+// Response shape of GET /api/marketplace/products/:id
+export interface ProductDetail extends Part {
+  supplier: SupplierSummary;
+  variants: PartVariant[]; // Empty unless hasVariants - price/stockQuantity are then "from" price and total stock
+  priceTiers: PartPriceTier[]; // Quantity breaks; variantId null applies to every variant
+  partNumbers: PartNumber[];
+  otherSellers: CrossReferencePart[];
+  compatibleAlternatives: CrossReferencePart[];
+  frequentlyBoughtTogether: RecommendedPart[];
+  popularForVehicle: RecommendedPart[]; // Best sellers for the listing's vehicle make/model
+  questions: PublicProductQuestion[]; // Answered questions, plus the viewing workshop's own unanswered ones
+}
 
 export function useParts(supplierId?: string | null) {
   return useQuery<Part[]>({
@@ -10,6 +53,21 @@ export function useParts(supplierId?: string | null) {
   });
 }
 
+// Stock held by unpaid orders (Part.stockQuantity is the available stock)
+export interface ReservedStock {
+  partId: string;
+  variantId: string | null;
+  reservedQuantity: number;
+}
+
+export function useReservedStock(supplierId: string | undefined) {
+  return useQuery<ReservedStock[]>({
+    queryKey: ['/api/marketplace/suppliers', supplierId, 'reserved-stock'],
+    enabled: !!supplierId,
+    refetchInterval: 60 * 1000,
+  });
+}
+
 export function useCreatePart() {
   return useMutation({
     mutationFn: async (data: InsertPart) => {
@@ -65,3 +123,45 @@ export function useDeletePart() {
     },
   });
 }
+
+export function useFitmentParts(vehicle: { make: string; model: string; year?: number } | null) {
+  return useQuery<FitmentResult>({
+    queryKey: ['/api/marketplace/fitment', vehicle ?? {}],
+    enabled: !!vehicle?.make && !!vehicle?.model && !!vehicle?.year,
+  });
+}
+
+export function usePartSearch(params: { q: string; supplierId?: string; page?: number; limit?: number }) {
+  return useQuery<PartSearchResult>({
+    queryKey: ['/api/marketplace/search', params],
+    enabled: params.q.trim().length > 0,
+  });
+}
+
+export function useProductDetail(productId: string | undefined) {
+  return useQuery<ProductDetail>({
+    queryKey: ['/api/marketplace/products', productId],
+    enabled: !!productId,
+  });
+}
+
+export function useCartRecommendations(enabled = true) {
+  return useQuery<RecommendedPart[]>({
+    queryKey: ['/api/marketplace/cart/recommendations'],
+    enabled,
+  });
+}
+
+export function usePopularParts(make: string, model: string) {
+  return useQuery<RecommendedPart[]>({
+    queryKey: ['/api/marketplace/popular-parts', { make, model }],
+    enabled: make.trim().length > 0 && model.trim().length > 0,
+  });
+}
+
+export function usePartNumberLookup(number: string) {
+  return useQuery<{ partNumbers: PartNumber[]; listings: CrossReferencePart[] }>({
+    queryKey: ['/api/marketplace/part-numbers', number.trim()],
+    enabled: number.trim().length > 0,
+  });
+}
@@ -0,0 +1,80 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import type { AnswerProductQuestion, AskProductQuestion, ProductQuestion } from "@shared/schema";
+
+// Question as shown on the product page (GET /api/marketplace/products/:id/questions)
+export interface PublicProductQuestion {
+  id: string;
+  partId: string;
+  workshopName: string;
+  question: string;
+  answer: string | null;
+  answeredAt: string | null;
+  createdAt: string | null;
+  isOwn: boolean; // Asked by the viewing workshop (its unanswered questions are included too)
+}
+
+// Question in the supplier's inbox (GET /api/marketplace/suppliers/:id/questions)
+export interface SupplierProductQuestion extends ProductQuestion {
+  part: { id: string; name: string; garagehubCode: string };
+  workshopName: string;
+}
+
+export type SupplierQuestionStatus = 'unanswered' | 'answered' | 'all';
+
+export function useProductQuestions(partId: string | undefined, enabled = true) {
+  return useQuery<PublicProductQuestion[]>({
+    queryKey: ['/api/marketplace/products', partId, 'questions'],
+    enabled: !!partId && enabled,
+  });
+}
+
+export function useAskProductQuestion() {
+  return useMutation({
+    mutationFn: async ({ partId, data }: { partId: string; data: AskProductQuestion }) => {
+      return apiRequest<ProductQuestion>(`/api/marketplace/products/${partId}/questions`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(data),
+      });
+    },
+    onSuccess: (_, { partId }) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/marketplace/products', partId] });
+    },
+  });
+}
+
+export function useSupplierQuestions(supplierId: string | undefined, status: SupplierQuestionStatus = 'unanswered') {
+  return useQuery<SupplierProductQuestion[]>({
+    queryKey: ['/api/marketplace/suppliers', supplierId, 'questions', { status }],
+    enabled: !!supplierId,
+  });
+}
+
+export function useAnswerProductQuestion() {
+  return useMutation({
+    mutationFn: async ({ questionId, data }: { questionId: string; data: AnswerProductQuestion }) => {
+      return apiRequest<ProductQuestion>(`/api/marketplace/questions/${questionId}/answer`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(data),
+      });
+    },
+    onSuccess: (question) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/marketplace/suppliers', question.supplierId, 'questions'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/marketplace/products', question.partId] });
+    },
+  });
+}
+
+export function useDeleteProductQuestion() {
+  return useMutation({
+    mutationFn: async (question: { id: string; partId: string }) => {
+      return apiRequest(`/api/marketplace/questions/${question.id}`, { method: 'DELETE' });
+    },
+    onSuccess: (_, question) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/marketplace/suppliers'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/marketplace/products', question.partId] });
+    },
+  });
+}
@@ -0,0 +1,146 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import type { InsertReview, ReportReview, Review, ReviewModerationDecision, ReviewReply, ReviewReport, ReviewTargetType, UpdateReview } from "@shared/schema";
+
+// Response of GET /api/marketplace/reviews/:targetType/:targetId
+export interface TargetReviews {
+  summary: {
+    rating: number;
+    reviewCount: number;
+    distribution: Record<1 | 2 | 3 | 4 | 5, number>;
+  };
+  reviews: Array<Review & { reviewerName: string }>;
+}
+
+// Response of GET /api/marketplace/reviews/:targetType/:targetId/eligibility
+export interface ReviewEligibility {
+  canReview: boolean;
+  canReply: boolean;
+  orderId: string | null;
+  jobId: string | null;
+  existingReviewId: string | null;
+}
+
+export type ReviewQueueFilter = 'held' | 'reported' | 'hidden';
+
+// Response item of GET /api/marketplace/moderation/reviews
+export interface ReviewQueueItem extends Review {
+  reviewer: { id: string; email: string | null; firstName: string | null; lastName: string | null; createdAt: string | null };
+  openReports: Array<Pick<ReviewReport, 'id' | 'reason' | 'details'> & { createdAt: string | null }>;
+}
+
+// Rating and review count live on the target row too, so refresh the target's own queries
+function invalidateTarget(targetType: ReviewTargetType, targetId: string) {
+  queryClient.invalidateQueries({ queryKey: ['/api/marketplace/reviews', targetType, targetId] });
+  if (targetType === 'product') {
+    queryClient.invalidateQueries({ queryKey: ['/api/marketplace/products', targetId] });
+  } else if (targetType === 'supplier') {
+    queryClient.invalidateQueries({ queryKey: [`/api/marketplace/suppliers/${targetId}`] });
+  } else {
+    queryClient.invalidateQueries({ queryKey: [`/api/workshops/${targetId}`] });
+  }
+}
+
+export function useReviews(targetType: ReviewTargetType, targetId: string | undefined, enabled = true) {
+  return useQuery<TargetReviews>({
+    queryKey: ['/api/marketplace/reviews', targetType, targetId],
+    enabled: !!targetId && enabled,
+  });
+}
+
+export function useReviewEligibility(targetType: ReviewTargetType, targetId: string | undefined, enabled = true) {
+  return useQuery<ReviewEligibility>({
+    queryKey: ['/api/marketplace/reviews', targetType, targetId, 'eligibility'],
+    enabled: !!targetId && enabled,
+  });
+}
+
+export function useCreateReview() {
+  return useMutation({
+    mutationFn: async (data: InsertReview) => {
+      return apiRequest<Review>('/api/marketplace/reviews', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(data),
+      });
+    },
+    onSuccess: (review) => {
+      invalidateTarget(review.targetType, review.targetId);
+    },
+  });
+}
+
+export function useUpdateReview() {
+  return useMutation({
+    mutationFn: async ({ id, data }: { id: string; data: UpdateReview }) => {
+      return apiRequest<Review>(`/api/marketplace/reviews/${id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(data),
+      });
+    },
+    onSuccess: (review) => {
+      invalidateTarget(review.targetType, review.targetId);
+    },
+  });
+}
+
+export function useDeleteReview() {
+  return useMutation({
+    mutationFn: async (review: Pick<Review, 'id' | 'targetType' | 'targetId'>) => {
+      return apiRequest(`/api/marketplace/reviews/${review.id}`, { method: 'DELETE' });
+    },
+    onSuccess: (_, review) => {
+      invalidateTarget(review.targetType, review.targetId);
+    },
+  });
+}
+
+export function useReplyToReview() {
+  return useMutation({
+    mutationFn: async ({ id, data }: { id: string; data: ReviewReply }) => {
+      return apiRequest<Review>(`/api/marketplace/reviews/${id}/reply`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(data),
+      });
+    },
+    onSuccess: (review) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/marketplace/reviews', review.targetType, review.targetId] });
+    },
+  });
+}
+
+export function useReportReview() {
+  return useMutation({
+    mutationFn: async ({ id, data }: { id: string; data: ReportReview }) => {
+      return apiRequest(`/api/marketplace/reviews/${id}/report`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(data),
+      });
+    },
+  });
+}
+
+export function useReviewModerationQueue(status: ReviewQueueFilter = 'held') {
+  return useQuery<ReviewQueueItem[]>({
+    queryKey: ['/api/marketplace/moderation/reviews', { status }],
+  });
+}
+
+export function useModerateReview() {
+  return useMutation({
+    mutationFn: async ({ id, decision }: { id: string; decision: ReviewModerationDecision }) => {
+      return apiRequest<Review>(`/api/marketplace/moderation/reviews/${id}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(decision),
+      });
+    },
+    onSuccess: (review) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/marketplace/moderation/reviews'] });
+      invalidateTarget(review.targetType, review.targetId);
+    },
+  });
+}
@@ -0,0 +1,106 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import type { InsertSavedList, SavedList, SavedListItem, SavedListItemInput } from "@shared/schema";
+
+export interface SavedListSummary extends SavedList {
+  itemCount: number;
+}
+
+// Response shape of GET /api/marketplace/saved-lists/:id - lines priced for the workshop
+export interface SavedListLine {
+  item: SavedListItem;
+  part: { id: string; name: string; garagehubCode: string; imageUrl: string | null; allowBackorder: boolean };
+  supplier: { id: string; name: string };
+  variantName: string | null;
+  unitPrice: string | null;
+  basePrice: string | null;
+  priceSource: 'base' | 'tier' | 'price_list' | null;
+  priceChange: string | null; // Negative = cheaper than when saved
+  stockQuantity: number;
+  available: boolean;
+}
+
+export interface SavedListDetail extends SavedList {
+  items: SavedListLine[];
+  total: string;
+}
+
+export interface AddAllToCartResult {
+  added: number;
+  skipped: { itemId: string; partId: string; reason: 'out_of_stock' | 'partial_stock' | 'unavailable' }[];
+}
+
+function invalidateSavedLists() {
+  queryClient.invalidateQueries({ queryKey: ['/api/marketplace/saved-lists'] });
+}
+
+export function useSavedLists(enabled = true) {
+  return useQuery<SavedListSummary[]>({
+    queryKey: ['/api/marketplace/saved-lists'],
+    enabled,
+  });
+}
+
+export function useSavedList(listId: string | null) {
+  return useQuery<SavedListDetail>({
+    queryKey: ['/api/marketplace/saved-lists', listId],
+    enabled: !!listId,
+  });
+}
+
+export function useCreateSavedList() {
+  return useMutation({
+    mutationFn: async (data: InsertSavedList) => {
+      return apiRequest<SavedList>('/api/marketplace/saved-lists', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(data),
+      });
+    },
+    onSuccess: invalidateSavedLists,
+  });
+}
+
+export function useDeleteSavedList() {
+  return useMutation({
+    mutationFn: async (listId: string) => {
+      return apiRequest(`/api/marketplace/saved-lists/${listId}`, { method: 'DELETE' });
+    },
+    onSuccess: invalidateSavedLists,
+  });
+}
+
+export function useAddSavedListItem() {
+  return useMutation({
+    mutationFn: async ({ listId, item }: { listId: string; item: SavedListItemInput }) => {
+      return apiRequest<SavedListItem>(`/api/marketplace/saved-lists/${listId}/items`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(item),
+      });
+    },
+    onSuccess: invalidateSavedLists,
+  });
+}
+
+export function useRemoveSavedListItem() {
+  return useMutation({
+    mutationFn: async ({ listId, itemId }: { listId: string; itemId: string }) => {
+      return apiRequest(`/api/marketplace/saved-lists/${listId}/items/${itemId}`, { method: 'DELETE' });
+    },
+    onSuccess: invalidateSavedLists,
+  });
+}
+
+export function useAddSavedListToCart() {
+  return useMutation({
+    mutationFn: async (listId: string) => {
+      return apiRequest<AddAllToCartResult>(`/api/marketplace/saved-lists/${listId}/add-to-cart`, {
+        method: 'POST',
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/cart'] });
+    },
+  });
+}
@@ -0,0 +1,36 @@
+import { useQuery } from "@tanstack/react-query";
+
+interface StatCounters {
+  storeViews: number;
+  productViews: number;
+  searchImpressions: number;
+  addToCarts: number;
+  orders: number;
+  unitsSold: number;
+  revenue: number;
+}
+
+export interface SearchTermCount {
+  term: string;
+  count: number;
+}
+
+// Response of GET /api/marketplace/suppliers/:id/analytics
+export interface StorefrontAnalytics {
+  from: string;
+  to: string;
+  funnel: StatCounters & { viewToCartRate: number; cartToOrderRate: number };
+  daily: Array<{ date: string } & StatCounters>;
+  products: Array<Omit<StatCounters, 'storeViews'> & { partId: string; name: string; garagehubCode: string; conversionRate: number }>;
+  notFoundInStore: SearchTermCount[];
+  notFoundInMarketplace: SearchTermCount[];
+}
+
+export function useSupplierAnalytics(supplierId: string | undefined, range: { from?: string; to?: string } = {}) {
+  const params = Object.fromEntries(Object.entries(range).filter(([, value]) => !!value));
+  return useQuery<StorefrontAnalytics>({
+    queryKey: [`/api/marketplace/suppliers/${supplierId}/analytics`, params],
+    enabled: !!supplierId,
+  });
+}
+
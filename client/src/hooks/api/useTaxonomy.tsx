@@ -0,0 +1,74 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import type { CreateTaxonomyTerm, TaxonomyTerm, UpdateTaxonomyTerm } from "@shared/schema";
+
+// Response shape of GET /api/marketplace/catalog/taxonomy
+export interface TaxonomyTree {
+  brands: Array<TaxonomyTerm & { models: TaxonomyTerm[] }>;
+  categories: Array<TaxonomyTerm & { subcategories: TaxonomyTerm[] }>;
+}
+
+// Response shape of GET /api/marketplace/catalog/taxonomy/unmapped
+export interface UnmappedTaxonomyValues {
+  categories: Array<{ value: string; count: number }>;
+  vehicleMakes: Array<{ value: string; count: number }>;
+}
+
+function invalidateTaxonomy() {
+  queryClient.invalidateQueries({ queryKey: ['/api/marketplace/catalog'] });
+}
+
+export function useTaxonomy() {
+  return useQuery<TaxonomyTree>({
+    queryKey: ['/api/marketplace/catalog', 'taxonomy'],
+    staleTime: 10 * 60 * 1000, // Changes rarely
+  });
+}
+
+// Admin: includes inactive terms
+export function useAdminTaxonomy() {
+  return useQuery<TaxonomyTree>({
+    queryKey: ['/api/marketplace/catalog', 'taxonomy', 'all'],
+  });
+}
+
+export function useUnmappedTaxonomyValues() {
+  return useQuery<UnmappedTaxonomyValues>({
+    queryKey: ['/api/marketplace/catalog', 'taxonomy', 'unmapped'],
+  });
+}
+
+export function useCreateTaxonomyTerm() {
+  return useMutation({
+    mutationFn: async (data: CreateTaxonomyTerm) => {
+      return apiRequest<TaxonomyTerm>('/api/marketplace/catalog/taxonomy', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(data),
+      });
+    },
+    onSuccess: invalidateTaxonomy,
+  });
+}
+
+export function useUpdateTaxonomyTerm() {
+  return useMutation({
+    mutationFn: async ({ id, data }: { id: string; data: UpdateTaxonomyTerm }) => {
+      return apiRequest<TaxonomyTerm>(`/api/marketplace/catalog/taxonomy/${id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(data),
+      });
+    },
+    onSuccess: invalidateTaxonomy,
+  });
+}
+
+export function useDeleteTaxonomyTerm() {
+  return useMutation({
+    mutationFn: async (id: string) => {
+      return apiRequest(`/api/marketplace/catalog/taxonomy/${id}`, { method: 'DELETE' });
+    },
+    onSuccess: invalidateTaxonomy,
+  });
+}
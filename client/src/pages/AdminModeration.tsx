@@ -0,0 +1,153 @@
+import { useState } from "react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Check, X } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useLanguage } from "@/contexts/LanguageContext";
+import { useModerationQueue, useModerateListing, type ModerationQueueItem } from "@/hooks/api/useModeration";
+import type { ListingModerationStatus } from "@shared/schema";
+
+// Flags are "unverified_supplier", "price_outlier", ... or "keyword:<word>"
+function useFlagLabel() {
+  const { t } = useLanguage();
+  return (flag: string) => {
+    const [kind, value] = flag.split(':');
+    const label = t(`admin.moderation.flagLabels.${kind}`);
+    return value ? `${label}: ${value}` : label;
+  };
+}
+
+function QueueItem({ item }: { item: ModerationQueueItem }) {
+  const { t } = useLanguage();
+  const { toast } = useToast();
+  const flagLabel = useFlagLabel();
+  const moderate = useModerateListing();
+  const [reason, setReason] = useState("");
+  const image = item.images?.[0] || item.imageUrl;
+
+  const handleDecision = async (decision: 'approved' | 'rejected') => {
+    if (decision === 'rejected' && !reason.trim()) {
+      toast({ title: t("admin.moderation.reasonRequired"), variant: "destructive" });
+      return;
+    }
+    try {
+      await moderate.mutateAsync({ partId: item.id, decision: { decision, reason: reason.trim() || undefined } });
+      toast({ title: t(decision === 'approved' ? "admin.moderation.toasts.approved" : "admin.moderation.toasts.rejected") });
+    } catch (error: any) {
+      toast({ title: t("admin.moderation.toasts.failed"), description: error?.message, variant: "destructive" });
+    }
+  };
+
+  return (
+    <Card data-testid={`card-moderation-${item.id}`}>
+      <CardContent className="p-4 flex gap-4">
+        {image && (
+          <img src={image} alt={item.name} className="w-24 h-24 rounded object-cover shrink-0" />
+        )}
+        <div className="flex-1 min-w-0 space-y-2">
+          <div className="flex items-start justify-between gap-2">
+            <div className="min-w-0">
+              <p className="font-medium truncate" data-testid={`text-moderation-name-${item.id}`}>{item.name}</p>
+              <p className="text-sm text-muted-foreground">
+                {t("admin.moderation.supplier")}: {item.supplier.name}
+                {!item.supplier.isVerified && (
+                  <Badge variant="outline" className="ml-2">{t("admin.moderation.unverified")}</Badge>
+                )}
+              </p>
+            </div>
+            <div className="text-right shrink-0">
+              <p className="font-semibold">RM {Number(item.price).toFixed(2)}</p>
+              <p className="text-xs text-muted-foreground">{item.category} · {item.partCategory}</p>
+            </div>
+          </div>
+
+          {item.description && (
+            <p className="text-sm text-muted-foreground line-clamp-2">{item.description}</p>
+          )}
+
+          {(item.moderationFlags?.length ?? 0) > 0 && (
+            <div className="flex flex-wrap gap-1 items-center">
+              <span className="text-xs text-muted-foreground">{t("admin.moderation.flags")}:</span>
+              {item.moderationFlags!.map(flag => (
+                <Badge key={flag} variant="secondary" className="text-xs">{flagLabel(flag)}</Badge>
+              ))}
+            </div>
+          )}
+
+          {item.moderationStatus === 'rejected' && item.moderationReason && (
+            <p className="text-sm text-destructive">{item.moderationReason}</p>
+          )}
+
+          {item.moderationStatus === 'pending' && (
+            <div className="flex flex-col sm:flex-row gap-2">
+              <Textarea
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                placeholder={t("admin.moderation.reason")}
+                className="min-h-[40px] flex-1"
+                data-testid={`input-moderation-reason-${item.id}`}
+              />
+              <div className="flex gap-2 shrink-0">
+                <Button
+                  size="sm"
+                  onClick={() => handleDecision('approved')}
+                  disabled={moderate.isPending}
+                  data-testid={`button-approve-${item.id}`}
+                >
+                  <Check className="h-4 w-4 mr-1" />
+                  {t("admin.moderation.approve")}
+                </Button>
+                <Button
+                  size="sm"
+                  variant="destructive"
+                  onClick={() => handleDecision('rejected')}
+                  disabled={moderate.isPending}
+                  data-testid={`button-reject-${item.id}`}
+                >
+                  <X className="h-4 w-4 mr-1" />
+                  {t("admin.moderation.reject")}
+                </Button>
+              </div>
+            </div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function AdminModeration() {
+  const { t } = useLanguage();
+  const [status, setStatus] = useState<ListingModerationStatus>('pending');
+  const { data: queue = [], isLoading } = useModerationQueue(status);
+
+  return (
+    <div className="h-full flex flex-col">
+      <div className="border-b p-4">
+        <h1 className="text-2xl font-semibold" data-testid="text-moderation-title">{t("admin.moderation.title")}</h1>
+        <p className="text-sm text-muted-foreground">{t("admin.moderation.subtitle")}</p>
+      </div>
+
+      <div className="flex-1 overflow-auto p-4 space-y-4">
+        <Tabs value={status} onValueChange={(value) => setStatus(value as ListingModerationStatus)}>
+          <TabsList>
+            <TabsTrigger value="pending" data-testid="tab-moderation-pending">{t("admin.moderation.pending")}</TabsTrigger>
+            <TabsTrigger value="rejected" data-testid="tab-moderation-rejected">{t("admin.moderation.rejected")}</TabsTrigger>
+            <TabsTrigger value="approved" data-testid="tab-moderation-approved">{t("admin.moderation.approved")}</TabsTrigger>
+          </TabsList>
+        </Tabs>
+
+        {!isLoading && queue.length === 0 && (
+          <p className="text-sm text-muted-foreground" data-testid="text-moderation-empty">{t("admin.moderation.empty")}</p>
+        )}
+
+        {queue.map(item => (
+          <QueueItem key={item.id} item={item} />
+        ))}
+      </div>
+    </div>
+  );
+}
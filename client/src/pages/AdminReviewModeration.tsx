@@ -0,0 +1,177 @@
+import { useState } from "react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { EyeOff, RotateCcw, Star } from "lucide-react";
+import { format } from "date-fns";
+import { useToast } from "@/hooks/use-toast";
+import { useLanguage } from "@/contexts/LanguageContext";
+import {
+  useReviewModerationQueue,
+  useModerateReview,
+  type ReviewQueueFilter,
+  type ReviewQueueItem,
+} from "@/hooks/api/useReviews";
+
+// Hold reasons are "phone_number", "review_burst", "reported" or "profanity:<word>"
+function useHoldReasonLabel() {
+  const { t } = useLanguage();
+  return (reason: string) => {
+    const [kind, value] = reason.split(':');
+    const label = t(`admin.reviews.holdReasonLabels.${kind}`);
+    return value ? `${label}: ${value}` : label;
+  };
+}
+
+function QueueItem({ item }: { item: ReviewQueueItem }) {
+  const { t } = useLanguage();
+  const { toast } = useToast();
+  const holdReasonLabel = useHoldReasonLabel();
+  const moderate = useModerateReview();
+  const [note, setNote] = useState("");
+  const reviewerName = [item.reviewer.firstName, item.reviewer.lastName].filter(Boolean).join(' ') || item.reviewer.email;
+
+  const handleDecision = async (action: 'hide' | 'restore') => {
+    try {
+      await moderate.mutateAsync({ id: item.id, decision: { action, note: note.trim() || undefined } });
+      toast({ title: t(action === 'hide' ? "admin.reviews.toasts.hidden" : "admin.reviews.toasts.restored") });
+    } catch (error: any) {
+      toast({ title: t("admin.reviews.toasts.failed"), description: error?.message, variant: "destructive" });
+    }
+  };
+
+  return (
+    <Card data-testid={`card-review-moderation-${item.id}`}>
+      <CardContent className="p-4 space-y-2">
+        <div className="flex items-start justify-between gap-2">
+          <div className="min-w-0">
+            <p className="font-medium">
+              {t("admin.reviews.reviewer")}: {reviewerName}
+            </p>
+            {item.reviewer.createdAt && (
+              <p className="text-xs text-muted-foreground">
+                {t("admin.reviews.accountCreated").replace("{date}", format(new Date(item.reviewer.createdAt), "dd MMM yyyy"))}
+              </p>
+            )}
+            <p className="text-xs text-muted-foreground">
+              {t("admin.reviews.target")}: {item.targetType} · <span className="font-mono">{item.targetId}</span>
+            </p>
+          </div>
+          <div className="flex items-center gap-0.5 shrink-0">
+            {[1, 2, 3, 4, 5].map((value) => (
+              <Star key={value} className={`h-4 w-4 ${value <= item.rating ? "fill-yellow-400 text-yellow-400" : "text-muted-foreground"}`} />
+            ))}
+          </div>
+        </div>
+
+        {item.comment && <p className="text-sm">{item.comment}</p>}
+
+        {(item.photos?.length ?? 0) > 0 && (
+          <div className="flex gap-2 flex-wrap">
+            {item.photos!.map((photo) => (
+              <img key={photo} src={photo} alt="" className="w-16 h-16 rounded object-cover" />
+            ))}
+          </div>
+        )}
+
+        {(item.holdReasons?.length ?? 0) > 0 && (
+          <div className="flex flex-wrap gap-1 items-center">
+            <span className="text-xs text-muted-foreground">{t("admin.reviews.holdReasons")}:</span>
+            {item.holdReasons!.map(reason => (
+              <Badge key={reason} variant="secondary" className="text-xs">{holdReasonLabel(reason)}</Badge>
+            ))}
+          </div>
+        )}
+
+        {item.openReports.length > 0 && (
+          <div className="space-y-1">
+            <p className="text-xs text-muted-foreground">
+              {t("admin.reviews.reports").replace("{count}", String(item.openReports.length))}
+            </p>
+            {item.openReports.map(report => (
+              <p key={report.id} className="text-sm">
+                <Badge variant="outline" className="text-xs mr-2">{t(`reviews.report.reasons.${report.reason}`)}</Badge>
+                {report.details}
+              </p>
+            ))}
+          </div>
+        )}
+
+        {item.status === 'hidden' && item.moderationNote && (
+          <p className="text-sm text-destructive">{item.moderationNote}</p>
+        )}
+
+        <div className="flex flex-col sm:flex-row gap-2">
+          <Textarea
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            placeholder={t("admin.reviews.note")}
+            className="min-h-[40px] flex-1"
+            data-testid={`input-review-note-${item.id}`}
+          />
+          <div className="flex gap-2 shrink-0">
+            {item.status !== 'published' && (
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => handleDecision('restore')}
+                disabled={moderate.isPending}
+                data-testid={`button-restore-review-${item.id}`}
+              >
+                <RotateCcw className="h-4 w-4 mr-1" />
+                {t("admin.reviews.restore")}
+              </Button>
+            )}
+            {item.status !== 'hidden' && (
+              <Button
+                size="sm"
+                variant="destructive"
+                onClick={() => handleDecision('hide')}
+                disabled={moderate.isPending}
+                data-testid={`button-hide-review-${item.id}`}
+              >
+                <EyeOff className="h-4 w-4 mr-1" />
+                {t("admin.reviews.hide")}
+              </Button>
+            )}
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function AdminReviewModeration() {
+  const { t } = useLanguage();
+  const [status, setStatus] = useState<ReviewQueueFilter>('held');
+  const { data: queue = [], isLoading } = useReviewModerationQueue(status);
+
+  return (
+    <div className="h-full flex flex-col">
+      <div className="border-b p-4">
+        <h1 className="text-2xl font-semibold" data-testid="text-review-moderation-title">{t("admin.reviews.title")}</h1>
+        <p className="text-sm text-muted-foreground">{t("admin.reviews.subtitle")}</p>
+      </div>
+
+      <div className="flex-1 overflow-auto p-4 space-y-4">
+        <Tabs value={status} onValueChange={(value) => setStatus(value as ReviewQueueFilter)}>
+          <TabsList>
+            <TabsTrigger value="held" data-testid="tab-reviews-held">{t("admin.reviews.held")}</TabsTrigger>
+            <TabsTrigger value="reported" data-testid="tab-reviews-reported">{t("admin.reviews.reported")}</TabsTrigger>
+            <TabsTrigger value="hidden" data-testid="tab-reviews-hidden">{t("admin.reviews.hidden")}</TabsTrigger>
+          </TabsList>
+        </Tabs>
+
+        {!isLoading && queue.length === 0 && (
+          <p className="text-sm text-muted-foreground" data-testid="text-review-moderation-empty">{t("admin.reviews.empty")}</p>
+        )}
+
+        {queue.map(item => (
+          <QueueItem key={item.id} item={item} />
+        ))}
+      </div>
+    </div>
+  );
+}
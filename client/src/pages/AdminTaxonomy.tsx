@@ -0,0 +1,218 @@
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Plus, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useLanguage } from "@/contexts/LanguageContext";
+import {
+  useAdminTaxonomy,
+  useUnmappedTaxonomyValues,
+  useCreateTaxonomyTerm,
+  useUpdateTaxonomyTerm,
+  useDeleteTaxonomyTerm,
+} from "@/hooks/api/useTaxonomy";
+import { partCategoryEnum, type PartCategory, type TaxonomyTerm, type TaxonomyTermType } from "@shared/schema";
+
+function parseAliases(text: string): string[] {
+  return text.split(',').map(alias => alias.trim().toLowerCase()).filter(Boolean);
+}
+
+// Inline form adding a term (and, for categories, its partCategory)
+function AddTermForm({ type, parentId, defaultPartCategory, label }: {
+  type: TaxonomyTermType;
+  parentId?: string;
+  defaultPartCategory?: PartCategory | null;
+  label: string;
+}) {
+  const { t } = useLanguage();
+  const { toast } = useToast();
+  const createTerm = useCreateTaxonomyTerm();
+  const [labelEn, setLabelEn] = useState("");
+  const [labelMs, setLabelMs] = useState("");
+  const [aliases, setAliases] = useState("");
+  const [partCategory, setPartCategory] = useState<PartCategory>(defaultPartCategory ?? 'service');
+  const isCategory = type === 'category' || type === 'subcategory';
+
+  const handleAdd = async () => {
+    if (!labelEn.trim()) return;
+    try {
+      await createTerm.mutateAsync({
+        type,
+        parentId: parentId ?? null,
+        labelEn: labelEn.trim(),
+        labelMs: labelMs.trim() || labelEn.trim(),
+        aliases: parseAliases(aliases),
+        partCategory: isCategory ? partCategory : null,
+      });
+      setLabelEn("");
+      setLabelMs("");
+      setAliases("");
+      toast({ title: t("admin.taxonomy.toasts.saved") });
+    } catch (error: any) {
+      toast({ title: t("admin.taxonomy.toasts.failed"), description: error?.message, variant: "destructive" });
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap gap-2 items-center">
+      <Input className="w-40" value={labelEn} onChange={(e) => setLabelEn(e.target.value)} placeholder={t("admin.taxonomy.labelEn")} data-testid={`input-${type}-label-en`} />
+      <Input className="w-40" value={labelMs} onChange={(e) => setLabelMs(e.target.value)} placeholder={t("admin.taxonomy.labelMs")} data-testid={`input-${type}-label-ms`} />
+      <Input className="w-56" value={aliases} onChange={(e) => setAliases(e.target.value)} placeholder={t("admin.taxonomy.aliases")} data-testid={`input-${type}-aliases`} />
+      {isCategory && (
+        <Select value={partCategory} onValueChange={(value) => setPartCategory(value as PartCategory)}>
+          <SelectTrigger className="w-40" data-testid={`select-${type}-part-category`}>
+            <SelectValue placeholder={t("admin.taxonomy.partCategory")} />
+          </SelectTrigger>
+          <SelectContent>
+            {partCategoryEnum.enumValues.map(value => (
+              <SelectItem key={value} value={value}>{value}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+      <Button size="sm" onClick={handleAdd} disabled={createTerm.isPending || !labelEn.trim()} data-testid={`button-add-${type}`}>
+        <Plus className="h-4 w-4 mr-1" />
+        {label}
+      </Button>
+    </div>
+  );
+}
+
+// One term with its active toggle and delete button
+function TermRow({ term }: { term: TaxonomyTerm }) {
+  const { t, language } = useLanguage();
+  const { toast } = useToast();
+  const updateTerm = useUpdateTaxonomyTerm();
+  const deleteTerm = useDeleteTaxonomyTerm();
+
+  const onError = (error: any) => {
+    toast({ title: t("admin.taxonomy.toasts.failed"), description: error?.message, variant: "destructive" });
+  };
+
+  const handleDelete = () => {
+    if (!window.confirm(t("admin.taxonomy.confirmDelete"))) return;
+    deleteTerm.mutate(term.id, { onError });
+  };
+
+  return (
+    <div className="flex items-center justify-between gap-4 py-1" data-testid={`row-term-${term.id}`}>
+      <div className="flex flex-wrap items-center gap-2 min-w-0">
+        <span className={term.isActive ? "font-medium" : "font-medium text-muted-foreground line-through"}>
+          {language === 'ms' ? term.labelMs : term.labelEn}
+        </span>
+        {term.labelMs !== term.labelEn && (
+          <span className="text-sm text-muted-foreground">({language === 'ms' ? term.labelEn : term.labelMs})</span>
+        )}
+        {term.partCategory && <Badge variant="secondary">{term.partCategory}</Badge>}
+        {term.aliases.map(alias => (
+          <Badge key={alias} variant="outline">{alias}</Badge>
+        ))}
+      </div>
+      <div className="flex items-center gap-2 shrink-0">
+        <Switch
+          checked={term.isActive}
+          onCheckedChange={(isActive) => updateTerm.mutate({ id: term.id, data: { isActive } }, { onError })}
+          title={t("admin.taxonomy.active")}
+          data-testid={`switch-term-active-${term.id}`}
+        />
+        <Button variant="ghost" size="icon" onClick={handleDelete} title={t("admin.taxonomy.delete")} data-testid={`button-delete-term-${term.id}`}>
+          <Trash2 className="h-4 w-4 text-destructive" />
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+export default function AdminTaxonomy() {
+  const { t } = useLanguage();
+  const { data: taxonomy } = useAdminTaxonomy();
+  const { data: unmapped } = useUnmappedTaxonomyValues();
+
+  return (
+    <div className="h-full flex flex-col">
+      <div className="border-b p-4">
+        <h1 className="text-2xl font-semibold" data-testid="text-taxonomy-title">{t("admin.taxonomy.title")}</h1>
+        <p className="text-sm text-muted-foreground">{t("admin.taxonomy.subtitle")}</p>
+      </div>
+
+      <div className="flex-1 overflow-auto p-4">
+        <Tabs defaultValue="categories">
+          <TabsList>
+            <TabsTrigger value="categories" data-testid="tab-categories">{t("admin.taxonomy.categories")}</TabsTrigger>
+            <TabsTrigger value="brands" data-testid="tab-brands">{t("admin.taxonomy.brands")}</TabsTrigger>
+            <TabsTrigger value="unmapped" data-testid="tab-unmapped">{t("admin.taxonomy.unmapped")}</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="categories" className="space-y-4">
+            <AddTermForm type="category" label={t("admin.taxonomy.addCategory")} />
+            {taxonomy?.categories.map(category => (
+              <Card key={category.id}>
+                <CardContent className="p-4 space-y-2">
+                  <TermRow term={category} />
+                  <div className="pl-6 border-l space-y-1">
+                    {category.subcategories.map(subcategory => (
+                      <TermRow key={subcategory.id} term={subcategory} />
+                    ))}
+                    <AddTermForm
+                      type="subcategory"
+                      parentId={category.id}
+                      defaultPartCategory={category.partCategory}
+                      label={t("admin.taxonomy.addSubcategory")}
+                    />
+                  </div>
+                </CardContent>
+              </Card>
+            ))}
+          </TabsContent>
+
+          <TabsContent value="brands" className="space-y-4">
+            <AddTermForm type="brand" label={t("admin.taxonomy.addBrand")} />
+            {taxonomy?.brands.map(brand => (
+              <Card key={brand.id}>
+                <CardContent className="p-4 space-y-2">
+                  <TermRow term={brand} />
+                  <div className="pl-6 border-l space-y-1">
+                    {brand.models.map(model => (
+                      <TermRow key={model.id} term={model} />
+                    ))}
+                    <AddTermForm type="model" parentId={brand.id} label={t("admin.taxonomy.addModel")} />
+                  </div>
+                </CardContent>
+              </Card>
+            ))}
+          </TabsContent>
+
+          <TabsContent value="unmapped" className="grid gap-4 md:grid-cols-2">
+            {([
+              ['unmappedCategories', unmapped?.categories],
+              ['unmappedMakes', unmapped?.vehicleMakes],
+            ] as const).map(([key, values]) => (
+              <Card key={key}>
+                <CardHeader>
+                  <CardTitle>{t(`admin.taxonomy.${key}`)}</CardTitle>
+                  <CardDescription>{t("admin.taxonomy.unmappedHint")}</CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-1">
+                  {values?.length === 0 && (
+                    <p className="text-sm text-muted-foreground">{t("admin.taxonomy.nothingUnmapped")}</p>
+                  )}
+                  {values?.map(({ value, count }) => (
+                    <div key={value} className="flex justify-between text-sm">
+                      <span>{value}</span>
+                      <span className="text-muted-foreground">{count} {t("admin.taxonomy.listings")}</span>
+                    </div>
+                  ))}
+                </CardContent>
+              </Card>
+            ))}
+          </TabsContent>
+        </Tabs>
+      </div>
+    </div>
+  );
+}
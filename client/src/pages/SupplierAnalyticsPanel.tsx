@@ -0,0 +1,165 @@
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useLanguage } from "@/contexts/LanguageContext";
+import { format, subDays } from "date-fns";
+import { useSupplierAnalytics, type SearchTermCount } from "@/hooks/api/useStorefrontAnalytics";
+
+interface SupplierAnalyticsPanelProps {
+  supplierId: string;
+}
+
+const RANGES = [7, 30, 90] as const;
+
+function SearchTermList({ title, terms, testId }: { title: string; terms: SearchTermCount[]; testId: string }) {
+  const { t } = useLanguage();
+
+  return (
+    <Card data-testid={testId}>
+      <CardHeader>
+        <CardTitle className="text-base">{title}</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {terms.length === 0 && (
+          <p className="text-sm text-muted-foreground">{t("supplier.dashboard.analytics.noTerms")}</p>
+        )}
+        {terms.map(({ term, count }) => (
+          <div key={term} className="flex items-center justify-between gap-2">
+            <span className="text-sm truncate">{term}</span>
+            <Badge variant="secondary">{t("supplier.dashboard.analytics.searches").replace("{count}", String(count))}</Badge>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function SupplierAnalyticsPanel({ supplierId }: SupplierAnalyticsPanelProps) {
+  const { t } = useLanguage();
+  const [days, setDays] = useState<number>(30);
+  // The latest rolled-up day is yesterday
+  const from = format(subDays(new Date(), days), "yyyy-MM-dd");
+  const { data: analytics, isLoading } = useSupplierAnalytics(supplierId, { from });
+
+  const funnel = analytics?.funnel;
+  const steps = funnel ? [
+    { key: "storeViews", value: funnel.storeViews },
+    { key: "searchImpressions", value: funnel.searchImpressions },
+    { key: "productViews", value: funnel.productViews },
+    { key: "addToCarts", value: funnel.addToCarts },
+    { key: "orders", value: funnel.orders },
+  ] : [];
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between gap-2 space-y-0">
+          <div>
+            <CardTitle>{t("supplier.dashboard.analytics.title")}</CardTitle>
+            <CardDescription>
+              {t("supplier.dashboard.analytics.desc")}
+              {analytics && (
+                <> {t("supplier.dashboard.analytics.range").replace("{from}", analytics.from).replace("{to}", analytics.to)}</>
+              )}
+            </CardDescription>
+          </div>
+          <Tabs value={String(days)} onValueChange={(value) => setDays(Number(value))}>
+            <TabsList>
+              {RANGES.map(range => (
+                <TabsTrigger key={range} value={String(range)} data-testid={`tab-analytics-${range}`}>
+                  {t(`supplier.dashboard.analytics.last${range}`)}
+                </TabsTrigger>
+              ))}
+            </TabsList>
+          </Tabs>
+        </CardHeader>
+        <CardContent>
+          {isLoading && <p className="text-sm text-muted-foreground">{t("common.loading")}</p>}
+          {funnel && (
+            <div className="space-y-3">
+              <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-6 gap-3">
+                {steps.map(step => (
+                  <div key={step.key} className="rounded-md border p-3" data-testid={`stat-analytics-${step.key}`}>
+                    <p className="text-xs text-muted-foreground">{t(`supplier.dashboard.analytics.${step.key}`)}</p>
+                    <p className="text-xl font-bold">{step.value.toLocaleString()}</p>
+                  </div>
+                ))}
+                <div className="rounded-md border p-3" data-testid="stat-analytics-revenue">
+                  <p className="text-xs text-muted-foreground">{t("supplier.dashboard.analytics.revenue")}</p>
+                  <p className="text-xl font-bold">RM {funnel.revenue.toFixed(2)}</p>
+                </div>
+              </div>
+              <div className="flex flex-wrap gap-2 text-sm text-muted-foreground">
+                <span>{t("supplier.dashboard.analytics.viewToCart").replace("{rate}", String(funnel.viewToCartRate))}</span>
+                <span>·</span>
+                <span>{t("supplier.dashboard.analytics.cartToOrder").replace("{rate}", String(funnel.cartToOrderRate))}</span>
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {analytics && (
+        <>
+          <div className="grid gap-4 md:grid-cols-2">
+            <SearchTermList
+              title={t("supplier.dashboard.analytics.notFoundInStore")}
+              terms={analytics.notFoundInStore}
+              testId="card-not-found-store"
+            />
+            <SearchTermList
+              title={t("supplier.dashboard.analytics.notFoundInMarketplace")}
+              terms={analytics.notFoundInMarketplace}
+              testId="card-not-found-marketplace"
+            />
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">{t("supplier.dashboard.analytics.products")}</CardTitle>
+            </CardHeader>
+            <CardContent className="overflow-x-auto">
+              {analytics.products.length === 0 ? (
+                <p className="text-sm text-muted-foreground">{t("supplier.dashboard.analytics.noProducts")}</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>{t("supplier.dashboard.analytics.product")}</TableHead>
+                      <TableHead className="text-right">{t("supplier.dashboard.analytics.searchImpressions")}</TableHead>
+                      <TableHead className="text-right">{t("supplier.dashboard.analytics.productViews")}</TableHead>
+                      <TableHead className="text-right">{t("supplier.dashboard.analytics.addToCarts")}</TableHead>
+                      <TableHead className="text-right">{t("supplier.dashboard.analytics.orders")}</TableHead>
+                      <TableHead className="text-right">{t("supplier.dashboard.analytics.unitsSold")}</TableHead>
+                      <TableHead className="text-right">{t("supplier.dashboard.analytics.revenue")}</TableHead>
+                      <TableHead className="text-right">{t("supplier.dashboard.analytics.conversion")}</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {analytics.products.map(product => (
+                      <TableRow key={product.partId} data-testid={`row-analytics-product-${product.partId}`}>
+                        <TableCell>
+                          <p className="font-medium">{product.name}</p>
+                          <p className="text-xs text-muted-foreground font-mono">{product.garagehubCode}</p>
+                        </TableCell>
+                        <TableCell className="text-right">{product.searchImpressions}</TableCell>
+                        <TableCell className="text-right">{product.productViews}</TableCell>
+                        <TableCell className="text-right">{product.addToCarts}</TableCell>
+                        <TableCell className="text-right">{product.orders}</TableCell>
+                        <TableCell className="text-right">{product.unitsSold}</TableCell>
+                        <TableCell className="text-right">RM {product.revenue.toFixed(2)}</TableCell>
+                        <TableCell className="text-right">{product.conversionRate}%</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+}
@@ -14,21 +14,24 @@ import { useToast } from "@/hooks/use-toast";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
-import { Plus, Edit, Trash2, Package, ShoppingCart, TrendingUp, X, Clock, MessageCircle, Camera } from "lucide-react";
+import { Plus, Edit, Trash2, Package, ShoppingCart, TrendingUp, X, Clock, MessageCircle, Camera, HelpCircle, BarChart3, Copy } from "lucide-react";
 import SupplierChatPanel from "./SupplierChatPanel";
+import SupplierQuestionsPanel from "./SupplierQuestionsPanel";
+import SupplierAnalyticsPanel from "./SupplierAnalyticsPanel";
+import SupplierDuplicatesPanel from "./SupplierDuplicatesPanel";
+import type { DuplicateCandidate } from "@/hooks/api/useDuplicateListings";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { useLanguage } from "@/contexts/LanguageContext";
+import { useTaxonomy } from "@/hooks/api/useTaxonomy";
 import { Capacitor } from "@capacitor/core";
 import { Camera as CapacitorCamera, CameraResultType, CameraSource } from "@capacitor/camera";
 
-const PRODUCT_CATEGORIES = ['OEM', 'Lubricant', 'Battery', 'Tyre', 'Tools', 'Accessories', 'Other'] as const;
-
 type ProductFormData = {
   name: string;
   description?: string;
-  category: typeof PRODUCT_CATEGORIES[number];
+  category: string; // English label of a taxonomy category
   price: number;
   stockQuantity: number;
   sku?: string;
@@ -38,42 +41,22 @@ type ProductFormData = {
 export default function SupplierDashboard() {
   const { user } = useAuth();
   const { toast } = useToast();
-  const { t } = useLanguage();
+  const { t, language } = useLanguage();
+  
+  const { data: taxonomy } = useTaxonomy();
+  const categories = taxonomy?.categories ?? [];
   
-  const getCategoryTranslationKey = (category: string): string => {
-    const categoryLower = category.toLowerCase();
-    const keyMap: Record<string, string> = {
-      'oem': 'oem',
-      'lubricant': 'lubricant',
-      'battery': 'battery',
-      'tyre': 'tyre',
-      'tools': 'tools',
-      'accessories': 'accessories',
-      'other': 'other',
-      'engine': 'engine',
-      'transmission': 'transmission',
-      'brake': 'brake',
-      'brakes': 'brake',
-      'suspension': 'suspension',
-      'electrical': 'electrical',
-      'cooling': 'cooling',
-      'body': 'body',
-      'interior': 'interior',
-      'exterior': 'exterior',
-      'wheel': 'wheel',
-      'tires': 'tyre',
-      'filters': 'filters',
-      'ignition': 'ignition',
-      'fluids': 'fluids',
-    };
-    return keyMap[categoryLower] || 'other';
+  // Listings store the English label; show the taxonomy label in the current language
+  const getCategoryLabel = (category: string): string => {
+    const term = categories.find(cat => cat.labelEn === category);
+    return term ? (language === 'ms' ? term.labelMs : term.labelEn) : category;
   };
   
   // Schema with translated validation messages
   const productFormSchema = z.object({
     name: z.string().min(1, t("supplier.dashboard.validation.productNameRequired")),
     description: z.string().optional(),
-    category: z.enum(PRODUCT_CATEGORIES),
+    category: z.string().min(1, t("supplier.dashboard.validation.categoryRequired")),
     price: z.coerce.number().positive(t("supplier.dashboard.validation.priceGreaterThanZero")),
     stockQuantity: z.coerce.number().min(0, t("supplier.dashboard.validation.stockMinZero")),
     sku: z.string().optional(),
@@ -114,7 +97,7 @@ export default function SupplierDashboard() {
     defaultValues: {
       name: '',
       description: '',
-      category: 'OEM',
+      category: '',
       price: 0,
       stockQuantity: 0,
       sku: '',
@@ -130,12 +113,26 @@ export default function SupplierDashboard() {
         body: JSON.stringify(data),
       });
     },
-    onSuccess: () => {
+    onSuccess: (created: any) => {
       queryClient.invalidateQueries({ queryKey: ['/api/parts'] });
       setIsProductDialogOpen(false);
       form.reset();
       setImageInputs(['']);
       toast({ title: t("supplier.dashboard.toasts.success"), description: t("supplier.dashboard.toasts.productCreated") });
+
+      // Warn when the new listing looks like one already on the marketplace
+      if (supplier?.id && created?.id) {
+        apiRequest<DuplicateCandidate[]>(`/api/marketplace/suppliers/${supplier.id}/products/${created.id}/duplicates`, { method: 'GET' })
+          .then((duplicates) => {
+            if (duplicates.length === 0) return;
+            queryClient.invalidateQueries({ queryKey: ['/api/marketplace/suppliers', supplier.id, 'duplicates'] });
+            toast({
+              title: t("supplier.dashboard.toasts.possibleDuplicates"),
+              description: duplicates.slice(0, 3).map(duplicate => `${duplicate.name} (${duplicate.supplierName})`).join(", "),
+            });
+          })
+          .catch(() => {});
+      }
     },
     onError: (error: any) => {
       console.error('Create error:', error);
@@ -408,16 +405,20 @@ export default function SupplierDashboard() {
                     render={({ field }) => (
                       <FormItem>
                         <FormLabel>{t("supplier.dashboard.forms.category")}</FormLabel>
-                        <Select onValueChange={field.onChange} defaultValue={field.value}>
+                        <Select onValueChange={field.onChange} value={field.value}>
                           <FormControl>
                             <SelectTrigger data-testid="select-category">
                               <SelectValue placeholder={t("supplier.dashboard.forms.categoryPlaceholder")} />
                             </SelectTrigger>
                           </FormControl>
                           <SelectContent>
-                            {PRODUCT_CATEGORIES.map((cat) => (
-                              <SelectItem key={cat} value={cat} data-testid={`option-category-${cat.toLowerCase()}`}>
-                                {t(`supplier.dashboard.categories.${cat.toLowerCase()}`)}
+                            {/* Listings from before the taxonomy keep their free-text category */}
+                            {field.value && !categories.some(cat => cat.labelEn === field.value) && (
+                              <SelectItem value={field.value}>{field.value}</SelectItem>
+                            )}
+                            {categories.map((cat) => (
+                              <SelectItem key={cat.id} value={cat.labelEn} data-testid={`option-category-${cat.slug}`}>
+                                {language === 'ms' ? cat.labelMs : cat.labelEn}
                               </SelectItem>
                             ))}
                           </SelectContent>
@@ -630,6 +631,18 @@ export default function SupplierDashboard() {
             <MessageCircle className="h-4 w-4 mr-2" />
             {t("supplier.dashboard.tabs.messages")}
           </TabsTrigger>
+          <TabsTrigger value="questions" data-testid="tab-questions">
+            <HelpCircle className="h-4 w-4 mr-2" />
+            {t("supplier.dashboard.tabs.questions")}
+          </TabsTrigger>
+          <TabsTrigger value="analytics" data-testid="tab-analytics">
+            <BarChart3 className="h-4 w-4 mr-2" />
+            {t("supplier.dashboard.tabs.analytics")}
+          </TabsTrigger>
+          <TabsTrigger value="duplicates" data-testid="tab-duplicates">
+            <Copy className="h-4 w-4 mr-2" />
+            {t("supplier.dashboard.tabs.duplicates")}
+          </TabsTrigger>
         </TabsList>
 
         <TabsContent value="products" className="space-y-4">
@@ -673,13 +686,28 @@ export default function SupplierDashboard() {
                             </CardTitle>
                             <div className="flex gap-1 mt-2 flex-wrap">
                               <Badge variant="secondary" className="text-xs gap-1 shrink-0" data-testid={`badge-category-${product.id}`}>
-                                {t(`supplier.dashboard.categories.${getCategoryTranslationKey(product.category)}`)}
+                                {getCategoryLabel(product.category)}
                               </Badge>
                               {product.stockQuantity < 10 && (
                                 <Badge variant="destructive" className="text-xs gap-1 shrink-0" data-testid={`badge-low-stock-${product.id}`}>
                                   {t("supplier.dashboard.cards.lowStock")}
                                 </Badge>
                               )}
+                              {product.moderationStatus === 'pending' && (
+                                <Badge variant="outline" className="text-xs gap-1 shrink-0" data-testid={`badge-pending-review-${product.id}`}>
+                                  {t("supplier.dashboard.cards.pendingReview")}
+                                </Badge>
+                              )}
+                              {product.moderationStatus === 'rejected' && (
+                                <Badge
+                                  variant="destructive"
+                                  className="text-xs gap-1 shrink-0"
+                                  title={product.moderationReason || undefined}
+                                  data-testid={`badge-rejected-${product.id}`}
+                                >
+                                  {t("supplier.dashboard.cards.rejected")}
+                                </Badge>
+                              )}
                             </div>
                           </div>
                           <div className="flex gap-1 shrink-0">
@@ -813,6 +841,24 @@ export default function SupplierDashboard() {
             <SupplierChatPanel supplierId={supplier.id} userId={user.id} />
           )}
         </TabsContent>
+
+        <TabsContent value="questions" className="space-y-4">
+          {supplier?.id && (
+            <SupplierQuestionsPanel supplierId={supplier.id} />
+          )}
+        </TabsContent>
+
+        <TabsContent value="analytics" className="space-y-4">
+          {supplier?.id && (
+            <SupplierAnalyticsPanel supplierId={supplier.id} />
+          )}
+        </TabsContent>
+
+        <TabsContent value="duplicates" className="space-y-4">
+          {supplier?.id && (
+            <SupplierDuplicatesPanel supplierId={supplier.id} />
+          )}
+        </TabsContent>
       </Tabs>
 
       <AlertDialog open={!!deleteProductId} onOpenChange={() => setDeleteProductId(null)}>
@@ -0,0 +1,123 @@
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useLanguage } from "@/contexts/LanguageContext";
+import { Merge } from "lucide-react";
+import { useSupplierDuplicates, useMergeListing, type SupplierDuplicatePair } from "@/hooks/api/useDuplicateListings";
+
+interface SupplierDuplicatesPanelProps {
+  supplierId: string;
+}
+
+type ListingSummary = SupplierDuplicatePair['listing'];
+
+function ListingCell({ listing }: { listing: ListingSummary }) {
+  const { t } = useLanguage();
+
+  return (
+    <div className="min-w-0 flex-1 rounded-md border p-2">
+      <div className="flex items-center gap-2 flex-wrap">
+        <Badge variant="outline" className="font-mono text-xs">#{listing.garagehubCode}</Badge>
+        <span className="text-sm font-medium truncate">{listing.name}</span>
+      </div>
+      <p className="text-xs text-muted-foreground mt-1">
+        {listing.sku && <>{listing.sku} · </>}
+        RM {parseFloat(String(listing.price)).toFixed(2)} · {t("supplier.dashboard.duplicates.stock").replace("{count}", String(listing.stockQuantity))}
+      </p>
+    </div>
+  );
+}
+
+export default function SupplierDuplicatesPanel({ supplierId }: SupplierDuplicatesPanelProps) {
+  const { t } = useLanguage();
+  const { toast } = useToast();
+  const { data: pairs = [], isLoading } = useSupplierDuplicates(supplierId);
+  const mergeListing = useMergeListing(supplierId);
+  // The listing kept and the one merged into it
+  const [pending, setPending] = useState<{ keep: ListingSummary; duplicate: ListingSummary } | null>(null);
+
+  const handleMerge = async () => {
+    if (!pending) return;
+    try {
+      await mergeListing.mutateAsync({ keepId: pending.keep.id, data: { duplicateId: pending.duplicate.id } });
+      toast({ title: t("supplier.dashboard.duplicates.merged") });
+    } catch (error: any) {
+      toast({ title: t("supplier.dashboard.duplicates.mergeFailed"), description: error?.message, variant: "destructive" });
+    } finally {
+      setPending(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{t("supplier.dashboard.duplicates.title")}</CardTitle>
+        <CardDescription>{t("supplier.dashboard.duplicates.desc")}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {isLoading && <p className="text-sm text-muted-foreground">{t("common.loading")}</p>}
+        {!isLoading && pairs.length === 0 && (
+          <p className="text-sm text-muted-foreground" data-testid="text-no-duplicates">{t("supplier.dashboard.duplicates.empty")}</p>
+        )}
+        {pairs.map(pair => (
+          <div key={`${pair.listing.id}-${pair.duplicate.id}`} className="border rounded-md p-3 space-y-2" data-testid={`row-duplicate-${pair.duplicate.id}`}>
+            <div className="flex items-center gap-2 flex-wrap">
+              <Badge variant="secondary">{Math.round(pair.score * 100)}%</Badge>
+              {pair.signals.map(signal => (
+                <Badge key={signal} variant="outline" className="text-xs">{t(`supplier.dashboard.duplicates.signals.${signal}`)}</Badge>
+              ))}
+            </div>
+            <div className="flex flex-col sm:flex-row gap-2">
+              <ListingCell listing={pair.listing} />
+              <ListingCell listing={pair.duplicate} />
+            </div>
+            <div className="flex flex-wrap gap-2">
+              <Button
+                size="sm"
+                variant="outline"
+                className="gap-2"
+                onClick={() => setPending({ keep: pair.listing, duplicate: pair.duplicate })}
+                data-testid={`button-keep-listing-${pair.listing.id}`}
+              >
+                <Merge className="h-4 w-4" />
+                {t("supplier.dashboard.duplicates.keep").replace("{code}", pair.listing.garagehubCode)}
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                className="gap-2"
+                onClick={() => setPending({ keep: pair.duplicate, duplicate: pair.listing })}
+                data-testid={`button-keep-listing-${pair.duplicate.id}`}
+              >
+                <Merge className="h-4 w-4" />
+                {t("supplier.dashboard.duplicates.keep").replace("{code}", pair.duplicate.garagehubCode)}
+              </Button>
+            </div>
+          </div>
+        ))}
+      </CardContent>
+
+      <AlertDialog open={!!pending} onOpenChange={(open) => !open && setPending(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{t("supplier.dashboard.duplicates.confirmTitle")}</AlertDialogTitle>
+            <AlertDialogDescription>
+              {pending && t("supplier.dashboard.duplicates.confirmDesc")
+                .replace("{duplicate}", pending.duplicate.garagehubCode)
+                .replace("{keep}", pending.keep.garagehubCode)}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>{t("common.cancel")}</AlertDialogCancel>
+            <AlertDialogAction onClick={handleMerge} disabled={mergeListing.isPending} data-testid="button-confirm-merge">
+              {t("supplier.dashboard.duplicates.merge")}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
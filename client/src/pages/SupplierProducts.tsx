@@ -33,6 +33,7 @@ import {
 } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
 import { Skeleton } from "@/components/ui/skeleton";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
@@ -40,7 +41,7 @@ import { insertPartSchema, type InsertPart, type Part } from "@shared/schema";
 import { Plus, Edit, Trash2, Package } from "lucide-react";
 import { useAuth } from "@/hooks/useAuth";
 import { useSuppliers } from "@/hooks/api/useSuppliers";
-import { useParts, useUpdatePart, useDeletePart } from "@/hooks/api/useParts";
+import { useParts, useUpdatePart, useDeletePart, useReservedStock } from "@/hooks/api/useParts";
 import { useToast } from "@/hooks/use-toast";
 import {
   AlertDialog,
@@ -65,6 +66,13 @@ export default function SupplierProducts() {
   const userSupplier = suppliers?.find(s => s.userId === user?.id);
   
   const { data: parts, isLoading } = useParts(userSupplier?.id);
+  const { data: reservedStock } = useReservedStock(userSupplier?.id);
+  
+  // Reserved quantity per product (summed over variants)
+  const reservedByPart = new Map<string, number>();
+  reservedStock?.forEach(({ partId, reservedQuantity }) => {
+    reservedByPart.set(partId, (reservedByPart.get(partId) || 0) + reservedQuantity);
+  });
   const updatePartMutation = useUpdatePart();
   const deletePartMutation = useDeletePart();
 
@@ -126,6 +134,8 @@ export default function SupplierProducts() {
       price: part.price,
       stockQuantity: part.stockQuantity,
       imageUrl: part.imageUrl || "",
+      allowBackorder: part.allowBackorder,
+      expectedRestockDate: part.expectedRestockDate ? new Date(part.expectedRestockDate) : null,
     });
   };
 
@@ -186,7 +196,8 @@ export default function SupplierProducts() {
                   <TableHead>SKU</TableHead>
                   <TableHead>Category</TableHead>
                   <TableHead className="text-right">Price</TableHead>
-                  <TableHead className="text-right">Stock</TableHead>
+                  <TableHead className="text-right">Available</TableHead>
+                  <TableHead className="text-right">Reserved</TableHead>
                   <TableHead className="text-right">Actions</TableHead>
                 </TableRow>
               </TableHeader>
@@ -206,6 +217,9 @@ export default function SupplierProducts() {
                         {part.stockQuantity}
                       </span>
                     </TableCell>
+                    <TableCell className="text-right text-muted-foreground" data-testid={`text-product-reserved-${part.id}`}>
+                      {reservedByPart.get(part.id) || 0}
+                    </TableCell>
                     <TableCell className="text-right">
                       <div className="flex justify-end gap-2">
                         <Button
@@ -381,6 +395,42 @@ export default function SupplierProducts() {
                   )}
                 />
               </div>
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={editForm.control}
+                  name="allowBackorder"
+                  render={({ field }) => (
+                    <FormItem className="flex items-center gap-2 space-y-0 pt-8">
+                      <FormControl>
+                        <Checkbox
+                          checked={field.value ?? false}
+                          onCheckedChange={(checked) => field.onChange(checked === true)}
+                          data-testid="checkbox-edit-allow-backorder"
+                        />
+                      </FormControl>
+                      <FormLabel>Accept backorders when out of stock</FormLabel>
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={editForm.control}
+                  name="expectedRestockDate"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Expected Restock Date (Optional)</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="date"
+                          value={field.value ? new Date(field.value).toISOString().slice(0, 10) : ""}
+                          onChange={(e) => field.onChange(e.target.value ? new Date(e.target.value) : null)}
+                          data-testid="input-edit-restock-date"
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
               <div className="flex justify-end gap-3">
                 <Button type="button" variant="outline" onClick={() => setEditingPart(null)} data-testid="button-cancel-edit">
                   Cancel
@@ -0,0 +1,117 @@
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { useToast } from "@/hooks/use-toast";
+import { useLanguage } from "@/contexts/LanguageContext";
+import { Trash2 } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import {
+  useSupplierQuestions,
+  useAnswerProductQuestion,
+  useDeleteProductQuestion,
+  type SupplierProductQuestion,
+  type SupplierQuestionStatus,
+} from "@/hooks/api/useProductQuestions";
+
+interface SupplierQuestionsPanelProps {
+  supplierId: string;
+}
+
+function QuestionRow({ question }: { question: SupplierProductQuestion }) {
+  const { t } = useLanguage();
+  const { toast } = useToast();
+  const answerQuestion = useAnswerProductQuestion();
+  const deleteQuestion = useDeleteProductQuestion();
+  const [answer, setAnswer] = useState(question.answer || "");
+
+  const handleAnswer = async () => {
+    if (!answer.trim()) return;
+    try {
+      await answerQuestion.mutateAsync({ questionId: question.id, data: { answer: answer.trim() } });
+      toast({ title: t("supplier.dashboard.questions.saved") });
+    } catch (error: any) {
+      toast({ title: t("supplier.dashboard.questions.failed"), description: error?.message, variant: "destructive" });
+    }
+  };
+
+  return (
+    <div className="border rounded-md p-3 space-y-2" data-testid={`row-question-${question.id}`}>
+      <div className="flex items-start justify-between gap-2">
+        <div className="min-w-0">
+          <div className="flex items-center gap-2 flex-wrap">
+            <Badge variant="outline" className="font-mono text-xs">#{question.part.garagehubCode}</Badge>
+            <span className="text-sm font-medium truncate">{question.part.name}</span>
+          </div>
+          <p className="text-xs text-muted-foreground mt-1">
+            {t("supplier.dashboard.questions.from").replace("{name}", question.workshopName)}
+            {question.createdAt && ` · ${formatDistanceToNow(new Date(question.createdAt), { addSuffix: true })}`}
+          </p>
+        </div>
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={() => deleteQuestion.mutate({ id: question.id, partId: question.partId })}
+          disabled={deleteQuestion.isPending}
+          title={t("supplier.dashboard.questions.delete")}
+          data-testid={`button-delete-question-${question.id}`}
+        >
+          <Trash2 className="h-4 w-4 text-destructive" />
+        </Button>
+      </div>
+
+      <p className="text-sm">Q: {question.question}</p>
+
+      <div className="flex flex-col sm:flex-row gap-2">
+        <Textarea
+          value={answer}
+          onChange={(e) => setAnswer(e.target.value)}
+          placeholder={t("supplier.dashboard.questions.answerPlaceholder")}
+          maxLength={2000}
+          className="min-h-[40px] flex-1"
+          data-testid={`input-answer-${question.id}`}
+        />
+        <Button
+          onClick={handleAnswer}
+          disabled={!answer.trim() || answer.trim() === question.answer || answerQuestion.isPending}
+          data-testid={`button-answer-${question.id}`}
+        >
+          {t(question.answer ? "supplier.dashboard.questions.update" : "supplier.dashboard.questions.submit")}
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+export default function SupplierQuestionsPanel({ supplierId }: SupplierQuestionsPanelProps) {
+  const { t } = useLanguage();
+  const [status, setStatus] = useState<SupplierQuestionStatus>('unanswered');
+  const { data: questions = [], isLoading } = useSupplierQuestions(supplierId, status);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{t("supplier.dashboard.questions.title")}</CardTitle>
+        <CardDescription>{t("supplier.dashboard.questions.desc")}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <Tabs value={status} onValueChange={(value) => setStatus(value as SupplierQuestionStatus)}>
+          <TabsList>
+            <TabsTrigger value="unanswered" data-testid="tab-questions-unanswered">{t("supplier.dashboard.questions.unanswered")}</TabsTrigger>
+            <TabsTrigger value="answered" data-testid="tab-questions-answered">{t("supplier.dashboard.questions.answered")}</TabsTrigger>
+          </TabsList>
+        </Tabs>
+
+        {!isLoading && questions.length === 0 && (
+          <p className="text-sm text-muted-foreground text-center py-6">{t("supplier.dashboard.questions.empty")}</p>
+        )}
+
+        {questions.map(question => (
+          <QuestionRow key={question.id} question={question} />
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
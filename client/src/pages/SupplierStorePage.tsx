@@ -93,9 +93,10 @@ export default function SupplierStorePage() {
   // Add to cart mutation
   const addToCartMutation = useMutation({
     mutationFn: async ({ partId, quantity }: { partId: string; quantity: number }) => {
-      return apiRequest('/api/workshop/cart/add', {
+      return apiRequest('/api/marketplace/cart/items', {
         method: 'POST',
-        body: JSON.stringify({ partId, quantity }),
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ partId, quantity, source: 'product_page' }),
       });
     },
     onSuccess: () => {
@@ -103,7 +104,7 @@ export default function SupplierStorePage() {
         title: "Added to cart",
         description: "Product successfully added to your cart",
       });
-      queryClient.invalidateQueries({ queryKey: ['/api/workshop/cart'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/cart'] });
       setIsProductModalOpen(false);
     },
     onError: () => {
@@ -8,12 +8,13 @@ import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { Textarea } from "@/components/ui/textarea";
 import { Badge } from "@/components/ui/badge";
 import { Alert, AlertDescription } from "@/components/ui/alert";
-import { ShoppingCart, Truck, Package, ArrowLeft, Wallet, CreditCard, QrCode, AlertCircle, CheckCircle2 } from "lucide-react";
+import { ShoppingCart, Truck, Package, ArrowLeft, Wallet, CreditCard, QrCode, AlertCircle, CheckCircle2, Ticket, Plus } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import type { Part, User } from "@shared/schema";
 import { Link, useLocation } from "wouter";
 import { useLanguage } from "@/contexts/LanguageContext";
+import { useCartRecommendations } from "@/hooks/api/useParts";
 
 interface CartItem {
   id: string; // Cart item ID for mutations
@@ -30,6 +31,11 @@ interface BankDetails {
   reference: string;
 }
 
+interface AppliedVoucher {
+  code: string;
+  discountAmount: string;
+}
+
 interface QuoteResponse {
   itemsTotal: string;
   deliveryCharge: string;
@@ -47,6 +53,8 @@ export default function WorkshopCart() {
   const [paymentMethod, setPaymentMethod] = useState<PaymentMethod>("wallet");
   const [bankDetails, setBankDetails] = useState<BankDetails | null>(null);
   const [confirmedOrderTotal, setConfirmedOrderTotal] = useState<number>(0);
+  const [voucherInputs, setVoucherInputs] = useState<Record<string, string>>({});
+  const [vouchers, setVouchers] = useState<Record<string, AppliedVoucher>>({}); // By supplierId
 
   const { data: user } = useQuery<User>({
     queryKey: ['/api/auth/user'],
@@ -66,6 +74,7 @@ export default function WorkshopCart() {
       quantity: number;
       partName: string;
       partPrice: string;
+      unitPrice?: string | null; // Tier / price list price, when resolved
       partImage?: any;
       partCategory?: string;
       partStock?: number;
@@ -74,6 +83,17 @@ export default function WorkshopCart() {
     queryKey: ['/api/cart'],
   });
 
+  // Price lists and tiers may have changed since the items were added - re-resolve once per visit
+  useEffect(() => {
+    apiRequest<{ updated: number }>('/api/marketplace/cart/reprice', { method: 'POST' })
+      .then(({ updated }) => {
+        if (updated > 0) {
+          queryClient.invalidateQueries({ queryKey: ['/api/cart'] });
+        }
+      })
+      .catch(() => {});
+  }, []);
+
   // Extract cart items and synthesize Part object from flattened API response
   const cart: CartItem[] = (cartData?.items || []).map(item => ({
     id: item.id,
@@ -82,7 +102,7 @@ export default function WorkshopCart() {
       id: item.partId,
       supplierId: item.supplierId,
       name: item.partName,
-      price: item.partPrice,
+      price: item.unitPrice ?? item.partPrice,
       images: item.partImage,
       category: item.partCategory || '',
       stockQuantity: item.partStock || 0,
@@ -98,6 +118,26 @@ export default function WorkshopCart() {
     quantity: item.quantity,
   }));
 
+  const { data: recommendations = [] } = useCartRecommendations(cart.length > 0);
+
+  const addRecommendationMutation = useMutation({
+    mutationFn: async ({ partId }: { partId: string; supplierId: string }) => {
+      return apiRequest('/api/marketplace/cart/items', {
+        method: 'POST',
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ partId, quantity: 1, source: 'cart' }),
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/cart'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/marketplace/cart/recommendations'] });
+      toast({ title: t("workshop.cart.recommendationAdded") });
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error?.message, variant: "destructive" });
+    },
+  });
+
   // Group cart items by supplier (MUST be before query!)
   const itemsBySupplier = cart.reduce((acc, item) => {
     const supplierId = item.part.supplierId;
@@ -174,48 +214,23 @@ export default function WorkshopCart() {
         }
       }
 
-      // Group cart items by supplier
-      const itemsBySupplier = cart.reduce((acc, item) => {
-        const supplierId = item.part.supplierId;
-        if (!acc[supplierId]) {
-          acc[supplierId] = [];
-        }
-        acc[supplierId].push(item);
-        return acc;
-      }, {} as Record<string, CartItem[]>);
-
-      // Create an order for each supplier with payment method
-      const orderPromises = Object.entries(itemsBySupplier).map(async ([supplierId, items]) => {
-        const orderData = {
-          supplierId,
-          items: items.map(item => ({
-            partId: item.part.id,
-            quantity: item.quantity,
-          })),
+      // The whole cart in one checkout: one order per supplier, all or none (and one debit for wallet payments)
+      return apiRequest<{ orders: any[]; totalAmount: string; bankDetails: BankDetails | null }>('/api/marketplace/cart/checkout', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
           deliveryType,
           deliveryAddress: deliveryType === "runner" ? deliveryAddress : undefined,
           notes: notes || undefined,
           paymentMethod,
-        };
-
-        const order: any = await apiRequest('/api/workshop/supplier-orders', {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify(orderData),
-        });
-
-        return order;
+          vouchers: Object.fromEntries(Object.entries(vouchers).map(([supplierId, voucher]) => [supplierId, voucher.code])),
+        }),
       });
-
-      const orders = await Promise.all(orderPromises);
-      return orders;
     },
-    onSuccess: (orders) => {
+    onSuccess: (result) => {
       // Handle bank transfer - show bank details
-      if (paymentMethod === 'bank_transfer' && orders[0]?.bankDetails) {
-        setBankDetails(orders[0].bankDetails);
+      if (paymentMethod === 'bank_transfer' && result.bankDetails) {
+        setBankDetails(result.bankDetails);
         toast({
           title: t("workshop.cart.toasts.orderCreated"),
           description: t("workshop.cart.toasts.completeBankTransfer"),
@@ -255,7 +270,46 @@ export default function WorkshopCart() {
   const cartSubtotal = cart.reduce((sum, item) => sum + parseFloat(item.part.price) * item.quantity, 0);
   // Only apply delivery charge for runner delivery, not pickup
   const deliveryCharge = deliveryType === 'runner' && quoteData?.deliveryCharge ? parseFloat(quoteData.deliveryCharge) : 0;
-  const cartTotal = cartSubtotal + deliveryCharge;
+  const discountTotal = Object.values(vouchers).reduce((sum, voucher) => sum + parseFloat(voucher.discountAmount), 0);
+  const cartTotal = cartSubtotal - discountTotal + deliveryCharge;
+
+  const applyVoucherMutation = useMutation({
+    mutationFn: async ({ supplierId, code }: { supplierId: string; code: string }) => {
+      const result: AppliedVoucher = await apiRequest(`/api/marketplace/suppliers/${supplierId}/vouchers/validate`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ code }),
+      });
+      return { supplierId, result };
+    },
+    onSuccess: ({ supplierId, result }) => {
+      setVouchers(prev => ({ ...prev, [supplierId]: { code: result.code, discountAmount: result.discountAmount } }));
+      toast({
+        title: t("workshop.cart.toasts.voucherApplied"),
+        description: `${result.code}: -RM ${parseFloat(result.discountAmount).toFixed(2)}`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: t("workshop.cart.toasts.voucherInvalid"),
+        description: error instanceof Error ? error.message : t("workshop.cart.toasts.tryAgain"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const removeVoucher = (supplierId: string) => {
+    setVouchers(prev => {
+      const { [supplierId]: _removed, ...rest } = prev;
+      return rest;
+    });
+  };
+
+  // A cart change can invalidate the discount - the workshop re-applies the code
+  const cartSignature = cart.map(item => `${item.part.id}:${item.quantity}`).join(',');
+  useEffect(() => {
+    setVouchers({});
+  }, [cartSignature]);
 
   // Clear quote data when switching from runner to pickup
   useEffect(() => {
@@ -381,11 +435,73 @@ export default function WorkshopCart() {
                         </div>
                       </div>
                     ))}
+                    <div className="flex items-center gap-2 border-t pt-3">
+                      <Ticket className="w-4 h-4 text-muted-foreground" />
+                      {vouchers[supplierId] ? (
+                        <>
+                          <Badge variant="secondary" data-testid={`badge-voucher-${supplierId}`}>{vouchers[supplierId].code}</Badge>
+                          <span className="text-sm text-green-600">-RM {parseFloat(vouchers[supplierId].discountAmount).toFixed(2)}</span>
+                          <Button variant="ghost" size="sm" className="ml-auto" onClick={() => removeVoucher(supplierId)} data-testid={`button-remove-voucher-${supplierId}`}>
+                            {t("workshop.cart.removeVoucher")}
+                          </Button>
+                        </>
+                      ) : (
+                        <>
+                          <Input
+                            className="h-8"
+                            placeholder={t("workshop.cart.voucherPlaceholder")}
+                            value={voucherInputs[supplierId] || ''}
+                            onChange={(e) => setVoucherInputs(prev => ({ ...prev, [supplierId]: e.target.value }))}
+                            data-testid={`input-voucher-${supplierId}`}
+                          />
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            disabled={!voucherInputs[supplierId]?.trim() || applyVoucherMutation.isPending}
+                            onClick={() => applyVoucherMutation.mutate({ supplierId, code: voucherInputs[supplierId].trim() })}
+                            data-testid={`button-apply-voucher-${supplierId}`}
+                          >
+                            {t("workshop.cart.applyVoucher")}
+                          </Button>
+                        </>
+                      )}
+                    </div>
                   </div>
                 ))}
               </CardContent>
             </Card>
 
+            {recommendations.length > 0 && (
+              <Card>
+                <CardHeader>
+                  <CardTitle>{t("workshop.cart.frequentlyBoughtTogether")}</CardTitle>
+                  <CardDescription>{t("workshop.cart.frequentlyBoughtTogetherDesc")}</CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  {recommendations.map((part) => (
+                    <div key={part.id} className="flex items-center justify-between gap-4" data-testid={`recommendation-${part.id}`}>
+                      <div className="min-w-0">
+                        <p className="font-medium truncate">{part.name}</p>
+                        <p className="text-sm text-muted-foreground truncate">
+                          {part.supplier.name} · RM {parseFloat(part.price).toFixed(2)}
+                        </p>
+                      </div>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => addRecommendationMutation.mutate({ partId: part.id, supplierId: part.supplierId })}
+                        disabled={addRecommendationMutation.isPending || part.hasVariants}
+                        data-testid={`button-add-recommendation-${part.id}`}
+                      >
+                        <Plus className="w-4 h-4 mr-1" />
+                        {t("workshop.cart.addRecommendation")}
+                      </Button>
+                    </div>
+                  ))}
+                </CardContent>
+              </Card>
+            )}
+
             <Card>
               <CardHeader>
                 <CardTitle>{t("workshop.cart.deliveryOptions")}</CardTitle>
@@ -563,6 +679,12 @@ export default function WorkshopCart() {
                       <span className="text-muted-foreground">{t("workshop.cart.subtotal")}</span>
                       <span data-testid="text-subtotal">RM {cartSubtotal.toFixed(2)}</span>
                     </div>
+                    {discountTotal > 0 && (
+                      <div className="flex justify-between text-sm">
+                        <span className="text-muted-foreground">{t("workshop.cart.voucherDiscount")}</span>
+                        <span className="text-green-600" data-testid="text-voucher-discount">-RM {discountTotal.toFixed(2)}</span>
+                      </div>
+                    )}
                     <div className="flex justify-between text-sm">
                       <span className="text-muted-foreground">{t("workshop.cart.delivery")}</span>
                       <span data-testid="text-delivery-fee">
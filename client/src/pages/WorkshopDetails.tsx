@@ -4,10 +4,11 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
-import { MapPin, Phone, Clock, Star, ArrowLeft, Calendar } from "lucide-react";
+import { MapPin, Phone, Clock, ArrowLeft, Calendar } from "lucide-react";
 import type { Workshop } from "@shared/schema";
 import { useState } from "react";
 import { BookingFormDialog } from "@/components/BookingFormDialog";
+import ReviewsSection from "@/components/ReviewsSection";
 
 export default function WorkshopDetails() {
   const { id } = useParams<{ id: string }>();
@@ -170,25 +171,7 @@ export default function WorkshopDetails() {
               <CardTitle className="text-lg">Reviews</CardTitle>
             </CardHeader>
             <CardContent>
-              <div className="flex items-center gap-2 mb-4">
-                <div className="flex items-center gap-1">
-                  {[...Array(5)].map((_, i) => (
-                    <Star
-                      key={i}
-                      className={`h-4 w-4 ${
-                        i < 4
-                          ? "fill-yellow-400 text-yellow-400"
-                          : "text-muted-foreground"
-                      }`}
-                    />
-                  ))}
-                </div>
-                <span className="text-sm font-medium">4.0</span>
-                <span className="text-xs text-muted-foreground">(24 reviews)</span>
-              </div>
-              <p className="text-sm text-muted-foreground">
-                Based on customer feedback and service quality
-              </p>
+              <ReviewsSection targetType="workshop" targetId={workshop.id} />
             </CardContent>
           </Card>
 
@@ -0,0 +1,219 @@
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ListChecks, Plus, ShoppingCart, Trash2, TrendingDown, X } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useLanguage } from "@/contexts/LanguageContext";
+import { useLocation } from "wouter";
+import {
+  useSavedLists,
+  useSavedList,
+  useCreateSavedList,
+  useDeleteSavedList,
+  useRemoveSavedListItem,
+  useAddSavedListToCart,
+} from "@/hooks/api/useSavedLists";
+
+export default function SavedLists() {
+  const { toast } = useToast();
+  const { t } = useLanguage();
+  const [, navigate] = useLocation();
+  const [newListName, setNewListName] = useState("");
+  const [selectedListId, setSelectedListId] = useState<string | null>(null);
+
+  const { data: lists = [], isLoading } = useSavedLists();
+  const { data: detail } = useSavedList(selectedListId);
+  const createList = useCreateSavedList();
+  const deleteList = useDeleteSavedList();
+  const removeItem = useRemoveSavedListItem();
+  const addToCart = useAddSavedListToCart();
+
+  const onError = (error: any) => {
+    toast({ title: t("workshop.savedLists.toasts.failed"), description: error?.message, variant: "destructive" });
+  };
+
+  const handleCreate = async () => {
+    if (!newListName.trim()) return;
+    try {
+      const list = await createList.mutateAsync({ name: newListName.trim() });
+      setNewListName("");
+      setSelectedListId(list.id);
+      toast({ title: t("workshop.savedLists.toasts.listCreated") });
+    } catch (error) {
+      onError(error);
+    }
+  };
+
+  const handleDelete = async (listId: string) => {
+    try {
+      await deleteList.mutateAsync(listId);
+      if (selectedListId === listId) setSelectedListId(null);
+    } catch (error) {
+      onError(error);
+    }
+  };
+
+  const handleAddAllToCart = async () => {
+    if (!selectedListId) return;
+    try {
+      const result = await addToCart.mutateAsync(selectedListId);
+      toast({
+        title: t("workshop.savedLists.toasts.addedToCart").replace("{count}", String(result.added)),
+        description: result.skipped.length > 0 ? t("workshop.savedLists.toasts.someSkipped") : undefined,
+      });
+      if (result.added > 0) navigate("/workshop/cart");
+    } catch (error) {
+      onError(error);
+    }
+  };
+
+  return (
+    <div className="h-full flex flex-col">
+      <div className="border-b p-4">
+        <h1 className="text-2xl font-semibold" data-testid="text-saved-lists-title">{t("workshop.savedLists.title")}</h1>
+        <p className="text-sm text-muted-foreground">{t("workshop.savedLists.subtitle")}</p>
+      </div>
+
+      <div className="flex-1 overflow-auto p-4 grid gap-4 lg:grid-cols-[320px_1fr]">
+        {/* Lists */}
+        <Card>
+          <CardContent className="p-4 space-y-3">
+            <div className="flex gap-2">
+              <Input
+                value={newListName}
+                onChange={(e) => setNewListName(e.target.value)}
+                onKeyDown={(e) => e.key === "Enter" && handleCreate()}
+                placeholder={t("workshop.savedLists.newListPlaceholder")}
+                data-testid="input-new-list-name"
+              />
+              <Button size="icon" onClick={handleCreate} disabled={createList.isPending} data-testid="button-create-list">
+                <Plus className="h-4 w-4" />
+              </Button>
+            </div>
+
+            {!isLoading && lists.length === 0 && (
+              <p className="text-sm text-muted-foreground text-center py-6">{t("workshop.savedLists.noLists")}</p>
+            )}
+
+            {lists.map((list) => (
+              <button
+                key={list.id}
+                type="button"
+                onClick={() => setSelectedListId(list.id)}
+                className={`w-full text-left rounded-md border p-3 hover-elevate ${selectedListId === list.id ? "border-primary" : ""}`}
+                data-testid={`button-list-${list.id}`}
+              >
+                <div className="flex items-center gap-2 font-medium">
+                  <ListChecks className="h-4 w-4 text-muted-foreground" />
+                  {list.name}
+                </div>
+                <p className="text-xs text-muted-foreground mt-1">
+                  {list.itemCount} {t("workshop.savedLists.items")}
+                </p>
+              </button>
+            ))}
+          </CardContent>
+        </Card>
+
+        {/* Selected list */}
+        <Card>
+          {!detail ? (
+            <CardContent className="p-8 text-center text-muted-foreground">
+              {t("workshop.savedLists.selectList")}
+            </CardContent>
+          ) : (
+            <>
+              <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+                <div>
+                  <CardTitle data-testid="text-list-name">{detail.name}</CardTitle>
+                  {detail.description && <CardDescription>{detail.description}</CardDescription>}
+                </div>
+                <div className="flex gap-2">
+                  <Button
+                    onClick={handleAddAllToCart}
+                    disabled={addToCart.isPending || detail.items.length === 0}
+                    data-testid="button-add-all-to-cart"
+                  >
+                    <ShoppingCart className="h-4 w-4 mr-2" />
+                    {t("workshop.savedLists.addAllToCart")}
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="icon"
+                    onClick={() => handleDelete(detail.id)}
+                    title={t("workshop.savedLists.deleteList")}
+                    data-testid="button-delete-list"
+                  >
+                    <Trash2 className="h-4 w-4 text-destructive" />
+                  </Button>
+                </div>
+              </CardHeader>
+              <CardContent>
+                {detail.items.length === 0 ? (
+                  <p className="text-sm text-muted-foreground text-center py-6">{t("workshop.savedLists.emptyList")}</p>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>{t("workshop.savedLists.part")}</TableHead>
+                        <TableHead>{t("workshop.savedLists.supplier")}</TableHead>
+                        <TableHead className="text-right">{t("workshop.savedLists.qty")}</TableHead>
+                        <TableHead className="text-right">{t("workshop.savedLists.price")}</TableHead>
+                        <TableHead className="text-right">{t("workshop.savedLists.stock")}</TableHead>
+                        <TableHead />
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {detail.items.map((line) => (
+                        <TableRow key={line.item.id} data-testid={`row-list-item-${line.item.id}`}>
+                          <TableCell className="font-medium">
+                            {line.part.name}
+                            {line.variantName && <span className="text-muted-foreground"> ({line.variantName})</span>}
+                          </TableCell>
+                          <TableCell>{line.supplier.name}</TableCell>
+                          <TableCell className="text-right">{line.item.quantity}</TableCell>
+                          <TableCell className="text-right">
+                            {line.unitPrice !== null ? `RM ${parseFloat(line.unitPrice).toFixed(2)}` : "-"}
+                            {line.priceChange !== null && parseFloat(line.priceChange) < 0 && (
+                              <div className="text-xs text-green-600 flex items-center justify-end gap-1">
+                                <TrendingDown className="h-3 w-3" />
+                                {t("workshop.savedLists.priceDropped").replace("{amount}", Math.abs(parseFloat(line.priceChange)).toFixed(2))}
+                              </div>
+                            )}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            {line.available ? (
+                              line.stockQuantity
+                            ) : (
+                              <Badge variant="destructive">{t("workshop.savedLists.unavailable")}</Badge>
+                            )}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              onClick={() => removeItem.mutate({ listId: detail.id, itemId: line.item.id }, { onError })}
+                              data-testid={`button-remove-item-${line.item.id}`}
+                            >
+                              <X className="h-4 w-4" />
+                            </Button>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+                <div className="flex justify-end font-semibold text-lg pt-4" data-testid="text-list-total">
+                  {t("workshop.savedLists.total")}: RM {parseFloat(detail.total).toFixed(2)}
+                </div>
+              </CardContent>
+            </>
+          )}
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -1,4 +1,3 @@
-import { useQuery } from "@tanstack/react-query";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
@@ -7,7 +6,7 @@ import { Badge } from "@/components/ui/badge";
 import { MapPin, Star, Store, Search, Loader2 } from "lucide-react";
 import { useLocation, useRoute } from "wouter";
 import { useState } from "react";
-import type { Supplier } from "@shared/schema";
+import { useMarketplaceSuppliers } from "@/hooks/api/useMarketplace";
 
 const STATES = ['Johor', 'Kedah', 'Kelantan', 'Melaka', 'Negeri Sembilan', 'Pahang', 'Perak', 'Perlis', 'Pulau Pinang', 'Sabah', 'Sarawak', 'Selangor', 'Terengganu', 'Kuala Lumpur', 'Labuan', 'Putrajaya'];
 
@@ -18,20 +17,17 @@ export default function SupplierGrid() {
   
   const [searchQuery, setSearchQuery] = useState("");
   const [selectedState, setSelectedState] = useState<string>("all");
+  const [sortBy, setSortBy] = useState("rating");
 
-  const { data: suppliers = [], isLoading } = useQuery<Supplier[]>({
-    queryKey: ["/api/marketplace/suppliers", supplierType, searchQuery, selectedState],
-    queryFn: async () => {
-      const params = new URLSearchParams();
-      params.append('type', supplierType);
-      if (searchQuery) params.append('q', searchQuery);
-      if (selectedState && selectedState !== 'all') params.append('state', selectedState);
-      const response = await fetch(`/api/marketplace/suppliers?${params}`);
-      if (!response.ok) throw new Error('Failed to fetch suppliers');
-      return response.json();
-    },
+  const { data, isLoading, hasNextPage, fetchNextPage, isFetchingNextPage } = useMarketplaceSuppliers({
+    type: supplierType,
+    q: searchQuery || undefined,
+    state: selectedState !== 'all' ? selectedState : undefined,
+    sort: sortBy,
   });
 
+  const suppliers = data?.pages.flatMap(page => page.items) ?? [];
+
   return (
     <div className="container mx-auto p-4 sm:p-6 space-y-4 sm:space-y-6">
       <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-3">
@@ -70,6 +66,16 @@ export default function SupplierGrid() {
             ))}
           </SelectContent>
         </Select>
+        <Select value={sortBy} onValueChange={setSortBy}>
+          <SelectTrigger className="w-full sm:w-[180px]" data-testid="select-sort-suppliers">
+            <SelectValue placeholder="Sort by" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="rating">Top rated</SelectItem>
+            <SelectItem value="newest">Newest</SelectItem>
+            <SelectItem value="name">Name (A-Z)</SelectItem>
+          </SelectContent>
+        </Select>
       </div>
 
       {isLoading ? (
@@ -151,6 +157,20 @@ export default function SupplierGrid() {
           ))}
         </div>
       )}
+
+      {hasNextPage && (
+        <div className="flex justify-center">
+          <Button
+            variant="outline"
+            onClick={() => fetchNextPage()}
+            disabled={isFetchingNextPage}
+            data-testid="button-load-more-suppliers"
+          >
+            {isFetchingNextPage && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Load more
+          </Button>
+        </div>
+      )}
     </div>
   );
 }
@@ -22,9 +22,8 @@ import type { Supplier, Part, DeliveryType } from "@shared/schema";
 import ImageSearchDialog from "@/components/ImageSearchDialog";
 import ProductDetailModal from "@/components/marketplace/ProductDetailModal";
 import DeliverySelectionModal from "@/components/marketplace/DeliverySelectionModal";
-
-const BRANDS = ['Perodua', 'Proton', 'Toyota', 'Honda', 'Nissan', 'Mitsubishi', 'Mazda', 'BMW', 'Mercedes', 'VW', 'Hyundai', 'Kia'];
-const CATEGORIES = ['Engine', 'Gearbox', 'Body', 'Suspension', 'Electrical', 'Cooling', 'Brakes', 'Lubricant', 'Battery', 'Tyre', 'Tools', 'Accessories', 'Halfcut'];
+import { useSupplierProducts } from "@/hooks/api/useMarketplace";
+import ReviewsSection from "@/components/ReviewsSection";
 
 export default function SupplierStore() {
   const [, params] = useRoute("/workshop/marketplace/shop/:supplierId");
@@ -40,7 +39,9 @@ export default function SupplierStore() {
   const [selectedCategory, setSelectedCategory] = useState("all");
   const [inStockOnly, setInStockOnly] = useState(false);
   const [priceRange, setPriceRange] = useState([0, 10000]);
+  const [sortBy, setSortBy] = useState("newest");
   const [showChat, setShowChat] = useState(false);
+  const [showReviews, setShowReviews] = useState(false);
   const [showImageSearch, setShowImageSearch] = useState(false);
   const [chatMessage, setChatMessage] = useState("");
   const [selectedProduct, setSelectedProduct] = useState<Part | null>(null);
@@ -59,22 +60,28 @@ export default function SupplierStore() {
 
   const cartItemCount = cartData?.items?.reduce((total, item) => total + item.quantity, 0) || 0;
 
-  const { data: products = [], isLoading: loadingProducts } = useQuery<Part[]>({
-    queryKey: ["/api/marketplace/suppliers", supplierId, "products", searchQuery, selectedBrand, selectedModel, selectedCategory, inStockOnly],
-    enabled: !!supplierId,
-    queryFn: async () => {
-      const params = new URLSearchParams();
-      if (searchQuery) params.append('q', searchQuery);
-      if (selectedBrand && selectedBrand !== 'all') params.append('brand', selectedBrand);
-      if (selectedModel) params.append('model', selectedModel);
-      if (selectedCategory && selectedCategory !== 'all') params.append('category', selectedCategory);
-      if (inStockOnly) params.append('inStock', '1');
-      const response = await fetch(`/api/marketplace/suppliers/${supplierId}/products?${params}`);
-      if (!response.ok) throw new Error('Failed to fetch products');
-      return response.json();
-    },
+  const {
+    data: listing,
+    isLoading: loadingProducts,
+    hasNextPage,
+    fetchNextPage,
+    isFetchingNextPage,
+  } = useSupplierProducts(supplierId, {
+    q: searchQuery || undefined,
+    brand: selectedBrand !== 'all' ? selectedBrand : undefined,
+    model: selectedModel || undefined,
+    category: selectedCategory !== 'all' ? selectedCategory : undefined,
+    inStock: inStockOnly,
+    minPrice: priceRange[0] > 0 ? priceRange[0] : undefined,
+    maxPrice: priceRange[1] < 10000 ? priceRange[1] : undefined,
+    sort: sortBy,
   });
 
+  const products = listing?.pages.flatMap(page => page.items) ?? [];
+  // Facets describe the whole filtered result set, so the first page's copy is authoritative
+  const brandFacets = listing?.pages[0]?.facets.vehicleMake ?? [];
+  const categoryFacets = listing?.pages[0]?.facets.category ?? [];
+
   const { data: chatMessages = [], isLoading: loadingMessages } = useQuery<any[]>({
     queryKey: [`/api/marketplace/chat/${supplierId}/messages`],
     enabled: !!supplierId && showChat,
@@ -139,10 +146,10 @@ export default function SupplierStore() {
 
   const addToCartMutation = useMutation({
     mutationFn: async ({ product, quantity }: { product: Part; quantity: number }) => {
-      return apiRequest('POST', '/api/cart/items', {
+      return apiRequest('POST', '/api/marketplace/cart/items', {
         partId: product.id,
         quantity,
-        deliveryType: "runner",
+        source: 'product_page',
       });
     },
     onSuccess: (_, { product, quantity }) => {
@@ -168,14 +175,6 @@ export default function SupplierStore() {
     sendMessageMutation.mutate(chatMessage.trim());
   };
 
-  const filteredProducts = products.filter(p => {
-    if (priceRange[0] > 0 || priceRange[1] < 10000) {
-      const price = Number(p.price);
-      if (price < priceRange[0] || price > priceRange[1]) return false;
-    }
-    return true;
-  });
-
   if (!supplierId) {
     return <div className="container mx-auto p-6">Invalid supplier ID</div>;
   }
@@ -226,16 +225,26 @@ export default function SupplierStore() {
     if (!selectedProduct) return;
     
     try {
-      await apiRequest("POST", "/api/cart/items", {
-        partId: selectedProduct.id,
-        quantity: selectedQuantity,
-        deliveryType,
+      const item = await apiRequest<{ id: string }>("/api/marketplace/cart/items", {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          partId: selectedProduct.id,
+          quantity: selectedQuantity,
+          source: 'product_page',
+        }),
       });
       
-      const result: any = await apiRequest("POST", "/api/cart/checkout", {});
+      // Check out just this product; anything else in the cart stays there
+      const result = await apiRequest<{ orders: any[] }>("/api/marketplace/cart/checkout", {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ deliveryType, paymentMethod: 'wallet', itemIds: [item.id] }),
+      });
       
-      queryClient.invalidateQueries({ queryKey: ['/api/cart/items'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/cart'] });
       queryClient.invalidateQueries({ queryKey: ['/api/orders'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/wallet/balance'] });
       
       setShowDeliveryModal(false);
       setSelectedProduct(null);
@@ -285,10 +294,15 @@ export default function SupplierStore() {
                     <MapPin className="h-3 w-3" />
                     {supplier.city}, {supplier.state}
                   </span>
-                  <span className="flex items-center gap-1">
+                  <button
+                    type="button"
+                    className="flex items-center gap-1 hover:underline"
+                    onClick={() => setShowReviews(true)}
+                    data-testid="button-open-reviews"
+                  >
                     <Star className="h-3 w-3 fill-yellow-400 text-yellow-400" />
-                    {Number(supplier.rating).toFixed(1)}
-                  </span>
+                    {Number(supplier.rating).toFixed(1)} ({supplier.reviewCount ?? 0})
+                  </button>
                   <span>{supplier.productCount} products</span>
                 </div>
               </div>
@@ -343,8 +357,8 @@ export default function SupplierStore() {
                     </SelectTrigger>
                     <SelectContent>
                       <SelectItem value="all">All brands</SelectItem>
-                      {BRANDS.map(brand => (
-                        <SelectItem key={brand} value={brand}>{brand}</SelectItem>
+                      {brandFacets.map(brand => (
+                        <SelectItem key={brand.value} value={brand.value}>{brand.value} ({brand.count})</SelectItem>
                       ))}
                     </SelectContent>
                   </Select>
@@ -368,8 +382,8 @@ export default function SupplierStore() {
                     </SelectTrigger>
                     <SelectContent>
                       <SelectItem value="all">All categories</SelectItem>
-                      {CATEGORIES.map(cat => (
-                        <SelectItem key={cat} value={cat}>{cat}</SelectItem>
+                      {categoryFacets.map(cat => (
+                        <SelectItem key={cat.value} value={cat.value}>{cat.value} ({cat.count})</SelectItem>
                       ))}
                     </SelectContent>
                   </Select>
@@ -438,6 +452,17 @@ export default function SupplierStore() {
                   data-testid="input-search-products"
                 />
               </div>
+              <Select value={sortBy} onValueChange={setSortBy}>
+                <SelectTrigger className="w-full sm:w-[160px]" data-testid="select-sort-products">
+                  <SelectValue placeholder="Sort by" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="newest">Newest</SelectItem>
+                  <SelectItem value="price:asc">Price: low to high</SelectItem>
+                  <SelectItem value="price:desc">Price: high to low</SelectItem>
+                  <SelectItem value="name">Name (A-Z)</SelectItem>
+                </SelectContent>
+              </Select>
               <Button onClick={() => setShowImageSearch(true)} data-testid="button-image-search">
                 <Camera className="h-4 w-4 mr-2" />
                 Search by Image
@@ -462,8 +487,8 @@ export default function SupplierStore() {
                         </SelectTrigger>
                         <SelectContent>
                           <SelectItem value="all">All brands</SelectItem>
-                          {BRANDS.map(brand => (
-                            <SelectItem key={brand} value={brand}>{brand}</SelectItem>
+                          {brandFacets.map(brand => (
+                            <SelectItem key={brand.value} value={brand.value}>{brand.value} ({brand.count})</SelectItem>
                           ))}
                         </SelectContent>
                       </Select>
@@ -486,7 +511,7 @@ export default function SupplierStore() {
               <div className="flex items-center justify-center py-12">
                 <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
               </div>
-            ) : filteredProducts.length === 0 ? (
+            ) : products.length === 0 ? (
               <Card>
                 <CardContent className="flex flex-col items-center justify-center py-12">
                   <Package className="h-16 w-16 text-muted-foreground mb-4" />
@@ -496,7 +521,7 @@ export default function SupplierStore() {
               </Card>
             ) : (
               <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-3 sm:gap-4">
-                {filteredProducts.map((product) => (
+                {products.map((product) => (
                   <Card 
                     key={product.id} 
                     className="hover-elevate active-elevate-2 cursor-pointer transition-all" 
@@ -539,10 +564,36 @@ export default function SupplierStore() {
                 ))}
               </div>
             )}
+
+            {hasNextPage && (
+              <div className="flex justify-center">
+                <Button
+                  variant="outline"
+                  onClick={() => fetchNextPage()}
+                  disabled={isFetchingNextPage}
+                  data-testid="button-load-more-products"
+                >
+                  {isFetchingNextPage && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  Load more
+                </Button>
+              </div>
+            )}
           </div>
         </div>
       </div>
 
+      {/* Reviews Sheet */}
+      <Sheet open={showReviews} onOpenChange={setShowReviews}>
+        <SheetContent className="w-full sm:max-w-md overflow-y-auto">
+          <SheetHeader>
+            <SheetTitle>Reviews of {supplier.name}</SheetTitle>
+          </SheetHeader>
+          <div className="mt-6">
+            <ReviewsSection targetType="supplier" targetId={supplier.id} enabled={showReviews} />
+          </div>
+        </SheetContent>
+      </Sheet>
+
       {/* Chat Sheet */}
       <Sheet open={showChat} onOpenChange={setShowChat}>
         <SheetContent className="w-full sm:max-w-md">
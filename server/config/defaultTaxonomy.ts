@@ -0,0 +1,133 @@
+/**
+ * Default Catalogue Taxonomy
+ * Inserted by taxonomyService when the taxonomy table is empty; admins edit it from then on.
+ * Brands/models cover the makes common in Malaysia; category aliases carry the keywords
+ * imports and AI extraction used to be mapped with.
+ */
+
+import type { PartCategory } from "@shared/schema";
+
+export interface DefaultBrand {
+  label: string;
+  aliases?: string[];
+  models: string[];
+}
+
+export interface DefaultCategory {
+  labelEn: string;
+  labelMs: string;
+  partCategory: PartCategory;
+  aliases?: string[];
+  subcategories?: Array<{ labelEn: string; labelMs: string; partCategory?: PartCategory; aliases?: string[] }>;
+}
+
+export const DEFAULT_BRANDS: DefaultBrand[] = [
+  { label: 'Perodua', models: ['Myvi', 'Axia', 'Bezza', 'Alza', 'Aruz', 'Ativa', 'Kancil', 'Kelisa', 'Kenari', 'Viva'] },
+  { label: 'Proton', models: ['Saga', 'Persona', 'Iriz', 'Exora', 'Wira', 'Waja', 'Preve', 'X50', 'X70'] },
+  { label: 'Toyota', models: ['Vios', 'Yaris', 'Corolla', 'Camry', 'Hilux', 'Innova', 'Avanza', 'Alphard'] },
+  { label: 'Honda', models: ['City', 'Civic', 'Accord', 'Jazz', 'CR-V', 'HR-V', 'BR-V'] },
+  { label: 'Nissan', models: ['Almera', 'Sylphy', 'Navara', 'Serena', 'X-Trail', 'Livina'] },
+  { label: 'Mitsubishi', models: ['Triton', 'Attrage', 'Xpander', 'ASX', 'Outlander', 'Lancer'] },
+  { label: 'Mazda', models: ['Mazda2', 'Mazda3', 'Mazda6', 'CX-3', 'CX-5', 'CX-8', 'BT-50'] },
+  { label: 'BMW', models: ['3 Series', '5 Series', 'X1', 'X3'] },
+  { label: 'Mercedes', aliases: ['mercedes-benz', 'benz', 'merc'], models: ['A-Class', 'C-Class', 'E-Class', 'GLC'] },
+  { label: 'VW', aliases: ['volkswagen'], models: ['Polo', 'Vento', 'Golf', 'Jetta', 'Passat'] },
+  { label: 'Hyundai', models: ['Elantra', 'Sonata', 'Tucson', 'Santa Fe', 'Starex'] },
+  { label: 'Kia', models: ['Picanto', 'Cerato', 'Sportage', 'Sorento', 'Carnival'] },
+];
+
+export const DEFAULT_CATEGORIES: DefaultCategory[] = [
+  {
+    labelEn: 'Engine', labelMs: 'Enjin', partCategory: 'engine', aliases: ['engine parts', 'motor', 'enjin'],
+    subcategories: [
+      { labelEn: 'Spark Plugs', labelMs: 'Palam Pencucuh', aliases: ['spark plug', 'plug'] },
+      { labelEn: 'Belts', labelMs: 'Tali Sawat', aliases: ['timing belt', 'fan belt', 'belt'] },
+      { labelEn: 'Gaskets & Seals', labelMs: 'Gasket & Pengedap', aliases: ['gasket', 'seal'] },
+      { labelEn: 'Engine Mounts', labelMs: 'Pelapik Enjin', aliases: ['engine mounting', 'mounting'] },
+    ],
+  },
+  {
+    labelEn: 'Gearbox', labelMs: 'Kotak Gear', partCategory: 'transmission', aliases: ['transmission', 'gear box', 'kotak gear'],
+    subcategories: [
+      { labelEn: 'Clutch', labelMs: 'Klac', aliases: ['clutch plate', 'clutch cover', 'klac'] },
+      { labelEn: 'Drive Shafts', labelMs: 'Aci Pemacu', aliases: ['drive shaft', 'cv joint', 'axle'] },
+    ],
+  },
+  {
+    labelEn: 'Brakes', labelMs: 'Brek', partCategory: 'brake', aliases: ['brake', 'brek'],
+    subcategories: [
+      { labelEn: 'Brake Pads', labelMs: 'Pad Brek', aliases: ['brake pad', 'pad', 'pad brek'] },
+      { labelEn: 'Brake Discs', labelMs: 'Cakera Brek', aliases: ['brake disc', 'disc rotor', 'rotor'] },
+      { labelEn: 'Brake Shoes', labelMs: 'Kasut Brek', aliases: ['brake shoe', 'brake lining'] },
+    ],
+  },
+  {
+    labelEn: 'Suspension', labelMs: 'Suspensi', partCategory: 'suspension', aliases: ['shock', 'suspensi'],
+    subcategories: [
+      { labelEn: 'Shock Absorbers', labelMs: 'Penyerap Hentakan', aliases: ['shock absorber', 'absorber', 'absorbar'] },
+      { labelEn: 'Bushings', labelMs: 'Bush', aliases: ['bush', 'bushing'] },
+      { labelEn: 'Steering', labelMs: 'Stereng', aliases: ['tie rod', 'rack end', 'steering rack'] },
+    ],
+  },
+  {
+    labelEn: 'Electrical', labelMs: 'Elektrik', partCategory: 'electrical', aliases: ['elektrik', 'wiring'],
+    subcategories: [
+      { labelEn: 'Alternators & Starters', labelMs: 'Alternator & Starter', aliases: ['alternator', 'starter', 'starter motor'] },
+      { labelEn: 'Lighting', labelMs: 'Lampu', aliases: ['lamp', 'bulb', 'headlamp', 'headlight', 'lampu', 'mentol'] },
+      { labelEn: 'Sensors', labelMs: 'Sensor', aliases: ['sensor', 'o2 sensor'] },
+    ],
+  },
+  { labelEn: 'Battery', labelMs: 'Bateri', partCategory: 'electrical', aliases: ['batteries', 'bateri'] },
+  {
+    labelEn: 'Cooling', labelMs: 'Penyejukan', partCategory: 'cooling', aliases: ['penyejukan'],
+    subcategories: [
+      { labelEn: 'Radiators', labelMs: 'Radiator', aliases: ['radiator'] },
+      { labelEn: 'Water Pumps', labelMs: 'Pam Air', aliases: ['water pump', 'pam air'] },
+      { labelEn: 'Thermostats', labelMs: 'Termostat', aliases: ['thermostat'] },
+    ],
+  },
+  {
+    labelEn: 'Body', labelMs: 'Badan', partCategory: 'body', aliases: ['body parts', 'badan', 'panel'],
+    subcategories: [
+      { labelEn: 'Bumpers', labelMs: 'Bampar', partCategory: 'exterior', aliases: ['bumper', 'bampar'] },
+      { labelEn: 'Mirrors', labelMs: 'Cermin Sisi', partCategory: 'exterior', aliases: ['side mirror', 'mirror'] },
+      { labelEn: 'Doors & Bonnets', labelMs: 'Pintu & Bonet', aliases: ['door', 'bonnet', 'pintu', 'bonet'] },
+    ],
+  },
+  {
+    labelEn: 'Interior', labelMs: 'Dalaman', partCategory: 'interior', aliases: ['dalaman'],
+    subcategories: [
+      { labelEn: 'Seats', labelMs: 'Tempat Duduk', aliases: ['seat', 'seat cover'] },
+      { labelEn: 'Dashboard', labelMs: 'Papan Pemuka', aliases: ['dashboard', 'meter'] },
+    ],
+  },
+  { labelEn: 'Accessories', labelMs: 'Aksesori', partCategory: 'exterior', aliases: ['accessory', 'aksesori', 'exterior'] },
+  {
+    labelEn: 'Tyre', labelMs: 'Tayar', partCategory: 'wheel_tyre', aliases: ['tyres', 'tire', 'tires', 'wheel', 'tayar'],
+    subcategories: [
+      { labelEn: 'Tyres', labelMs: 'Tayar', aliases: ['tyre', 'tire'] },
+      { labelEn: 'Rims', labelMs: 'Rim', aliases: ['rim', 'sport rim'] },
+    ],
+  },
+  {
+    labelEn: 'Lubricant', labelMs: 'Pelincir', partCategory: 'fluids', aliases: ['lubricants', 'fluid', 'fluids', 'oil', 'pelincir', 'minyak'],
+    subcategories: [
+      { labelEn: 'Engine Oil', labelMs: 'Minyak Enjin', aliases: ['engine oil', 'minyak hitam', 'motor oil'] },
+      { labelEn: 'Gear Oil & ATF', labelMs: 'Minyak Gear & ATF', aliases: ['gear oil', 'atf', 'transmission fluid'] },
+      { labelEn: 'Coolant', labelMs: 'Air Radiator', aliases: ['coolant', 'air radiator'] },
+      { labelEn: 'Brake Fluid', labelMs: 'Minyak Brek', aliases: ['brake fluid', 'minyak brek'] },
+    ],
+  },
+  {
+    labelEn: 'Service', labelMs: 'Servis', partCategory: 'service', aliases: ['servis', 'maintenance', 'filter'],
+    subcategories: [
+      { labelEn: 'Oil Filters', labelMs: 'Penapis Minyak', aliases: ['oil filter'] },
+      { labelEn: 'Air Filters', labelMs: 'Penapis Udara', aliases: ['air filter'] },
+      { labelEn: 'Cabin Filters', labelMs: 'Penapis Kabin', aliases: ['cabin filter', 'aircond filter'] },
+    ],
+  },
+  { labelEn: 'Tools', labelMs: 'Alatan', partCategory: 'service', aliases: ['tool', 'alatan'] },
+  { labelEn: 'Halfcut', labelMs: 'Halfcut', partCategory: 'body', aliases: ['half cut', 'potong separuh'] },
+  { labelEn: 'OEM', labelMs: 'OEM', partCategory: 'engine', aliases: ['original', 'genuine'] },
+  { labelEn: 'General', labelMs: 'Am', partCategory: 'service', aliases: ['other', 'others', 'lain-lain'] },
+];
@@ -90,4 +90,87 @@ export function startCronJobs() {
   });
   
   console.log('[CRON] Daily report generation scheduled for 11:59 PM (Asia/Kuala_Lumpur)');
+  
+  // Halfcut sold-through reconciliation - every 15 minutes
+  // Order checkout decrements component stock outside the marketplace routes, so re-derive unit status here
+  cron.schedule('*/15 * * * *', async () => {
+    try {
+      const { halfcutService } = await import('./services/halfcutService');
+      const changed = await halfcutService.refreshOpenUnits();
+      
+      if (changed > 0) {
+        console.log(`[CRON] Halfcut sold-through updated for ${changed} unit(s)`);
+      }
+    } catch (error) {
+      console.error('[CRON] Halfcut sold-through reconciliation failed:', error);
+    }
+  }, {
+    timezone: "Asia/Kuala_Lumpur"
+  });
+  
+  console.log('[CRON] Halfcut sold-through reconciliation scheduled every 15 minutes');
+  
+  // Stock reservation expiry - every minute
+  // Unpaid orders past their reservation TTL are cancelled and their stock returned;
+  // the returned stock may fill backorders and alert restock subscribers
+  cron.schedule('* * * * *', async () => {
+    try {
+      const { stockReservationService } = await import('./services/stockReservationService');
+      const released = await stockReservationService.expireReservations();
+      
+      if (released.orderIds.length > 0) {
+        console.log(`[CRON] Released expired stock reservations for ${released.orderIds.length} order(s)`);
+        
+        const { backorderService } = await import('./services/backorderService');
+        await backorderService.handleRestockMany(released.partIds);
+      }
+    } catch (error) {
+      console.error('[CRON] Stock reservation expiry failed:', error);
+    }
+  }, {
+    timezone: "Asia/Kuala_Lumpur"
+  });
+  
+  console.log('[CRON] Stock reservation expiry scheduled every minute');
+  
+  // Recommendations - Rebuild at 3:00 AM
+  // "Frequently bought together" pairs and per-vehicle popular parts from order history
+  cron.schedule('0 3 * * *', async () => {
+    console.log('[CRON] Recomputing part recommendations...');
+    
+    try {
+      const { recommendationService } = await import('./services/recommendationService');
+      const associations = await recommendationService.recomputeAssociations();
+      const popular = await recommendationService.recomputePopularParts();
+      
+      console.log(`[CRON] Recommendations rebuilt: ${associations} association(s), ${popular} popular vehicle part(s)`);
+    } catch (error) {
+      console.error('[CRON] Recommendation recompute failed:', error);
+    }
+  }, {
+    timezone: "Asia/Kuala_Lumpur"
+  });
+  
+  console.log('[CRON] Recommendation recompute scheduled for 3:00 AM (Asia/Kuala_Lumpur)');
+  
+  // Storefront analytics - Roll up yesterday at 12:30 AM
+  // Events and orders become per-supplier/product daily stats; old raw events are purged
+  cron.schedule('30 0 * * *', async () => {
+    console.log('[CRON] Rolling up storefront analytics...');
+    
+    try {
+      const { storefrontAnalyticsService } = await import('./services/storefrontAnalyticsService');
+      const yesterday = DateTime.now().setZone('Asia/Kuala_Lumpur').minus({ days: 1 }).toJSDate();
+      const rows = await storefrontAnalyticsService.rollupDay(yesterday);
+      const purged = await storefrontAnalyticsService.purgeEvents();
+      
+      console.log(`[CRON] Storefront analytics rolled up: ${rows} stat row(s), ${purged} old event(s) purged`);
+    } catch (error) {
+      console.error('[CRON] Storefront analytics rollup failed:', error);
+    }
+  }, {
+    timezone: "Asia/Kuala_Lumpur"
+  });
+  
+  console.log('[CRON] Storefront analytics rollup scheduled for 12:30 AM (Asia/Kuala_Lumpur)');
 }
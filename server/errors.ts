@@ -1,6 +1,6 @@
 /**
  * Domain-specific errors for GarageHub system
- * Used for QR code verification, order management, and delivery flows
+ * Used for QR code verification, order management, delivery flows, marketplace stock checks, vouchers, the catalogue taxonomy, reviews, AI product extraction, duplicate listing merges and cart checkout
  */
 
 export class OrderNotFoundError extends Error {
@@ -33,3 +33,86 @@ export class QRAlreadyScannedError extends Error {
 
 // Discriminated union for QR-related errors
 export type QRError = QRNotFoundError | QRExpiredError | QRAlreadyScannedError;
+
+export class VariantRequiredError extends Error {
+  constructor(partId: string) {
+    super(`A variant must be selected for part: ${partId}`);
+    this.name = 'VariantRequiredError';
+  }
+}
+
+export class VariantNotFoundError extends Error {
+  constructor(partId: string, variantId: string) {
+    super(`Variant ${variantId} not found for part: ${partId}`);
+    this.name = 'VariantNotFoundError';
+  }
+}
+
+export class InsufficientStockError extends Error {
+  constructor(public readonly partId: string, public readonly requested: number, public readonly available: number) {
+    super(`Insufficient stock for part ${partId}: requested ${requested}, available ${available}`);
+    this.name = 'InsufficientStockError';
+  }
+}
+
+export type PromotionErrorReason =
+  | 'not_found'
+  | 'inactive'
+  | 'not_started'
+  | 'expired'
+  | 'usage_limit'
+  | 'workshop_limit'
+  | 'min_spend'
+  | 'not_applicable';
+
+export class PromotionError extends Error {
+  constructor(public readonly reason: PromotionErrorReason, message: string) {
+    super(message);
+    this.name = 'PromotionError';
+  }
+}
+
+export type TaxonomyErrorReason = 'not_found' | 'invalid_parent' | 'duplicate';
+
+export class TaxonomyError extends Error {
+  constructor(public readonly reason: TaxonomyErrorReason, message: string) {
+    super(message);
+    this.name = 'TaxonomyError';
+  }
+}
+
+export type ReviewErrorReason = 'not_found' | 'not_verified' | 'duplicate' | 'forbidden';
+
+export class ReviewError extends Error {
+  constructor(public readonly reason: ReviewErrorReason, message: string) {
+    super(message);
+    this.name = 'ReviewError';
+  }
+}
+
+export type AiExtractionErrorReason = 'quota_exceeded' | 'invalid_response' | 'provider_failed';
+
+export class AiExtractionError extends Error {
+  constructor(public readonly reason: AiExtractionErrorReason, message: string) {
+    super(message);
+    this.name = 'AiExtractionError';
+  }
+}
+
+export type ListingMergeErrorReason = 'not_found' | 'same_listing' | 'already_merged' | 'has_variants';
+
+export class ListingMergeError extends Error {
+  constructor(public readonly reason: ListingMergeErrorReason, message: string) {
+    super(message);
+    this.name = 'ListingMergeError';
+  }
+}
+
+export type CheckoutErrorReason = 'empty_cart' | 'unavailable' | 'delivery_unavailable' | 'missing_location' | 'insufficient_balance' | 'payment_unavailable';
+
+export class CheckoutError extends Error {
+  constructor(public readonly reason: CheckoutErrorReason, message: string) {
+    super(message);
+    this.name = 'CheckoutError';
+  }
+}
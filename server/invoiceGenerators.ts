@@ -37,6 +37,8 @@ interface SalesInvoiceData extends InvoiceHeader {
     total: number 
   }>;
   subtotal: number;
+  discountAmount?: number; // Voucher discount, shown after the subtotal
+  voucherCode?: string;
   taxAmount?: number;
   totalAmount: number;
 }
@@ -66,6 +68,8 @@ interface PurchaseInvoiceData extends InvoiceHeader {
     total: number;
   }>;
   subtotal: number;
+  discountAmount?: number; // Voucher discount, shown after the subtotal
+  voucherCode?: string;
   taxAmount?: number;
   totalAmount: number;
 }
@@ -119,6 +123,10 @@ export class InvoiceGenerator {
     return `RM ${amount.toFixed(2)}`;
   }
 
+  private static discountLabel(voucherCode?: string): string {
+    return voucherCode ? `Voucher (${voucherCode})` : 'Discount';
+  }
+
   static generateJobInvoice(data: JobInvoiceData): jsPDF {
     const doc = new jsPDF();
     let yPos = this.addHeader(doc, data);
@@ -268,6 +276,10 @@ export class InvoiceGenerator {
       ['Subtotal', this.formatCurrency(data.subtotal)]
     ];
     
+    if (data.discountAmount && data.discountAmount > 0) {
+      summaryRows.push([this.discountLabel(data.voucherCode), `- ${this.formatCurrency(data.discountAmount)}`]);
+    }
+    
     if (data.taxAmount && data.taxAmount > 0) {
       summaryRows.push(['Tax (10%)', this.formatCurrency(data.taxAmount)]);
     }
@@ -437,6 +449,10 @@ export class InvoiceGenerator {
       ['Subtotal', this.formatCurrency(data.subtotal)]
     ];
     
+    if (data.discountAmount && data.discountAmount > 0) {
+      summaryRows.push([this.discountLabel(data.voucherCode), `- ${this.formatCurrency(data.discountAmount)}`]);
+    }
+    
     if (data.taxAmount && data.taxAmount > 0) {
       summaryRows.push(['Tax (10%)', this.formatCurrency(data.taxAmount)]);
     }
@@ -1,160 +1,3163 @@
 import { Router } from "express";
 import multer from "multer";
 import { db } from "./db";
-import { suppliers, parts, chatMessages, users } from "@shared/schema";
-import { eq, and, like, sql, desc, asc, or } from "drizzle-orm";
+import { suppliers, parts, chatMessages, users, workshops, wallets, transactionLogs, supplierOrders, supplierOrderItems, platformEscrow, restockSubscriptionInputSchema, insertSavedListSchema, savedListItemInputSchema, updateSavedListItemSchema, halfcutUnits, cart, cartItems, promotions, priceLists, createPromotionSchema, updatePromotionSchema, priceTierInputSchema, insertPriceListSchema, priceListItemInputSchema, partCategoryEnum, supplierTypeEnum, partNumberInputSchema, partVariantInputSchema, insertHalfcutUnitSchema, updateHalfcutUnitSchema, halfcutComponentSchema, createTaxonomyTermSchema, updateTaxonomyTermSchema, listingModerationDecisionSchema, askProductQuestionSchema, answerProductQuestionSchema, insertReviewSchema, updateReviewSchema, reviewReplySchema, reviewTargetTypeEnum, reportReviewSchema, reviewModerationDecisionSchema, mergeListingSchema, cartCheckoutSchema, addCartItemSchema, updateCartItemSchema, CANCELLABLE_ORDER_STATUSES, type PartCategory, type SupplierType, type PartNumberInput, type PartVariantInput, type ListingModerationStatus, type ReviewTargetType } from "@shared/schema";
+import { eq, and, like, ilike, sql, desc, asc, or, inArray, isNotNull } from "drizzle-orm";
 import { isAuthenticated } from "./replitAuth";
+import { requireRole } from "./middleware";
 import type { Request, Response } from "express";
+import type { Server as SocketIOServer } from "socket.io";
 import { storage } from "./storage";
+import type { PartFilterParams } from "./services/partFacetService";
+import type { SupplierQuestionStatus } from "./services/productQuestionService";
+import type { ReviewQueueFilter } from "./services/reviewModerationService";
+import { z } from "zod";
+import { emitSupplierOrderUpdated, emitWalletBalanceUpdate } from "./socket";
+import { CheckoutError, InsufficientStockError, ListingMergeError, PromotionError, ReviewError, TaxonomyError, VariantNotFoundError, VariantRequiredError } from "./errors";
+import { isPaginatedRequest, parsePageRequest, buildKeysetQuery, toCursorPage, paginateArray, type SortableKey } from "./utils/pagination";
 
 const router = Router();
 const upload = multer({ limits: { fileSize: 10 * 1024 * 1024 } }); // 10MB limit
 
-// Brand catalog
-const BRANDS = ['Perodua', 'Proton', 'Toyota', 'Honda', 'Nissan', 'Mitsubishi', 'Mazda', 'BMW', 'Mercedes', 'VW', 'Hyundai', 'Kia'];
+// Parse listing filter query params shared by product listing and search endpoints
+function parsePartFilterQuery(query: Request['query']): PartFilterParams {
+  const { brand, model, partCategory, category, supplierType, minPrice, maxPrice, inStock } = query;
+  const min = parseFloat(minPrice as string);
+  const max = parseFloat(maxPrice as string);
 
-// Category catalog
-const CATEGORIES = ['Engine', 'Gearbox', 'Body', 'Suspension', 'Electrical', 'Cooling', 'Brakes', 'Lubricant', 'Battery', 'Tyre', 'Tools', 'Accessories', 'Halfcut'];
+  return {
+    vehicleMake: typeof brand === 'string' && brand ? brand : undefined,
+    vehicleModel: typeof model === 'string' && model ? model : undefined,
+    partCategory: partCategoryEnum.enumValues.includes(partCategory as PartCategory) ? partCategory as PartCategory : undefined,
+    category: typeof category === 'string' && category ? category : undefined,
+    supplierType: supplierTypeEnum.enumValues.includes(supplierType as SupplierType) ? supplierType as SupplierType : undefined,
+    minPrice: isNaN(min) ? undefined : min,
+    maxPrice: isNaN(max) ? undefined : max,
+    inStockOnly: inStock === '1' || inStock === 'true',
+  };
+}
 
-// GET /api/marketplace/catalog/brands
-router.get("/catalog/brands", (req: Request, res: Response) => {
-  res.json(BRANDS);
+// Validate the optional partNumbers array on product create/update bodies
+function parsePartNumbersBody(value: unknown): { partNumbers?: PartNumberInput[] } | { error: string } {
+  if (value === undefined) {
+    return {};
+  }
+
+  const result = z.array(partNumberInputSchema).max(50).safeParse(value);
+  if (!result.success) {
+    return { error: "partNumbers must be an array of { number, numberType: 'oem' | 'aftermarket', brand? }" };
+  }
+  return { partNumbers: result.data };
+}
+
+// Validate the optional variants array on product create/update bodies
+function parseVariantsBody(value: unknown): { variants?: PartVariantInput[] } | { error: string } {
+  if (value === undefined) {
+    return {};
+  }
+
+  const result = z.array(partVariantInputSchema).max(50).safeParse(value);
+  if (!result.success) {
+    return { error: "variants must be an array of { name, price, stockQuantity, sku?, options? }" };
+  }
+  return { variants: result.data };
+}
+
+// Sort keys for supplier listings (distance needs the caller's lat/lng)
+function supplierSortKeys(lat: number, lng: number): Record<string, SortableKey> {
+  const keys: Record<string, SortableKey> = {
+    rating: { expression: sql`${suppliers.rating}`, defaultDirection: 'desc', valueType: 'number' },
+    newest: { expression: sql`COALESCE(${suppliers.createdAt}, 'epoch'::timestamp)`, defaultDirection: 'desc', valueType: 'timestamp' },
+    name: { expression: sql`LOWER(${suppliers.name})`, defaultDirection: 'asc' },
+  };
+
+  if (!isNaN(lat) && !isNaN(lng)) {
+    // Haversine distance in km (same formula as distanceService.calculateDistance)
+    keys.distance = {
+      expression: sql`(6371 * 2 * ASIN(SQRT(
+        POWER(SIN(RADIANS(${suppliers.latitude} - ${lat}) / 2), 2) +
+        COS(RADIANS(${lat})) * COS(RADIANS(${suppliers.latitude})) *
+        POWER(SIN(RADIANS(${suppliers.longitude} - ${lng}) / 2), 2)
+      )))`,
+      defaultDirection: 'asc',
+      valueType: 'number',
+    };
+  }
+
+  return keys;
+}
+
+// Sort keys for product listings
+const PRODUCT_SORT_KEYS: Record<string, SortableKey> = {
+  price: { expression: sql`${parts.price}`, defaultDirection: 'asc', valueType: 'number' },
+  newest: { expression: sql`COALESCE(${parts.createdAt}, 'epoch'::timestamp)`, defaultDirection: 'desc', valueType: 'timestamp' },
+  name: { expression: sql`LOWER(${parts.name})`, defaultDirection: 'asc' },
+  stock: { expression: sql`${parts.stockQuantity}`, defaultDirection: 'desc', valueType: 'number' },
+  rating: { expression: sql`${parts.rating}`, defaultDirection: 'desc', valueType: 'number' },
+};
+
+// Sort keys for chat thread listings (paginated in memory)
+const CHAT_THREAD_SORT_KEYS: Record<string, Pick<SortableKey, 'defaultDirection'>> = {
+  newest: { defaultDirection: 'desc' },
+  unread: { defaultDirection: 'desc' },
+};
+
+// Map a review error onto its HTTP status
+function reviewErrorStatus(error: ReviewError): number {
+  switch (error.reason) {
+    case 'not_found': return 404;
+    case 'duplicate': return 409;
+    default: return 403;
+  }
+}
+
+// Map a listing merge error onto its HTTP status
+function listingMergeErrorStatus(error: ListingMergeError): number {
+  switch (error.reason) {
+    case 'not_found': return 404;
+    case 'same_listing': return 400;
+    default: return 409;
+  }
+}
+
+// Map a checkout error onto its HTTP status
+function checkoutErrorStatus(error: CheckoutError): number {
+  switch (error.reason) {
+    case 'insufficient_balance': return 402;
+    case 'unavailable': return 409;
+    default: return 400;
+  }
+}
+
+// Map a taxonomy error onto its HTTP status
+function taxonomyErrorStatus(error: TaxonomyError): number {
+  switch (error.reason) {
+    case 'not_found': return 404;
+    case 'duplicate': return 409;
+    default: return 400;
+  }
+}
+
+// Workshop of the signed-in viewer on public endpoints, for search logs and storefront events
+async function getViewerWorkshopId(req: Request): Promise<string | undefined> {
+  const user = (req as any).user;
+  const userId = user?.claims?.sub || user?.userId;
+  const workshop = userId ? await storage.getWorkshopByUserId(userId) : undefined;
+  return workshop?.id;
+}
+
+// Record storefront analytics after the response: failures are logged, never surfaced to the viewer
+function recordStorefrontActivity(req: Request, record: (workshopId: string | undefined) => Promise<unknown>) {
+  getViewerWorkshopId(req)
+    .then(record)
+    .catch(error => console.error("Error recording storefront analytics:", error));
+}
+
+// GET /api/marketplace/catalog/brands - Active brands with their models (Malay/English labels)
+router.get("/catalog/brands", async (req: Request, res: Response) => {
+  try {
+    const { taxonomyService } = await import("./services/taxonomyService");
+    const { brands } = await taxonomyService.getTree();
+    
+    res.json(brands);
+  } catch (error) {
+    console.error("Error fetching brands:", error);
+    res.status(500).json({ message: "Failed to fetch brands" });
+  }
+});
+
+// GET /api/marketplace/catalog/categories - Active categories with their sub-categories (Malay/English labels)
+router.get("/catalog/categories", async (req: Request, res: Response) => {
+  try {
+    const { taxonomyService } = await import("./services/taxonomyService");
+    const { categories } = await taxonomyService.getTree();
+    
+    res.json(categories);
+  } catch (error) {
+    console.error("Error fetching categories:", error);
+    res.status(500).json({ message: "Failed to fetch categories" });
+  }
+});
+
+// GET /api/marketplace/catalog/taxonomy - Active brands/models and categories/sub-categories in one tree
+router.get("/catalog/taxonomy", async (req: Request, res: Response) => {
+  try {
+    const { taxonomyService } = await import("./services/taxonomyService");
+    const tree = await taxonomyService.getTree();
+    
+    res.json(tree);
+  } catch (error) {
+    console.error("Error fetching taxonomy:", error);
+    res.status(500).json({ message: "Failed to fetch taxonomy" });
+  }
+});
+
+// GET /api/marketplace/catalog/taxonomy/all - Full taxonomy including inactive terms (admin only)
+router.get("/catalog/taxonomy/all", isAuthenticated, requireRole(['admin']), async (req: Request, res: Response) => {
+  try {
+    const { taxonomyService } = await import("./services/taxonomyService");
+    const tree = await taxonomyService.getTree(true);
+    
+    res.json(tree);
+  } catch (error) {
+    console.error("Error fetching taxonomy:", error);
+    res.status(500).json({ message: "Failed to fetch taxonomy" });
+  }
+});
+
+// GET /api/marketplace/catalog/taxonomy/unmapped - Listing categories/makes the taxonomy does not map (admin only)
+router.get("/catalog/taxonomy/unmapped", isAuthenticated, requireRole(['admin']), async (req: Request, res: Response) => {
+  try {
+    const { taxonomyService } = await import("./services/taxonomyService");
+    const unmapped = await taxonomyService.findUnmappedValues();
+    
+    res.json(unmapped);
+  } catch (error) {
+    console.error("Error fetching unmapped taxonomy values:", error);
+    res.status(500).json({ message: "Failed to fetch unmapped values" });
+  }
+});
+
+// POST /api/marketplace/catalog/taxonomy - Create a brand, model, category or sub-category (admin only)
+router.post("/catalog/taxonomy", isAuthenticated, requireRole(['admin']), async (req: Request, res: Response) => {
+  try {
+    const parsed = createTaxonomyTermSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid taxonomy term", errors: parsed.error.flatten().fieldErrors });
+    }
+    
+    const { taxonomyService } = await import("./services/taxonomyService");
+    const term = await taxonomyService.createTerm(parsed.data);
+    
+    res.status(201).json(term);
+  } catch (error) {
+    if (error instanceof TaxonomyError) {
+      return res.status(taxonomyErrorStatus(error)).json({ message: error.message, reason: error.reason });
+    }
+    console.error("Error creating taxonomy term:", error);
+    res.status(500).json({ message: "Failed to create taxonomy term" });
+  }
+});
+
+// PATCH /api/marketplace/catalog/taxonomy/:id - Edit labels, aliases, partCategory, order or visibility (admin only)
+router.patch("/catalog/taxonomy/:id", isAuthenticated, requireRole(['admin']), async (req: Request, res: Response) => {
+  try {
+    const parsed = updateTaxonomyTermSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid taxonomy term", errors: parsed.error.flatten().fieldErrors });
+    }
+    
+    const { taxonomyService } = await import("./services/taxonomyService");
+    const term = await taxonomyService.updateTerm(req.params.id, parsed.data);
+    if (!term) {
+      return res.status(404).json({ message: "Taxonomy term not found" });
+    }
+    
+    res.json(term);
+  } catch (error) {
+    if (error instanceof TaxonomyError) {
+      return res.status(taxonomyErrorStatus(error)).json({ message: error.message, reason: error.reason });
+    }
+    console.error("Error updating taxonomy term:", error);
+    res.status(500).json({ message: "Failed to update taxonomy term" });
+  }
+});
+
+// DELETE /api/marketplace/catalog/taxonomy/:id - Delete a term with its models/sub-categories (admin only)
+router.delete("/catalog/taxonomy/:id", isAuthenticated, requireRole(['admin']), async (req: Request, res: Response) => {
+  try {
+    const { taxonomyService } = await import("./services/taxonomyService");
+    const deleted = await taxonomyService.deleteTerm(req.params.id);
+    if (!deleted) {
+      return res.status(404).json({ message: "Taxonomy term not found" });
+    }
+    
+    res.status(204).send();
+  } catch (error) {
+    console.error("Error deleting taxonomy term:", error);
+    res.status(500).json({ message: "Failed to delete taxonomy term" });
+  }
+});
+
+// GET /api/marketplace/fitment - Parts that fit a vehicle across all suppliers, grouped by partCategory
+// Query: make, model, and either year (single year) or yearFrom/yearTo (range overlap); limit/cursor page the parts
+router.get("/fitment", async (req: Request, res: Response) => {
+  try {
+    const { make, model, year, yearFrom, yearTo, partCategory, inStock, limit, cursor } = req.query;
+
+    if (!make || typeof make !== 'string' || !model || typeof model !== 'string') {
+      return res.status(400).json({ message: "make and model are required" });
+    }
+
+    const from = parseInt((year ?? yearFrom) as string);
+    const to = parseInt((year ?? yearTo ?? yearFrom) as string);
+
+    if (isNaN(from) || isNaN(to) || from < 1900 || to > 2100 || from > to) {
+      return res.status(400).json({ message: "A valid year or yearFrom/yearTo range is required" });
+    }
+
+    if (partCategory && !partCategoryEnum.enumValues.includes(partCategory as PartCategory)) {
+      return res.status(400).json({ message: "Invalid partCategory" });
+    }
+
+    const { fitmentService } = await import("./services/fitmentService");
+    const result = await fitmentService.findFittingParts({
+      make,
+      model,
+      yearFrom: from,
+      yearTo: to,
+      partCategory: partCategory as PartCategory | undefined,
+      inStockOnly: inStock === '1' || inStock === 'true',
+    }, { limit, cursor });
+
+    res.json(result);
+  } catch (error) {
+    console.error("Error fetching fitment parts:", error);
+    res.status(500).json({ message: "Failed to fetch fitting parts" });
+  }
+});
+
+// GET /api/marketplace/search - Ranked part search across the marketplace
+// Query: q (required), supplierId, listing filters (see parsePartFilterQuery), facets, page, limit
+router.get("/search", async (req: Request, res: Response) => {
+  try {
+    const { q, supplierId, partCategory, facets, page, limit } = req.query;
+
+    if (!q || typeof q !== 'string' || q.trim().length === 0) {
+      return res.status(400).json({ message: "Search query is required" });
+    }
+
+    if (partCategory && !partCategoryEnum.enumValues.includes(partCategory as PartCategory)) {
+      return res.status(400).json({ message: "Invalid partCategory" });
+    }
+
+    const { partSearchService } = await import("./services/partSearchService");
+    const pageNumber = parseInt(page as string) || 1;
+    const scopeSupplierId = typeof supplierId === 'string' ? supplierId : undefined;
+    const results = await partSearchService.search({
+      q,
+      supplierId: scopeSupplierId,
+      filters: parsePartFilterQuery(req.query),
+      includeFacets: facets === '1' || facets === 'true',
+      page: pageNumber,
+      limit: parseInt(limit as string) || 20,
+    });
+
+    res.json(results);
+
+    // Log the search once (first page); every page's results count as impressions
+    recordStorefrontActivity(req, async (workshopId) => {
+      const { storefrontAnalyticsService } = await import("./services/storefrontAnalyticsService");
+      if (pageNumber === 1) {
+        await storefrontAnalyticsService.recordTextSearch({
+          query: q,
+          supplierId: scopeSupplierId,
+          workshopId,
+          resultCount: results.total,
+          results: results.results,
+        });
+      } else {
+        await storefrontAnalyticsService.recordImpressions(results.results, scopeSupplierId ? 'store_search' : 'marketplace_search', workshopId);
+      }
+    });
+  } catch (error) {
+    console.error("Error searching parts:", error);
+    res.status(500).json({ message: "Failed to search parts" });
+  }
+});
+
+// GET /api/marketplace/suppliers - List suppliers with filters
+// Paginated with ?limit/cursor; sort: rating, newest, name, distance (requires lat & lng)
+router.get("/suppliers", async (req: Request, res: Response) => {
+  try {
+    const { type, state, q, lat, lng } = req.query;
+    
+    let conditions = [];
+    
+    if (type && (type === 'OEM' || type === 'HALFCUT' || type === 'Halfcut')) {
+      const supplierType = type === 'HALFCUT' ? 'Halfcut' : type as 'OEM' | 'Halfcut';
+      conditions.push(eq(suppliers.supplierType, supplierType));
+    }
+    
+    if (state && typeof state === 'string') {
+      conditions.push(eq(suppliers.state, state as any));
+    }
+    
+    if (q && typeof q === 'string') {
+      conditions.push(
+        or(
+          ilike(suppliers.name, `%${q}%`),
+          ilike(suppliers.city, `%${q}%`)
+        )!
+      );
+    }
+    
+    if (isPaginatedRequest(req.query)) {
+      const sortKeys = supplierSortKeys(parseFloat(lat as string), parseFloat(lng as string));
+      const pageRequest = parsePageRequest(req.query, sortKeys, 'rating');
+      const keyset = buildKeysetQuery(pageRequest, sortKeys, sql`${suppliers.id}`);
+      
+      const rows = await db
+        .select({ supplier: suppliers, sortValues: keyset.sortValues })
+        .from(suppliers)
+        .where(and(...conditions, keyset.where))
+        .orderBy(...keyset.orderBy)
+        .limit(pageRequest.limit + 1);
+      
+      return res.json(toCursorPage(
+        rows,
+        pageRequest.limit,
+        row => [...pageRequest.sort.map((_, i) => row.sortValues[`sort${i}`]), row.supplier.id],
+        row => row.supplier
+      ));
+    }
+    
+    const whereClause = conditions.length > 0 ? and(...conditions) : undefined;
+    
+    const results = await db
+      .select()
+      .from(suppliers)
+      .where(whereClause)
+      .orderBy(desc(suppliers.rating));
+    
+    res.json(results);
+  } catch (error) {
+    console.error("Error fetching suppliers:", error);
+    res.status(500).json({ message: "Failed to fetch suppliers" });
+  }
+});
+
+// GET /api/marketplace/suppliers/:id - Get supplier detail
+router.get("/suppliers/:id", async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    
+    const [supplier] = await db
+      .select()
+      .from(suppliers)
+      .where(eq(suppliers.id, id));
+    
+    if (!supplier) {
+      return res.status(404).json({ message: "Supplier not found" });
+    }
+    
+    // Get product count and categories
+    const productData = await db
+      .select({
+        count: sql<number>`count(*)`,
+        category: parts.category,
+      })
+      .from(parts)
+      .where(and(eq(parts.supplierId, id), eq(parts.moderationStatus, 'approved')))
+      .groupBy(parts.category);
+    
+    const productCount = productData.reduce((sum, item) => sum + Number(item.count), 0);
+    const categories = productData.map(item => item.category);
+    
+    res.json({
+      ...supplier,
+      productCount,
+      categories,
+    });
+    
+    // Suppliers browsing their own store are not visitors
+    const viewerId = (req as any).user?.claims?.sub;
+    if (viewerId !== supplier.userId) {
+      recordStorefrontActivity(req, async (workshopId) => {
+        const { storefrontAnalyticsService } = await import("./services/storefrontAnalyticsService");
+        await storefrontAnalyticsService.record([{
+          supplierId: id,
+          workshopId,
+          eventType: 'store_view',
+          source: 'store',
+        }]);
+      });
+    }
+  } catch (error) {
+    console.error("Error fetching supplier:", error);
+    res.status(500).json({ message: "Failed to fetch supplier" });
+  }
+});
+
+// GET /api/marketplace/suppliers/:id/products - Get products for a specific supplier
+// Paginated with ?limit/cursor (sort: price, newest, name, stock, rating) -> { items, nextCursor }
+// With ?facets=1 the response also carries facets: { items, nextCursor?, facets }
+router.get("/suppliers/:id/products", async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { q, facets } = req.query;
+    
+    const baseConditions = [eq(parts.supplierId, id), eq(parts.moderationStatus, 'approved')];
+    
+    if (q && typeof q === 'string') {
+      baseConditions.push(
+        or(
+          like(sql`LOWER(${parts.name})`, `%${q.toLowerCase()}%`),
+          like(sql`LOWER(${parts.sku})`, `%${q.toLowerCase()}%`),
+          like(parts.garagehubCode, `%${q}%`)
+        )!
+      );
+    }
+    
+    const { partFacetService } = await import("./services/partFacetService");
+    const filters = partFacetService.buildFilterConditions(parsePartFilterQuery(req.query));
+    const whereClause = and(...baseConditions, ...Object.values(filters));
+    const paginated = isPaginatedRequest(req.query);
+    
+    let page: { items: typeof parts.$inferSelect[]; nextCursor?: string | null };
+    if (paginated) {
+      const pageRequest = parsePageRequest(req.query, PRODUCT_SORT_KEYS, 'newest');
+      const keyset = buildKeysetQuery(pageRequest, PRODUCT_SORT_KEYS, sql`${parts.id}`);
+      
+      const rows = await db
+        .select({ part: parts, sortValues: keyset.sortValues })
+        .from(parts)
+        .where(and(whereClause, keyset.where))
+        .orderBy(...keyset.orderBy)
+        .limit(pageRequest.limit + 1);
+      
+      page = toCursorPage(
+        rows,
+        pageRequest.limit,
+        row => [...pageRequest.sort.map((_, i) => row.sortValues[`sort${i}`]), row.part.id],
+        row => row.part
+      );
+    } else {
+      page = {
+        items: await db
+          .select()
+          .from(parts)
+          .where(whereClause)
+          .orderBy(desc(parts.createdAt)),
+      };
+    }
+    
+    if (facets === '1' || facets === 'true') {
+      res.json({
+        ...page,
+        facets: await partFacetService.computeFacets(baseConditions, filters),
+      });
+    } else {
+      res.json(paginated ? page : page.items);
+    }
+    
+    // In-store searches: logged on the first page (with the total match count), impressions on every page
+    if (q && typeof q === 'string') {
+      recordStorefrontActivity(req, async (workshopId) => {
+        const { storefrontAnalyticsService } = await import("./services/storefrontAnalyticsService");
+        if (!req.query.cursor) {
+          const [{ total }] = await db
+            .select({ total: sql<number>`count(*)::int` })
+            .from(parts)
+            .where(whereClause);
+          await storefrontAnalyticsService.recordTextSearch({
+            query: q,
+            supplierId: id,
+            workshopId,
+            resultCount: total,
+            results: page.items,
+          });
+        } else {
+          await storefrontAnalyticsService.recordImpressions(page.items, 'store_search', workshopId);
+        }
+      });
+    }
+  } catch (error) {
+    console.error("Error fetching products:", error);
+    res.status(500).json({ message: "Failed to fetch products" });
+  }
+});
+
+// POST /api/marketplace/suppliers/:id/products - Create product (supplier only)
+router.post("/suppliers/:id/products", isAuthenticated, async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const user = (req as any).user;
+    
+    if (!user) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+    
+    // Verify user owns this supplier
+    const [supplier] = await db
+      .select()
+      .from(suppliers)
+      .where(and(
+        eq(suppliers.id, id),
+        eq(suppliers.userId, user.claims.sub)
+      ));
+    
+    if (!supplier) {
+      return res.status(403).json({ message: "Not authorized to add products to this supplier" });
+    }
+    
+    const { listingModerationService } = await import("./services/listingModerationService");
+    const { partNumbers: partNumbersBody, variants: variantsBody, ...productData } = listingModerationService.omitProtectedFields(req.body);
+    const partNumbersResult = parsePartNumbersBody(partNumbersBody);
+    if ('error' in partNumbersResult) {
+      return res.status(400).json({ message: partNumbersResult.error });
+    }
+    const variantsResult = parseVariantsBody(variantsBody);
+    if ('error' in variantsResult) {
+      return res.status(400).json({ message: variantsResult.error });
+    }
+    
+    // Canonical taxonomy labels; partCategory follows the category unless given
+    const { taxonomyService } = await import("./services/taxonomyService");
+    Object.assign(productData, await taxonomyService.normalizeFields(productData));
+    
+    // Unverified suppliers and flagged keywords/prices go to the moderation queue (priced by the cheapest variant if any)
+    const moderation = await listingModerationService.moderate(supplier, {
+      ...productData,
+      price: variantsResult.variants?.length
+        ? String(Math.min(...variantsResult.variants.map(variant => Number(variant.price))))
+        : productData.price,
+    });
+    
+    // Auto-generate system_code using existing ProductCodeService
+    const { ProductCodeService } = await import("./services/productCodeService");
+    const { partNumberService } = await import("./services/partNumberService");
+    const { partVariantService } = await import("./services/partVariantService");
+    
+    const part = await db.transaction(async (tx) => {
+      const garagehubCode = await ProductCodeService.generateCodeForSupplier(supplier.id, tx);
+      
+      const created = await storage.createPart({
+        ...productData,
+        ...moderation,
+        supplierId: supplier.id,
+        supplierType: supplier.supplierType,
+        garagehubCode,
+      }, tx);
+      
+      if (partNumbersResult.partNumbers) {
+        await partNumberService.setPartNumbers(created.id, partNumbersResult.partNumbers, tx);
+      }
+      
+      if (variantsResult.variants?.length) {
+        // Variants set the parent's price/stock aggregates - return the refreshed row
+        const variants = await partVariantService.setVariants(created.id, variantsResult.variants, tx);
+        const [withAggregates] = await tx.select().from(parts).where(eq(parts.id, created.id));
+        return { ...withAggregates, variants };
+      }
+      
+      return created;
+    });
+    
+    // Hash product images for image search in the background (image fetches can be slow)
+    import("./services/imageSearchService")
+      .then(({ imageSearchService }) => imageSearchService.indexPartImages(part))
+      .catch(error => console.error("Error indexing product images:", error));
+    
+    // Broadcast product creation via Socket.io
+    const io = (req.app as any).get('io');
+    if (io) {
+      io.to(`shop:${supplier.id}`).emit('product.created', part);
+    }
+    
+    // Warn about listings that look like the same part (photos are compared once indexed - see /duplicates)
+    let possibleDuplicates: unknown[] = [];
+    try {
+      const { duplicateListingService } = await import("./services/duplicateListingService");
+      possibleDuplicates = await duplicateListingService.findDuplicates(
+        { ...part, partNumbers: partNumbersResult.partNumbers },
+        { supplierId: supplier.id, excludePartId: part.id }
+      );
+    } catch (error) {
+      console.error("Error checking for duplicate listings:", error);
+    }
+    
+    res.status(201).json({ ...part, possibleDuplicates });
+  } catch (error) {
+    if (error instanceof VariantNotFoundError) {
+      return res.status(400).json({ message: error.message });
+    }
+    console.error("Error creating product:", error);
+    res.status(500).json({ message: "Failed to create product" });
+  }
+});
+
+// GET /api/marketplace/products/:id - Product detail with variants, part numbers, other sellers, compatible alternatives, recommendations and Q&A
+router.get("/products/:id", async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    
+    const [row] = await db
+      .select({
+        part: parts,
+        supplier: {
+          id: suppliers.id,
+          name: suppliers.name,
+          state: suppliers.state,
+          city: suppliers.city,
+          rating: suppliers.rating,
+          isVerified: suppliers.isVerified,
+        },
+        supplierUserId: suppliers.userId,
+      })
+      .from(parts)
+      .innerJoin(suppliers, eq(parts.supplierId, suppliers.id))
+      .where(eq(parts.id, id));
+    
+    if (!row) {
+      return res.status(404).json({ message: "Product not found" });
+    }
+    
+    // Merged duplicates point at the listing that replaced them
+    if (row.part.moderationStatus === 'merged') {
+      return res.status(404).json({ message: "Product was merged into another listing", mergedIntoId: row.part.mergedIntoId });
+    }
+    
+    // Listings under moderation are only visible to their supplier and admins
+    if (row.part.moderationStatus !== 'approved') {
+      const userId = (req as any).user?.claims?.sub;
+      const viewer = userId ? await storage.getUser(userId) : undefined;
+      if (!viewer || (viewer.id !== row.supplierUserId && viewer.role !== 'admin')) {
+        return res.status(404).json({ message: "Product not found" });
+      }
+    }
+    
+    const { partNumberService } = await import("./services/partNumberService");
+    const { partVariantService } = await import("./services/partVariantService");
+    const { pricingService } = await import("./services/pricingService");
+    const { recommendationService } = await import("./services/recommendationService");
+    const { productQuestionService } = await import("./services/productQuestionService");
+    const { vehicleMake, vehicleModel } = row.part;
+    const userId = (req as any).user?.claims?.sub;
+    const viewerWorkshop = userId ? await storage.getWorkshopByUserId(userId) : undefined;
+    const [variants, priceTiers, partNumbers, otherSellers, compatibleAlternatives, frequentlyBoughtTogether, popularForVehicle, questions] = await Promise.all([
+      row.part.hasVariants ? partVariantService.getVariants(id) : [],
+      pricingService.getPriceTiers(id),
+      partNumberService.getPartNumbers(id),
+      partNumberService.getOtherSellers(id),
+      partNumberService.getCompatibleAlternatives(id),
+      recommendationService.getFrequentlyBoughtTogether(id),
+      vehicleMake && vehicleModel ? recommendationService.getPopularForVehicle(vehicleMake, vehicleModel, 10, id) : [],
+      productQuestionService.getForPart(id, viewerWorkshop?.id),
+    ]);
+    
+    res.json({
+      ...row.part,
+      supplier: row.supplier,
+      variants,
+      priceTiers,
+      partNumbers,
+      otherSellers,
+      compatibleAlternatives,
+      frequentlyBoughtTogether,
+      popularForVehicle,
+      questions,
+    });
+    
+    // Suppliers viewing their own listing are not visitors
+    if (userId !== row.supplierUserId) {
+      import("./services/storefrontAnalyticsService")
+        .then(({ storefrontAnalyticsService }) => storefrontAnalyticsService.record([{
+          supplierId: row.part.supplierId,
+          partId: id,
+          workshopId: viewerWorkshop?.id,
+          eventType: 'product_view',
+          source: 'product_page',
+        }]))
+        .catch(error => console.error("Error recording storefront analytics:", error));
+    }
+  } catch (error) {
+    console.error("Error fetching product:", error);
+    res.status(500).json({ message: "Failed to fetch product" });
+  }
+});
+
+// GET /api/marketplace/products/:id/questions - Answered questions on a listing (plus the viewing workshop's own unanswered ones)
+router.get("/products/:id/questions", async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user?.claims?.sub;
+    const workshop = userId ? await storage.getWorkshopByUserId(userId) : undefined;
+    
+    const { productQuestionService } = await import("./services/productQuestionService");
+    const questions = await productQuestionService.getForPart(req.params.id, workshop?.id);
+    
+    res.json(questions);
+  } catch (error) {
+    console.error("Error fetching product questions:", error);
+    res.status(500).json({ message: "Failed to fetch product questions" });
+  }
+});
+
+// POST /api/marketplace/products/:id/questions - Ask the supplier a question about a listing (workshop only)
+router.post("/products/:id/questions", isAuthenticated, async (req: Request, res: Response) => {
+  try {
+    const user = (req as any).user;
+    
+    if (!user) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+    
+    const workshop = await storage.getWorkshopByUserId(user.claims.sub);
+    if (!workshop) {
+      return res.status(403).json({ message: "Only workshops can ask product questions" });
+    }
+    
+    const parsed = askProductQuestionSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid question", errors: parsed.error.flatten().fieldErrors });
+    }
+    
+    const [part] = await db
+      .select()
+      .from(parts)
+      .where(and(eq(parts.id, req.params.id), eq(parts.moderationStatus, 'approved')));
+    
+    if (!part) {
+      return res.status(404).json({ message: "Product not found" });
+    }
+    
+    const { productQuestionService } = await import("./services/productQuestionService");
+    const question = await productQuestionService.ask(part, workshop, user.claims.sub, parsed.data, (req.app as any).get('io'));
+    
+    res.status(201).json(question);
+  } catch (error) {
+    console.error("Error asking product question:", error);
+    res.status(500).json({ message: "Failed to ask question" });
+  }
+});
+
+// GET /api/marketplace/suppliers/:id/questions - Questions on the supplier's listings (supplier only)
+// Query: status = unanswered (default) | answered | all
+router.get("/suppliers/:id/questions", isAuthenticated, async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const user = (req as any).user;
+    const status = (req.query.status as string) || 'unanswered';
+    
+    if (!['unanswered', 'answered', 'all'].includes(status)) {
+      return res.status(400).json({ message: "Invalid status" });
+    }
+    
+    const [supplier] = await db
+      .select()
+      .from(suppliers)
+      .where(and(eq(suppliers.id, id), eq(suppliers.userId, user.claims.sub)));
+    
+    if (!supplier) {
+      return res.status(403).json({ message: "Not authorized to view this supplier's questions" });
+    }
+    
+    const { productQuestionService } = await import("./services/productQuestionService");
+    const questions = await productQuestionService.getForSupplier(supplier.id, status as SupplierQuestionStatus);
+    
+    res.json(questions);
+  } catch (error) {
+    console.error("Error fetching supplier questions:", error);
+    res.status(500).json({ message: "Failed to fetch questions" });
+  }
+});
+
+// PUT /api/marketplace/questions/:id/answer - Answer or edit the answer to a question (listing's supplier only)
+router.put("/questions/:id/answer", isAuthenticated, async (req: Request, res: Response) => {
+  try {
+    const user = (req as any).user;
+    
+    const parsed = answerProductQuestionSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid answer", errors: parsed.error.flatten().fieldErrors });
+    }
+    
+    const { productQuestionService } = await import("./services/productQuestionService");
+    const question = await productQuestionService.getQuestion(req.params.id);
+    if (!question) {
+      return res.status(404).json({ message: "Question not found" });
+    }
+    
+    const [supplier] = await db
+      .select()
+      .from(suppliers)
+      .where(and(eq(suppliers.id, question.supplierId), eq(suppliers.userId, user.claims.sub)));
+    
+    if (!supplier) {
+      return res.status(403).json({ message: "Not authorized to answer this question" });
+    }
+    
+    const updated = await productQuestionService.answer(question, user.claims.sub, parsed.data, (req.app as any).get('io'));
+    
+    res.json(updated);
+  } catch (error) {
+    console.error("Error answering product question:", error);
+    res.status(500).json({ message: "Failed to answer question" });
+  }
+});
+
+// DELETE /api/marketplace/questions/:id - Delete a question (asker or the listing's supplier)
+router.delete("/questions/:id", isAuthenticated, async (req: Request, res: Response) => {
+  try {
+    const user = (req as any).user;
+    
+    const { productQuestionService } = await import("./services/productQuestionService");
+    const question = await productQuestionService.getQuestion(req.params.id);
+    if (!question) {
+      return res.status(404).json({ message: "Question not found" });
+    }
+    
+    if (question.askedBy !== user.claims.sub) {
+      const [supplier] = await db
+        .select()
+        .from(suppliers)
+        .where(and(eq(suppliers.id, question.supplierId), eq(suppliers.userId, user.claims.sub)));
+      
+      if (!supplier) {
+        return res.status(403).json({ message: "Not authorized to delete this question" });
+      }
+    }
+    
+    await productQuestionService.deleteQuestion(question.id);
+    
+    res.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting product question:", error);
+    res.status(500).json({ message: "Failed to delete question" });
+  }
+});
+
+// GET /api/marketplace/reviews/:targetType/:targetId - Rating summary and reviews of a workshop, supplier or product
+router.get("/reviews/:targetType/:targetId", async (req: Request, res: Response) => {
+  try {
+    const { targetType, targetId } = req.params;
+    
+    if (!reviewTargetTypeEnum.enumValues.includes(targetType as ReviewTargetType)) {
+      return res.status(400).json({ message: "Invalid review target type" });
+    }
+    
+    const { reviewService } = await import("./services/reviewService");
+    const result = await reviewService.getForTarget(targetType as ReviewTargetType, targetId, (req as any).user?.claims?.sub);
+    
+    res.json(result);
+  } catch (error) {
+    console.error("Error fetching reviews:", error);
+    res.status(500).json({ message: "Failed to fetch reviews" });
+  }
+});
+
+// GET /api/marketplace/reviews/:targetType/:targetId/eligibility - Whether the current user can review the target or reply as its owner
+router.get("/reviews/:targetType/:targetId/eligibility", isAuthenticated, async (req: Request, res: Response) => {
+  try {
+    const { targetType, targetId } = req.params;
+    const user = (req as any).user;
+    
+    if (!reviewTargetTypeEnum.enumValues.includes(targetType as ReviewTargetType)) {
+      return res.status(400).json({ message: "Invalid review target type" });
+    }
+    
+    const { reviewService } = await import("./services/reviewService");
+    const eligibility = await reviewService.getEligibility(user.claims.sub, targetType as ReviewTargetType, targetId);
+    
+    res.json(eligibility);
+  } catch (error) {
+    console.error("Error checking review eligibility:", error);
+    res.status(500).json({ message: "Failed to check review eligibility" });
+  }
+});
+
+// POST /api/marketplace/reviews - Review a workshop, supplier or product (verified purchases only)
+router.post("/reviews", isAuthenticated, async (req: Request, res: Response) => {
+  try {
+    const user = (req as any).user;
+    
+    const parsed = insertReviewSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid review", errors: parsed.error.flatten().fieldErrors });
+    }
+    
+    const { reviewService } = await import("./services/reviewService");
+    const review = await reviewService.create(user.claims.sub, parsed.data, (req.app as any).get('io'));
+    
+    res.status(201).json(review);
+  } catch (error) {
+    if (error instanceof ReviewError) {
+      return res.status(reviewErrorStatus(error)).json({ message: error.message, reason: error.reason });
+    }
+    console.error("Error creating review:", error);
+    res.status(500).json({ message: "Failed to create review" });
+  }
+});
+
+// PATCH /api/marketplace/reviews/:id - Edit rating, comment or photos (reviewer only)
+router.patch("/reviews/:id", isAuthenticated, async (req: Request, res: Response) => {
+  try {
+    const user = (req as any).user;
+    
+    const parsed = updateReviewSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid review", errors: parsed.error.flatten().fieldErrors });
+    }
+    
+    const { reviewService } = await import("./services/reviewService");
+    const review = await reviewService.getReview(req.params.id);
+    if (!review) {
+      return res.status(404).json({ message: "Review not found" });
+    }
+    
+    if (review.userId !== user.claims.sub) {
+      return res.status(403).json({ message: "Not authorized to edit this review" });
+    }
+    
+    const updated = await reviewService.update(review, parsed.data);
+    
+    res.json(updated);
+  } catch (error) {
+    console.error("Error updating review:", error);
+    res.status(500).json({ message: "Failed to update review" });
+  }
+});
+
+// DELETE /api/marketplace/reviews/:id - Delete a review (reviewer or admin)
+router.delete("/reviews/:id", isAuthenticated, async (req: Request, res: Response) => {
+  try {
+    const user = (req as any).user;
+    
+    const { reviewService } = await import("./services/reviewService");
+    const review = await reviewService.getReview(req.params.id);
+    if (!review) {
+      return res.status(404).json({ message: "Review not found" });
+    }
+    
+    if (review.userId !== user.claims.sub) {
+      const dbUser = await storage.getUser(user.claims.sub);
+      if (dbUser?.role !== 'admin') {
+        return res.status(403).json({ message: "Not authorized to delete this review" });
+      }
+    }
+    
+    await reviewService.deleteReview(review);
+    
+    res.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting review:", error);
+    res.status(500).json({ message: "Failed to delete review" });
+  }
+});
+
+// PUT /api/marketplace/reviews/:id/reply - Post or edit the public reply (reviewed supplier/workshop only)
+router.put("/reviews/:id/reply", isAuthenticated, async (req: Request, res: Response) => {
+  try {
+    const user = (req as any).user;
+    
+    const parsed = reviewReplySchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid reply", errors: parsed.error.flatten().fieldErrors });
+    }
+    
+    const { reviewService } = await import("./services/reviewService");
+    const review = await reviewService.getReview(req.params.id);
+    if (!review) {
+      return res.status(404).json({ message: "Review not found" });
+    }
+    
+    const updated = await reviewService.reply(review, user.claims.sub, parsed.data, (req.app as any).get('io'));
+    
+    res.json(updated);
+  } catch (error) {
+    if (error instanceof ReviewError) {
+      return res.status(reviewErrorStatus(error)).json({ message: error.message, reason: error.reason });
+    }
+    console.error("Error replying to review:", error);
+    res.status(500).json({ message: "Failed to reply to review" });
+  }
+});
+
+// POST /api/marketplace/reviews/:id/report - Report a fake or abusive review
+router.post("/reviews/:id/report", isAuthenticated, async (req: Request, res: Response) => {
+  try {
+    const user = (req as any).user;
+    
+    const parsed = reportReviewSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid report", errors: parsed.error.flatten().fieldErrors });
+    }
+    
+    const { reviewModerationService } = await import("./services/reviewModerationService");
+    await reviewModerationService.report(req.params.id, user.claims.sub, parsed.data);
+    
+    res.status(201).json({ success: true });
+  } catch (error) {
+    if (error instanceof ReviewError) {
+      return res.status(reviewErrorStatus(error)).json({ message: error.message, reason: error.reason });
+    }
+    console.error("Error reporting review:", error);
+    res.status(500).json({ message: "Failed to report review" });
+  }
+});
+
+// GET /api/marketplace/part-numbers/:number - Price comparison: every listing of an OEM/aftermarket part number
+router.get("/part-numbers/:number", async (req: Request, res: Response) => {
+  try {
+    const { partNumberService } = await import("./services/partNumberService");
+    const result = await partNumberService.findByNumber(req.params.number);
+    
+    res.json(result);
+  } catch (error) {
+    console.error("Error looking up part number:", error);
+    res.status(500).json({ message: "Failed to look up part number" });
+  }
+});
+
+// GET /api/marketplace/interchange-groups/:id - Interchange group with its part numbers
+router.get("/interchange-groups/:id", async (req: Request, res: Response) => {
+  try {
+    const { partNumberService } = await import("./services/partNumberService");
+    const group = await partNumberService.getInterchangeGroup(req.params.id);
+    
+    if (!group) {
+      return res.status(404).json({ message: "Interchange group not found" });
+    }
+    
+    res.json(group);
+  } catch (error) {
+    console.error("Error fetching interchange group:", error);
+    res.status(500).json({ message: "Failed to fetch interchange group" });
+  }
+});
+
+// POST /api/marketplace/interchange-groups - Create interchange group (admin/staff only)
+router.post("/interchange-groups", isAuthenticated, requireRole(['admin', 'staff']), async (req: Request, res: Response) => {
+  try {
+    const { name, notes, partNumbers: partNumbersBody } = req.body;
+    
+    if (typeof name !== 'string' || !name.trim()) {
+      return res.status(400).json({ message: "name is required" });
+    }
+    
+    const partNumbersResult = parsePartNumbersBody(partNumbersBody);
+    if ('error' in partNumbersResult) {
+      return res.status(400).json({ message: partNumbersResult.error });
+    }
+    if (!partNumbersResult.partNumbers || partNumbersResult.partNumbers.length < 2) {
+      return res.status(400).json({ message: "An interchange group needs at least two part numbers" });
+    }
+    
+    const { partNumberService } = await import("./services/partNumberService");
+    const group = await partNumberService.createInterchangeGroup(
+      name.trim(),
+      partNumbersResult.partNumbers,
+      typeof notes === 'string' ? notes : undefined
+    );
+    
+    res.status(201).json(group);
+  } catch (error) {
+    console.error("Error creating interchange group:", error);
+    res.status(500).json({ message: "Failed to create interchange group" });
+  }
+});
+
+// POST /api/marketplace/interchange-groups/:id/part-numbers - Add part numbers to a group (admin/staff only)
+router.post("/interchange-groups/:id/part-numbers", isAuthenticated, requireRole(['admin', 'staff']), async (req: Request, res: Response) => {
+  try {
+    const { partNumberService } = await import("./services/partNumberService");
+    const group = await partNumberService.getInterchangeGroup(req.params.id);
+    
+    if (!group) {
+      return res.status(404).json({ message: "Interchange group not found" });
+    }
+    
+    const partNumbersResult = parsePartNumbersBody(req.body.partNumbers);
+    if ('error' in partNumbersResult || !partNumbersResult.partNumbers?.length) {
+      return res.status(400).json({ message: 'error' in partNumbersResult ? partNumbersResult.error : "partNumbers is required" });
+    }
+    
+    const added = await partNumberService.addToInterchangeGroup(group.id, partNumbersResult.partNumbers);
+    
+    res.status(201).json(added);
+  } catch (error) {
+    console.error("Error adding part numbers to interchange group:", error);
+    res.status(500).json({ message: "Failed to add part numbers to interchange group" });
+  }
+});
+
+// DELETE /api/marketplace/interchange-groups/:id/part-numbers/:partNumberId - Remove a part number from its group (admin/staff only)
+router.delete("/interchange-groups/:id/part-numbers/:partNumberId", isAuthenticated, requireRole(['admin', 'staff']), async (req: Request, res: Response) => {
+  try {
+    const { partNumberService } = await import("./services/partNumberService");
+    const removed = await partNumberService.removeFromInterchangeGroup(req.params.id, req.params.partNumberId);
+    
+    if (!removed) {
+      return res.status(404).json({ message: "Part number not found in this interchange group" });
+    }
+    
+    res.json({ success: true });
+  } catch (error) {
+    console.error("Error removing part number from interchange group:", error);
+    res.status(500).json({ message: "Failed to remove part number from interchange group" });
+  }
+});
+
+// PATCH /api/marketplace/products/:id - Update product (supplier only)
+router.patch("/products/:id", isAuthenticated, async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const user = (req as any).user;
+    
+    if (!user) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+    
+    // Verify user owns the supplier that owns this product
+    const [part] = await db
+      .select({
+        part: parts,
+        supplier: suppliers,
+      })
+      .from(parts)
+      .innerJoin(suppliers, eq(parts.supplierId, suppliers.id))
+      .where(eq(parts.id, id));
+    
+    if (!part || part.supplier.userId !== user.claims.sub) {
+      return res.status(403).json({ message: "Not authorized to update this product" });
+    }
+    
+    const { listingModerationService } = await import("./services/listingModerationService");
+    const { partNumbers: partNumbersBody, variants: variantsBody, ...productData } = listingModerationService.omitProtectedFields(req.body);
+    const partNumbersResult = parsePartNumbersBody(partNumbersBody);
+    if ('error' in partNumbersResult) {
+      return res.status(400).json({ message: partNumbersResult.error });
+    }
+    const variantsResult = parseVariantsBody(variantsBody);
+    if ('error' in variantsResult) {
+      return res.status(400).json({ message: variantsResult.error });
+    }
+    
+    if (typeof productData.expectedRestockDate === 'string') {
+      productData.expectedRestockDate = new Date(productData.expectedRestockDate);
+    }
+    
+    const { taxonomyService } = await import("./services/taxonomyService");
+    Object.assign(productData, await taxonomyService.normalizeFields(productData));
+    
+    // Edits to what buyers see are screened again (and may send the listing back to the queue)
+    Object.assign(productData, await listingModerationService.moderate(part.supplier, productData, part.part));
+    
+    const { partNumberService } = await import("./services/partNumberService");
+    const { partVariantService } = await import("./services/partVariantService");
+    
+    // The listing, its variants and part numbers change together or not at all
+    const updated = await db.transaction(async (tx) => {
+      const [row] = await tx
+        .update(parts)
+        .set({ ...productData, updatedAt: new Date() })
+        .where(eq(parts.id, id))
+        .returning();
+      
+      if (partNumbersResult.partNumbers) {
+        await partNumberService.setPartNumbers(id, partNumbersResult.partNumbers, tx);
+      }
+      
+      if (variantsResult.variants) {
+        // Variants set the parent's price/stock aggregates - return the refreshed row
+        const variants = await partVariantService.setVariants(id, variantsResult.variants, tx);
+        const [withAggregates] = await tx.select().from(parts).where(eq(parts.id, id));
+        return { ...withAggregates, variants };
+      }
+      
+      return row;
+    });
+    
+    // Keep the donor unit's sold-through status in step with component stock
+    if (part.part.halfcutUnitId && productData.stockQuantity !== undefined) {
+      const { halfcutService } = await import("./services/halfcutService");
+      await halfcutService.refreshSoldThrough(part.part.halfcutUnitId);
+    }
+    
+    if (updated && (req.body.imageUrl !== undefined || req.body.images !== undefined)) {
+      import("./services/imageSearchService")
+        .then(({ imageSearchService }) => imageSearchService.indexPartImages(updated))
+        .catch(error => console.error("Error indexing product images:", error));
+    }
+    
+    // Broadcast product update via Socket.io
+    const io = (req.app as any).get('io');
+    if (io) {
+      io.to(`shop:${part.supplier.id}`).emit('product.updated', updated);
+    }
+    
+    // New stock fills backorders and serves restock subscriptions
+    if (productData.stockQuantity !== undefined || variantsResult.variants) {
+      import("./services/backorderService")
+        .then(({ backorderService }) => backorderService.handleRestockMany([id], io))
+        .catch(error => console.error("Error processing restock:", error));
+    }
+    
+    if (productData.price !== undefined || variantsResult.variants) {
+      checkSavedListPriceDrops(io, [id]);
+    }
+    
+    res.json(updated);
+  } catch (error) {
+    if (error instanceof VariantNotFoundError) {
+      return res.status(400).json({ message: error.message });
+    }
+    console.error("Error updating product:", error);
+    res.status(500).json({ message: "Failed to update product" });
+  }
+});
+
+// DELETE /api/marketplace/products/:id - Soft delete product (supplier only)
+router.delete("/products/:id", isAuthenticated, async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const user = (req as any).user;
+    
+    if (!user) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+    
+    // Verify user owns the supplier that owns this product
+    const [part] = await db
+      .select({
+        part: parts,
+        supplier: suppliers,
+      })
+      .from(parts)
+      .innerJoin(suppliers, eq(parts.supplierId, suppliers.id))
+      .where(eq(parts.id, id));
+    
+    if (!part || part.supplier.userId !== user.claims.sub) {
+      return res.status(403).json({ message: "Not authorized to delete this product" });
+    }
+    
+    await storage.deletePart(id);
+    
+    if (part.part.halfcutUnitId) {
+      const { halfcutService } = await import("./services/halfcutService");
+      await halfcutService.refreshSoldThrough(part.part.halfcutUnitId);
+    }
+    
+    // Broadcast product deletion via Socket.io
+    const io = (req.app as any).get('io');
+    if (io) {
+      io.to(`shop:${part.supplier.id}`).emit('product.deleted', { id });
+    }
+    
+    res.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting product:", error);
+    res.status(500).json({ message: "Failed to delete product" });
+  }
+});
+
+// GET /api/marketplace/moderation/queue - Listings awaiting review, oldest first (admin only)
+// Query: status (pending | rejected | approved, default pending), supplierId, limit
+router.get("/moderation/queue", isAuthenticated, requireRole(['admin']), async (req: Request, res: Response) => {
+  try {
+    const { status, supplierId, limit } = req.query;
+    
+    if (status !== undefined && !['pending', 'approved', 'rejected'].includes(status as string)) {
+      return res.status(400).json({ message: "Invalid status" });
+    }
+    
+    const { listingModerationService } = await import("./services/listingModerationService");
+    const queue = await listingModerationService.getQueue({
+      status: status as ListingModerationStatus | undefined,
+      supplierId: typeof supplierId === 'string' ? supplierId : undefined,
+      limit: parseInt(limit as string) || undefined,
+    });
+    
+    res.json(queue);
+  } catch (error) {
+    console.error("Error fetching moderation queue:", error);
+    res.status(500).json({ message: "Failed to fetch moderation queue" });
+  }
+});
+
+// POST /api/marketplace/moderation/products/:id - Approve or reject a listing; the supplier is notified (admin only)
+// Body: { decision: 'approved' | 'rejected', reason? } - reason is required when rejecting
+router.post("/moderation/products/:id", isAuthenticated, requireRole(['admin']), async (req: Request, res: Response) => {
+  try {
+    const user = (req as any).user;
+    
+    const parsed = listingModerationDecisionSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid moderation decision", errors: parsed.error.flatten().fieldErrors });
+    }
+    
+    const io = (req.app as any).get('io');
+    const { listingModerationService } = await import("./services/listingModerationService");
+    const updated = await listingModerationService.decide(req.params.id, user.claims.sub, parsed.data, io);
+    
+    if (!updated) {
+      return res.status(404).json({ message: "Product not found" });
+    }
+    
+    if (io) {
+      io.to(`shop:${updated.supplierId}`).emit('product.updated', updated);
+    }
+    
+    res.json(updated);
+  } catch (error) {
+    console.error("Error moderating product:", error);
+    res.status(500).json({ message: "Failed to moderate product" });
+  }
+});
+
+// GET /api/marketplace/moderation/reviews - Held, reported or hidden reviews with open reports (admin only)
+// Query: status = held (default) | reported | hidden, limit
+router.get("/moderation/reviews", isAuthenticated, requireRole(['admin']), async (req: Request, res: Response) => {
+  try {
+    const status = (req.query.status as string) || 'held';
+    
+    if (!['held', 'reported', 'hidden'].includes(status)) {
+      return res.status(400).json({ message: "Invalid status" });
+    }
+    
+    const { reviewModerationService } = await import("./services/reviewModerationService");
+    const queue = await reviewModerationService.getQueue(status as ReviewQueueFilter, parseInt(req.query.limit as string) || undefined);
+    
+    res.json(queue);
+  } catch (error) {
+    console.error("Error fetching review moderation queue:", error);
+    res.status(500).json({ message: "Failed to fetch review moderation queue" });
+  }
+});
+
+// POST /api/marketplace/moderation/reviews/:id - Hide or restore a review (admin only)
+router.post("/moderation/reviews/:id", isAuthenticated, requireRole(['admin']), async (req: Request, res: Response) => {
+  try {
+    const user = (req as any).user;
+    
+    const parsed = reviewModerationDecisionSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid moderation decision", errors: parsed.error.flatten().fieldErrors });
+    }
+    
+    const { reviewModerationService } = await import("./services/reviewModerationService");
+    const updated = await reviewModerationService.decide(req.params.id, user.claims.sub, parsed.data, (req.app as any).get('io'));
+    
+    if (!updated) {
+      return res.status(404).json({ message: "Review not found" });
+    }
+    
+    res.json(updated);
+  } catch (error) {
+    console.error("Error moderating review:", error);
+    res.status(500).json({ message: "Failed to moderate review" });
+  }
+});
+
+// GET /api/marketplace/suppliers/:id/duplicates - Pairs of the supplier's listings that look like the same part (supplier only)
+router.get("/suppliers/:id/duplicates", isAuthenticated, async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const user = (req as any).user;
+    
+    const [supplier] = await db
+      .select()
+      .from(suppliers)
+      .where(and(eq(suppliers.id, id), eq(suppliers.userId, user.claims.sub)));
+    
+    if (!supplier) {
+      return res.status(403).json({ message: "Not authorized to view this supplier's listings" });
+    }
+    
+    const { duplicateListingService } = await import("./services/duplicateListingService");
+    res.json(await duplicateListingService.findSupplierDuplicates(supplier.id));
+  } catch (error) {
+    console.error("Error finding duplicate listings:", error);
+    res.status(500).json({ message: "Failed to find duplicate listings" });
+  }
+});
+
+// GET /api/marketplace/suppliers/:id/products/:partId/duplicates - Listings (own and other suppliers') that look like this one (supplier only)
+router.get("/suppliers/:id/products/:partId/duplicates", isAuthenticated, async (req: Request, res: Response) => {
+  try {
+    const { id, partId } = req.params;
+    const user = (req as any).user;
+    
+    const [supplier] = await db
+      .select()
+      .from(suppliers)
+      .where(and(eq(suppliers.id, id), eq(suppliers.userId, user.claims.sub)));
+    
+    if (!supplier) {
+      return res.status(403).json({ message: "Not authorized to view this supplier's listings" });
+    }
+    
+    const [part] = await db
+      .select({ id: parts.id })
+      .from(parts)
+      .where(and(eq(parts.id, partId), eq(parts.supplierId, supplier.id)));
+    
+    const { duplicateListingService } = await import("./services/duplicateListingService");
+    const duplicates = part ? await duplicateListingService.findDuplicatesOfPart(part.id) : undefined;
+    if (!duplicates) {
+      return res.status(404).json({ message: "Product not found" });
+    }
+    
+    res.json(duplicates);
+  } catch (error) {
+    console.error("Error finding duplicate listings:", error);
+    res.status(500).json({ message: "Failed to find duplicate listings" });
+  }
+});
+
+// POST /api/marketplace/suppliers/:id/products/:partId/merge - Merge a duplicate listing into this one (supplier only)
+// Body: { duplicateId }. Past orders keep the duplicate; carts, saved lists, restock alerts, questions, reviews and stock move here.
+router.post("/suppliers/:id/products/:partId/merge", isAuthenticated, async (req: Request, res: Response) => {
+  try {
+    const { id, partId } = req.params;
+    const user = (req as any).user;
+    
+    const parsed = mergeListingSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid merge", errors: parsed.error.flatten().fieldErrors });
+    }
+    
+    const [supplier] = await db
+      .select()
+      .from(suppliers)
+      .where(and(eq(suppliers.id, id), eq(suppliers.userId, user.claims.sub)));
+    
+    if (!supplier) {
+      return res.status(403).json({ message: "Not authorized to merge this supplier's listings" });
+    }
+    
+    const { duplicateListingService } = await import("./services/duplicateListingService");
+    const result = await duplicateListingService.merge(supplier.id, partId, parsed.data.duplicateId);
+    
+    if (result.kept.halfcutUnitId || result.merged.halfcutUnitId) {
+      const { halfcutService } = await import("./services/halfcutService");
+      for (const unitId of Array.from(new Set([result.kept.halfcutUnitId, result.merged.halfcutUnitId]))) {
+        if (unitId) await halfcutService.refreshSoldThrough(unitId);
+      }
+    }
+    
+    const io = (req.app as any).get('io');
+    if (io) {
+      io.to(`shop:${supplier.id}`).emit('product.updated', result.kept);
+      io.to(`shop:${supplier.id}`).emit('product.deleted', { id: result.merged.id });
+    }
+    
+    // Stock moved over may fill restock alerts on the kept listing
+    if (result.kept.stockQuantity > 0) {
+      import("./services/backorderService")
+        .then(({ backorderService }) => backorderService.handleRestockMany([result.kept.id], io))
+        .catch(error => console.error("Error processing restock:", error));
+    }
+    
+    res.json(result);
+  } catch (error) {
+    if (error instanceof ListingMergeError) {
+      return res.status(listingMergeErrorStatus(error)).json({ message: error.message, reason: error.reason });
+    }
+    console.error("Error merging listings:", error);
+    res.status(500).json({ message: "Failed to merge listings" });
+  }
+});
+
+// GET /api/marketplace/suppliers/:id/moderation - The supplier's pending and rejected listings with flags/reasons (supplier only)
+router.get("/suppliers/:id/moderation", isAuthenticated, async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const user = (req as any).user;
+    
+    const [supplier] = await db
+      .select()
+      .from(suppliers)
+      .where(and(eq(suppliers.id, id), eq(suppliers.userId, user.claims.sub)));
+    
+    if (!supplier) {
+      return res.status(403).json({ message: "Not authorized to view this supplier's listings" });
+    }
+    
+    const { listingModerationService } = await import("./services/listingModerationService");
+    res.json(await listingModerationService.getSupplierUnlisted(supplier.id));
+  } catch (error) {
+    console.error("Error fetching unlisted products:", error);
+    res.status(500).json({ message: "Failed to fetch unlisted products" });
+  }
+});
+
+const MAX_IMPORT_ROWS = 10000;
+
+// POST /api/marketplace/suppliers/:id/products/import - Upsert products from a CSV/XLSX file (supplier only)
+// ?dryRun=1 returns the per-product plan and field diff without writing
+router.post("/suppliers/:id/products/import", isAuthenticated, upload.single('file'), async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const user = (req as any).user;
+    const file = req.file;
+    const dryRun = req.query.dryRun === '1' || req.query.dryRun === 'true';
+    
+    if (!user) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+    
+    const [supplier] = await db
+      .select()
+      .from(suppliers)
+      .where(and(
+        eq(suppliers.id, id),
+        eq(suppliers.userId, user.claims.sub)
+      ));
+    
+    if (!supplier) {
+      return res.status(403).json({ message: "Not authorized to import products for this supplier" });
+    }
+    
+    if (!file) {
+      return res.status(400).json({ message: "File is required (field name: file)" });
+    }
+    
+    const fileName = file.originalname || '';
+    const isXlsx = fileName.toLowerCase().endsWith('.xlsx') ||
+      file.mimetype === 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+    if (!isXlsx && !fileName.toLowerCase().endsWith('.csv') && file.mimetype !== 'text/csv') {
+      return res.status(400).json({ message: "Only .csv and .xlsx files are supported" });
+    }
+    
+    const { parseProductCSV, parseProductXLSX } = await import("./utils/csvParser");
+    let parsed;
+    try {
+      parsed = isXlsx ? await parseProductXLSX(file.buffer) : parseProductCSV(file.buffer.toString('utf-8'));
+    } catch (error) {
+      return res.status(400).json({ message: error instanceof Error ? error.message : "Could not read file" });
+    }
+    
+    if (parsed.totalRows > MAX_IMPORT_ROWS) {
+      return res.status(400).json({ message: `Too many rows (${parsed.totalRows}). Split the file into parts of at most ${MAX_IMPORT_ROWS} rows` });
+    }
+    
+    const { catalogImportService } = await import("./services/catalogImportService");
+    const plan = await catalogImportService.planImport(supplier, parsed);
+    let queuedPartIds: string[] = [];
+    
+    if (!dryRun && plan.operations.length > 0) {
+      const result = await catalogImportService.applyImport(supplier, plan);
+      queuedPartIds = result.queuedPartIds;
+      
+      if (result.halfcutUnitIds.length > 0) {
+        const { halfcutService } = await import("./services/halfcutService");
+        for (const unitId of result.halfcutUnitIds) {
+          await halfcutService.refreshSoldThrough(unitId);
+        }
+      }
+      
+      if (result.reindexParts.length > 0) {
+        import("./services/imageSearchService")
+          .then(async ({ imageSearchService }) => {
+            for (const part of result.reindexParts) {
+              await imageSearchService.indexPartImages(part);
+            }
+          })
+          .catch(error => console.error("Error indexing product images:", error));
+      }
+      
+      // One event for the whole import - clients refetch the product list
+      const io = (req.app as any).get('io');
+      if (io) {
+        io.to(`shop:${supplier.id}`).emit('products.imported', {
+          created: result.createdPartIds,
+          updated: result.updatedPartIds,
+        });
+      }
+      
+      if (result.updatedPartIds.length > 0) {
+        import("./services/backorderService")
+          .then(({ backorderService }) => backorderService.handleRestockMany(result.updatedPartIds, io))
+          .catch(error => console.error("Error processing restock:", error));
+        checkSavedListPriceDrops(io, result.updatedPartIds);
+      }
+    }
+    
+    const record = await catalogImportService.recordImport({
+      supplierId: supplier.id,
+      userId: user.claims.sub,
+      fileName: fileName || null,
+      format: isXlsx ? 'xlsx' : 'csv',
+      dryRun,
+      status: dryRun ? 'previewed' : 'completed',
+      summary: plan.summary,
+      errors: plan.errors,
+    });
+    
+    res.status(dryRun ? 200 : 201).json({
+      importId: record.id,
+      dryRun,
+      summary: plan.summary,
+      items: plan.items,
+      errors: plan.errors,
+      queuedForReview: queuedPartIds, // Listings hidden until an admin approves them
+      errorReportUrl: plan.errors.length > 0
+        ? `/api/marketplace/suppliers/${supplier.id}/imports/${record.id}/error-report`
+        : null,
+    });
+  } catch (error) {
+    console.error("Error importing products:", error);
+    res.status(500).json({ message: "Failed to import products" });
+  }
+});
+
+// GET /api/marketplace/suppliers/:id/products/export - Download the full catalogue in the import layout (supplier only)
+// ?format=csv (default) or xlsx
+router.get("/suppliers/:id/products/export", isAuthenticated, async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const user = (req as any).user;
+    const format = req.query.format === undefined ? 'csv' : String(req.query.format).toLowerCase();
+    
+    if (!user) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+    
+    if (format !== 'csv' && format !== 'xlsx') {
+      return res.status(400).json({ message: "format must be csv or xlsx" });
+    }
+    
+    const [supplier] = await db
+      .select()
+      .from(suppliers)
+      .where(and(
+        eq(suppliers.id, id),
+        eq(suppliers.userId, user.claims.sub)
+      ));
+    
+    if (!supplier) {
+      return res.status(403).json({ message: "Not authorized to export this supplier's products" });
+    }
+    
+    const { catalogExportService } = await import("./services/catalogExportService");
+    const baseName = `${supplier.name.replace(/[^\w.-]+/g, '_')}-catalogue-${new Date().toISOString().slice(0, 10)}`;
+    
+    if (format === 'xlsx') {
+      const buffer = await catalogExportService.exportXLSX(supplier.id);
+      res.setHeader('Content-Type', 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+      res.setHeader('Content-Disposition', `attachment; filename="${baseName}.xlsx"`);
+      return res.send(buffer);
+    }
+    
+    const csv = await catalogExportService.exportCSV(supplier.id);
+    res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="${baseName}.csv"`);
+    res.send(csv);
+  } catch (error) {
+    console.error("Error exporting products:", error);
+    res.status(500).json({ message: "Failed to export products" });
+  }
+});
+
+// GET /api/marketplace/suppliers/:id/imports/:importId/error-report - Download an import's errors as CSV (supplier only)
+router.get("/suppliers/:id/imports/:importId/error-report", isAuthenticated, async (req: Request, res: Response) => {
+  try {
+    const { id, importId } = req.params;
+    const user = (req as any).user;
+    
+    if (!user) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+    
+    const [supplier] = await db
+      .select()
+      .from(suppliers)
+      .where(and(
+        eq(suppliers.id, id),
+        eq(suppliers.userId, user.claims.sub)
+      ));
+    
+    if (!supplier) {
+      return res.status(403).json({ message: "Not authorized to view this supplier's imports" });
+    }
+    
+    const { catalogImportService } = await import("./services/catalogImportService");
+    const record = await catalogImportService.getImport(importId, supplier.id);
+    
+    if (!record) {
+      return res.status(404).json({ message: "Import not found" });
+    }
+    
+    const baseName = (record.fileName || 'import').replace(/\.(csv|xlsx)$/i, '').replace(/[^\w.-]+/g, '_');
+    res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="${baseName}-errors.csv"`);
+    res.send(catalogImportService.buildErrorReport(record.errors));
+  } catch (error) {
+    console.error("Error fetching import error report:", error);
+    res.status(500).json({ message: "Failed to fetch error report" });
+  }
+});
+
+// Load a promotion with its supplier, or null if the user does not own it
+async function getOwnedPromotion(promotionId: string, userId: string) {
+  const [row] = await db
+    .select({ promotion: promotions, supplier: suppliers })
+    .from(promotions)
+    .innerJoin(suppliers, eq(promotions.supplierId, suppliers.id))
+    .where(eq(promotions.id, promotionId));
+  
+  return row && row.supplier.userId === userId ? row : null;
+}
+
+// GET /api/marketplace/suppliers/:id/promotions - List a supplier's promotions (supplier only)
+router.get("/suppliers/:id/promotions", isAuthenticated, async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const user = (req as any).user;
+    
+    if (!user) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+    
+    const [supplier] = await db
+      .select()
+      .from(suppliers)
+      .where(and(
+        eq(suppliers.id, id),
+        eq(suppliers.userId, user.claims.sub)
+      ));
+    
+    if (!supplier) {
+      return res.status(403).json({ message: "Not authorized to view this supplier's promotions" });
+    }
+    
+    const { promotionService } = await import("./services/promotionService");
+    const result = await promotionService.listPromotions(supplier.id);
+    
+    res.json(result);
+  } catch (error) {
+    console.error("Error fetching promotions:", error);
+    res.status(500).json({ message: "Failed to fetch promotions" });
+  }
+});
+
+// POST /api/marketplace/suppliers/:id/promotions - Create a voucher (supplier only)
+router.post("/suppliers/:id/promotions", isAuthenticated, async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const user = (req as any).user;
+    
+    if (!user) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+    
+    const [supplier] = await db
+      .select()
+      .from(suppliers)
+      .where(and(
+        eq(suppliers.id, id),
+        eq(suppliers.userId, user.claims.sub)
+      ));
+    
+    if (!supplier) {
+      return res.status(403).json({ message: "Not authorized to add promotions to this supplier" });
+    }
+    
+    const parsed = createPromotionSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid promotion", errors: parsed.error.flatten().fieldErrors });
+    }
+    
+    const { promotionService } = await import("./services/promotionService");
+    if (await promotionService.findByCode(supplier.id, parsed.data.code)) {
+      return res.status(409).json({ message: `Voucher code ${parsed.data.code} already exists` });
+    }
+    
+    const promotion = await promotionService.createPromotion(supplier.id, parsed.data);
+    
+    res.status(201).json(promotion);
+  } catch (error) {
+    console.error("Error creating promotion:", error);
+    res.status(500).json({ message: "Failed to create promotion" });
+  }
+});
+
+// PATCH /api/marketplace/promotions/:id - Update or deactivate a voucher (supplier only)
+router.patch("/promotions/:id", isAuthenticated, async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const user = (req as any).user;
+    
+    if (!user) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+    
+    const owned = await getOwnedPromotion(id, user.claims.sub);
+    if (!owned) {
+      return res.status(403).json({ message: "Not authorized to update this promotion" });
+    }
+    
+    const parsed = updatePromotionSchema.safeParse({ discountType: owned.promotion.discountType, ...req.body });
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid promotion", errors: parsed.error.flatten().fieldErrors });
+    }
+    
+    const { promotionService } = await import("./services/promotionService");
+    if (parsed.data.code && parsed.data.code !== owned.promotion.code &&
+        await promotionService.findByCode(owned.supplier.id, parsed.data.code)) {
+      return res.status(409).json({ message: `Voucher code ${parsed.data.code} already exists` });
+    }
+    
+    const promotion = await promotionService.updatePromotion(id, parsed.data);
+    
+    res.json(promotion);
+  } catch (error) {
+    console.error("Error updating promotion:", error);
+    res.status(500).json({ message: "Failed to update promotion" });
+  }
+});
+
+// Priced cart lines of one supplier for a workshop's cart (tier/price list prices resolved per line)
+async function loadSupplierCartLines(workshopId: string, supplierId: string) {
+  const { pricingService } = await import("./services/pricingService");
+  
+  const items = await db
+    .select({ item: cartItems })
+    .from(cartItems)
+    .innerJoin(cart, eq(cartItems.cartId, cart.id))
+    .where(and(eq(cart.workshopId, workshopId), eq(cartItems.supplierId, supplierId)));
+  
+  const lines = [];
+  for (const { item } of items) {
+    const resolved = await pricingService.resolveUnitPrice(item.partId, item.variantId, item.quantity, workshopId);
+    if (!resolved) {
+      continue;
+    }
+    lines.push({
+      partId: item.partId,
+      category: resolved.line.part.category,
+      brand: resolved.line.part.brand,
+      unitPrice: Number(resolved.unitPrice),
+      quantity: item.quantity,
+    });
+  }
+  
+  return lines;
+}
+
+// POST /api/marketplace/suppliers/:id/vouchers/validate - Price a voucher against the workshop's cart for this supplier
+router.post("/suppliers/:id/vouchers/validate", isAuthenticated, async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const user = (req as any).user;
+    const { code } = req.body;
+    
+    if (!user) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+    
+    if (typeof code !== 'string' || !code.trim()) {
+      return res.status(400).json({ message: "code is required" });
+    }
+    
+    const workshop = await storage.getWorkshopByUserId(user.claims.sub);
+    if (!workshop) {
+      return res.status(403).json({ message: "Only workshops can use vouchers" });
+    }
+    
+    const lines = await loadSupplierCartLines(workshop.id, id);
+    if (lines.length === 0) {
+      return res.status(400).json({ message: "Your cart has no items from this supplier" });
+    }
+    
+    const { promotionService } = await import("./services/promotionService");
+    const quote = await promotionService.evaluateCode(id, code, workshop.id, lines);
+    const itemsTotal = lines.reduce((sum, line) => sum + line.unitPrice * line.quantity, 0);
+    
+    res.json({
+      valid: true,
+      promotionId: quote.promotion.id,
+      code: quote.code,
+      name: quote.promotion.name,
+      itemsTotal: itemsTotal.toFixed(2),
+      eligibleSubtotal: quote.eligibleSubtotal,
+      discountAmount: quote.discountAmount,
+    });
+  } catch (error) {
+    if (error instanceof PromotionError) {
+      return res.status(400).json({ valid: false, reason: error.reason, message: error.message });
+    }
+    if (error instanceof VariantRequiredError || error instanceof VariantNotFoundError) {
+      return res.status(400).json({ message: error.message });
+    }
+    console.error("Error validating voucher:", error);
+    res.status(500).json({ message: "Failed to validate voucher" });
+  }
+});
+
+// Load a price list with its supplier, or null if the user does not own it
+async function getOwnedPriceList(priceListId: string, userId: string) {
+  const [row] = await db
+    .select({ priceList: priceLists, supplier: suppliers })
+    .from(priceLists)
+    .innerJoin(suppliers, eq(priceLists.supplierId, suppliers.id))
+    .where(eq(priceLists.id, priceListId));
+  
+  return row && row.supplier.userId === userId ? row : null;
+}
+
+// GET /api/marketplace/products/:id/price - Unit price for a quantity (workshop price list applied when signed in as a workshop)
+router.get("/products/:id/price", async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const user = (req as any).user;
+    const quantity = req.query.quantity ? parseInt(req.query.quantity as string) : 1;
+    const variantId = req.query.variantId as string | undefined;
+    
+    if (isNaN(quantity) || quantity < 1) {
+      return res.status(400).json({ message: "quantity must be a positive integer" });
+    }
+    
+    const workshop = user?.claims?.sub ? await storage.getWorkshopByUserId(user.claims.sub) : undefined;
+    
+    const { pricingService } = await import("./services/pricingService");
+    const resolved = await pricingService.resolveUnitPrice(id, variantId, quantity, workshop?.id ?? null);
+    if (!resolved) {
+      return res.status(404).json({ message: "Product not found" });
+    }
+    
+    res.json({
+      partId: id,
+      variantId: resolved.line.variant?.id ?? null,
+      quantity,
+      basePrice: resolved.basePrice,
+      unitPrice: resolved.unitPrice,
+      lineTotal: (Number(resolved.unitPrice) * quantity).toFixed(2),
+      source: resolved.source,
+      tierMinQuantity: resolved.tierMinQuantity,
+    });
+  } catch (error) {
+    if (error instanceof VariantRequiredError || error instanceof VariantNotFoundError) {
+      return res.status(400).json({ message: error.message });
+    }
+    console.error("Error resolving product price:", error);
+    res.status(500).json({ message: "Failed to resolve product price" });
+  }
+});
+
+// PUT /api/marketplace/products/:id/price-tiers - Replace a product's quantity-break tiers (supplier only)
+router.put("/products/:id/price-tiers", isAuthenticated, async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const user = (req as any).user;
+    
+    if (!user) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+    
+    const [row] = await db
+      .select({ part: parts, supplier: suppliers })
+      .from(parts)
+      .innerJoin(suppliers, eq(parts.supplierId, suppliers.id))
+      .where(eq(parts.id, id));
+    
+    if (!row) {
+      return res.status(404).json({ message: "Product not found" });
+    }
+    
+    if (row.supplier.userId !== user.claims.sub) {
+      return res.status(403).json({ message: "Not authorized to update this product" });
+    }
+    
+    const parsed = z.array(priceTierInputSchema).max(50).safeParse(req.body?.tiers);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid price tiers", errors: parsed.error.flatten().fieldErrors });
+    }
+    
+    const { partVariantService } = await import("./services/partVariantService");
+    const variantIds = new Set((await partVariantService.getVariants(id)).map(variant => variant.id));
+    const seen = new Set<string>();
+    for (const tier of parsed.data) {
+      if (tier.variantId && !variantIds.has(tier.variantId)) {
+        return res.status(400).json({ message: `Variant ${tier.variantId} does not belong to this product` });
+      }
+      const key = `${tier.variantId || ''}:${tier.minQuantity}`;
+      if (seen.has(key)) {
+        return res.status(400).json({ message: `Duplicate tier for quantity ${tier.minQuantity}` });
+      }
+      seen.add(key);
+    }
+    
+    const { pricingService } = await import("./services/pricingService");
+    const tiers = await db.transaction(async (tx) => pricingService.setPriceTiers(id, parsed.data, tx));
+    
+    res.json(tiers);
+  } catch (error) {
+    console.error("Error updating price tiers:", error);
+    res.status(500).json({ message: "Failed to update price tiers" });
+  }
+});
+
+// GET /api/marketplace/suppliers/:id/price-lists - List a supplier's workshop price lists (supplier only)
+router.get("/suppliers/:id/price-lists", isAuthenticated, async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const user = (req as any).user;
+    
+    if (!user) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+    
+    const [supplier] = await db
+      .select()
+      .from(suppliers)
+      .where(and(
+        eq(suppliers.id, id),
+        eq(suppliers.userId, user.claims.sub)
+      ));
+    
+    if (!supplier) {
+      return res.status(403).json({ message: "Not authorized to view this supplier's price lists" });
+    }
+    
+    const { pricingService } = await import("./services/pricingService");
+    const result = await pricingService.listPriceLists(supplier.id);
+    
+    res.json(result);
+  } catch (error) {
+    console.error("Error fetching price lists:", error);
+    res.status(500).json({ message: "Failed to fetch price lists" });
+  }
+});
+
+// POST /api/marketplace/suppliers/:id/price-lists - Create a workshop price list (supplier only)
+router.post("/suppliers/:id/price-lists", isAuthenticated, async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const user = (req as any).user;
+    
+    if (!user) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+    
+    const [supplier] = await db
+      .select()
+      .from(suppliers)
+      .where(and(
+        eq(suppliers.id, id),
+        eq(suppliers.userId, user.claims.sub)
+      ));
+    
+    if (!supplier) {
+      return res.status(403).json({ message: "Not authorized to add price lists to this supplier" });
+    }
+    
+    const parsed = insertPriceListSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid price list", errors: parsed.error.flatten().fieldErrors });
+    }
+    
+    const { pricingService } = await import("./services/pricingService");
+    const priceList = await pricingService.createPriceList(supplier.id, parsed.data);
+    
+    res.status(201).json(priceList);
+  } catch (error) {
+    console.error("Error creating price list:", error);
+    res.status(500).json({ message: "Failed to create price list" });
+  }
+});
+
+// GET /api/marketplace/price-lists/:id - Price list with its items and assigned workshops (supplier only)
+router.get("/price-lists/:id", isAuthenticated, async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const user = (req as any).user;
+    
+    if (!user) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+    
+    if (!await getOwnedPriceList(id, user.claims.sub)) {
+      return res.status(403).json({ message: "Not authorized to view this price list" });
+    }
+    
+    const { pricingService } = await import("./services/pricingService");
+    const priceList = await pricingService.getPriceList(id);
+    
+    res.json(priceList);
+  } catch (error) {
+    console.error("Error fetching price list:", error);
+    res.status(500).json({ message: "Failed to fetch price list" });
+  }
+});
+
+// PATCH /api/marketplace/price-lists/:id - Rename or deactivate a price list (supplier only)
+router.patch("/price-lists/:id", isAuthenticated, async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const user = (req as any).user;
+    
+    if (!user) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+    
+    if (!await getOwnedPriceList(id, user.claims.sub)) {
+      return res.status(403).json({ message: "Not authorized to update this price list" });
+    }
+    
+    const parsed = insertPriceListSchema.partial().safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid price list", errors: parsed.error.flatten().fieldErrors });
+    }
+    
+    const { pricingService } = await import("./services/pricingService");
+    const priceList = await pricingService.updatePriceList(id, parsed.data);
+    
+    res.json(priceList);
+  } catch (error) {
+    console.error("Error updating price list:", error);
+    res.status(500).json({ message: "Failed to update price list" });
+  }
+});
+
+// PUT /api/marketplace/price-lists/:id/items - Replace a price list's product prices (supplier only)
+router.put("/price-lists/:id/items", isAuthenticated, async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const user = (req as any).user;
+    
+    if (!user) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+    
+    const owned = await getOwnedPriceList(id, user.claims.sub);
+    if (!owned) {
+      return res.status(403).json({ message: "Not authorized to update this price list" });
+    }
+    
+    const parsed = z.array(priceListItemInputSchema).max(5000).safeParse(req.body?.items);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid price list items", errors: parsed.error.flatten().fieldErrors });
+    }
+    
+    const { pricingService } = await import("./services/pricingService");
+    const items = await pricingService.setPriceListItems(owned.priceList, parsed.data);
+    if (!items) {
+      return res.status(400).json({ message: "Price lists can only include your own products" });
+    }
+    
+    res.json(items);
+  } catch (error) {
+    console.error("Error updating price list items:", error);
+    res.status(500).json({ message: "Failed to update price list items" });
+  }
+});
+
+// PUT /api/marketplace/price-lists/:id/workshops - Assign workshops to a price list (supplier only)
+router.put("/price-lists/:id/workshops", isAuthenticated, async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const user = (req as any).user;
+    
+    if (!user) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+    
+    const owned = await getOwnedPriceList(id, user.claims.sub);
+    if (!owned) {
+      return res.status(403).json({ message: "Not authorized to update this price list" });
+    }
+    
+    const parsed = z.array(z.string().min(1)).max(1000).safeParse(req.body?.workshopIds);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "workshopIds must be an array of workshop IDs" });
+    }
+    
+    const { pricingService } = await import("./services/pricingService");
+    const assignments = await pricingService.assignWorkshops(owned.priceList, parsed.data);
+    
+    res.json(assignments);
+  } catch (error) {
+    console.error("Error assigning workshops to price list:", error);
+    res.status(500).json({ message: "Failed to assign workshops" });
+  }
+});
+
+// DELETE /api/marketplace/price-lists/:id/workshops/:workshopId - Remove a workshop from a price list (supplier only)
+router.delete("/price-lists/:id/workshops/:workshopId", isAuthenticated, async (req: Request, res: Response) => {
+  try {
+    const { id, workshopId } = req.params;
+    const user = (req as any).user;
+    
+    if (!user) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+    
+    if (!await getOwnedPriceList(id, user.claims.sub)) {
+      return res.status(403).json({ message: "Not authorized to update this price list" });
+    }
+    
+    const { pricingService } = await import("./services/pricingService");
+    if (!await pricingService.unassignWorkshop(id, workshopId)) {
+      return res.status(404).json({ message: "Workshop is not on this price list" });
+    }
+    
+    res.json({ success: true });
+  } catch (error) {
+    console.error("Error removing workshop from price list:", error);
+    res.status(500).json({ message: "Failed to remove workshop" });
+  }
+});
+
+// POST /api/marketplace/cart/items - Add a part to the workshop's cart at its tier / price list price
+router.post("/cart/items", isAuthenticated, async (req: Request, res: Response) => {
+  try {
+    const user = (req as any).user;
+    
+    if (!user) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+    
+    const workshop = await storage.getWorkshopByUserId(user.claims.sub);
+    if (!workshop) {
+      return res.status(403).json({ message: "Only workshops have a cart" });
+    }
+    
+    const parsed = addCartItemSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid cart item", errors: parsed.error.flatten().fieldErrors });
+    }
+    
+    // Resolving the line checks the variant choice before anything is added
+    const { partVariantService } = await import("./services/partVariantService");
+    const line = await partVariantService.resolveLine(parsed.data.partId, parsed.data.variantId);
+    if (!line || line.part.moderationStatus !== 'approved') {
+      return res.status(404).json({ message: "Product not found" });
+    }
+    
+    const { cartService } = await import("./services/cartService");
+    const item = await cartService.addItem(workshop.id, {
+      partId: line.part.id,
+      variantId: line.variant?.id ?? null,
+      supplierId: line.part.supplierId,
+      quantity: parsed.data.quantity,
+    });
+    
+    res.status(201).json(item);
+    
+    recordStorefrontActivity(req, async () => {
+      const { storefrontAnalyticsService } = await import("./services/storefrontAnalyticsService");
+      await storefrontAnalyticsService.recordAddsToCart(workshop.id, [{
+        partId: line.part.id,
+        supplierId: line.part.supplierId,
+        quantity: parsed.data.quantity,
+      }], parsed.data.source);
+    });
+  } catch (error) {
+    if (error instanceof VariantRequiredError || error instanceof VariantNotFoundError) {
+      return res.status(400).json({ message: error.message });
+    }
+    console.error("Error adding to cart:", error);
+    res.status(500).json({ message: "Failed to add to cart" });
+  }
+});
+
+// PATCH /api/marketplace/cart/items/:id - Change a cart line's quantity (re-resolves its price)
+router.patch("/cart/items/:id", isAuthenticated, async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const user = (req as any).user;
+    
+    if (!user) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+    
+    const workshop = await storage.getWorkshopByUserId(user.claims.sub);
+    if (!workshop) {
+      return res.status(403).json({ message: "Only workshops have a cart" });
+    }
+    
+    const parsed = updateCartItemSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid quantity", errors: parsed.error.flatten().fieldErrors });
+    }
+    
+    const { cartService } = await import("./services/cartService");
+    const item = await cartService.updateQuantity(workshop.id, id, parsed.data.quantity);
+    if (!item) {
+      return res.status(404).json({ message: "Cart item not found" });
+    }
+    
+    res.json(item);
+  } catch (error) {
+    console.error("Error updating cart item:", error);
+    res.status(500).json({ message: "Failed to update cart item" });
+  }
+});
+
+// POST /api/marketplace/cart/reprice - Re-resolve tier and price list prices for the workshop's cart
+router.post("/cart/reprice", isAuthenticated, async (req: Request, res: Response) => {
+  try {
+    const user = (req as any).user;
+    
+    if (!user) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+    
+    const workshop = await storage.getWorkshopByUserId(user.claims.sub);
+    if (!workshop) {
+      return res.status(403).json({ message: "Only workshops have a cart" });
+    }
+    
+    const { pricingService } = await import("./services/pricingService");
+    const updated = await pricingService.repriceCart(workshop.id);
+    
+    res.json({ updated });
+  } catch (error) {
+    console.error("Error repricing cart:", error);
+    res.status(500).json({ message: "Failed to reprice cart" });
+  }
+});
+
+// POST /api/marketplace/cart/checkout - Check out the whole cart: one order per supplier, one payment, all or nothing
+router.post("/cart/checkout", isAuthenticated, async (req: Request, res: Response) => {
+  try {
+    const user = (req as any).user;
+    
+    if (!user) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+    
+    const parsed = cartCheckoutSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid checkout", errors: parsed.error.flatten().fieldErrors });
+    }
+    
+    const workshop = await storage.getWorkshopByUserId(user.claims.sub);
+    if (!workshop) {
+      return res.status(403).json({ message: "Only workshops have a cart" });
+    }
+    
+    const { checkoutService } = await import("./services/checkoutService");
+    const result = await checkoutService.checkoutCart(workshop, user.claims.sub, parsed.data);
+    
+    const io = (req.app as any).get('io');
+    if (io) {
+      for (const order of result.orders) {
+        emitSupplierOrderUpdated(io, `supplier.${order.supplierId}`, order.id, order);
+        emitSupplierOrderUpdated(io, `workshop.${order.workshopId}`, order.id, order);
+      }
+      if (result.walletBalance !== null) {
+        emitWalletBalanceUpdate(io, user.claims.sub, Number(result.walletBalance));
+      }
+    }
+    
+    // Halfcut donor units may now be sold through (the orders are placed even if this fails)
+    try {
+      const orderedPartIds = result.orders.flatMap(order => order.items.map(item => item.partId));
+      const soldUnits = await db
+        .selectDistinct({ unitId: parts.halfcutUnitId })
+        .from(parts)
+        .where(and(inArray(parts.id, orderedPartIds), isNotNull(parts.halfcutUnitId)));
+      if (soldUnits.length > 0) {
+        const { halfcutService } = await import("./services/halfcutService");
+        for (const { unitId } of soldUnits) {
+          await halfcutService.refreshSoldThrough(unitId!);
+        }
+      }
+    } catch (error) {
+      console.error("Error refreshing halfcut units after checkout:", error);
+    }
+    
+    res.status(201).json(result);
+  } catch (error) {
+    if (error instanceof CheckoutError) {
+      return res.status(checkoutErrorStatus(error)).json({ message: error.message, reason: error.reason });
+    }
+    if (error instanceof InsufficientStockError) {
+      return res.status(409).json({ message: error.message, reason: 'insufficient_stock', partId: error.partId, available: error.available });
+    }
+    if (error instanceof PromotionError) {
+      return res.status(400).json({ message: error.message, reason: error.reason });
+    }
+    if (error instanceof VariantRequiredError || error instanceof VariantNotFoundError) {
+      return res.status(400).json({ message: error.message });
+    }
+    console.error("Error checking out cart:", error);
+    res.status(500).json({ message: "Failed to check out" });
+  }
+});
+
+// GET /api/marketplace/cart/recommendations - "Frequently bought together" add-ons for the workshop's cart
+router.get("/cart/recommendations", isAuthenticated, async (req: Request, res: Response) => {
+  try {
+    const user = (req as any).user;
+    
+    if (!user) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+    
+    const workshop = await storage.getWorkshopByUserId(user.claims.sub);
+    if (!workshop) {
+      return res.status(403).json({ message: "Only workshops have a cart" });
+    }
+    
+    const limit = Math.min(20, Math.max(1, parseInt(req.query.limit as string) || 8));
+    const { recommendationService } = await import("./services/recommendationService");
+    const recommendations = await recommendationService.getCartRecommendations(workshop.id, limit);
+    
+    res.json(recommendations);
+  } catch (error) {
+    console.error("Error fetching cart recommendations:", error);
+    res.status(500).json({ message: "Failed to fetch cart recommendations" });
+  }
+});
+
+// GET /api/marketplace/popular-parts?make=&model= - Best-selling parts for a vehicle
+router.get("/popular-parts", async (req: Request, res: Response) => {
+  try {
+    const make = typeof req.query.make === 'string' ? req.query.make.trim() : '';
+    const model = typeof req.query.model === 'string' ? req.query.model.trim() : '';
+    
+    if (!make || !model) {
+      return res.status(400).json({ message: "make and model are required" });
+    }
+    
+    const limit = Math.min(20, Math.max(1, parseInt(req.query.limit as string) || 10));
+    const { recommendationService } = await import("./services/recommendationService");
+    const popular = await recommendationService.getPopularForVehicle(make, model, limit);
+    
+    res.json(popular);
+  } catch (error) {
+    console.error("Error fetching popular parts:", error);
+    res.status(500).json({ message: "Failed to fetch popular parts" });
+  }
+});
+
+// GET /api/marketplace/suppliers/:id/reserved-stock - Stock held by unpaid orders, per product/variant (supplier only)
+// Listing stockQuantity is the available stock; on-hand stock = available + reserved
+router.get("/suppliers/:id/reserved-stock", isAuthenticated, async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const user = (req as any).user;
+    
+    if (!user) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+    
+    const [supplier] = await db
+      .select()
+      .from(suppliers)
+      .where(and(
+        eq(suppliers.id, id),
+        eq(suppliers.userId, user.claims.sub)
+      ));
+    
+    if (!supplier) {
+      return res.status(403).json({ message: "Not authorized to view this supplier's stock" });
+    }
+    
+    const { stockReservationService } = await import("./services/stockReservationService");
+    const result = await stockReservationService.getReservedStock(supplier.id);
+    
+    res.json(result);
+  } catch (error) {
+    console.error("Error fetching reserved stock:", error);
+    res.status(500).json({ message: "Failed to fetch reserved stock" });
+  }
+});
+
+// GET /api/marketplace/suppliers/:id/analytics - Storefront funnel, daily series, product conversion and not-found searches (supplier only)
+// Query: from, to (YYYY-MM-DD, inclusive; default the 30 days up to yesterday). Figures are rolled up nightly.
+router.get("/suppliers/:id/analytics", isAuthenticated, async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const user = (req as any).user;
+    
+    const [supplier] = await db
+      .select()
+      .from(suppliers)
+      .where(and(eq(suppliers.id, id), eq(suppliers.userId, user.claims.sub)));
+    
+    if (!supplier) {
+      return res.status(403).json({ message: "Not authorized to view this supplier's analytics" });
+    }
+    
+    const from = typeof req.query.from === 'string' ? new Date(req.query.from) : undefined;
+    const to = typeof req.query.to === 'string' ? new Date(req.query.to) : undefined;
+    if ((from && isNaN(from.getTime())) || (to && isNaN(to.getTime())) || (from && to && from > to)) {
+      return res.status(400).json({ message: "Invalid date range" });
+    }
+    
+    const { storefrontAnalyticsService } = await import("./services/storefrontAnalyticsService");
+    res.json(await storefrontAnalyticsService.getSupplierAnalytics(supplier.id, { from, to }));
+  } catch (error) {
+    console.error("Error fetching storefront analytics:", error);
+    res.status(500).json({ message: "Failed to fetch storefront analytics" });
+  }
+});
+
+// POST /api/marketplace/orders/:id/cancel - Supplier cancels/rejects an order: releases reserved stock and refunds a paid order
+router.post("/orders/:id/cancel", isAuthenticated, async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const user = (req as any).user;
+    const reason = typeof req.body?.reason === 'string' ? req.body.reason.trim().slice(0, 500) : '';
+    
+    if (!user) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+    
+    const [row] = await db
+      .select({ order: supplierOrders, supplier: suppliers })
+      .from(supplierOrders)
+      .innerJoin(suppliers, eq(supplierOrders.supplierId, suppliers.id))
+      .where(eq(supplierOrders.id, id));
+    
+    if (!row) {
+      return res.status(404).json({ message: "Order not found" });
+    }
+    
+    if (row.supplier.userId !== user.claims.sub) {
+      return res.status(403).json({ message: "Not authorized to cancel this order" });
+    }
+    
+    const { stockReservationService } = await import("./services/stockReservationService");
+    const { promotionService } = await import("./services/promotionService");
+    const order = await db.transaction(async (tx) => {
+      const [current] = await tx
+        .select()
+        .from(supplierOrders)
+        .where(eq(supplierOrders.id, id))
+        .for('update');
+      
+      if (!CANCELLABLE_ORDER_STATUSES.includes(current.status)) {
+        return null;
+      }
+      
+      await stockReservationService.releaseOrder(id, 'cancelled', tx);
+      await promotionService.releaseRedemption(id, tx);
+      
+      // Paid orders: return the held escrow to the workshop's wallet
+      let paymentStatus = current.paymentStatus;
+      const [escrow] = await tx
+        .select()
+        .from(platformEscrow)
+        .where(and(eq(platformEscrow.orderId, id), eq(platformEscrow.status, 'holding')));
+      
+      if (escrow) {
+        const [workshop] = await tx.select().from(workshops).where(eq(workshops.id, current.workshopId));
+        
+        await tx
+          .update(platformEscrow)
+          .set({ status: 'refunded', releaseAt: new Date(), releasedBy: user.claims.sub, updatedAt: new Date() })
+          .where(eq(platformEscrow.id, escrow.id));
+        await tx
+          .update(wallets)
+          .set({ balance: sql`${wallets.balance} + ${escrow.totalAmount}`, updatedAt: new Date() })
+          .where(eq(wallets.userId, workshop.userId));
+        await tx.insert(transactionLogs).values({
+          orderId: id,
+          transactionType: 'refund',
+          toUserId: workshop.userId,
+          amount: escrow.totalAmount,
+          description: `Order cancelled by supplier${reason ? `: ${reason}` : ''}`,
+        });
+        paymentStatus = 'refunded';
+      }
+      
+      await tx
+        .update(supplierOrderItems)
+        .set({ status: 'cancelled' })
+        .where(eq(supplierOrderItems.orderId, id));
+      
+      const [updated] = await tx
+        .update(supplierOrders)
+        .set({ status: 'cancelled', paymentStatus, updatedAt: new Date() })
+        .where(eq(supplierOrders.id, id))
+        .returning();
+      
+      return updated;
+    });
+    
+    if (!order) {
+      return res.status(409).json({ message: "Order can no longer be cancelled" });
+    }
+    
+    const io = (req.app as any).get('io');
+    if (io) {
+      emitSupplierOrderUpdated(io, `workshop.${order.workshopId}`, order.id, order);
+    }
+    
+    // Released stock may fill other workshops' backorders
+    const releasedParts = await db
+      .selectDistinct({ partId: supplierOrderItems.partId })
+      .from(supplierOrderItems)
+      .where(eq(supplierOrderItems.orderId, order.id));
+    import("./services/backorderService")
+      .then(({ backorderService }) => backorderService.handleRestockMany(releasedParts.map(row => row.partId), io))
+      .catch(error => console.error("Error processing restock:", error));
+    
+    res.json(order);
+  } catch (error) {
+    console.error("Error cancelling order:", error);
+    res.status(500).json({ message: "Failed to cancel order" });
+  }
+});
+
+// POST /api/marketplace/orders/:id/confirm-payment - Admin confirms a bank transfer / QR payment: stock holds become sales, the amount is held in escrow
+router.post("/orders/:id/confirm-payment", isAuthenticated, requireRole(['admin']), async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    
+    const [existing] = await db.select().from(supplierOrders).where(eq(supplierOrders.id, id));
+    if (!existing) {
+      return res.status(404).json({ message: "Order not found" });
+    }
+    
+    const { checkoutService } = await import("./services/checkoutService");
+    const order = await checkoutService.confirmPayment(id);
+    if (!order) {
+      return res.status(409).json({ message: "Order is not awaiting payment" });
+    }
+    
+    const io = (req.app as any).get('io');
+    if (io) {
+      emitSupplierOrderUpdated(io, `supplier.${order.supplierId}`, order.id, order);
+      emitSupplierOrderUpdated(io, `workshop.${order.workshopId}`, order.id, order);
+    }
+    
+    res.json(order);
+  } catch (error) {
+    console.error("Error confirming order payment:", error);
+    res.status(500).json({ message: "Failed to confirm payment" });
+  }
+});
+
+// GET /api/marketplace/suppliers/:id/backorders - Order lines waiting for stock, oldest first (supplier only)
+router.get("/suppliers/:id/backorders", isAuthenticated, async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const user = (req as any).user;
+    
+    if (!user) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+    
+    const [supplier] = await db
+      .select()
+      .from(suppliers)
+      .where(and(
+        eq(suppliers.id, id),
+        eq(suppliers.userId, user.claims.sub)
+      ));
+    
+    if (!supplier) {
+      return res.status(403).json({ message: "Not authorized to view this supplier's backorders" });
+    }
+    
+    const result = await db
+      .select({
+        item: supplierOrderItems,
+        order: {
+          id: supplierOrders.id,
+          workshopId: supplierOrders.workshopId,
+          status: supplierOrders.status,
+          paymentStatus: supplierOrders.paymentStatus,
+          createdAt: supplierOrders.createdAt,
+        },
+        part: {
+          id: parts.id,
+          name: parts.name,
+          garagehubCode: parts.garagehubCode,
+          stockQuantity: parts.stockQuantity,
+          expectedRestockDate: parts.expectedRestockDate,
+        },
+      })
+      .from(supplierOrderItems)
+      .innerJoin(supplierOrders, eq(supplierOrderItems.orderId, supplierOrders.id))
+      .innerJoin(parts, eq(supplierOrderItems.partId, parts.id))
+      .where(and(
+        eq(supplierOrders.supplierId, supplier.id),
+        eq(supplierOrderItems.status, 'backordered')
+      ))
+      .orderBy(asc(supplierOrders.createdAt));
+    
+    res.json(result);
+  } catch (error) {
+    console.error("Error fetching backorders:", error);
+    res.status(500).json({ message: "Failed to fetch backorders" });
+  }
+});
+
+// GET /api/marketplace/restock-subscriptions - The workshop's back-in-stock alerts
+router.get("/restock-subscriptions", isAuthenticated, async (req: Request, res: Response) => {
+  try {
+    const user = (req as any).user;
+    
+    if (!user) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+    
+    const workshop = await storage.getWorkshopByUserId(user.claims.sub);
+    if (!workshop) {
+      return res.status(403).json({ message: "Only workshops can subscribe to restock alerts" });
+    }
+    
+    const { backorderService } = await import("./services/backorderService");
+    const result = await backorderService.listSubscriptions(workshop.id);
+    
+    res.json(result);
+  } catch (error) {
+    console.error("Error fetching restock subscriptions:", error);
+    res.status(500).json({ message: "Failed to fetch restock subscriptions" });
+  }
+});
+
+// POST /api/marketplace/products/:id/restock-subscriptions - Notify (or auto-add to cart) when the product is back in stock
+router.post("/products/:id/restock-subscriptions", isAuthenticated, async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const user = (req as any).user;
+    
+    if (!user) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+    
+    const workshop = await storage.getWorkshopByUserId(user.claims.sub);
+    if (!workshop) {
+      return res.status(403).json({ message: "Only workshops can subscribe to restock alerts" });
+    }
+    
+    const parsed = restockSubscriptionInputSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid restock subscription", errors: parsed.error.flatten().fieldErrors });
+    }
+    
+    const [part] = await db.select().from(parts).where(eq(parts.id, id));
+    if (!part) {
+      return res.status(404).json({ message: "Product not found" });
+    }
+    
+    // Alerts may watch any variant; auto-adding to the cart needs a specific one
+    if (parsed.data.variantId || (part.hasVariants && parsed.data.autoOrderQuantity)) {
+      const { partVariantService } = await import("./services/partVariantService");
+      await partVariantService.resolveLine(id, parsed.data.variantId);
+    }
+    
+    const { backorderService } = await import("./services/backorderService");
+    const subscription = await backorderService.subscribe(workshop.id, id, parsed.data);
+    
+    res.status(201).json(subscription);
+  } catch (error) {
+    if (error instanceof VariantRequiredError || error instanceof VariantNotFoundError) {
+      return res.status(400).json({ message: error.message });
+    }
+    console.error("Error creating restock subscription:", error);
+    res.status(500).json({ message: "Failed to create restock subscription" });
+  }
+});
+
+// DELETE /api/marketplace/restock-subscriptions/:id - Cancel a back-in-stock alert
+router.delete("/restock-subscriptions/:id", isAuthenticated, async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const user = (req as any).user;
+    
+    if (!user) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+    
+    const workshop = await storage.getWorkshopByUserId(user.claims.sub);
+    if (!workshop) {
+      return res.status(403).json({ message: "Only workshops can subscribe to restock alerts" });
+    }
+    
+    const { backorderService } = await import("./services/backorderService");
+    if (!await backorderService.unsubscribe(id, workshop.id)) {
+      return res.status(404).json({ message: "Restock subscription not found" });
+    }
+    
+    res.json({ success: true });
+  } catch (error) {
+    console.error("Error cancelling restock subscription:", error);
+    res.status(500).json({ message: "Failed to cancel restock subscription" });
+  }
+});
+
+// Price-drop alerts for workshops' saved lists (pushed live when the socket server is available)
+function checkSavedListPriceDrops(io: SocketIOServer | undefined, partIds: string[]) {
+  if (partIds.length === 0) {
+    return;
+  }
+  Promise.all([import("./services/savedListService"), import("./services/notificationService")])
+    .then(([{ savedListService }, { NotificationService }]) => savedListService.checkPriceDrops(partIds, new NotificationService(io)))
+    .catch(error => console.error("Error checking saved list price drops:", error));
+}
+
+// GET /api/marketplace/saved-lists - The workshop's saved parts lists
+router.get("/saved-lists", isAuthenticated, async (req: Request, res: Response) => {
+  try {
+    const user = (req as any).user;
+    
+    if (!user) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+    
+    const workshop = await storage.getWorkshopByUserId(user.claims.sub);
+    if (!workshop) {
+      return res.status(403).json({ message: "Only workshops can save parts lists" });
+    }
+    
+    const { savedListService } = await import("./services/savedListService");
+    const result = await savedListService.listLists(workshop.id);
+    
+    res.json(result);
+  } catch (error) {
+    console.error("Error fetching saved lists:", error);
+    res.status(500).json({ message: "Failed to fetch saved lists" });
+  }
+});
+
+// POST /api/marketplace/saved-lists - Create a named parts list
+router.post("/saved-lists", isAuthenticated, async (req: Request, res: Response) => {
+  try {
+    const user = (req as any).user;
+    
+    if (!user) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+    
+    const workshop = await storage.getWorkshopByUserId(user.claims.sub);
+    if (!workshop) {
+      return res.status(403).json({ message: "Only workshops can save parts lists" });
+    }
+    
+    const parsed = insertSavedListSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid list", errors: parsed.error.flatten().fieldErrors });
+    }
+    
+    const { savedListService } = await import("./services/savedListService");
+    const list = await savedListService.createList(workshop.id, parsed.data);
+    
+    res.status(201).json(list);
+  } catch (error) {
+    console.error("Error creating saved list:", error);
+    res.status(500).json({ message: "Failed to create saved list" });
+  }
+});
+
+// GET /api/marketplace/saved-lists/:id - List with current prices and stock
+router.get("/saved-lists/:id", isAuthenticated, async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const user = (req as any).user;
+    
+    if (!user) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+    
+    const workshop = await storage.getWorkshopByUserId(user.claims.sub);
+    const { savedListService } = await import("./services/savedListService");
+    const list = workshop && await savedListService.getOwnedList(id, workshop.id);
+    if (!list) {
+      return res.status(404).json({ message: "List not found" });
+    }
+    
+    res.json(await savedListService.getListDetail(list));
+  } catch (error) {
+    console.error("Error fetching saved list:", error);
+    res.status(500).json({ message: "Failed to fetch saved list" });
+  }
 });
 
-// GET /api/marketplace/catalog/categories
-router.get("/catalog/categories", (req: Request, res: Response) => {
-  res.json(CATEGORIES);
+// PATCH /api/marketplace/saved-lists/:id - Rename a list
+router.patch("/saved-lists/:id", isAuthenticated, async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const user = (req as any).user;
+    
+    if (!user) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+    
+    const workshop = await storage.getWorkshopByUserId(user.claims.sub);
+    const { savedListService } = await import("./services/savedListService");
+    if (!workshop || !await savedListService.getOwnedList(id, workshop.id)) {
+      return res.status(404).json({ message: "List not found" });
+    }
+    
+    const parsed = insertSavedListSchema.partial().safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid list", errors: parsed.error.flatten().fieldErrors });
+    }
+    
+    const list = await savedListService.updateList(id, parsed.data);
+    
+    res.json(list);
+  } catch (error) {
+    console.error("Error updating saved list:", error);
+    res.status(500).json({ message: "Failed to update saved list" });
+  }
 });
 
-// GET /api/marketplace/suppliers - List suppliers with filters
-router.get("/suppliers", async (req: Request, res: Response) => {
+// DELETE /api/marketplace/saved-lists/:id - Delete a list and its items
+router.delete("/saved-lists/:id", isAuthenticated, async (req: Request, res: Response) => {
   try {
-    const { type, state, q } = req.query;
+    const { id } = req.params;
+    const user = (req as any).user;
     
-    let conditions = [];
+    if (!user) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
     
-    if (type && (type === 'OEM' || type === 'HALFCUT' || type === 'Halfcut')) {
-      const supplierType = type === 'HALFCUT' ? 'Halfcut' : type as 'OEM' | 'Halfcut';
-      conditions.push(eq(suppliers.supplierType, supplierType));
+    const workshop = await storage.getWorkshopByUserId(user.claims.sub);
+    const { savedListService } = await import("./services/savedListService");
+    if (!workshop || !await savedListService.getOwnedList(id, workshop.id)) {
+      return res.status(404).json({ message: "List not found" });
     }
     
-    if (state && typeof state === 'string') {
-      conditions.push(eq(suppliers.state, state as any));
+    await savedListService.deleteList(id);
+    
+    res.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting saved list:", error);
+    res.status(500).json({ message: "Failed to delete saved list" });
+  }
+});
+
+// POST /api/marketplace/saved-lists/:id/items - Save a part to a list
+router.post("/saved-lists/:id/items", isAuthenticated, async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const user = (req as any).user;
+    
+    if (!user) {
+      return res.status(401).json({ message: "Unauthorized" });
     }
     
-    if (q && typeof q === 'string') {
-      conditions.push(
-        or(
-          like(suppliers.name, `%${q}%`),
-          like(suppliers.city, `%${q}%`)
-        )!
-      );
+    const workshop = await storage.getWorkshopByUserId(user.claims.sub);
+    const { savedListService } = await import("./services/savedListService");
+    const list = workshop && await savedListService.getOwnedList(id, workshop.id);
+    if (!list) {
+      return res.status(404).json({ message: "List not found" });
     }
     
-    const whereClause = conditions.length > 0 ? and(...conditions) : undefined;
+    const parsed = savedListItemInputSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid list item", errors: parsed.error.flatten().fieldErrors });
+    }
     
-    const results = await db
-      .select()
-      .from(suppliers)
-      .where(whereClause)
-      .orderBy(desc(suppliers.rating));
+    const item = await savedListService.addItem(list, parsed.data);
+    if (!item) {
+      return res.status(404).json({ message: "Product not found" });
+    }
     
-    res.json(results);
+    res.status(201).json(item);
   } catch (error) {
-    console.error("Error fetching suppliers:", error);
-    res.status(500).json({ message: "Failed to fetch suppliers" });
+    if (error instanceof VariantRequiredError || error instanceof VariantNotFoundError) {
+      return res.status(400).json({ message: error.message });
+    }
+    console.error("Error adding saved list item:", error);
+    res.status(500).json({ message: "Failed to add item to list" });
   }
 });
 
-// GET /api/marketplace/suppliers/:id - Get supplier detail
-router.get("/suppliers/:id", async (req: Request, res: Response) => {
+// PATCH /api/marketplace/saved-lists/:id/items/:itemId - Change quantity or price-drop alerts of a saved part
+router.patch("/saved-lists/:id/items/:itemId", isAuthenticated, async (req: Request, res: Response) => {
   try {
-    const { id } = req.params;
+    const { id, itemId } = req.params;
+    const user = (req as any).user;
     
-    const [supplier] = await db
-      .select()
-      .from(suppliers)
-      .where(eq(suppliers.id, id));
+    if (!user) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
     
-    if (!supplier) {
-      return res.status(404).json({ message: "Supplier not found" });
+    const workshop = await storage.getWorkshopByUserId(user.claims.sub);
+    const { savedListService } = await import("./services/savedListService");
+    if (!workshop || !await savedListService.getOwnedList(id, workshop.id)) {
+      return res.status(404).json({ message: "List not found" });
     }
     
-    // Get product count and categories
-    const productData = await db
-      .select({
-        count: sql<number>`count(*)`,
-        category: parts.category,
-      })
-      .from(parts)
-      .where(eq(parts.supplierId, id))
-      .groupBy(parts.category);
+    const parsed = updateSavedListItemSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid list item", errors: parsed.error.flatten().fieldErrors });
+    }
     
-    const productCount = productData.reduce((sum, item) => sum + Number(item.count), 0);
-    const categories = productData.map(item => item.category);
+    const item = await savedListService.updateItem(id, itemId, parsed.data);
+    if (!item) {
+      return res.status(404).json({ message: "List item not found" });
+    }
     
-    res.json({
-      ...supplier,
-      productCount,
-      categories,
-    });
+    res.json(item);
   } catch (error) {
-    console.error("Error fetching supplier:", error);
-    res.status(500).json({ message: "Failed to fetch supplier" });
+    console.error("Error updating saved list item:", error);
+    res.status(500).json({ message: "Failed to update list item" });
   }
 });
 
-// GET /api/marketplace/suppliers/:id/products - Get products for a specific supplier
-router.get("/suppliers/:id/products", async (req: Request, res: Response) => {
+// DELETE /api/marketplace/saved-lists/:id/items/:itemId - Remove a part from a list
+router.delete("/saved-lists/:id/items/:itemId", isAuthenticated, async (req: Request, res: Response) => {
   try {
-    const { id } = req.params;
-    const { q, brand, model, category, inStock } = req.query;
-    
-    let conditions = [eq(parts.supplierId, id)];
+    const { id, itemId } = req.params;
+    const user = (req as any).user;
     
-    if (q && typeof q === 'string') {
-      conditions.push(
-        or(
-          like(sql`LOWER(${parts.name})`, `%${q.toLowerCase()}%`),
-          like(sql`LOWER(${parts.sku})`, `%${q.toLowerCase()}%`),
-          like(parts.garagehubCode, `%${q}%`)
-        )!
-      );
+    if (!user) {
+      return res.status(401).json({ message: "Unauthorized" });
     }
     
-    if (brand && typeof brand === 'string') {
-      conditions.push(eq(parts.vehicleMake, brand));
+    const workshop = await storage.getWorkshopByUserId(user.claims.sub);
+    const { savedListService } = await import("./services/savedListService");
+    if (!workshop || !await savedListService.getOwnedList(id, workshop.id)) {
+      return res.status(404).json({ message: "List not found" });
     }
     
-    if (model && typeof model === 'string') {
-      conditions.push(eq(parts.vehicleModel, model));
+    if (!await savedListService.removeItem(id, itemId)) {
+      return res.status(404).json({ message: "List item not found" });
     }
     
-    if (category && typeof category === 'string') {
-      conditions.push(eq(parts.category, category as any));
+    res.json({ success: true });
+  } catch (error) {
+    console.error("Error removing saved list item:", error);
+    res.status(500).json({ message: "Failed to remove list item" });
+  }
+});
+
+// POST /api/marketplace/saved-lists/:id/add-to-cart - Add every orderable part of a list to the cart
+router.post("/saved-lists/:id/add-to-cart", isAuthenticated, async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const user = (req as any).user;
+    
+    if (!user) {
+      return res.status(401).json({ message: "Unauthorized" });
     }
     
-    if (inStock === '1' || inStock === 'true') {
-      conditions.push(sql`${parts.stockQuantity} > 0`);
+    const workshop = await storage.getWorkshopByUserId(user.claims.sub);
+    const { savedListService } = await import("./services/savedListService");
+    const list = workshop && await savedListService.getOwnedList(id, workshop.id);
+    if (!list) {
+      return res.status(404).json({ message: "List not found" });
     }
     
-    const whereClause = and(...conditions);
+    const result = await savedListService.addAllToCart(list);
     
-    const results = await db
-      .select()
-      .from(parts)
-      .where(whereClause)
-      .orderBy(desc(parts.createdAt));
+    res.json(result);
+  } catch (error) {
+    console.error("Error adding saved list to cart:", error);
+    res.status(500).json({ message: "Failed to add list to cart" });
+  }
+});
+
+// Load a halfcut unit with its supplier, or null if the user does not own it
+async function getOwnedHalfcutUnit(unitId: string, userId: string) {
+  const [row] = await db
+    .select({ unit: halfcutUnits, supplier: suppliers })
+    .from(halfcutUnits)
+    .innerJoin(suppliers, eq(halfcutUnits.supplierId, suppliers.id))
+    .where(eq(halfcutUnits.id, unitId));
+
+  return row && row.supplier.userId === userId ? row : null;
+}
+
+// GET /api/marketplace/suppliers/:id/halfcut-units - Donor units of a halfcut supplier (?includeSoldOut=1)
+router.get("/suppliers/:id/halfcut-units", async (req: Request, res: Response) => {
+  try {
+    const { halfcutService } = await import("./services/halfcutService");
+    const includeSoldOut = req.query.includeSoldOut === '1' || req.query.includeSoldOut === 'true';
+    const units = await halfcutService.listUnits(req.params.id, includeSoldOut);
     
-    res.json(results);
+    res.json(units);
   } catch (error) {
-    console.error("Error fetching products:", error);
-    res.status(500).json({ message: "Failed to fetch products" });
+    console.error("Error fetching halfcut units:", error);
+    res.status(500).json({ message: "Failed to fetch halfcut units" });
   }
 });
 
-// POST /api/marketplace/suppliers/:id/products - Create product (supplier only)
-router.post("/suppliers/:id/products", isAuthenticated, async (req: Request, res: Response) => {
+// POST /api/marketplace/suppliers/:id/halfcut-units - Register a donor unit (halfcut supplier only)
+router.post("/suppliers/:id/halfcut-units", isAuthenticated, async (req: Request, res: Response) => {
   try {
     const { id } = req.params;
     const user = (req as any).user;
@@ -163,7 +3166,6 @@ router.post("/suppliers/:id/products", isAuthenticated, async (req: Request, res
       return res.status(401).json({ message: "Unauthorized" });
     }
     
-    // Verify user owns this supplier
     const [supplier] = await db
       .select()
       .from(suppliers)
@@ -173,111 +3175,115 @@ router.post("/suppliers/:id/products", isAuthenticated, async (req: Request, res
       ));
     
     if (!supplier) {
-      return res.status(403).json({ message: "Not authorized to add products to this supplier" });
+      return res.status(403).json({ message: "Not authorized to add units to this supplier" });
     }
     
-    // Auto-generate system_code using existing ProductCodeService
-    const { ProductCodeService } = await import("./services/productCodeService");
+    if (supplier.supplierType !== 'Halfcut') {
+      return res.status(400).json({ message: "Only Halfcut suppliers can list donor units" });
+    }
     
-    const part = await db.transaction(async (tx) => {
-      const garagehubCode = await ProductCodeService.generateCodeForSupplier(supplier.id, tx);
-      
-      return await storage.createPart({
-        ...req.body,
-        supplierId: supplier.id,
-        supplierType: supplier.supplierType,
-        garagehubCode,
-      }, tx);
-    });
+    const parsed = insertHalfcutUnitSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid halfcut unit", errors: parsed.error.flatten().fieldErrors });
+    }
     
-    // Broadcast product creation via Socket.io
-    const io = (req.app as any).get('io');
-    if (io) {
-      io.to(`shop:${supplier.id}`).emit('product.created', part);
+    const { halfcutService } = await import("./services/halfcutService");
+    const unit = await halfcutService.createUnit(supplier.id, parsed.data);
+    
+    res.status(201).json(unit);
+  } catch (error) {
+    console.error("Error creating halfcut unit:", error);
+    res.status(500).json({ message: "Failed to create halfcut unit" });
+  }
+});
+
+// GET /api/marketplace/halfcut-units/:id - Donor unit detail with component listings
+router.get("/halfcut-units/:id", async (req: Request, res: Response) => {
+  try {
+    const user = (req as any).user;
+    // Only the owning supplier sees components that are not approved
+    const isOwner = !!user && !!(await getOwnedHalfcutUnit(req.params.id, user.claims.sub));
+    
+    const { halfcutService } = await import("./services/halfcutService");
+    const unit = await halfcutService.getUnitWithComponents(req.params.id, isOwner);
+    
+    if (!unit) {
+      return res.status(404).json({ message: "Halfcut unit not found" });
     }
     
-    res.status(201).json(part);
+    res.json(unit);
   } catch (error) {
-    console.error("Error creating product:", error);
-    res.status(500).json({ message: "Failed to create product" });
+    console.error("Error fetching halfcut unit:", error);
+    res.status(500).json({ message: "Failed to fetch halfcut unit" });
   }
 });
 
-// PATCH /api/marketplace/products/:id - Update product (supplier only)
-router.patch("/products/:id", isAuthenticated, async (req: Request, res: Response) => {
+// PATCH /api/marketplace/halfcut-units/:id - Update donor unit details (supplier only)
+router.patch("/halfcut-units/:id", isAuthenticated, async (req: Request, res: Response) => {
   try {
-    const { id } = req.params;
     const user = (req as any).user;
     
     if (!user) {
       return res.status(401).json({ message: "Unauthorized" });
     }
     
-    // Verify user owns the supplier that owns this product
-    const [part] = await db
-      .select({
-        part: parts,
-        supplier: suppliers,
-      })
-      .from(parts)
-      .innerJoin(suppliers, eq(parts.supplierId, suppliers.id))
-      .where(eq(parts.id, id));
-    
-    if (!part || part.supplier.userId !== user.claims.sub) {
-      return res.status(403).json({ message: "Not authorized to update this product" });
+    const owned = await getOwnedHalfcutUnit(req.params.id, user.claims.sub);
+    if (!owned) {
+      return res.status(403).json({ message: "Not authorized to update this halfcut unit" });
     }
     
-    const updated = await storage.updatePart(id, req.body);
-    
-    // Broadcast product update via Socket.io
-    const io = (req.app as any).get('io');
-    if (io) {
-      io.to(`shop:${part.supplier.id}`).emit('product.updated', updated);
+    const parsed = updateHalfcutUnitSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid halfcut unit", errors: parsed.error.flatten().fieldErrors });
     }
     
-    res.json(updated);
+    const { halfcutService } = await import("./services/halfcutService");
+    const unit = await halfcutService.updateUnit(owned.unit.id, parsed.data);
+    
+    res.json(unit);
   } catch (error) {
-    console.error("Error updating product:", error);
-    res.status(500).json({ message: "Failed to update product" });
+    console.error("Error updating halfcut unit:", error);
+    res.status(500).json({ message: "Failed to update halfcut unit" });
   }
 });
 
-// DELETE /api/marketplace/products/:id - Soft delete product (supplier only)
-router.delete("/products/:id", isAuthenticated, async (req: Request, res: Response) => {
+// POST /api/marketplace/halfcut-units/:id/components - Derive component listings from a donor unit (supplier only)
+router.post("/halfcut-units/:id/components", isAuthenticated, async (req: Request, res: Response) => {
   try {
-    const { id } = req.params;
     const user = (req as any).user;
     
     if (!user) {
       return res.status(401).json({ message: "Unauthorized" });
     }
     
-    // Verify user owns the supplier that owns this product
-    const [part] = await db
-      .select({
-        part: parts,
-        supplier: suppliers,
-      })
-      .from(parts)
-      .innerJoin(suppliers, eq(parts.supplierId, suppliers.id))
-      .where(eq(parts.id, id));
+    const owned = await getOwnedHalfcutUnit(req.params.id, user.claims.sub);
+    if (!owned) {
+      return res.status(403).json({ message: "Not authorized to add components to this halfcut unit" });
+    }
     
-    if (!part || part.supplier.userId !== user.claims.sub) {
-      return res.status(403).json({ message: "Not authorized to delete this product" });
+    const parsed = z.array(halfcutComponentSchema).min(1).max(100).safeParse(req.body.components);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid components", errors: parsed.error.flatten() });
     }
     
-    await storage.deletePart(id);
+    const { halfcutService } = await import("./services/halfcutService");
+    const components = await halfcutService.addComponents(owned.unit, owned.supplier, parsed.data);
     
-    // Broadcast product deletion via Socket.io
+    // Components are regular products - reuse the product events and image indexing
     const io = (req.app as any).get('io');
-    if (io) {
-      io.to(`shop:${part.supplier.id}`).emit('product.deleted', { id });
+    const { imageSearchService } = await import("./services/imageSearchService");
+    for (const component of components) {
+      if (io) {
+        io.to(`shop:${owned.supplier.id}`).emit('product.created', component);
+      }
+      imageSearchService.indexPartImages(component)
+        .catch(error => console.error("Error indexing product images:", error));
     }
     
-    res.json({ success: true });
+    res.status(201).json(components);
   } catch (error) {
-    console.error("Error deleting product:", error);
-    res.status(500).json({ message: "Failed to delete product" });
+    console.error("Error adding halfcut components:", error);
+    res.status(500).json({ message: "Failed to add halfcut components" });
   }
 });
 
@@ -428,6 +3434,7 @@ router.post("/chat/workshops/:workshopId/messages", isAuthenticated, async (req:
 });
 
 // GET /api/marketplace/chat/threads - Get supplier chat threads
+// Paginated with ?limit/cursor (sort: newest, unread)
 router.get("/chat/threads", isAuthenticated, async (req: Request, res: Response) => {
   try {
     const reqUser = (req as any).user;
@@ -438,6 +3445,16 @@ router.get("/chat/threads", isAuthenticated, async (req: Request, res: Response)
     const userId = reqUser.claims?.sub || reqUser.userId;
     const threads = await storage.listSupplierChatThreads(userId);
     
+    if (isPaginatedRequest(req.query)) {
+      const pageRequest = parsePageRequest(req.query, CHAT_THREAD_SORT_KEYS, 'newest');
+      return res.json(paginateArray(
+        threads,
+        pageRequest,
+        (thread: any, key) => key === 'unread' ? thread.unreadCount || 0 : thread.lastMessageAt ? new Date(thread.lastMessageAt) : null,
+        (thread: any) => thread.workshopId
+      ));
+    }
+    
     res.json(threads);
   } catch (error) {
     console.error("Error fetching chat threads:", error);
@@ -471,7 +3488,27 @@ router.get("/chat/messages/:workshopId", isAuthenticated, async (req: Request, r
   }
 });
 
-// POST /api/marketplace/image-search/:supplierId - Image similarity search
+// Resolve image search params shared by the supplier-scoped and marketplace-wide endpoints
+async function parseImageSearchRequest(req: Request): Promise<{ threshold?: number; limit?: number; workshopId?: string } | { error: string }> {
+  const { threshold, limit } = req.query;
+  let parsedThreshold: number | undefined;
+
+  if (threshold !== undefined) {
+    parsedThreshold = parseFloat(threshold as string);
+    if (isNaN(parsedThreshold) || parsedThreshold < 0 || parsedThreshold > 100) {
+      return { error: "threshold must be a number between 0 and 100" };
+    }
+  }
+
+  // Searches are anonymous-friendly; attribute them to the workshop when a workshop user is signed in
+  return {
+    threshold: parsedThreshold,
+    limit: limit !== undefined ? parseInt(limit as string) || undefined : undefined,
+    workshopId: await getViewerWorkshopId(req),
+  };
+}
+
+// POST /api/marketplace/image-search/:supplierId - Image similarity search within a supplier (?threshold=0-100)
 router.post("/image-search/:supplierId", upload.single('image'), async (req: Request, res: Response) => {
   try {
     const { supplierId } = req.params;
@@ -481,16 +3518,85 @@ router.post("/image-search/:supplierId", upload.single('image'), async (req: Req
       return res.status(400).json({ message: "No image provided" });
     }
     
-    // Use ImageSearchService
+    const params = await parseImageSearchRequest(req);
+    if ('error' in params) {
+      return res.status(400).json({ message: params.error });
+    }
+    
+    const { imageSearchService } = await import("./services/imageSearchService");
+    const results = await imageSearchService.searchByImage(imageFile.buffer, { ...params, supplierId });
+    
+    res.json(results);
+    
+    recordStorefrontActivity(req, async () => {
+      const { storefrontAnalyticsService } = await import("./services/storefrontAnalyticsService");
+      await storefrontAnalyticsService.recordImpressions(results, 'image_search', params.workshopId);
+    });
+  } catch (error) {
+    console.error("Error searching by image:", error);
+    res.status(500).json({ message: "Failed to search by image" });
+  }
+});
+
+// POST /api/marketplace/image-search - Image similarity search across all suppliers (?threshold=0-100)
+router.post("/image-search", upload.single('image'), async (req: Request, res: Response) => {
+  try {
+    const imageFile = req.file;
+    
+    if (!imageFile) {
+      return res.status(400).json({ message: "No image provided" });
+    }
+    
+    const params = await parseImageSearchRequest(req);
+    if ('error' in params) {
+      return res.status(400).json({ message: params.error });
+    }
+    
     const { imageSearchService } = await import("./services/imageSearchService");
-    const imageUrl = `/uploads/${imageFile.filename}`;
-    const results = await imageSearchService.searchByImage(supplierId, imageUrl);
+    const results = await imageSearchService.searchByImage(imageFile.buffer, params);
     
     res.json(results);
+    
+    recordStorefrontActivity(req, async () => {
+      const { storefrontAnalyticsService } = await import("./services/storefrontAnalyticsService");
+      await storefrontAnalyticsService.recordImpressions(results, 'image_search', params.workshopId);
+    });
   } catch (error) {
     console.error("Error searching by image:", error);
     res.status(500).json({ message: "Failed to search by image" });
   }
 });
 
+// POST /api/marketplace/suppliers/:id/image-index - Rebuild image hashes for a supplier's products (supplier only)
+router.post("/suppliers/:id/image-index", isAuthenticated, async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const user = (req as any).user;
+    
+    if (!user) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+    
+    const [supplier] = await db
+      .select()
+      .from(suppliers)
+      .where(and(
+        eq(suppliers.id, id),
+        eq(suppliers.userId, user.claims.sub)
+      ));
+    
+    if (!supplier) {
+      return res.status(403).json({ message: "Not authorized to index this supplier's products" });
+    }
+    
+    const { imageSearchService } = await import("./services/imageSearchService");
+    const result = await imageSearchService.reindexSupplier(supplier.id);
+    
+    res.json(result);
+  } catch (error) {
+    console.error("Error indexing product images:", error);
+    res.status(500).json({ message: "Failed to index product images" });
+  }
+});
+
 export default router;
@@ -0,0 +1,353 @@
+import type { Server as SocketIOServer } from "socket.io";
+import { db } from "../db";
+import {
+  notifications,
+  partVariants,
+  parts,
+  restockSubscriptions,
+  supplierOrderItems,
+  supplierOrders,
+  workshops,
+  type Part,
+  type RestockSubscription,
+  type RestockSubscriptionInput,
+} from "@shared/schema";
+import { and, asc, desc, eq, gt, inArray, isNull, ne } from "drizzle-orm";
+import type { NodePgDatabase } from "drizzle-orm/node-postgres";
+import { InsufficientStockError, VariantNotFoundError, VariantRequiredError } from "../errors";
+import { emitNotification } from "../socket";
+import { cartService } from "./cartService";
+import { storefrontAnalyticsService } from "./storefrontAnalyticsService";
+import { stockReservationService } from "./stockReservationService";
+
+/**
+ * Backorder Service - Orders beyond stock and restock follow-up
+ *
+ * A part with allowBackorder accepts order lines larger than its stock: the available units
+ * are reserved and the rest is recorded on the line as backorderQuantity (status 'backordered').
+ * When stock arrives (handleRestock), backordered lines are filled oldest order first, then
+ * workshops subscribed to the part are notified - or, with autoOrderQuantity, get the part
+ * added to their cart so they can check out straight away.
+ */
+
+// How an order line is split between stock and backorder
+export interface LineAllocation {
+  part: Part;
+  inStockQuantity: number;
+  backorderQuantity: number;
+  expectedRestockDate: Date | null;
+}
+
+// Backordered units filled from new stock
+export interface FulfilledBackorder {
+  orderId: string;
+  orderItemId: string;
+  workshopId: string;
+  quantity: number;
+  remaining: number;
+}
+
+export class BackorderService {
+  /**
+   * Lock a line's stock row (variant row when a variant is given) for the rest of the transaction
+   */
+  private async lockStock(partId: string, variantId: string | null, tx: NodePgDatabase | any): Promise<{ part: Part; stock: number }> {
+    const [part] = await tx.select().from(parts).where(eq(parts.id, partId)).for('update');
+    if (!part) {
+      throw new InsufficientStockError(partId, 0, 0);
+    }
+
+    if (!variantId) {
+      if (part.hasVariants) {
+        throw new VariantRequiredError(partId);
+      }
+      return { part, stock: part.stockQuantity };
+    }
+
+    const [variant] = await tx
+      .select()
+      .from(partVariants)
+      .where(and(eq(partVariants.id, variantId), eq(partVariants.partId, partId)))
+      .for('update');
+    if (!variant) {
+      throw new VariantNotFoundError(partId, variantId);
+    }
+    return { part, stock: variant.stockQuantity };
+  }
+
+  /**
+   * Split an order line into in-stock and backordered units
+   * Must run inside the checkout transaction (the stock row stays locked until reserveOrder).
+   *
+   * @throws InsufficientStockError if stock is short and the part does not accept backorders
+   */
+  async allocateLine(partId: string, variantId: string | null, quantity: number, tx: NodePgDatabase | any): Promise<LineAllocation> {
+    const { part, stock } = await this.lockStock(partId, variantId, tx);
+    const inStockQuantity = Math.min(Math.max(stock, 0), quantity);
+    const backorderQuantity = quantity - inStockQuantity;
+
+    if (backorderQuantity > 0 && !part.allowBackorder) {
+      throw new InsufficientStockError(partId, quantity, Math.max(stock, 0));
+    }
+
+    return {
+      part,
+      inStockQuantity,
+      backorderQuantity,
+      expectedRestockDate: backorderQuantity > 0 ? part.expectedRestockDate : null,
+    };
+  }
+
+  /**
+   * Fill backordered lines of a part from its current stock, oldest order first
+   * Filled units are reserved like any order stock (committed straight away for paid orders).
+   */
+  async fulfilBackorders(partId: string, tx: NodePgDatabase | any): Promise<FulfilledBackorder[]> {
+    const rows = await tx
+      .select({ item: supplierOrderItems, order: supplierOrders })
+      .from(supplierOrderItems)
+      .innerJoin(supplierOrders, eq(supplierOrderItems.orderId, supplierOrders.id))
+      .where(and(
+        eq(supplierOrderItems.partId, partId),
+        eq(supplierOrderItems.status, 'backordered'),
+        gt(supplierOrderItems.backorderQuantity, 0),
+        ne(supplierOrders.status, 'cancelled')
+      ))
+      .orderBy(asc(supplierOrders.createdAt), asc(supplierOrderItems.id));
+
+    const fulfilled: FulfilledBackorder[] = [];
+    for (const { item, order } of rows) {
+      let stock: number;
+      try {
+        ({ stock } = await this.lockStock(partId, item.variantId, tx));
+      } catch {
+        // Variant removed since the order was placed - leave the line for the supplier to resolve
+        continue;
+      }
+
+      const quantity = Math.min(stock, item.backorderQuantity);
+      if (quantity <= 0) {
+        continue;
+      }
+
+      await stockReservationService.reserveOrder(order.id, order.supplierId, [{ partId, variantId: item.variantId, quantity }], tx);
+      if (order.paymentStatus === 'paid') {
+        await stockReservationService.commitOrder(order.id, tx);
+      }
+
+      const remaining = item.backorderQuantity - quantity;
+      await tx
+        .update(supplierOrderItems)
+        .set({
+          backorderQuantity: remaining,
+          status: remaining === 0 ? 'in_stock' : 'backordered',
+          expectedRestockDate: remaining === 0 ? null : item.expectedRestockDate,
+        })
+        .where(eq(supplierOrderItems.id, item.id));
+
+      fulfilled.push({ orderId: order.id, orderItemId: item.id, workshopId: order.workshopId, quantity, remaining });
+    }
+
+    return fulfilled;
+  }
+
+  /**
+   * Parts among partIds that have backorders or subscribers waiting for stock
+   */
+  async findWaitingPartIds(partIds: string[]): Promise<string[]> {
+    if (partIds.length === 0) {
+      return [];
+    }
+
+    const [backordered, subscribed] = await Promise.all([
+      db
+        .selectDistinct({ partId: supplierOrderItems.partId })
+        .from(supplierOrderItems)
+        .where(and(inArray(supplierOrderItems.partId, partIds), eq(supplierOrderItems.status, 'backordered'))),
+      db
+        .selectDistinct({ partId: restockSubscriptions.partId })
+        .from(restockSubscriptions)
+        .where(and(inArray(restockSubscriptions.partId, partIds), eq(restockSubscriptions.status, 'active'))),
+    ]);
+
+    return Array.from(new Set([...backordered, ...subscribed].map(row => row.partId)));
+  }
+
+  /**
+   * Follow up on new stock for a part: fill backorders, then serve restock subscriptions
+   * Call after any stock increase (product edit, variant edit, import, released reservations).
+   *
+   * @param io - Socket server for live notifications (optional)
+   */
+  async handleRestock(partId: string, io?: SocketIOServer): Promise<{ fulfilled: FulfilledBackorder[]; notified: number }> {
+    const fulfilled = await db.transaction(async (tx) => this.fulfilBackorders(partId, tx));
+
+    const [part] = await db.select().from(parts).where(eq(parts.id, partId));
+    if (!part) {
+      return { fulfilled, notified: 0 };
+    }
+
+    for (const line of fulfilled) {
+      await this.notifyWorkshop(line.workshopId, {
+        title: "Backorder Update",
+        message: line.remaining === 0
+          ? `${part.name} is back in stock - your backordered items are now reserved`
+          : `${line.quantity} x ${part.name} reserved from new stock, ${line.remaining} still on backorder`,
+        type: "order_update",
+      }, io);
+    }
+
+    const subscriptions: RestockSubscription[] = await db
+      .select()
+      .from(restockSubscriptions)
+      .where(and(eq(restockSubscriptions.partId, partId), eq(restockSubscriptions.status, 'active')))
+      .orderBy(asc(restockSubscriptions.createdAt));
+
+    let notified = 0;
+    for (const subscription of subscriptions) {
+      const stock = await this.availableStock(part, subscription.variantId);
+      if (stock <= 0) {
+        continue;
+      }
+
+      const autoOrder = subscription.autoOrderQuantity !== null;
+      if (autoOrder) {
+        const cartLine = {
+          partId: part.id,
+          variantId: subscription.variantId,
+          supplierId: part.supplierId,
+          quantity: Math.min(subscription.autoOrderQuantity!, stock),
+        };
+        await cartService.addItem(subscription.workshopId, cartLine);
+        await storefrontAnalyticsService.recordAddsToCart(subscription.workshopId, [cartLine], 'restock');
+      }
+
+      await db
+        .update(restockSubscriptions)
+        .set({ status: autoOrder ? 'ordered' : 'notified', notifiedAt: new Date() })
+        .where(eq(restockSubscriptions.id, subscription.id));
+
+      await this.notifyWorkshop(subscription.workshopId, {
+        title: "Back in Stock",
+        message: autoOrder
+          ? `${part.name} is back in stock and has been added to your cart`
+          : `${part.name} is back in stock`,
+        type: "restock",
+      }, io);
+      notified++;
+    }
+
+    return { fulfilled, notified };
+  }
+
+  /**
+   * handleRestock for the parts among partIds that anyone is waiting for
+   */
+  async handleRestockMany(partIds: string[], io?: SocketIOServer): Promise<void> {
+    for (const partId of await this.findWaitingPartIds(partIds)) {
+      try {
+        await this.handleRestock(partId, io);
+      } catch (error) {
+        console.error(`Failed to process restock for part ${partId}:`, error);
+      }
+    }
+  }
+
+  private async availableStock(part: Part, variantId: string | null): Promise<number> {
+    if (!variantId) {
+      return part.stockQuantity;
+    }
+    const [variant] = await db.select().from(partVariants).where(eq(partVariants.id, variantId));
+    return variant?.stockQuantity ?? 0;
+  }
+
+  private async notifyWorkshop(
+    workshopId: string,
+    content: { title: string; message: string; type: string },
+    io?: SocketIOServer
+  ): Promise<void> {
+    const [workshop] = await db.select().from(workshops).where(eq(workshops.id, workshopId));
+    if (!workshop) {
+      return;
+    }
+
+    const [notification] = await db
+      .insert(notifications)
+      .values({ userId: workshop.userId, ...content })
+      .returning();
+
+    if (io) {
+      emitNotification(io, workshop.userId, notification);
+    }
+  }
+
+  /**
+   * Subscribe a workshop to a part's restock (replaces its open subscription for the same variant)
+   */
+  async subscribe(workshopId: string, partId: string, input: RestockSubscriptionInput): Promise<RestockSubscription> {
+    const variantId = input.variantId || null;
+
+    return await db.transaction(async (tx) => {
+      await tx
+        .update(restockSubscriptions)
+        .set({ status: 'cancelled' })
+        .where(and(
+          eq(restockSubscriptions.workshopId, workshopId),
+          eq(restockSubscriptions.partId, partId),
+          variantId ? eq(restockSubscriptions.variantId, variantId) : isNull(restockSubscriptions.variantId),
+          eq(restockSubscriptions.status, 'active')
+        ));
+
+      const [subscription] = await tx
+        .insert(restockSubscriptions)
+        .values({ workshopId, partId, variantId, autoOrderQuantity: input.autoOrderQuantity ?? null })
+        .returning();
+
+      return subscription;
+    });
+  }
+
+  /**
+   * @returns false if the subscription is not the workshop's or no longer open
+   */
+  async unsubscribe(subscriptionId: string, workshopId: string): Promise<boolean> {
+    const cancelled = await db
+      .update(restockSubscriptions)
+      .set({ status: 'cancelled' })
+      .where(and(
+        eq(restockSubscriptions.id, subscriptionId),
+        eq(restockSubscriptions.workshopId, workshopId),
+        eq(restockSubscriptions.status, 'active')
+      ))
+      .returning({ id: restockSubscriptions.id });
+
+    return cancelled.length > 0;
+  }
+
+  /**
+   * A workshop's open and served subscriptions with the part, newest first
+   */
+  async listSubscriptions(workshopId: string) {
+    return await db
+      .select({
+        subscription: restockSubscriptions,
+        part: {
+          id: parts.id,
+          name: parts.name,
+          supplierId: parts.supplierId,
+          stockQuantity: parts.stockQuantity,
+          allowBackorder: parts.allowBackorder,
+          expectedRestockDate: parts.expectedRestockDate,
+        },
+      })
+      .from(restockSubscriptions)
+      .innerJoin(parts, eq(restockSubscriptions.partId, parts.id))
+      .where(and(
+        eq(restockSubscriptions.workshopId, workshopId),
+        ne(restockSubscriptions.status, 'cancelled')
+      ))
+      .orderBy(desc(restockSubscriptions.createdAt));
+  }
+}
+
+export const backorderService = new BackorderService();
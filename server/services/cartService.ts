@@ -0,0 +1,98 @@
+import { db } from "../db";
+import { cart, cartItems, type Cart, type CartItem } from "@shared/schema";
+import { and, eq, isNull, sql } from "drizzle-orm";
+import type { NodePgDatabase } from "drizzle-orm/node-postgres";
+import { pricingService } from "./pricingService";
+
+/**
+ * Cart Service - Adding parts to a workshop's cart and changing quantities
+ * (marketplace cart API, restock auto-orders, saved list "add all"). A line for the same part/variant is
+ * topped up rather than duplicated, and every add or quantity change re-resolves the line's tier /
+ * price list price (pricingService.repriceItem). Checkout locks that price into priceAtTime.
+ * Callers record each add as an add_to_cart storefront event (storefrontAnalyticsService.recordAddsToCart)
+ * once it has committed, so a rolled-back add leaves no event.
+ */
+
+export interface CartLineInput {
+  partId: string;
+  variantId: string | null;
+  supplierId: string;
+  quantity: number;
+}
+
+export class CartService {
+  async getOrCreateCart(workshopId: string, tx?: NodePgDatabase | any): Promise<Cart> {
+    const database = tx || db;
+    const [existing] = await database.select().from(cart).where(eq(cart.workshopId, workshopId));
+    if (existing) {
+      return existing;
+    }
+
+    const [created] = await database.insert(cart).values({ workshopId }).returning();
+    return created;
+  }
+
+  /**
+   * Add a line to the workshop's cart, or increase the quantity of the matching line
+   */
+  async addItem(workshopId: string, line: CartLineInput, tx?: NodePgDatabase | any): Promise<CartItem> {
+    const run = async (database: NodePgDatabase | any) => {
+      const workshopCart = await this.getOrCreateCart(workshopId, database);
+
+      const [existing] = await database
+        .select()
+        .from(cartItems)
+        .where(and(
+          eq(cartItems.cartId, workshopCart.id),
+          eq(cartItems.partId, line.partId),
+          line.variantId ? eq(cartItems.variantId, line.variantId) : isNull(cartItems.variantId)
+        ));
+
+      let row: CartItem;
+      if (existing) {
+        [row] = await database
+          .update(cartItems)
+          .set({ quantity: sql`${cartItems.quantity} + ${line.quantity}` })
+          .where(eq(cartItems.id, existing.id))
+          .returning();
+      } else {
+        [row] = await database
+          .insert(cartItems)
+          .values({ cartId: workshopCart.id, ...line })
+          .returning();
+      }
+
+      // The new quantity can reach another tier
+      return (await pricingService.repriceItem(row, workshopId, database)).item;
+    };
+
+    return await (tx ? run(tx) : db.transaction(run));
+  }
+
+  /**
+   * Change the quantity of a line in the workshop's cart and re-resolve its price
+   *
+   * @returns undefined if the item is not in this workshop's cart
+   */
+  async updateQuantity(workshopId: string, itemId: string, quantity: number): Promise<CartItem | undefined> {
+    return await db.transaction(async (tx) => {
+      const [row] = await tx
+        .select({ item: cartItems })
+        .from(cartItems)
+        .innerJoin(cart, eq(cartItems.cartId, cart.id))
+        .where(and(eq(cartItems.id, itemId), eq(cart.workshopId, workshopId)));
+      if (!row) {
+        return undefined;
+      }
+
+      const [updated] = await tx
+        .update(cartItems)
+        .set({ quantity })
+        .where(eq(cartItems.id, itemId))
+        .returning();
+      return (await pricingService.repriceItem(updated, workshopId, tx)).item;
+    });
+  }
+}
+
+export const cartService = new CartService();
@@ -0,0 +1,162 @@
+import ExcelJS from "exceljs";
+import { db } from "../db";
+import {
+  partNumberLinks,
+  partNumbers,
+  partVariants,
+  parts,
+  type CompatibilityItem,
+  type PartNumberInput,
+  type PartVariant,
+} from "@shared/schema";
+import { asc, eq } from "drizzle-orm";
+import {
+  PRODUCT_IMPORT_COLUMNS,
+  formatCompatibilityList,
+  formatPartNumberList,
+  formatVariantOptions,
+  toCSVLine,
+  type ProductImportColumn,
+} from "../utils/csvParser";
+
+/**
+ * Catalog Export Service - A supplier's full catalogue in the importer's column layout
+ *
+ * The export re-imports unchanged: every row carries its garagehubCode, so an edited file
+ * updates the same listings. A product with variants is written as one row per variant
+ * sharing a variantGroup; the first row holds the product details.
+ */
+
+export type CatalogExportRow = Record<ProductImportColumn, string | number>;
+
+export class CatalogExportService {
+  /**
+   * Build export rows for a supplier, ordered by garagehubCode
+   */
+  async buildRows(supplierId: string): Promise<CatalogExportRow[]> {
+    const supplierParts = await db
+      .select()
+      .from(parts)
+      .where(eq(parts.supplierId, supplierId))
+      .orderBy(asc(parts.garagehubCode));
+
+    const variantRows = await db
+      .select({ variant: partVariants })
+      .from(partVariants)
+      .innerJoin(parts, eq(partVariants.partId, parts.id))
+      .where(eq(parts.supplierId, supplierId))
+      .orderBy(asc(partVariants.sortOrder), asc(partVariants.price), asc(partVariants.name));
+
+    const tagRows = await db
+      .select({ partId: partNumberLinks.partId, partNumber: partNumbers })
+      .from(partNumberLinks)
+      .innerJoin(partNumbers, eq(partNumberLinks.partNumberId, partNumbers.id))
+      .innerJoin(parts, eq(partNumberLinks.partId, parts.id))
+      .where(eq(parts.supplierId, supplierId))
+      .orderBy(asc(partNumbers.number));
+
+    const variantsByPart = new Map<string, PartVariant[]>();
+    for (const { variant } of variantRows) {
+      const list = variantsByPart.get(variant.partId) || [];
+      list.push(variant);
+      variantsByPart.set(variant.partId, list);
+    }
+
+    const numbersByPart = new Map<string, PartNumberInput[]>();
+    for (const { partId, partNumber } of tagRows) {
+      const list = numbersByPart.get(partId) || [];
+      list.push({ number: partNumber.number, numberType: partNumber.numberType, brand: partNumber.brand || undefined });
+      numbersByPart.set(partId, list);
+    }
+
+    const rows: CatalogExportRow[] = [];
+    for (const part of supplierParts) {
+      const numbers = numbersByPart.get(part.id) || [];
+      const productRow: CatalogExportRow = {
+        name: part.name,
+        sku: part.sku || '',
+        garagehubCode: part.garagehubCode,
+        description: part.description || '',
+        category: part.category,
+        partCategory: part.partCategory,
+        brand: part.brand || '',
+        model: part.model || '',
+        vehicleMake: part.vehicleMake || '',
+        vehicleModel: part.vehicleModel || '',
+        vehicleYearFrom: part.vehicleYearFrom ?? '',
+        vehicleYearTo: part.vehicleYearTo ?? '',
+        compatibility: formatCompatibilityList(part.compatibility as CompatibilityItem[] | null),
+        price: part.price,
+        stockQuantity: part.stockQuantity,
+        imageUrl: part.imageUrl || '',
+        images: (part.images || []).join('|'),
+        oemNumbers: formatPartNumberList(numbers.filter(number => number.numberType === 'oem')),
+        aftermarketNumbers: formatPartNumberList(numbers.filter(number => number.numberType !== 'oem')),
+        variantGroup: '',
+        variantName: '',
+        variantOptions: '',
+      };
+
+      const variants = variantsByPart.get(part.id);
+      if (!part.hasVariants || !variants?.length) {
+        rows.push(productRow);
+        continue;
+      }
+
+      // Variant rows repeat only the code (to match on re-import) and their own columns
+      variants.forEach((variant, index) => {
+        const base = index === 0
+          ? productRow
+          : Object.fromEntries(PRODUCT_IMPORT_COLUMNS.map(column => [column, ''])) as CatalogExportRow;
+
+        rows.push({
+          ...base,
+          garagehubCode: part.garagehubCode,
+          sku: variant.sku || '',
+          price: variant.price,
+          stockQuantity: variant.stockQuantity,
+          imageUrl: variant.imageUrl || '',
+          variantGroup: part.garagehubCode,
+          variantName: variant.name,
+          variantOptions: formatVariantOptions(variant.options as Record<string, string>),
+        });
+      });
+    }
+
+    return rows;
+  }
+
+  /**
+   * Catalogue as CSV (UTF-8 with BOM so Excel keeps non-ASCII characters)
+   */
+  async exportCSV(supplierId: string): Promise<string> {
+    const rows = await this.buildRows(supplierId);
+    const lines = [toCSVLine([...PRODUCT_IMPORT_COLUMNS])];
+    for (const row of rows) {
+      lines.push(toCSVLine(PRODUCT_IMPORT_COLUMNS.map(column => row[column])));
+    }
+    return '\uFEFF' + lines.join('\r\n') + '\r\n';
+  }
+
+  /**
+   * Catalogue as an XLSX workbook with a single "Products" sheet
+   */
+  async exportXLSX(supplierId: string): Promise<Buffer> {
+    const rows = await this.buildRows(supplierId);
+    const workbook = new ExcelJS.Workbook();
+    const worksheet = workbook.addWorksheet('Products', { views: [{ state: 'frozen', ySplit: 1 }] });
+
+    worksheet.columns = PRODUCT_IMPORT_COLUMNS.map(column => ({ header: column, key: column, width: Math.max(12, column.length + 2) }));
+    worksheet.getRow(1).font = { bold: true };
+
+    for (const row of rows) {
+      // Prices as numbers so they can be edited with formulas; everything else as text
+      worksheet.addRow({ ...row, price: Number(row.price) });
+    }
+    worksheet.getColumn('price').numFmt = '0.00';
+
+    return Buffer.from(await workbook.xlsx.writeBuffer());
+  }
+}
+
+export const catalogExportService = new CatalogExportService();
@@ -0,0 +1,771 @@
+import { db } from "../db";
+import {
+  catalogImports,
+  insertPartSchema,
+  partNumberLinks,
+  partNumbers,
+  partVariants,
+  parts,
+  type CatalogImport,
+  type CompatibilityItem,
+  type InsertPart,
+  type Part,
+  type PartNumberInput,
+  type PartVariant,
+  type PartVariantInput,
+  type Supplier,
+} from "@shared/schema";
+import { and, asc, eq, inArray, ne } from "drizzle-orm";
+import type { NodePgDatabase } from "drizzle-orm/node-postgres";
+import { ProductCodeService } from "./productCodeService";
+import { partNumberService } from "./partNumberService";
+import { partVariantService } from "./partVariantService";
+import { listingModerationService, type ModerationFields, type ScreenedListing } from "./listingModerationService";
+import { taxonomyService } from "./taxonomyService";
+import { DuplicateIndex, duplicateListingService, type DuplicateSignal } from "./duplicateListingService";
+import {
+  groupProductRows,
+  toCSVLine,
+  toInsertPart,
+  type CSVParseError,
+  type CSVParseResult,
+  type CSVProductRow,
+} from "../utils/csvParser";
+
+/**
+ * Catalog Import Service - Upsert a supplier's catalogue from a parsed CSV/XLSX file
+ *
+ * Each product in the file (one row, or all rows of a variantGroup) is matched to an existing
+ * listing of the supplier by garagehubCode, then SKU, then variant SKU. Matched listings are
+ * updated with the non-blank cells only; unmatched ones are created.
+ *
+ * planImport computes the per-product action and field diff without writing (dry run);
+ * applyImport writes a plan in one transaction. Products with errors are skipped, never partly applied.
+ * New products that look like an existing listing, or like another new product in the file, carry
+ * duplicate warnings; they are still created.
+ */
+
+export type ImportAction = 'create' | 'update' | 'unchanged' | 'error';
+
+// Listing (or earlier product in the same file) that a new product looks like
+export interface ImportDuplicateWarning {
+  partId: string | null; // null = another new product in the file
+  garagehubCode: string | null;
+  name: string | null;
+  row: number | null; // File row of the other new product
+  score: number;
+  signals: DuplicateSignal[];
+}
+
+export interface ImportFieldChange {
+  from: unknown;
+  to: unknown;
+}
+
+// One product of the file as shown in the preview
+export interface ImportPlanItem {
+  rows: number[]; // File rows the product came from
+  action: ImportAction;
+  partId: string | null;
+  garagehubCode: string | null;
+  name: string | null;
+  sku: string | null;
+  variantGroup: string | null;
+  changes: Record<string, ImportFieldChange>;
+  errors: CSVParseError[];
+  duplicates: ImportDuplicateWarning[]; // New products only
+}
+
+export interface ImportSummary {
+  totalRows: number;
+  created: number;
+  updated: number;
+  unchanged: number;
+  errors: number; // Products (or unparseable rows) skipped because of errors
+  possibleDuplicates: number; // New products with duplicate warnings
+}
+
+type ImportOperation =
+  | { type: 'create'; part: InsertPart; partNumbers?: PartNumberInput[] }
+  | { type: 'update'; part: Part; set: Partial<Part>; variants?: PartVariantInput[]; partNumbers?: PartNumberInput[] }
+  | { type: 'updateVariant'; part: Part; variantId: string; set: Partial<PartVariant> };
+
+export interface ImportPlan {
+  items: ImportPlanItem[];
+  errors: CSVParseError[]; // Parse errors plus the errors of every skipped product
+  summary: ImportSummary;
+  operations: ImportOperation[]; // Writes for applyImport (not sent to clients)
+}
+
+export interface ImportResult {
+  createdPartIds: string[];
+  updatedPartIds: string[];
+  reindexParts: Part[]; // Created/updated listings whose images changed
+  queuedPartIds: string[]; // Created/updated listings sent to the moderation queue
+  halfcutUnitIds: string[]; // Donor units whose component stock changed
+}
+
+// Product columns an import can change on an existing listing
+const PRODUCT_FIELDS = [
+  'name',
+  'sku',
+  'description',
+  'category',
+  'partCategory',
+  'brand',
+  'model',
+  'vehicleMake',
+  'vehicleModel',
+  'vehicleYearFrom',
+  'vehicleYearTo',
+  'compatibility',
+  'price',
+  'stockQuantity',
+  'imageUrl',
+  'images',
+] as const;
+
+// In a variant group these columns belong to each variant row, not the product
+const VARIANT_PRODUCT_EXCLUDED = new Set<string>(['sku', 'price', 'stockQuantity', 'imageUrl']);
+
+// Loaded catalogue of one supplier
+interface SupplierCatalog {
+  byCode: Map<string, Part>;
+  bySku: Map<string, Part>;
+  variantsBySku: Map<string, { part: Part; variant: PartVariant }>;
+  variantsByPart: Map<string, PartVariant[]>;
+  numbersByPart: Map<string, PartNumberInput[]>;
+  foreignSkus: Set<string>; // SKUs (lowercased) taken by other suppliers' listings or variants
+  partsById: Map<string, Part>;
+  duplicates: DuplicateIndex; // Fingerprints of the supplier's listings
+}
+
+/**
+ * Codes are stored as "#001"; accept "001" too
+ */
+function normalizeCode(code: string): string {
+  return code.startsWith('#') ? code : `#${code}`;
+}
+
+function compatibilityKey(items: unknown): string {
+  const list = Array.isArray(items) ? (items as CompatibilityItem[]) : [];
+  return JSON.stringify(list.map(item => [item.make, item.model, item.yearFrom ?? null, item.yearTo ?? null]));
+}
+
+function isSameValue(field: string, current: unknown, next: unknown): boolean {
+  if (field === 'price') {
+    return Number(current) === Number(next);
+  }
+  if (field === 'compatibility') {
+    return compatibilityKey(current) === compatibilityKey(next);
+  }
+  if (field === 'images') {
+    return JSON.stringify(current || []) === JSON.stringify(next || []);
+  }
+  return (current ?? null) === (next ?? null);
+}
+
+function partNumberLabel(partNumber: PartNumberInput): string {
+  return `${partNumber.brand ? `${partNumber.brand}:` : ''}${partNumber.number} (${partNumber.numberType || 'oem'})`;
+}
+
+function partNumbersKey(list: PartNumberInput[]): string {
+  return list
+    .map(partNumber => `${partNumber.numberType || 'oem'}|${(partNumber.brand || '').toLowerCase()}|${partNumberService.normalizePartNumber(partNumber.number)}`)
+    .sort()
+    .join(',');
+}
+
+function variantLabel(variant: { name: string; sku?: string | null; price: string; stockQuantity?: number }): string {
+  return `${variant.name}${variant.sku ? ` [${variant.sku}]` : ''}: RM${Number(variant.price).toFixed(2)} x ${variant.stockQuantity ?? 0}`;
+}
+
+export class CatalogImportService {
+  /**
+   * Load the supplier's listings (merged duplicates excluded), variants and part-number tags, plus SKUs owned by other suppliers
+   */
+  private async loadCatalog(supplierId: string, skus: string[]): Promise<SupplierCatalog> {
+    const ownParts: Part[] = await db
+      .select()
+      .from(parts)
+      .where(and(eq(parts.supplierId, supplierId), ne(parts.moderationStatus, 'merged')));
+
+    const ownVariants = await db
+      .select({ variant: partVariants })
+      .from(partVariants)
+      .innerJoin(parts, eq(partVariants.partId, parts.id))
+      .where(eq(parts.supplierId, supplierId))
+      .orderBy(asc(partVariants.sortOrder), asc(partVariants.price), asc(partVariants.name)); // Same order as partVariantService.getVariants
+
+    const tags = await db
+      .select({ partId: partNumberLinks.partId, partNumber: partNumbers })
+      .from(partNumberLinks)
+      .innerJoin(partNumbers, eq(partNumberLinks.partNumberId, partNumbers.id))
+      .innerJoin(parts, eq(partNumberLinks.partId, parts.id))
+      .where(eq(parts.supplierId, supplierId));
+
+    const foreignSkus = new Set<string>();
+    if (skus.length > 0) {
+      const [foreignParts, foreignVariants] = await Promise.all([
+        db
+          .select({ sku: parts.sku })
+          .from(parts)
+          .where(and(inArray(parts.sku, skus), ne(parts.supplierId, supplierId))),
+        db
+          .select({ sku: partVariants.sku })
+          .from(partVariants)
+          .innerJoin(parts, eq(partVariants.partId, parts.id))
+          .where(and(inArray(partVariants.sku, skus), ne(parts.supplierId, supplierId))),
+      ]);
+      for (const row of [...foreignParts, ...foreignVariants]) {
+        if (row.sku) foreignSkus.add(row.sku.toLowerCase());
+      }
+    }
+
+    const catalog: SupplierCatalog = {
+      byCode: new Map(),
+      bySku: new Map(),
+      variantsBySku: new Map(),
+      variantsByPart: new Map(),
+      numbersByPart: new Map(),
+      foreignSkus,
+      partsById: new Map(),
+      duplicates: new DuplicateIndex(),
+    };
+
+    const partsById = catalog.partsById;
+    for (const part of ownParts) {
+      partsById.set(part.id, part);
+      catalog.byCode.set(part.garagehubCode.toLowerCase(), part);
+      if (part.sku) catalog.bySku.set(part.sku.toLowerCase(), part);
+    }
+
+    for (const { variant } of ownVariants) {
+      const list = catalog.variantsByPart.get(variant.partId) || [];
+      list.push(variant);
+      catalog.variantsByPart.set(variant.partId, list);
+      const part = partsById.get(variant.partId);
+      if (variant.sku && part) catalog.variantsBySku.set(variant.sku.toLowerCase(), { part, variant });
+    }
+
+    for (const { partId, partNumber } of tags) {
+      const list = catalog.numbersByPart.get(partId) || [];
+      list.push({ number: partNumber.number, numberType: partNumber.numberType, brand: partNumber.brand || undefined });
+      catalog.numbersByPart.set(partId, list);
+    }
+
+    for (const part of ownParts) {
+      catalog.duplicates.add(part.id, duplicateListingService.fingerprint({ ...part, partNumbers: catalog.numbersByPart.get(part.id) }));
+    }
+
+    return catalog;
+  }
+
+  /**
+   * Work out what importing a parsed file would do, without writing anything (dry run)
+   *
+   * @param supplier - Supplier the file belongs to
+   * @param parsed - Result of parseProductCSV / parseProductXLSX
+   */
+  async planImport(supplier: Supplier, parsed: CSVParseResult): Promise<ImportPlan> {
+    const skus = Array.from(new Set(parsed.products.map(product => product.sku).filter((sku): sku is string => !!sku)));
+    const catalog = await this.loadCatalog(supplier.id, skus);
+    const rejectedGroups = new Set(parsed.rejectedVariantGroups);
+
+    // Map categories, makes and models onto the taxonomy (canonical labels, partCategory from the category)
+    const taxonomy = await taxonomyService.getResolver();
+    for (const product of parsed.products) {
+      Object.assign(product, taxonomy.normalizeFields(product));
+    }
+
+    const items: ImportPlanItem[] = [];
+    const operations: ImportOperation[] = [];
+    const skuRows = new Map<string, number>(); // SKU (lowercased) -> first row using it
+    const matchedRows = new Map<string, number>(); // Listing id -> first row updating it
+    const newProducts = new DuplicateIndex(); // New products so far, keyed by first row
+
+    for (const group of groupProductRows(parsed.products)) {
+      const [head] = group;
+      const item: ImportPlanItem = {
+        rows: group.map(product => product.row),
+        action: 'error',
+        partId: null,
+        garagehubCode: head.garagehubCode ? normalizeCode(head.garagehubCode) : null,
+        name: head.name ?? null,
+        sku: head.sku ?? null,
+        variantGroup: head.variantGroup ?? null,
+        changes: {},
+        errors: [],
+        duplicates: [],
+      };
+      items.push(item);
+      const addError = (product: CSVProductRow, field: string, value: unknown, message: string) =>
+        item.errors.push({ row: product.row, field, value: value === undefined || value === null ? '' : String(value), message });
+
+      if (head.variantGroup && rejectedGroups.has(head.variantGroup.toLowerCase())) {
+        addError(head, 'variantGroup', head.variantGroup, 'Other rows of this variant group have errors - the whole group was skipped');
+      }
+
+      // SKUs must be unique across the marketplace and within the file
+      for (const product of group) {
+        if (!product.sku) continue;
+        const key = product.sku.toLowerCase();
+        if (catalog.foreignSkus.has(key)) {
+          addError(product, 'sku', product.sku, 'SKU is already used by another supplier');
+        }
+        const firstRow = skuRows.get(key);
+        if (firstRow !== undefined) {
+          addError(product, 'sku', product.sku, `Duplicate SKU in file (first used on row ${firstRow})`);
+        } else {
+          skuRows.set(key, product.row);
+        }
+      }
+
+      // Match to an existing listing: garagehubCode, then listing SKU, then variant SKU
+      let existing: Part | undefined;
+      let matchedVariant: PartVariant | undefined;
+      if (head.garagehubCode) {
+        existing = catalog.byCode.get(normalizeCode(head.garagehubCode).toLowerCase());
+        if (!existing) {
+          addError(head, 'garagehubCode', head.garagehubCode, 'No product with this code in your catalogue');
+        }
+      } else {
+        for (const product of group) {
+          const key = product.sku?.toLowerCase();
+          if (!key) continue;
+          existing = catalog.bySku.get(key);
+          if (!existing && catalog.variantsBySku.has(key)) {
+            existing = catalog.variantsBySku.get(key)!.part;
+            matchedVariant = catalog.variantsBySku.get(key)!.variant;
+          }
+          if (existing) break;
+        }
+      }
+
+      if (existing) {
+        item.partId = existing.id;
+        item.garagehubCode = existing.garagehubCode;
+        item.name = item.name ?? existing.name;
+        const firstRow = matchedRows.get(existing.id);
+        if (firstRow !== undefined) {
+          addError(head, 'sku', head.sku ?? head.garagehubCode, `Product is already updated by row ${firstRow}`);
+        } else {
+          matchedRows.set(existing.id, head.row);
+        }
+      }
+
+      if (item.errors.length > 0) {
+        continue;
+      }
+
+      let operation: ImportOperation | undefined;
+      if (!existing) {
+        operation = this.planCreate(supplier, group, item, addError);
+      } else if (matchedVariant && !head.variantGroup) {
+        operation = this.planVariantUpdate(existing, matchedVariant, head, item);
+      } else {
+        operation = this.planUpdate(existing, group, catalog, item, addError);
+      }
+
+      if (item.errors.length > 0) {
+        item.action = 'error';
+        continue;
+      }
+      if (operation) {
+        operations.push(operation);
+      }
+      if (operation?.type === 'create') {
+        this.warnDuplicates(operation, item, catalog, newProducts);
+      }
+    }
+
+    const errors = [...parsed.errors, ...items.flatMap(item => item.errors)].sort((a, b) => a.row - b.row);
+    const parseErrorRows = new Set(parsed.errors.map(error => error.row));
+
+    return {
+      items,
+      errors,
+      operations,
+      summary: {
+        totalRows: parsed.totalRows,
+        created: items.filter(item => item.action === 'create').length,
+        updated: items.filter(item => item.action === 'update').length,
+        unchanged: items.filter(item => item.action === 'unchanged').length,
+        errors: items.filter(item => item.action === 'error').length + parseErrorRows.size,
+        possibleDuplicates: items.filter(item => item.duplicates.length > 0).length,
+      },
+    };
+  }
+
+  /**
+   * Attach duplicate warnings to a new product: matches in the catalogue, then earlier new products in the file
+   */
+  private warnDuplicates(
+    operation: Extract<ImportOperation, { type: 'create' }>,
+    item: ImportPlanItem,
+    catalog: SupplierCatalog,
+    newProducts: DuplicateIndex
+  ) {
+    const fingerprint = duplicateListingService.fingerprint({ ...operation.part, partNumbers: operation.partNumbers });
+
+    for (const match of catalog.duplicates.match(fingerprint).slice(0, 5)) {
+      const part = catalog.partsById.get(match.id)!;
+      item.duplicates.push({ partId: part.id, garagehubCode: part.garagehubCode, name: part.name, row: null, score: match.score, signals: match.signals });
+    }
+
+    const key = String(item.rows[0]);
+    for (const match of newProducts.match(fingerprint).slice(0, 5)) {
+      item.duplicates.push({ partId: null, garagehubCode: null, name: null, row: Number(match.id), score: match.score, signals: match.signals });
+    }
+    newProducts.add(key, fingerprint);
+  }
+
+  /**
+   * New listing: name and price are required; stock defaults to 0
+   */
+  private planCreate(
+    supplier: Supplier,
+    group: CSVProductRow[],
+    item: ImportPlanItem,
+    addError: (product: CSVProductRow, field: string, value: unknown, message: string) => void
+  ): ImportOperation | undefined {
+    const [head] = group;
+    if (!head.name) {
+      addError(head, 'name', '', 'Product name is required for new products');
+    }
+    for (const product of group) {
+      if (product.price === undefined) {
+        addError(product, 'price', '', 'Price is required for new products');
+      }
+    }
+    if (item.errors.length > 0) {
+      return undefined;
+    }
+
+    const insertPart = toInsertPart(group, supplier.id);
+    const validation = insertPartSchema.safeParse(insertPart);
+    if (!validation.success) {
+      for (const issue of validation.error.issues) {
+        addError(head, issue.path.join('.') || 'all', '', issue.message);
+      }
+      return undefined;
+    }
+
+    item.action = 'create';
+    for (const field of PRODUCT_FIELDS) {
+      const value = (insertPart as Record<string, unknown>)[field];
+      if (value !== null && value !== undefined && !(Array.isArray(value) && value.length === 0)) {
+        item.changes[field] = { from: null, to: value };
+      }
+    }
+    if (insertPart.variants) {
+      item.changes.variants = { from: null, to: insertPart.variants.map(variantLabel) };
+    }
+    if (head.partNumbers?.length) {
+      item.changes.partNumbers = { from: null, to: head.partNumbers.map(partNumberLabel) };
+    }
+
+    return { type: 'create', part: insertPart, partNumbers: head.partNumbers };
+  }
+
+  /**
+   * Row matched by a variant SKU (e.g. a plain price list): only the variant columns apply
+   */
+  private planVariantUpdate(part: Part, variant: PartVariant, product: CSVProductRow, item: ImportPlanItem): ImportOperation | undefined {
+    const next: Partial<PartVariant> = {
+      price: product.price,
+      stockQuantity: product.stockQuantity,
+      imageUrl: product.imageUrl,
+      name: product.variantName,
+      options: product.variantOptions,
+    };
+    const set: Partial<PartVariant> = {};
+
+    for (const [field, value] of Object.entries(next)) {
+      const current = (variant as Record<string, unknown>)[field];
+      const same = field === 'options'
+        ? JSON.stringify(current || {}) === JSON.stringify(value || {})
+        : isSameValue(field, current, value);
+      if (value !== undefined && !same) {
+        (set as Record<string, unknown>)[field] = value;
+        item.changes[`variant.${field}`] = { from: current ?? null, to: value };
+      }
+    }
+
+    item.name = `${part.name} - ${variant.name}`;
+    item.action = Object.keys(set).length > 0 ? 'update' : 'unchanged';
+    return item.action === 'update' ? { type: 'updateVariant', part, variantId: variant.id, set } : undefined;
+  }
+
+  /**
+   * Existing listing: diff the non-blank cells against it
+   */
+  private planUpdate(
+    part: Part,
+    group: CSVProductRow[],
+    catalog: SupplierCatalog,
+    item: ImportPlanItem,
+    addError: (product: CSVProductRow, field: string, value: unknown, message: string) => void
+  ): ImportOperation | undefined {
+    const [head] = group;
+    const isVariantGroup = !!head.variantGroup;
+    const set: Partial<Part> = {};
+
+    if (part.hasVariants && !isVariantGroup && (head.price !== undefined || head.stockQuantity !== undefined)) {
+      addError(head, head.price !== undefined ? 'price' : 'stockQuantity', head.price ?? head.stockQuantity,
+        'Product has variants - set price and stock on its variant rows (variantGroup/variantName)');
+      return undefined;
+    }
+
+    // The code-matched listing may get a new SKU, but not one another listing of this supplier already has
+    if (!isVariantGroup && head.sku && head.sku !== part.sku) {
+      const owner = catalog.bySku.get(head.sku.toLowerCase());
+      if ((owner && owner.id !== part.id) || catalog.variantsBySku.has(head.sku.toLowerCase())) {
+        addError(head, 'sku', head.sku, 'SKU is already used by another of your products');
+        return undefined;
+      }
+    }
+
+    for (const field of PRODUCT_FIELDS) {
+      if (isVariantGroup && VARIANT_PRODUCT_EXCLUDED.has(field)) continue;
+      const value = head[field];
+      if (value === undefined || isSameValue(field, part[field], value)) continue;
+      (set as Record<string, unknown>)[field] = value;
+      item.changes[field] = { from: part[field] ?? null, to: value };
+    }
+
+    // Variant group in the file = the product's complete variant list
+    let variants: PartVariantInput[] | undefined;
+    if (isVariantGroup) {
+      const existingVariants = catalog.variantsByPart.get(part.id) || [];
+      variants = [];
+
+      for (let index = 0; index < group.length; index++) {
+        const product = group[index];
+        const current = existingVariants.find(variant =>
+          (product.sku && variant.sku?.toLowerCase() === product.sku.toLowerCase()) ||
+          (product.variantName && variant.name.toLowerCase() === product.variantName.toLowerCase())
+        );
+        const price = product.price ?? current?.price;
+        if (price === undefined) {
+          addError(product, 'price', '', 'Price is required for new variants');
+          continue;
+        }
+
+        variants.push({
+          id: current?.id,
+          sku: product.sku ?? current?.sku ?? null,
+          name: product.variantName ?? current?.name ?? product.sku ?? `Variant ${index + 1}`,
+          options: product.variantOptions ?? (current?.options as PartVariantInput['options']) ?? {},
+          price,
+          stockQuantity: product.stockQuantity ?? current?.stockQuantity ?? 0,
+          imageUrl: product.imageUrl ?? current?.imageUrl ?? null,
+          sortOrder: index,
+        });
+      }
+
+      const before = existingVariants.map(variantLabel);
+      const after = variants.map(variantLabel);
+      if (JSON.stringify(before) === JSON.stringify(after)) {
+        variants = undefined;
+      } else {
+        item.changes.variants = { from: before, to: after };
+      }
+    }
+
+    let partNumbersInput: PartNumberInput[] | undefined;
+    if (head.partNumbers) {
+      const current = catalog.numbersByPart.get(part.id) || [];
+      if (partNumbersKey(current) !== partNumbersKey(head.partNumbers)) {
+        partNumbersInput = head.partNumbers;
+        item.changes.partNumbers = { from: current.map(partNumberLabel), to: head.partNumbers.map(partNumberLabel) };
+      }
+    }
+
+    if (item.errors.length > 0) {
+      return undefined;
+    }
+
+    item.action = Object.keys(item.changes).length > 0 ? 'update' : 'unchanged';
+    if (item.action === 'unchanged') {
+      return undefined;
+    }
+    return { type: 'update', part, set, variants, partNumbers: partNumbersInput };
+  }
+
+  /**
+   * Write a plan in one transaction
+   * New listings and edits to moderated fields are screened like product form saves.
+   * Any database failure rolls back the whole import.
+   */
+  async applyImport(supplier: Supplier, plan: ImportPlan): Promise<ImportResult> {
+    const result: ImportResult = { createdPartIds: [], updatedPartIds: [], reindexParts: [], queuedPartIds: [], halfcutUnitIds: [] };
+
+    await db.transaction(async (tx) => {
+      const moderation = await this.screenOperations(supplier, plan.operations, tx);
+
+      for (const operation of plan.operations) {
+        if (operation.type === 'create') {
+          const { variants, ...values } = operation.part;
+          const garagehubCode = await ProductCodeService.generateCodeForSupplier(supplier.id, tx);
+
+          const [created] = await tx
+            .insert(parts)
+            .values({
+              ...values,
+              ...moderation.get(operation),
+              supplierId: supplier.id,
+              supplierType: supplier.supplierType,
+              garagehubCode,
+            })
+            .returning();
+
+          if (operation.partNumbers?.length) {
+            await partNumberService.setPartNumbers(created.id, operation.partNumbers, tx);
+          }
+          if (variants?.length) {
+            await partVariantService.setVariants(created.id, variants, tx);
+          }
+
+          result.createdPartIds.push(created.id);
+          if (created.moderationStatus === 'pending') {
+            result.queuedPartIds.push(created.id);
+          }
+          if (created.imageUrl || created.images?.length) {
+            result.reindexParts.push(created);
+          }
+          continue;
+        }
+
+        if (operation.type === 'updateVariant') {
+          await tx
+            .update(partVariants)
+            .set({ ...operation.set, updatedAt: new Date() })
+            .where(eq(partVariants.id, operation.variantId));
+          await partVariantService.syncParent(operation.part.id, tx);
+
+          result.updatedPartIds.push(operation.part.id);
+          if (operation.part.halfcutUnitId && operation.set.stockQuantity !== undefined) {
+            result.halfcutUnitIds.push(operation.part.halfcutUnitId);
+          }
+          continue;
+        }
+
+        let updated: Part = operation.part;
+        if (Object.keys(operation.set).length > 0) {
+          [updated] = await tx
+            .update(parts)
+            .set({ ...operation.set, ...moderation.get(operation), updatedAt: new Date() })
+            .where(eq(parts.id, operation.part.id))
+            .returning();
+          if (updated.moderationStatus === 'pending' && operation.part.moderationStatus !== 'pending') {
+            result.queuedPartIds.push(updated.id);
+          }
+        }
+        if (operation.variants) {
+          await partVariantService.setVariants(operation.part.id, operation.variants, tx);
+        }
+        if (operation.partNumbers) {
+          await partNumberService.setPartNumbers(operation.part.id, operation.partNumbers, tx);
+        }
+
+        result.updatedPartIds.push(operation.part.id);
+        if (operation.set.imageUrl !== undefined || operation.set.images !== undefined) {
+          result.reindexParts.push(updated);
+        }
+        if (operation.part.halfcutUnitId && (operation.set.stockQuantity !== undefined || operation.variants)) {
+          result.halfcutUnitIds.push(operation.part.halfcutUnitId);
+        }
+      }
+    });
+
+    result.halfcutUnitIds = Array.from(new Set(result.halfcutUnitIds));
+    return result;
+  }
+
+  /**
+   * Moderation columns for the plan's new listings and the updates that touch moderated fields
+   * Screened in one pass so price medians are loaded once per import.
+   */
+  private async screenOperations(supplier: Supplier, operations: ImportOperation[], tx: NodePgDatabase | any): Promise<Map<ImportOperation, ModerationFields>> {
+    const screened: Array<{ operation: ImportOperation; previous?: Part; listing: ScreenedListing }> = [];
+
+    for (const operation of operations) {
+      if (operation.type === 'create') {
+        const { variants, price } = operation.part;
+        screened.push({
+          operation,
+          listing: listingModerationService.toScreenedListing({
+            ...operation.part,
+            price: variants?.length ? String(Math.min(...variants.map(variant => Number(variant.price)))) : price,
+          }),
+        });
+      } else if (operation.type === 'update' && listingModerationService.touchesModeratedFields(operation.set)) {
+        screened.push({
+          operation,
+          previous: operation.part,
+          listing: listingModerationService.toScreenedListing(operation.set, operation.part),
+        });
+      }
+    }
+
+    const flags = await listingModerationService.screen(supplier, screened.map(item => item.listing), tx);
+    return new Map(screened.map((item, index) => [item.operation, listingModerationService.fieldsFor(flags[index], item.previous)]));
+  }
+
+  /**
+   * Record an import (or dry run) so its error report can be downloaded later
+   */
+  async recordImport(data: {
+    supplierId: string;
+    userId: string;
+    fileName: string | null;
+    format: 'csv' | 'xlsx';
+    dryRun: boolean;
+    status: CatalogImport['status'];
+    summary: ImportSummary;
+    errors: CSVParseError[];
+  }): Promise<CatalogImport> {
+    const [record] = await db
+      .insert(catalogImports)
+      .values({
+        supplierId: data.supplierId,
+        userId: data.userId,
+        fileName: data.fileName,
+        format: data.format,
+        dryRun: data.dryRun,
+        status: data.status,
+        totalRows: data.summary.totalRows,
+        createdCount: data.summary.created,
+        updatedCount: data.summary.updated,
+        unchangedCount: data.summary.unchanged,
+        errorCount: data.summary.errors,
+        errors: data.errors,
+      })
+      .returning();
+
+    return record;
+  }
+
+  async getImport(importId: string, supplierId: string): Promise<CatalogImport | undefined> {
+    const [record] = await db
+      .select()
+      .from(catalogImports)
+      .where(and(eq(catalogImports.id, importId), eq(catalogImports.supplierId, supplierId)));
+
+    return record;
+  }
+
+  /**
+   * Error report as CSV: one line per error
+   */
+  buildErrorReport(errors: CSVParseError[]): string {
+    const lines = [toCSVLine(['row', 'field', 'value', 'message'])];
+    for (const error of errors) {
+      lines.push(toCSVLine([error.row, error.field, error.value, error.message]));
+    }
+    return lines.join('\r\n') + '\r\n';
+  }
+}
+
+export const catalogImportService = new CatalogImportService();
@@ -0,0 +1,374 @@
+import { db } from "../db";
+import {
+  cart,
+  cartItems,
+  platformEscrow,
+  supplierOrderItems,
+  supplierOrders,
+  suppliers,
+  transactionLogs,
+  wallets,
+  workshops,
+  type CartCheckout,
+  type CartItem,
+  type PaymentStatus,
+  type Supplier,
+  type SupplierOrder,
+  type SupplierOrderItem,
+  type Workshop,
+} from "@shared/schema";
+import { and, eq, gte, inArray, sql } from "drizzle-orm";
+import { CheckoutError } from "../errors";
+import { calculateOrderTotals, type OrderTotals } from "../utils/orderTotals";
+import { backorderService, type LineAllocation } from "./backorderService";
+import { calculateDeliveryCharge, calculateDistance } from "./distanceService";
+import { pricingService, type ResolvedPrice } from "./pricingService";
+import { promotionService, type PromotionQuote } from "./promotionService";
+import { stockReservationService } from "./stockReservationService";
+
+/**
+ * Checkout Service - Turning a workshop's cart into supplier orders
+ *
+ * The cart can hold parts from many suppliers; checkout splits it into one supplierOrders row
+ * per supplier, each with its own delivery charge (calculateDeliveryCharge over that supplier's
+ * items and distance), voucher and stock reservations. Everything runs in one transaction:
+ * - Stock rows are locked and allocated line by line (backorderService.allocateLine)
+ * - Wallet payments debit the workshop's wallet once for the grand total, then hold each
+ *   order's share in its own platformEscrow row
+ * - Any failure (insufficient stock, voucher limit reached, balance too low) rolls back every
+ *   order, reservation and the wallet debit, and leaves the cart untouched
+ *
+ * Bank transfer / QR orders are created unpaid; their stock holds expire like any unpaid order,
+ * and escrow is created when an admin confirms the payment (confirmPayment). Bank transfers are
+ * paid into the platform account (PLATFORM_BANK_NAME, PLATFORM_BANK_ACCOUNT_NUMBER, PLATFORM_BANK_ACCOUNT_NAME).
+ */
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// One priced and allocated cart line
+interface CheckoutLine {
+  item: CartItem;
+  price: ResolvedPrice;
+  allocation: LineAllocation;
+}
+
+// One supplier's share of the cart
+interface SupplierCheckout {
+  supplier: Supplier;
+  lines: CheckoutLine[];
+  voucher: PromotionQuote | null;
+  distanceKm: number | null;
+  totals: OrderTotals;
+}
+
+export interface CheckoutOrder extends SupplierOrder {
+  items: SupplierOrderItem[];
+}
+
+// Where to pay a bank transfer checkout
+export interface BankTransferDetails {
+  bankName: string;
+  accountNumber: string;
+  accountName: string;
+  reference: string; // Short order codes, for matching the transfer to its orders
+}
+
+export interface CheckoutResult {
+  orders: CheckoutOrder[];
+  totalAmount: string; // Sum of the orders' totals
+  walletBalance: string | null; // Balance after the debit (wallet payments)
+  bankDetails: BankTransferDetails | null; // Bank transfer payments
+}
+
+function getPlatformBankAccount(): Omit<BankTransferDetails, 'reference'> | null {
+  const { PLATFORM_BANK_NAME, PLATFORM_BANK_ACCOUNT_NUMBER, PLATFORM_BANK_ACCOUNT_NAME } = process.env;
+  if (!PLATFORM_BANK_NAME || !PLATFORM_BANK_ACCOUNT_NUMBER || !PLATFORM_BANK_ACCOUNT_NAME) {
+    return null;
+  }
+  return { bankName: PLATFORM_BANK_NAME, accountNumber: PLATFORM_BANK_ACCOUNT_NUMBER, accountName: PLATFORM_BANK_ACCOUNT_NAME };
+}
+
+export class CheckoutService {
+  /**
+   * Check out the workshop's cart (or the items in input.itemIds)
+   *
+   * @param workshop - Workshop checking out
+   * @param userId - Workshop owner (wallet holder)
+   * @throws CheckoutError, InsufficientStockError, PromotionError, VariantRequiredError, VariantNotFoundError
+   */
+  async checkoutCart(workshop: Workshop, userId: string, input: CartCheckout): Promise<CheckoutResult> {
+    const bankAccount = getPlatformBankAccount();
+    if (input.paymentMethod === 'bank_transfer' && !bankAccount) {
+      throw new CheckoutError('payment_unavailable', "Bank transfer payments are not available");
+    }
+
+    return await db.transaction(async (tx) => {
+      // Lock the cart so a double-submitted checkout waits and then finds it empty
+      const [workshopCart] = await tx.select().from(cart).where(eq(cart.workshopId, workshop.id)).for('update');
+      const items: CartItem[] = workshopCart
+        ? await tx.select().from(cartItems).where(and(
+            eq(cartItems.cartId, workshopCart.id),
+            input.itemIds ? inArray(cartItems.id, input.itemIds) : undefined
+          ))
+        : [];
+
+      if (items.length === 0) {
+        throw new CheckoutError('empty_cart', "Your cart is empty");
+      }
+
+      const checkouts = await this.priceSuppliers(workshop, items, input, tx);
+      const totalAmount = checkouts.reduce((sum, checkout) => sum + Number(checkout.totals.totalAmount), 0).toFixed(2);
+
+      let walletBalance: string | null = null;
+      if (input.paymentMethod === 'wallet') {
+        const [wallet] = await tx
+          .update(wallets)
+          .set({ balance: sql`${wallets.balance} - ${totalAmount}`, updatedAt: new Date() })
+          .where(and(eq(wallets.userId, userId), gte(wallets.balance, totalAmount)))
+          .returning();
+
+        if (!wallet) {
+          throw new CheckoutError('insufficient_balance', `Insufficient wallet balance: RM ${totalAmount} required`);
+        }
+        walletBalance = wallet.balance;
+      }
+
+      const orders: CheckoutOrder[] = [];
+      for (const checkout of checkouts) {
+        orders.push(await this.createOrder(workshop, userId, checkout, input, tx));
+      }
+
+      await tx.delete(cartItems).where(inArray(cartItems.id, items.map(item => item.id)));
+
+      const bankDetails = input.paymentMethod === 'bank_transfer'
+        ? { ...bankAccount!, reference: orders.map(order => order.id.slice(0, 8).toUpperCase()).join(' ') }
+        : null;
+
+      return { orders, totalAmount, walletBalance, bankDetails };
+    });
+  }
+
+  /**
+   * Confirm a bank transfer / QR payment: commit the order's stock holds and hold the amount
+   * the workshop paid (after its voucher discount) in escrow, as a wallet checkout does
+   *
+   * @returns The paid order, or null if it is not awaiting payment (cancelled or already paid)
+   */
+  async confirmPayment(orderId: string): Promise<SupplierOrder | null> {
+    return await db.transaction(async (tx) => {
+      // Lock the order so the reservation expiry cannot cancel it mid-confirmation
+      const [order] = await tx.select().from(supplierOrders).where(eq(supplierOrders.id, orderId)).for('update');
+      if (!order || order.status === 'cancelled' || order.paymentStatus !== 'pending') {
+        return null;
+      }
+
+      const [workshop] = await tx.select().from(workshops).where(eq(workshops.id, order.workshopId));
+      const [supplier] = await tx.select().from(suppliers).where(eq(suppliers.id, order.supplierId));
+      const totals = calculateOrderTotals({
+        itemsTotal: Number(order.itemsTotal),
+        discountAmount: Number(order.discountAmount),
+        deliveryCharge: Number(order.deliveryCharge),
+      });
+
+      await stockReservationService.commitOrder(order.id, tx);
+      await this.holdInEscrow(order, workshop.userId, supplier.name, totals, tx);
+
+      const [updated] = await tx
+        .update(supplierOrders)
+        .set({ paymentStatus: 'paid', updatedAt: new Date() })
+        .where(eq(supplierOrders.id, order.id))
+        .returning();
+      return updated;
+    });
+  }
+
+  /**
+   * Price, allocate and total each supplier's lines
+   * Suppliers and lines are processed in id order, so concurrent checkouts lock stock rows in the same order.
+   */
+  private async priceSuppliers(
+    workshop: Workshop,
+    items: CartItem[],
+    input: CartCheckout,
+    tx: Transaction
+  ): Promise<SupplierCheckout[]> {
+    const priced: Array<{ item: CartItem; price: ResolvedPrice }> = [];
+    for (const item of items) {
+      const price = await pricingService.resolveUnitPrice(item.partId, item.variantId, item.quantity, workshop.id, tx);
+      if (!price || price.line.part.moderationStatus !== 'approved') {
+        throw new CheckoutError('unavailable', "A product in your cart is no longer available");
+      }
+      priced.push({ item, price });
+    }
+
+    // Group by the listing's supplier (authoritative over cartItems.supplierId)
+    const bySupplier = new Map<string, Array<{ item: CartItem; price: ResolvedPrice }>>();
+    for (const line of priced) {
+      const supplierId = line.price.line.part.supplierId;
+      bySupplier.set(supplierId, [...(bySupplier.get(supplierId) || []), line]);
+    }
+
+    const supplierIds = Array.from(bySupplier.keys()).sort();
+    const supplierRows: Supplier[] = await tx.select().from(suppliers).where(inArray(suppliers.id, supplierIds));
+    const suppliersById = new Map(supplierRows.map(supplier => [supplier.id, supplier]));
+
+    const checkouts: SupplierCheckout[] = [];
+    for (const supplierId of supplierIds) {
+      const supplier = suppliersById.get(supplierId)!;
+      const group = bySupplier.get(supplierId)!.sort((a, b) =>
+        a.item.partId.localeCompare(b.item.partId) || (a.item.variantId || '').localeCompare(b.item.variantId || ''));
+
+      if (supplier.deliveryMethod !== 'both' && supplier.deliveryMethod !== input.deliveryType) {
+        throw new CheckoutError('delivery_unavailable', `${supplier.name} does not offer ${input.deliveryType} delivery`);
+      }
+
+      const lines: CheckoutLine[] = [];
+      for (const { item, price } of group) {
+        const allocation = await backorderService.allocateLine(item.partId, price.line.variant?.id ?? null, item.quantity, tx);
+        lines.push({ item, price, allocation });
+      }
+
+      const itemsTotal = lines.reduce((sum, line) => sum + Number(line.price.unitPrice) * line.item.quantity, 0);
+
+      const code = input.vouchers[supplierId];
+      const voucher = code
+        ? await promotionService.evaluateCode(supplierId, code, workshop.id, lines.map(line => ({
+            partId: line.item.partId,
+            category: line.price.line.part.category,
+            brand: line.price.line.part.brand,
+            unitPrice: Number(line.price.unitPrice),
+            quantity: line.item.quantity,
+          })), tx)
+        : null;
+
+      let distanceKm: number | null = null;
+      let deliveryCharge = 0;
+      if (input.deliveryType === 'runner') {
+        if (workshop.latitude === null || workshop.longitude === null) {
+          throw new CheckoutError('missing_location', "Set your workshop location to use runner delivery");
+        }
+        distanceKm = calculateDistance(
+          { latitude: Number(supplier.latitude), longitude: Number(supplier.longitude) },
+          { latitude: Number(workshop.latitude), longitude: Number(workshop.longitude) }
+        );
+        const itemCount = lines.reduce((sum, line) => sum + line.item.quantity, 0);
+        deliveryCharge = calculateDeliveryCharge(itemCount, distanceKm);
+      }
+
+      checkouts.push({
+        supplier,
+        lines,
+        voucher,
+        distanceKm,
+        totals: calculateOrderTotals({ itemsTotal, discountAmount: Number(voucher?.discountAmount ?? 0), deliveryCharge }),
+      });
+    }
+
+    return checkouts;
+  }
+
+  /**
+   * Create one supplier's order with its items, stock holds, voucher redemption and (when paid) escrow
+   */
+  private async createOrder(
+    workshop: Workshop,
+    userId: string,
+    checkout: SupplierCheckout,
+    input: CartCheckout,
+    tx: Transaction
+  ): Promise<CheckoutOrder> {
+    const { supplier, lines, voucher, totals } = checkout;
+    const paymentStatus: PaymentStatus = input.paymentMethod === 'wallet' ? 'paid' : 'pending';
+
+    const [order]: SupplierOrder[] = await tx
+      .insert(supplierOrders)
+      .values({
+        workshopId: workshop.id,
+        supplierId: supplier.id,
+        deliveryType: input.deliveryType,
+        paymentMethod: input.paymentMethod,
+        paymentStatus,
+        itemsTotal: totals.itemsTotal,
+        deliveryCharge: totals.deliveryCharge,
+        discountAmount: totals.discountAmount,
+        promotionId: voucher?.promotion.id ?? null,
+        voucherCode: voucher?.code ?? null,
+        totalAmount: totals.totalAmount,
+        distanceKm: checkout.distanceKm?.toFixed(2) ?? null,
+        deliveryAddress: input.deliveryType === 'runner' ? input.deliveryAddress || workshop.address : workshop.address,
+        notes: input.notes || null,
+      })
+      .returning();
+
+    const items: SupplierOrderItem[] = await tx
+      .insert(supplierOrderItems)
+      .values(lines.map(({ item, price, allocation }) => ({
+        orderId: order.id,
+        partId: item.partId,
+        variantId: price.line.variant?.id ?? null,
+        variantName: price.line.variantName,
+        quantity: item.quantity,
+        priceAtTime: price.unitPrice,
+        priceSource: price.source,
+        status: allocation.backorderQuantity > 0 ? 'backordered' as const : 'in_stock' as const,
+        backorderQuantity: allocation.backorderQuantity,
+        expectedRestockDate: allocation.expectedRestockDate,
+      })))
+      .returning();
+
+    await stockReservationService.reserveOrder(
+      order.id,
+      supplier.id,
+      lines
+        .filter(line => line.allocation.inStockQuantity > 0)
+        .map(line => ({ partId: line.item.partId, variantId: line.price.line.variant?.id ?? null, quantity: line.allocation.inStockQuantity })),
+      tx
+    );
+
+    if (voucher) {
+      await promotionService.redeem(voucher, workshop.id, order.id, tx);
+    }
+
+    if (paymentStatus === 'paid') {
+      await stockReservationService.commitOrder(order.id, tx);
+      await this.holdInEscrow(order, userId, supplier.name, totals, tx);
+    }
+
+    return { ...order, items };
+  }
+
+  /**
+   * Hold a paid order's amount in platformEscrow and log the payment
+   */
+  private async holdInEscrow(
+    order: SupplierOrder,
+    userId: string,
+    supplierName: string,
+    totals: OrderTotals,
+    tx: Transaction
+  ): Promise<void> {
+    await tx.insert(platformEscrow).values({
+      orderId: order.id,
+      workshopId: order.workshopId,
+      supplierId: order.supplierId,
+      totalAmount: totals.totalAmount,
+      partsAmount: totals.partsAmount,
+      discountAmount: totals.discountAmount,
+      deliveryAmount: totals.deliveryCharge,
+      platformFeePercent: totals.platformFeePercent,
+      platformFeeAmount: totals.platformFeeAmount,
+      supplierPayout: totals.supplierPayout,
+      runnerPayout: totals.runnerPayout,
+    });
+    await tx.insert(transactionLogs).values({
+      orderId: order.id,
+      transactionType: 'order_payment',
+      fromUserId: userId,
+      amount: totals.totalAmount,
+      platformCommission: totals.platformFeeAmount,
+      description: `Order payment to ${supplierName} (held in escrow)`,
+    });
+  }
+}
+
+export const checkoutService = new CheckoutService();
@@ -0,0 +1,603 @@
+import { db } from "../db";
+import {
+  cartItems,
+  partImageHashes,
+  partNumberLinks,
+  partNumbers,
+  parts,
+  productQuestions,
+  restockSubscriptions,
+  reviews,
+  savedListItems,
+  stockReservations,
+  suppliers,
+  type Part,
+  type PartNumberInput,
+} from "@shared/schema";
+import { and, asc, eq, inArray, ne, or, sql, type SQL } from "drizzle-orm";
+import { ListingMergeError } from "../errors";
+import { imageSearchService } from "./imageSearchService";
+import { partNumberService } from "./partNumberService";
+import { reviewService } from "./reviewService";
+
+/**
+ * Duplicate Listing Service - Finding the same part listed twice, and merging the copies
+ *
+ * Two listings are compared on:
+ * - SKU (alphanumerics only, case-insensitive)
+ * - Part numbers (normalized, as in PartNumberService)
+ * - Name (word overlap after dropping punctuation and filler words)
+ * - Vehicle fitment (same make/model with overlapping years) - supporting evidence only
+ * - Photos (perceptual hash similarity from ImageSearchService, once images are indexed)
+ * Each matching signal adds its weight; pairs scoring DUPLICATE_SCORE_THRESHOLD or more are reported.
+ *
+ * Merging keeps one listing and retires the other as 'merged': order items keep pointing at the
+ * retired listing, so order history is untouched, while carts, saved lists, restock alerts,
+ * open stock reservations, questions, reviews, part numbers, remaining stock and the SKU move over.
+ */
+
+// Score added by each matching signal (name is scaled by word overlap)
+const SIGNAL_WEIGHTS: Record<DuplicateSignal, number> = {
+  sku: 0.6,
+  part_number: 0.45,
+  image: 0.4,
+  name: 0.35,
+  fitment: 0.15,
+};
+
+// Minimum score reported as a possible duplicate
+const DUPLICATE_SCORE_THRESHOLD = 0.5;
+
+// Minimum word overlap (Jaccard) for names to count as matching
+const NAME_SIMILARITY_THRESHOLD = 0.75;
+
+// Listings loaded per database lookup
+const CANDIDATE_LIMIT = 200;
+
+// Words that say nothing about which part it is
+const NAME_STOPWORDS = new Set(['the', 'a', 'an', 'for', 'and', 'with', 'of', 'untuk', 'dan', 'dengan', 'new', 'baru', 'original', 'ori', 'genuine']);
+
+export type DuplicateSignal = 'sku' | 'part_number' | 'name' | 'fitment' | 'image';
+
+// Fields of a listing that duplicate detection looks at
+export type DuplicateCheckListing = Partial<Pick<Part, 'name' | 'sku' | 'vehicleMake' | 'vehicleModel' | 'vehicleYearFrom' | 'vehicleYearTo' | 'partCategory'>> & {
+  partNumbers?: Array<Pick<PartNumberInput, 'number'>>;
+};
+
+// Normalized form of a listing used for comparisons
+export interface ListingFingerprint {
+  nameTokens: string[];
+  skuKey: string | null;
+  numberKeys: string[];
+  make: string | null;
+  model: string | null;
+  yearFrom: number | null;
+  yearTo: number | null;
+}
+
+export interface DuplicateMatch {
+  score: number; // 0-1
+  signals: DuplicateSignal[];
+}
+
+export interface DuplicateCandidate extends DuplicateMatch {
+  partId: string;
+  supplierId: string;
+  supplierName: string;
+  sameSupplier: boolean; // Only same-supplier duplicates can be merged
+  garagehubCode: string;
+  name: string;
+  sku: string | null;
+  moderationStatus: Part['moderationStatus'];
+  imageSimilarity?: number;
+}
+
+type ListingSummary = Pick<Part, 'id' | 'garagehubCode' | 'name' | 'sku' | 'price' | 'stockQuantity' | 'moderationStatus' | 'createdAt'>;
+
+// Pair of the supplier's own listings that look like the same part (older listing first)
+export interface SupplierDuplicatePair extends DuplicateMatch {
+  listing: ListingSummary;
+  duplicate: ListingSummary;
+  imageSimilarity?: number;
+}
+
+export interface MergeResult {
+  kept: Part;
+  merged: Part;
+  moved: { cartItems: number; savedListItems: number; restockSubscriptions: number; reservations: number; questions: number; reviews: number };
+}
+
+function normalizeSku(sku: string | null | undefined): string | null {
+  const key = (sku || '').toUpperCase().replace(/[^A-Z0-9]/g, '');
+  return key.length > 0 ? key : null;
+}
+
+function nameTokens(name: string | null | undefined): string[] {
+  const words = (name || '').toLowerCase().split(/[^a-z0-9]+/).filter(word => word.length > 0 && !NAME_STOPWORDS.has(word));
+  return Array.from(new Set(words)).sort();
+}
+
+function jaccard(a: string[], b: string[]): number {
+  if (a.length === 0 || b.length === 0) {
+    return 0;
+  }
+  const setB = new Set(b);
+  const shared = a.filter(word => setB.has(word)).length;
+  return shared / (a.length + b.length - shared);
+}
+
+function yearsOverlap(a: ListingFingerprint, b: ListingFingerprint): boolean {
+  const aFrom = a.yearFrom ?? -Infinity;
+  const aTo = a.yearTo ?? Infinity;
+  const bFrom = b.yearFrom ?? -Infinity;
+  const bTo = b.yearTo ?? Infinity;
+  return aFrom <= bTo && bFrom <= aTo;
+}
+
+// Longest name word: the most selective one for candidate lookups
+function keyToken(tokens: string[]): string | null {
+  return tokens.reduce<string | null>((longest, token) => (token.length >= 3 && token.length > (longest?.length ?? 0) ? token : longest), null);
+}
+
+/**
+ * In-memory lookup of fingerprints by SKU, part number and key name word
+ * Used where a whole catalogue is compared at once (imports, the supplier's duplicate report).
+ */
+export class DuplicateIndex {
+  private fingerprints = new Map<string, ListingFingerprint>();
+  private buckets = new Map<string, string[]>();
+
+  private addToBucket(key: string, id: string) {
+    const bucket = this.buckets.get(key);
+    if (bucket) {
+      bucket.push(id);
+    } else {
+      this.buckets.set(key, [id]);
+    }
+  }
+
+  private keys(fingerprint: ListingFingerprint): string[] {
+    const token = keyToken(fingerprint.nameTokens);
+    return [
+      ...(fingerprint.skuKey ? [`sku:${fingerprint.skuKey}`] : []),
+      ...fingerprint.numberKeys.map(key => `number:${key}`),
+      ...(token ? [`name:${token}`] : []),
+    ];
+  }
+
+  add(id: string, fingerprint: ListingFingerprint) {
+    this.fingerprints.set(id, fingerprint);
+    for (const key of this.keys(fingerprint)) {
+      this.addToBucket(key, id);
+    }
+  }
+
+  get(id: string): ListingFingerprint | undefined {
+    return this.fingerprints.get(id);
+  }
+
+  /**
+   * Indexed listings scoring at least the threshold against the fingerprint, best first
+   */
+  match(fingerprint: ListingFingerprint, excludeId?: string): Array<{ id: string } & DuplicateMatch> {
+    const candidateIds = new Set(this.keys(fingerprint).flatMap(key => this.buckets.get(key) || []));
+    candidateIds.delete(excludeId as string);
+
+    const matches: Array<{ id: string } & DuplicateMatch> = [];
+    for (const id of Array.from(candidateIds)) {
+      const match = duplicateListingService.compare(fingerprint, this.fingerprints.get(id)!);
+      if (match.score >= DUPLICATE_SCORE_THRESHOLD) {
+        matches.push({ id, ...match });
+      }
+    }
+    return matches.sort((a, b) => b.score - a.score);
+  }
+}
+
+export class DuplicateListingService {
+  fingerprint(listing: DuplicateCheckListing): ListingFingerprint {
+    const numberKeys = (listing.partNumbers || [])
+      .map(partNumber => partNumberService.normalizePartNumber(partNumber.number))
+      .filter(key => key.length > 0);
+
+    return {
+      nameTokens: nameTokens(listing.name),
+      skuKey: normalizeSku(listing.sku),
+      numberKeys: Array.from(new Set(numberKeys)),
+      make: listing.vehicleMake?.trim().toLowerCase() || null,
+      model: listing.vehicleModel?.trim().toLowerCase() || null,
+      yearFrom: listing.vehicleYearFrom ?? null,
+      yearTo: listing.vehicleYearTo ?? null,
+    };
+  }
+
+  /**
+   * Score two listings
+   *
+   * @param imageSimilarity - Best photo similarity (0-100) when known; counts at DUPLICATE_SIMILARITY_THRESHOLD or more
+   */
+  compare(a: ListingFingerprint, b: ListingFingerprint, imageSimilarity?: number): DuplicateMatch {
+    const signals: DuplicateSignal[] = [];
+    let score = 0;
+
+    if (a.skuKey && a.skuKey === b.skuKey) {
+      signals.push('sku');
+      score += SIGNAL_WEIGHTS.sku;
+    }
+    if (a.numberKeys.some(key => b.numberKeys.includes(key))) {
+      signals.push('part_number');
+      score += SIGNAL_WEIGHTS.part_number;
+    }
+    const nameOverlap = jaccard(a.nameTokens, b.nameTokens);
+    if (nameOverlap >= NAME_SIMILARITY_THRESHOLD) {
+      signals.push('name');
+      score += SIGNAL_WEIGHTS.name * nameOverlap;
+    }
+    if (a.make && a.model && a.make === b.make && a.model === b.model && yearsOverlap(a, b)) {
+      signals.push('fitment');
+      score += SIGNAL_WEIGHTS.fitment;
+    }
+    if (imageSimilarity !== undefined) {
+      signals.push('image');
+      score += SIGNAL_WEIGHTS.image;
+    }
+
+    return { score: Math.min(1, Math.round(score * 100) / 100), signals };
+  }
+
+  /**
+   * Normalized part numbers per listing
+   */
+  private async loadNumberKeys(partIds: string[]): Promise<Map<string, string[]>> {
+    const byPart = new Map<string, string[]>();
+    if (partIds.length === 0) {
+      return byPart;
+    }
+
+    const rows = await db
+      .select({ partId: partNumberLinks.partId, normalizedNumber: partNumbers.normalizedNumber })
+      .from(partNumberLinks)
+      .innerJoin(partNumbers, eq(partNumberLinks.partNumberId, partNumbers.id))
+      .where(inArray(partNumberLinks.partId, partIds));
+
+    for (const row of rows) {
+      const list = byPart.get(row.partId) || [];
+      list.push(row.normalizedNumber);
+      byPart.set(row.partId, list);
+    }
+    return byPart;
+  }
+
+  private fingerprintOf(part: Part, numberKeys: string[] = []): ListingFingerprint {
+    return { ...this.fingerprint(part), numberKeys };
+  }
+
+  /**
+   * Listings in the marketplace that look like the given listing
+   * Covers the supplier's own listings (any status except merged) and other suppliers' live listings.
+   *
+   * @param excludePartId - The listing itself, when checking an existing listing
+   * @param imageMatches - Photo similarity per listing id, from ImageSearchService.findSimilarParts
+   */
+  async findDuplicates(
+    listing: DuplicateCheckListing,
+    options: { supplierId: string; excludePartId?: string; imageMatches?: Map<string, number>; limit?: number }
+  ): Promise<DuplicateCandidate[]> {
+    const fingerprint = this.fingerprint(listing);
+    const lookups: SQL[] = [];
+
+    if (fingerprint.skuKey) {
+      lookups.push(sql`upper(regexp_replace(coalesce(${parts.sku}, ''), '[^a-zA-Z0-9]', '', 'g')) = ${fingerprint.skuKey}`);
+    }
+    if (fingerprint.numberKeys.length > 0) {
+      lookups.push(inArray(parts.id, db
+        .select({ partId: partNumberLinks.partId })
+        .from(partNumberLinks)
+        .innerJoin(partNumbers, eq(partNumberLinks.partNumberId, partNumbers.id))
+        .where(inArray(partNumbers.normalizedNumber, fingerprint.numberKeys))));
+    }
+    const token = keyToken(fingerprint.nameTokens);
+    if (token) {
+      lookups.push(sql`lower(${parts.name}) like ${`%${token}%`}`);
+    }
+    const imageIds = Array.from(options.imageMatches?.keys() || []);
+    if (imageIds.length > 0) {
+      lookups.push(inArray(parts.id, imageIds));
+    }
+
+    if (lookups.length === 0) {
+      return [];
+    }
+
+    const rows = await db
+      .select({ part: parts, supplierName: suppliers.name })
+      .from(parts)
+      .innerJoin(suppliers, eq(parts.supplierId, suppliers.id))
+      .where(and(
+        or(...lookups),
+        ne(parts.moderationStatus, 'merged'),
+        or(eq(parts.supplierId, options.supplierId), eq(parts.moderationStatus, 'approved')),
+        options.excludePartId ? ne(parts.id, options.excludePartId) : undefined
+      ))
+      .limit(CANDIDATE_LIMIT);
+
+    const numberKeys = await this.loadNumberKeys(rows.map(row => row.part.id));
+
+    const candidates: DuplicateCandidate[] = [];
+    for (const { part, supplierName } of rows) {
+      const imageSimilarity = options.imageMatches?.get(part.id);
+      const match = this.compare(fingerprint, this.fingerprintOf(part, numberKeys.get(part.id)), imageSimilarity);
+      if (match.score < DUPLICATE_SCORE_THRESHOLD) {
+        continue;
+      }
+      candidates.push({
+        ...match,
+        partId: part.id,
+        supplierId: part.supplierId,
+        supplierName,
+        sameSupplier: part.supplierId === options.supplierId,
+        garagehubCode: part.garagehubCode,
+        name: part.name,
+        sku: part.sku,
+        moderationStatus: part.moderationStatus,
+        imageSimilarity,
+      });
+    }
+
+    // Own listings first (mergeable), then by score
+    return candidates
+      .sort((a, b) => Number(b.sameSupplier) - Number(a.sameSupplier) || b.score - a.score)
+      .slice(0, options.limit ?? 20);
+  }
+
+  /**
+   * Possible duplicates of an existing listing, including photo matches
+   *
+   * @returns Undefined when the listing does not exist or was merged
+   */
+  async findDuplicatesOfPart(partId: string): Promise<DuplicateCandidate[] | undefined> {
+    const [part] = await db.select().from(parts).where(eq(parts.id, partId));
+    if (!part || part.moderationStatus === 'merged') {
+      return undefined;
+    }
+
+    const [numberKeys, imageMatches] = await Promise.all([
+      this.loadNumberKeys([partId]),
+      imageSearchService.findSimilarParts(partId),
+    ]);
+
+    return this.findDuplicates(
+      { ...part, partNumbers: (numberKeys.get(partId) || []).map(number => ({ number })) },
+      {
+        supplierId: part.supplierId,
+        excludePartId: partId,
+        imageMatches: new Map(imageMatches.map(match => [match.partId, match.similarity])),
+      }
+    );
+  }
+
+  /**
+   * Pairs of the supplier's own listings that look like the same part, best first
+   */
+  async findSupplierDuplicates(supplierId: string): Promise<SupplierDuplicatePair[]> {
+    const ownParts: Part[] = await db
+      .select()
+      .from(parts)
+      .where(and(eq(parts.supplierId, supplierId), ne(parts.moderationStatus, 'merged')))
+      .orderBy(asc(parts.createdAt));
+
+    const numberKeys = await this.loadNumberKeys(ownParts.map(part => part.id));
+    const imagePairs = await imageSearchService.findSimilarPairs(supplierId);
+    const imageSimilarity = new Map(imagePairs.map(pair => [[pair.partId, pair.otherPartId].sort().join('|'), pair.similarity]));
+
+    const index = new DuplicateIndex();
+    const byId = new Map<string, Part>();
+    const order = new Map<string, number>();
+    ownParts.forEach((part, position) => {
+      byId.set(part.id, part);
+      order.set(part.id, position);
+      index.add(part.id, this.fingerprintOf(part, numberKeys.get(part.id)));
+    });
+
+    const summary = (part: Part): ListingSummary => ({
+      id: part.id,
+      garagehubCode: part.garagehubCode,
+      name: part.name,
+      sku: part.sku,
+      price: part.price,
+      stockQuantity: part.stockQuantity,
+      moderationStatus: part.moderationStatus,
+      createdAt: part.createdAt,
+    });
+
+    // Pairs found by SKU, part number or name, then pairs only the photos connect
+    const pairs = new Map<string, SupplierDuplicatePair>();
+    const addPair = (aId: string, bId: string) => {
+      const key = [aId, bId].sort().join('|');
+      if (pairs.has(key) || !byId.has(aId) || !byId.has(bId)) {
+        return;
+      }
+      const similarity = imageSimilarity.get(key);
+      const match = this.compare(index.get(aId)!, index.get(bId)!, similarity);
+      if (match.score < DUPLICATE_SCORE_THRESHOLD) {
+        return;
+      }
+      const [older, newer] = order.get(aId)! < order.get(bId)! ? [aId, bId] : [bId, aId];
+      pairs.set(key, { ...match, listing: summary(byId.get(older)!), duplicate: summary(byId.get(newer)!), imageSimilarity: similarity });
+    };
+
+    for (const part of ownParts) {
+      for (const match of index.match(index.get(part.id)!, part.id)) {
+        addPair(part.id, match.id);
+      }
+    }
+    for (const pair of imagePairs) {
+      addPair(pair.partId, pair.otherPartId);
+    }
+
+    return Array.from(pairs.values()).sort((a, b) => b.score - a.score);
+  }
+
+  /**
+   * Merge a duplicate into the listing being kept (same supplier only)
+   * The duplicate stays in the database as 'merged' so past orders still resolve;
+   * everything buyers can still act on moves to the kept listing.
+   *
+   * @throws ListingMergeError
+   */
+  async merge(supplierId: string, keepId: string, duplicateId: string): Promise<MergeResult> {
+    if (keepId === duplicateId) {
+      throw new ListingMergeError('same_listing', 'A listing cannot be merged into itself');
+    }
+
+    return await db.transaction(async (tx) => {
+      const rows: Part[] = await tx
+        .select()
+        .from(parts)
+        .where(and(inArray(parts.id, [keepId, duplicateId]), eq(parts.supplierId, supplierId)))
+        .for('update');
+      const keep = rows.find(part => part.id === keepId);
+      const duplicate = rows.find(part => part.id === duplicateId);
+
+      if (!keep || !duplicate) {
+        throw new ListingMergeError('not_found', 'Both listings must belong to this supplier');
+      }
+      if (keep.moderationStatus === 'merged' || duplicate.moderationStatus === 'merged') {
+        throw new ListingMergeError('already_merged', 'One of the listings was already merged');
+      }
+      // Variant-specific carts, lists and reservations have no counterpart on the other listing
+      if (keep.hasVariants || duplicate.hasVariants) {
+        throw new ListingMergeError('has_variants', 'Listings with variants cannot be merged');
+      }
+
+      // Carts holding both: fold the duplicate's quantity into the kept line (re-priced at checkout)
+      const mergedCarts = await tx
+        .select({ cartId: cartItems.cartId, quantity: sql<number>`sum(${cartItems.quantity})::int` })
+        .from(cartItems)
+        .where(and(
+          eq(cartItems.partId, duplicateId),
+          inArray(cartItems.cartId, tx.select({ cartId: cartItems.cartId }).from(cartItems).where(eq(cartItems.partId, keepId)))
+        ))
+        .groupBy(cartItems.cartId);
+      for (const { cartId, quantity } of mergedCarts) {
+        await tx
+          .update(cartItems)
+          .set({ quantity: sql`${cartItems.quantity} + ${quantity}`, unitPrice: null, priceSource: null })
+          .where(and(eq(cartItems.cartId, cartId), eq(cartItems.partId, keepId)));
+        await tx
+          .delete(cartItems)
+          .where(and(eq(cartItems.cartId, cartId), eq(cartItems.partId, duplicateId)));
+      }
+      const movedCart = await tx
+        .update(cartItems)
+        .set({ partId: keepId, unitPrice: null, priceSource: null })
+        .where(eq(cartItems.partId, duplicateId))
+        .returning({ id: cartItems.id });
+
+      // Lists and workshops already following the kept listing: drop the duplicate's row instead of doubling it
+      await tx
+        .delete(savedListItems)
+        .where(and(
+          eq(savedListItems.partId, duplicateId),
+          inArray(savedListItems.listId, tx.select({ listId: savedListItems.listId }).from(savedListItems).where(eq(savedListItems.partId, keepId)))
+        ));
+      await tx
+        .delete(restockSubscriptions)
+        .where(and(
+          eq(restockSubscriptions.partId, duplicateId),
+          eq(restockSubscriptions.status, 'active'),
+          inArray(restockSubscriptions.workshopId, tx
+            .select({ workshopId: restockSubscriptions.workshopId })
+            .from(restockSubscriptions)
+            .where(and(eq(restockSubscriptions.partId, keepId), eq(restockSubscriptions.status, 'active'))))
+        ));
+
+      const movedSaved = await tx
+        .update(savedListItems)
+        .set({ partId: keepId })
+        .where(eq(savedListItems.partId, duplicateId))
+        .returning({ id: savedListItems.id });
+
+      const movedRestock = await tx
+        .update(restockSubscriptions)
+        .set({ partId: keepId })
+        .where(eq(restockSubscriptions.partId, duplicateId))
+        .returning({ id: restockSubscriptions.id });
+
+      // Unpaid orders' held stock is returned to the kept listing when released
+      const movedReservations = await tx
+        .update(stockReservations)
+        .set({ partId: keepId })
+        .where(and(eq(stockReservations.partId, duplicateId), eq(stockReservations.status, 'active')))
+        .returning({ id: stockReservations.id });
+
+      const movedQuestions = await tx
+        .update(productQuestions)
+        .set({ partId: keepId })
+        .where(eq(productQuestions.partId, duplicateId))
+        .returning({ id: productQuestions.id });
+
+      // A reviewer who reviewed both keeps only the review on the kept listing
+      const movedReviews = await tx
+        .update(reviews)
+        .set({ targetId: keepId })
+        .where(and(
+          eq(reviews.targetType, 'product'),
+          eq(reviews.targetId, duplicateId),
+          sql`${reviews.userId} not in (select ${reviews.userId} from ${reviews} where ${reviews.targetType} = 'product' and ${reviews.targetId} = ${keepId})`
+        ))
+        .returning({ id: reviews.id });
+
+      // Part numbers: the kept listing gets the union
+      const duplicateLinks = await tx
+        .select({ partNumberId: partNumberLinks.partNumberId })
+        .from(partNumberLinks)
+        .where(eq(partNumberLinks.partId, duplicateId));
+      if (duplicateLinks.length > 0) {
+        await tx
+          .insert(partNumberLinks)
+          .values(duplicateLinks.map((link: { partNumberId: string }) => ({ partId: keepId, partNumberId: link.partNumberId })))
+          .onConflictDoNothing();
+      }
+
+      // SKUs are unique marketplace-wide: the duplicate gives up its SKU (to the kept listing if it has none)
+      const now = new Date();
+      const [merged] = await tx
+        .update(parts)
+        .set({ moderationStatus: 'merged', mergedIntoId: keepId, sku: null, stockQuantity: 0, moderatedAt: now, updatedAt: now })
+        .where(eq(parts.id, duplicateId))
+        .returning();
+
+      const [kept] = await tx
+        .update(parts)
+        .set({
+          stockQuantity: keep.stockQuantity + Math.max(duplicate.stockQuantity, 0),
+          sku: keep.sku ?? duplicate.sku,
+          updatedAt: now,
+        })
+        .where(eq(parts.id, keepId))
+        .returning();
+
+      // The merged listing no longer appears in image search
+      await tx.delete(partImageHashes).where(eq(partImageHashes.partId, duplicateId));
+
+      await reviewService.refreshAggregate('product', keepId, tx);
+      await reviewService.refreshAggregate('product', duplicateId, tx);
+
+      return {
+        kept,
+        merged,
+        moved: {
+          cartItems: movedCart.length + mergedCarts.length,
+          savedListItems: movedSaved.length,
+          restockSubscriptions: movedRestock.length,
+          reservations: movedReservations.length,
+          questions: movedQuestions.length,
+          reviews: movedReviews.length,
+        },
+      };
+    });
+  }
+}
+
+export const duplicateListingService = new DuplicateListingService();
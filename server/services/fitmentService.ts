@@ -0,0 +1,173 @@
+import { db } from "../db";
+import { parts, suppliers, type Part, type PartCategory } from "@shared/schema";
+import { and, eq, sql, type SQL } from "drizzle-orm";
+import { buildKeysetQuery, parsePageRequest, toCursorPage, type SortableKey } from "../utils/pagination";
+
+/**
+ * Fitment Service - Marketplace-wide "parts that fit this car" lookup
+ *
+ * A part fits a vehicle when either:
+ * - Its primary fitment columns (vehicleMake/vehicleModel/vehicleYearFrom/vehicleYearTo) match, or
+ * - Any entry in its `compatibility` JSONB array (see compatibilityItemSchema) matches
+ *
+ * Year matching is range overlap: a missing yearFrom is open-ended to the past,
+ * a missing yearTo (e.g. current model still in production) is open-ended to the future.
+ *
+ * Results are cursor-paginated (server/utils/pagination.ts) in category then price order, so each
+ * page's groups continue where the previous page stopped.
+ */
+
+// Fixed page order: grouping needs rows ordered by category
+const FITMENT_SORT_KEYS: Record<string, SortableKey> = {
+  category: { expression: sql`${parts.partCategory}`, defaultDirection: 'asc' },
+  price: { expression: sql`${parts.price}`, defaultDirection: 'asc', valueType: 'number' },
+};
+
+export interface FitmentQuery {
+  make: string;
+  model: string;
+  yearFrom: number;
+  yearTo: number;
+  partCategory?: PartCategory;
+  inStockOnly?: boolean;
+}
+
+export interface FitmentPart extends Part {
+  supplier: {
+    id: string;
+    name: string;
+    state: string;
+    city: string;
+    rating: string;
+    isVerified: boolean;
+  };
+}
+
+export interface FitmentGroup {
+  partCategory: PartCategory;
+  count: number;
+  parts: FitmentPart[];
+}
+
+export interface FitmentResult {
+  vehicle: { make: string; model: string; yearFrom: number; yearTo: number };
+  total: number; // All matching parts, across pages
+  groups: FitmentGroup[]; // This page's parts (count = parts of the group on this page)
+  nextCursor: string | null;
+}
+
+export class FitmentService {
+  /**
+   * Build the WHERE fragment matching parts that fit the requested vehicle
+   * Exposed so other marketplace queries (search, facets) can reuse the same fitment rules
+   */
+  buildFitmentCondition(make: string, model: string, yearFrom: number, yearTo: number): SQL {
+    const makeLower = make.trim().toLowerCase();
+    const modelLower = model.trim().toLowerCase();
+
+    const primaryMatch = sql`(
+      LOWER(${parts.vehicleMake}) = ${makeLower}
+      AND LOWER(${parts.vehicleModel}) = ${modelLower}
+      AND (${parts.vehicleYearFrom} IS NULL OR ${parts.vehicleYearFrom} <= ${yearTo})
+      AND (${parts.vehicleYearTo} IS NULL OR ${parts.vehicleYearTo} >= ${yearFrom})
+    )`;
+
+    const compatibilityMatch = sql`(
+      jsonb_typeof(${parts.compatibility}) = 'array'
+      AND EXISTS (
+        SELECT 1 FROM jsonb_array_elements(${parts.compatibility}) AS fit
+        WHERE LOWER(fit->>'make') = ${makeLower}
+          AND LOWER(fit->>'model') = ${modelLower}
+          AND (fit->>'yearFrom' IS NULL OR (fit->>'yearFrom')::int <= ${yearTo})
+          AND (fit->>'yearTo' IS NULL OR (fit->>'yearTo')::int >= ${yearFrom})
+      )
+    )`;
+
+    return sql`(${primaryMatch} OR ${compatibilityMatch})`;
+  }
+
+  /**
+   * Find parts across all suppliers that fit the vehicle, grouped by partCategory
+   *
+   * @param query - Vehicle make/model and year range (single year: yearFrom === yearTo)
+   * @param page - limit and cursor query params
+   * @returns One page of matching parts grouped by partCategory, cheapest first within each group
+   */
+  async findFittingParts(query: FitmentQuery, page: { limit?: unknown; cursor?: unknown } = {}): Promise<FitmentResult> {
+    const conditions: SQL[] = [
+      this.buildFitmentCondition(query.make, query.model, query.yearFrom, query.yearTo),
+      eq(parts.moderationStatus, 'approved'),
+    ];
+
+    if (query.partCategory) {
+      conditions.push(eq(parts.partCategory, query.partCategory));
+    }
+
+    if (query.inStockOnly) {
+      conditions.push(sql`${parts.stockQuantity} > 0`);
+    }
+
+    const pageRequest = parsePageRequest({ limit: page.limit, cursor: page.cursor }, FITMENT_SORT_KEYS, 'category,price');
+    const keyset = buildKeysetQuery(pageRequest, FITMENT_SORT_KEYS, sql`${parts.id}`);
+
+    const [{ total }] = await db
+      .select({ total: sql<number>`count(*)::int` })
+      .from(parts)
+      .where(and(...conditions));
+
+    const rows = await db
+      .select({
+        sortValues: keyset.sortValues,
+        part: parts,
+        supplier: {
+          id: suppliers.id,
+          name: suppliers.name,
+          state: suppliers.state,
+          city: suppliers.city,
+          rating: suppliers.rating,
+          isVerified: suppliers.isVerified,
+        },
+      })
+      .from(parts)
+      .innerJoin(suppliers, eq(parts.supplierId, suppliers.id))
+      .where(and(...conditions, keyset.where))
+      .orderBy(...keyset.orderBy)
+      .limit(pageRequest.limit + 1);
+
+    const pageRows = toCursorPage(
+      rows,
+      pageRequest.limit,
+      row => [...pageRequest.sort.map((_, i) => row.sortValues[`sort${i}`]), row.part.id]
+    );
+
+    // Group by partCategory (rows are already ordered by category, then price)
+    const groupMap = new Map<PartCategory, FitmentPart[]>();
+    for (const row of pageRows.items) {
+      const category = row.part.partCategory;
+      if (!groupMap.has(category)) {
+        groupMap.set(category, []);
+      }
+      groupMap.get(category)!.push({ ...row.part, supplier: row.supplier });
+    }
+
+    const groups: FitmentGroup[] = Array.from(groupMap.entries()).map(([partCategory, groupParts]) => ({
+      partCategory,
+      count: groupParts.length,
+      parts: groupParts,
+    }));
+
+    return {
+      vehicle: {
+        make: query.make.trim(),
+        model: query.model.trim(),
+        yearFrom: query.yearFrom,
+        yearTo: query.yearTo,
+      },
+      total,
+      groups,
+      nextCursor: pageRows.nextCursor,
+    };
+  }
+}
+
+export const fitmentService = new FitmentService();
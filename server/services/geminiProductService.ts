@@ -1,210 +1,227 @@
-import { GoogleGenerativeAI } from "@google/generative-ai";
+import { createHash } from "crypto";
+import { DateTime } from "luxon";
+import { z } from "zod";
+import { db } from "../db";
+import { aiExtractionCache, aiExtractionUsage, suppliers, DEFAULT_PART_CATEGORY, type AiExtractionKind, type PartCategory } from "@shared/schema";
+import { and, eq, gte, sql } from "drizzle-orm";
+import type { NodePgDatabase } from "drizzle-orm/node-postgres";
+import { AiExtractionError } from "../errors";
+import { createProductExtractionProvider, type ProductExtractionProvider } from "./productExtractionProviders";
+import { taxonomyService } from "./taxonomyService";
+
+/**
+ * Product extraction from photos (AI listing assistant)
+ *
+ * The AI call itself is delegated to a ProductExtractionProvider (Gemini, or the offline stub).
+ * Provider output is validated before use, cached by image hash and provider, and metered per
+ * supplier: each supplier gets AI_EXTRACTION_DAILY_QUOTA uncached extractions per day
+ * (Asia/Kuala_Lumpur); cached results are free.
+ */
+
+// Uncached extractions per supplier per day (override with AI_EXTRACTION_DAILY_QUOTA)
+const DEFAULT_DAILY_QUOTA = 50;
 
 export interface ExtractedProductData {
   name: string;
   description: string;
-  category: string;
-  partCategory: 'engine' | 'transmission' | 'brake' | 'suspension' | 'electrical' | 'cooling' | 'body' | 'interior' | 'exterior' | 'wheel_tyre' | 'fluids' | 'service';
+  category: string; // Taxonomy category label when the AI's category maps onto the taxonomy
+  partCategory: PartCategory;
   price: string;
   stockQuantity: number;
   imageUrl?: string;
 }
 
+export interface ExtractionOptions {
+  supplierId?: string; // Metered against this supplier's quota; omit for unmetered (admin/internal) use
+}
+
+export interface ExtractionUsageSummary {
+  used: number;
+  limit: number;
+  remaining: number;
+}
+
+// Provider output for a product photo; missing fields fall back to neutral defaults
+const extractedProductResponseSchema = z.object({
+  name: z.string().trim().max(255).default(""),
+  description: z.string().trim().max(2000).default(""),
+  category: z.string().trim().max(100).default(""),
+  price: z.preprocess(value => value ?? 0, z.coerce.number().nonnegative().max(1000000)),
+  stockQuantity: z.preprocess(value => value ?? 0, z.coerce.number().int().nonnegative().max(1000000)),
+});
+
+type ExtractedProductResponse = z.infer<typeof extractedProductResponseSchema>;
+
 export class GeminiProductService {
-  private genAI: GoogleGenerativeAI | null = null;
+  private provider: ProductExtractionProvider | null = null;
+
+  private ensureProvider(): ProductExtractionProvider {
+    if (!this.provider) {
+      this.provider = createProductExtractionProvider();
+    }
+    return this.provider;
+  }
 
   /**
-   * Lazy initialization of Gemini client using Replit AI Integrations
-   * Uses AI_INTEGRATIONS_GEMINI_API_KEY and AI_INTEGRATIONS_GEMINI_BASE_URL
+   * Swap the extraction provider (tests, scripts)
    */
-  private ensureClient() {
-    if (this.genAI) {
-      return this.genAI;
-    }
+  setProvider(provider: ProductExtractionProvider) {
+    this.provider = provider;
+  }
 
-    const apiKey = process.env.AI_INTEGRATIONS_GEMINI_API_KEY;
-    
-    if (!apiKey) {
-      throw new Error("AI_INTEGRATIONS_GEMINI_API_KEY environment variable is required for AI features");
-    }
+  private get dailyQuota(): number {
+    const configured = parseInt(process.env.AI_EXTRACTION_DAILY_QUOTA || '');
+    return isNaN(configured) || configured < 0 ? DEFAULT_DAILY_QUOTA : configured;
+  }
+
+  /**
+   * Uncached extractions the supplier has used today
+   */
+  async getUsage(supplierId: string, tx?: NodePgDatabase | any): Promise<ExtractionUsageSummary> {
+    const database = tx || db;
+    const startOfDay = DateTime.now().setZone('Asia/Kuala_Lumpur').startOf('day').toJSDate();
+    const [{ count }] = await database
+      .select({ count: sql<number>`count(*)::int` })
+      .from(aiExtractionUsage)
+      .where(and(
+        eq(aiExtractionUsage.supplierId, supplierId),
+        eq(aiExtractionUsage.cached, false),
+        gte(aiExtractionUsage.createdAt, startOfDay)
+      ));
+
+    const limit = this.dailyQuota;
+    return { used: count, limit, remaining: Math.max(limit - count, 0) };
+  }
 
-    this.genAI = new GoogleGenerativeAI(apiKey);
+  /**
+   * Take one of the supplier's uncached extractions for today
+   * The supplier row is locked while counting, so concurrent requests cannot both take the last one.
+   *
+   * @returns ID of the usage row (deleted again if the provider call fails)
+   * @throws AiExtractionError 'quota_exceeded'
+   */
+  private async reserveQuota(supplierId: string, kind: AiExtractionKind, provider: string, imageHash: string): Promise<string> {
+    return await db.transaction(async (tx) => {
+      await tx.select({ id: suppliers.id }).from(suppliers).where(eq(suppliers.id, supplierId)).for('update');
+
+      const usage = await this.getUsage(supplierId, tx);
+      if (usage.remaining <= 0) {
+        throw new AiExtractionError('quota_exceeded', `Daily AI extraction limit of ${usage.limit} reached`);
+      }
 
-    return this.genAI;
+      const [row] = await tx
+        .insert(aiExtractionUsage)
+        .values({ supplierId, kind, provider, imageHash, cached: false })
+        .returning({ id: aiExtractionUsage.id });
+      return row.id;
+    });
   }
 
   /**
-   * Retry helper with exponential backoff
+   * Serve from the cache, or take a quota slot, call the provider and cache its result
    */
-  private async retryWithBackoff<T>(
-    fn: () => Promise<T>,
-    maxRetries: number = 3,
-    initialDelay: number = 1000
+  private async runExtraction<T>(
+    kind: AiExtractionKind,
+    imageData: string,
+    options: ExtractionOptions,
+    extract: (provider: ProductExtractionProvider) => Promise<T>
   ): Promise<T> {
-    let lastError: Error | null = null;
-    
-    for (let attempt = 0; attempt < maxRetries; attempt++) {
-      try {
-        return await fn();
-      } catch (error: any) {
-        lastError = error;
-        
-        // Don't retry on client errors (4xx)
-        if (error.status && error.status >= 400 && error.status < 500) {
-          throw error;
-        }
-
-        // Calculate backoff delay
-        const delay = initialDelay * Math.pow(2, attempt);
-        console.warn(`[GeminiProductService] Attempt ${attempt + 1} failed, retrying in ${delay}ms...`);
-        
-        await new Promise(resolve => setTimeout(resolve, delay));
+    const provider = this.ensureProvider();
+    const imageHash = createHash('sha256').update(imageData).digest('hex');
+
+    const [cachedEntry] = await db
+      .select()
+      .from(aiExtractionCache)
+      .where(and(
+        eq(aiExtractionCache.imageHash, imageHash),
+        eq(aiExtractionCache.kind, kind),
+        eq(aiExtractionCache.provider, provider.name)
+      ));
+
+    if (cachedEntry) {
+      if (options.supplierId) {
+        await db.insert(aiExtractionUsage).values({ supplierId: options.supplierId, kind, provider: provider.name, imageHash, cached: true });
+      }
+      return cachedEntry.result as T;
+    }
+
+    const usageId = options.supplierId
+      ? await this.reserveQuota(options.supplierId, kind, provider.name, imageHash)
+      : null;
+
+    let result: T;
+    try {
+      result = await extract(provider);
+    } catch (error) {
+      // Failed calls do not count against the quota
+      if (usageId) {
+        await db.delete(aiExtractionUsage).where(eq(aiExtractionUsage.id, usageId));
+      }
+      if (error instanceof AiExtractionError) {
+        throw error;
       }
+      console.error(`[GeminiProductService] ${kind === 'product' ? 'Image analysis' : 'Text extraction'} failed:`, error);
+      throw new AiExtractionError('provider_failed', kind === 'product'
+        ? "Failed to analyze product image with AI"
+        : "Failed to extract text from image");
     }
 
-    throw lastError || new Error("All retry attempts failed");
+    await db
+      .insert(aiExtractionCache)
+      .values({ imageHash, kind, provider: provider.name, result })
+      .onConflictDoNothing();
+    return result;
   }
 
   /**
-   * Analyze product image and extract details using Gemini AI
+   * Analyze product image and extract details
    * @param imageData Base64 encoded image data
    * @param mimeType Image MIME type (e.g., 'image/jpeg', 'image/png')
    * @returns Extracted product information
+   * @throws AiExtractionError 'quota_exceeded', 'invalid_response' or 'provider_failed'
    */
-  async analyzeProductImage(imageData: string, mimeType: string): Promise<ExtractedProductData> {
-    const genAI = this.ensureClient();
-    
-    return this.retryWithBackoff(async () => {
-      try {
-      const prompt = `
-You are a product recognition AI for an automotive parts marketplace. 
-Analyze this automotive product image and extract the following information in JSON format:
-
-{
-  "name": "Product name (e.g., 'Brake Pads Front', 'Oil Filter')",
-  "description": "Detailed product description (2-3 sentences about features, compatibility, quality)",
-  "category": "Product category (e.g., 'Brakes', 'Filters', 'Engine Parts', 'Electrical', 'Suspension')",
-  "price": "Estimated price in RM (Malaysian Ringgit as decimal string, e.g., '89.90')",
-  "stockQuantity": "Estimated typical stock quantity as integer (e.g., 50, 100, 200)"
-}
-
-Important guidelines:
-- Be specific with product names (include part position like Front/Rear if visible)
-- Price should be realistic for Malaysian automotive market
-- Description should highlight key features and compatibility
-- If you cannot identify the product clearly, provide best estimates based on visible details
-- Return ONLY valid JSON, no additional text or explanation
-`;
-
-      const model = genAI.getGenerativeModel({ model: "gemini-1.5-flash" });
-      const result = await model.generateContent([
-        prompt,
-        {
-          inlineData: {
-            mimeType,
-            data: imageData,
-          },
-        },
-      ]);
-
-      const response = result.response;
-      const text = response.text() || "";
-
-      // Parse JSON response
-      const jsonMatch = text.match(/\{[\s\S]*\}/);
-      if (!jsonMatch) {
-        throw new Error("Failed to extract JSON from AI response");
-      }
+  async analyzeProductImage(imageData: string, mimeType: string, options: ExtractionOptions = {}): Promise<ExtractedProductData> {
+    const taxonomy = await taxonomyService.getResolver();
 
-      const extractedData = JSON.parse(jsonMatch[0]);
+    const extracted = await this.runExtraction<ExtractedProductResponse>('product', imageData, options, async (provider) => {
+      const categoryLabels = taxonomy.tree(false).categories.map(category => category.labelEn);
+      const output = await provider.analyzeImage(imageData, mimeType, categoryLabels);
 
-      // Validate and normalize data
-      const price = parseFloat(extractedData.price || '0');
-      const stockQuantity = parseInt(extractedData.stockQuantity || '0');
-
-      // Validate numeric fields
-      if (isNaN(price) || price < 0) {
-        throw new Error("AI returned invalid price value");
-      }
-      if (isNaN(stockQuantity) || stockQuantity < 0) {
-        throw new Error("AI returned invalid stock quantity");
+      const parsed = extractedProductResponseSchema.safeParse(output);
+      if (!parsed.success) {
+        console.error("[GeminiProductService] Invalid extraction response:", parsed.error.flatten().fieldErrors);
+        throw new AiExtractionError('invalid_response', "AI returned an invalid product description");
       }
-
-      // Smart mapping for partCategory
-      const partCategory = this.mapCategoryToPartCategory(extractedData.category || "service");
-
-      // Ensure non-empty category (required by schema)
-      const category = (extractedData.category && extractedData.category.trim().length > 0) 
-        ? extractedData.category.trim()
-        : "General";
-
-      return {
-        name: extractedData.name || "Unknown Product",
-        description: extractedData.description || "Product details extracted by AI",
-        category,
-        partCategory,
-        price: price.toFixed(2),
-        stockQuantity,
-        imageUrl: extractedData.imageUrl || "",
-      };
-    } catch (error) {
-      console.error("[GeminiProductService] Image analysis failed:", error);
-      throw new Error("Failed to analyze product image with AI");
-    }
+      return parsed.data;
     });
-  }
 
-  /**
-   * Map category string to partCategory enum
-   */
-  private mapCategoryToPartCategory(category: string): 'engine' | 'transmission' | 'brake' | 'suspension' | 'electrical' | 'cooling' | 'body' | 'interior' | 'exterior' | 'wheel_tyre' | 'fluids' | 'service' {
-    const lower = category.toLowerCase();
-    
-    if (lower.includes('engine') || lower.includes('motor')) return 'engine';
-    if (lower.includes('transmission') || lower.includes('gearbox')) return 'transmission';
-    if (lower.includes('brake') || lower.includes('pad')) return 'brake';
-    if (lower.includes('suspension') || lower.includes('shock')) return 'suspension';
-    if (lower.includes('electrical') || lower.includes('battery') || lower.includes('alternator')) return 'electrical';
-    if (lower.includes('cooling') || lower.includes('radiator')) return 'cooling';
-    if (lower.includes('body')) return 'body';
-    if (lower.includes('interior') || lower.includes('seat')) return 'interior';
-    if (lower.includes('exterior') || lower.includes('bumper')) return 'exterior';
-    if (lower.includes('wheel') || lower.includes('tyre') || lower.includes('tire')) return 'wheel_tyre';
-    if (lower.includes('fluid') || lower.includes('oil') || lower.includes('coolant')) return 'fluids';
-    if (lower.includes('service') || lower.includes('filter')) return 'service';
-    
-    return 'service'; // Default
+    // Map the AI's category onto the taxonomy; unmapped categories are kept as free text
+    // (done per request, so cached results follow taxonomy changes)
+    const match = taxonomy.resolveCategory(extracted.category);
+    const category = match?.category.labelEn || extracted.category || "General";
+    const partCategory = match?.partCategory ?? DEFAULT_PART_CATEGORY;
+
+    return {
+      name: extracted.name || "Unknown Product",
+      description: extracted.description || "Product details extracted by AI",
+      category,
+      partCategory,
+      price: extracted.price.toFixed(2),
+      stockQuantity: extracted.stockQuantity,
+      imageUrl: "",
+    };
   }
 
   /**
    * Extract text from product label/packaging image (OCR)
    * Useful for extracting SKU, part numbers, specifications
+   * @throws AiExtractionError 'quota_exceeded' or 'provider_failed'
    */
-  async extractProductText(imageData: string, mimeType: string): Promise<string> {
-    const genAI = this.ensureClient();
-    
-    return this.retryWithBackoff(async () => {
-      try {
-        const prompt = "Extract all visible text from this product image, including SKU, part numbers, and specifications. Return only the extracted text.";
-
-        const model = genAI.getGenerativeModel({ model: "gemini-1.5-flash" });
-        const result = await model.generateContent([
-          prompt,
-          {
-            inlineData: {
-              mimeType,
-              data: imageData,
-            },
-          },
-        ]);
-
-        const response = result.response;
-        return response.text();
-      } catch (error) {
-        console.error("[GeminiProductService] Text extraction failed:", error);
-        throw new Error("Failed to extract text from image");
-      }
-    });
+  async extractProductText(imageData: string, mimeType: string, options: ExtractionOptions = {}): Promise<string> {
+    const { text } = await this.runExtraction<{ text: string }>('text', imageData, options, async (provider) => ({
+      text: await provider.extractText(imageData, mimeType),
+    }));
+    return text;
   }
 }
 
@@ -0,0 +1,243 @@
+import { db } from "../db";
+import {
+  halfcutUnits,
+  parts,
+  type HalfcutComponentInput,
+  type HalfcutUnit,
+  type HalfcutUnitStatus,
+  type InsertHalfcutUnit,
+  type Part,
+  type Supplier,
+  type UpdateHalfcutUnit,
+} from "@shared/schema";
+import { and, asc, desc, eq, ne, sql } from "drizzle-orm";
+import type { NodePgDatabase } from "drizzle-orm/node-postgres";
+import { ProductCodeService } from "./productCodeService";
+import { listingModerationService } from "./listingModerationService";
+
+/**
+ * Halfcut Service - Donor units and the component listings derived from them
+ *
+ * A halfcut supplier lists the donor vehicle once (chassis/engine number, mileage, source country),
+ * then derives component parts that inherit its make/model/year fitment. Each component carries
+ * a condition grade (A/B/C), tested flag and warranty period.
+ *
+ * Sold-through: a component counts as sold once its stock reaches zero. refreshSoldThrough
+ * recomputes the unit's counts/status and must run after anything that changes component stock.
+ */
+
+export interface HalfcutUnitWithComponents extends HalfcutUnit {
+  components: Part[];
+}
+
+export class HalfcutService {
+  /**
+   * Register a donor unit for a halfcut supplier
+   */
+  async createUnit(supplierId: string, data: InsertHalfcutUnit): Promise<HalfcutUnit> {
+    const [unit] = await db
+      .insert(halfcutUnits)
+      .values({ ...data, supplierId })
+      .returning();
+
+    return unit;
+  }
+
+  /**
+   * Update donor unit details
+   * Fitment changes are pushed down to the unit's components so they stay searchable.
+   */
+  async updateUnit(unitId: string, data: UpdateHalfcutUnit): Promise<HalfcutUnit | undefined> {
+    return await db.transaction(async (tx) => {
+      const [unit] = await tx
+        .update(halfcutUnits)
+        .set({ ...data, updatedAt: new Date() })
+        .where(eq(halfcutUnits.id, unitId))
+        .returning();
+
+      if (unit && (data.vehicleMake !== undefined || data.vehicleModel !== undefined || data.year !== undefined)) {
+        await tx
+          .update(parts)
+          .set({
+            vehicleMake: unit.vehicleMake,
+            vehicleModel: unit.vehicleModel,
+            vehicleYearFrom: unit.year,
+            vehicleYearTo: unit.year,
+            updatedAt: new Date(),
+          })
+          .where(eq(parts.halfcutUnitId, unitId));
+      }
+
+      return unit;
+    });
+  }
+
+  async getUnit(unitId: string): Promise<HalfcutUnit | undefined> {
+    const [unit] = await db
+      .select()
+      .from(halfcutUnits)
+      .where(eq(halfcutUnits.id, unitId));
+
+    return unit;
+  }
+
+  /**
+   * Donor unit with its component listings (unsold first)
+   *
+   * @param includeUnapproved - Include components that are not approved (the supplier's own view)
+   */
+  async getUnitWithComponents(unitId: string, includeUnapproved: boolean = false): Promise<HalfcutUnitWithComponents | undefined> {
+    const unit = await this.getUnit(unitId);
+    if (!unit) {
+      return undefined;
+    }
+
+    const components = await db
+      .select()
+      .from(parts)
+      .where(and(
+        eq(parts.halfcutUnitId, unitId),
+        includeUnapproved ? undefined : eq(parts.moderationStatus, 'approved')
+      ))
+      .orderBy(sql`${parts.stockQuantity} > 0 DESC`, asc(parts.partCategory), asc(parts.name));
+
+    return { ...unit, components };
+  }
+
+  /**
+   * A supplier's donor units, newest first
+   *
+   * @param includeSoldOut - Include units whose components have all sold
+   */
+  async listUnits(supplierId: string, includeSoldOut: boolean = false): Promise<HalfcutUnit[]> {
+    return await db
+      .select()
+      .from(halfcutUnits)
+      .where(and(
+        eq(halfcutUnits.supplierId, supplierId),
+        includeSoldOut ? undefined : ne(halfcutUnits.status, 'sold_out')
+      ))
+      .orderBy(desc(halfcutUnits.createdAt));
+  }
+
+  /**
+   * Derive component listings from a donor unit
+   * Each component becomes a normal part (cart, search, fitment all work unchanged),
+   * screened by listing moderation like any new listing.
+   *
+   * @param unit - Donor unit
+   * @param supplier - Owning supplier (must be a Halfcut supplier)
+   * @param components - Components to list
+   * @returns Created parts
+   */
+  async addComponents(unit: HalfcutUnit, supplier: Supplier, components: HalfcutComponentInput[]): Promise<Part[]> {
+    return await db.transaction(async (tx) => {
+      const created: Part[] = [];
+      const flags = await listingModerationService.screen(supplier, components.map(component => ({
+        name: component.name,
+        description: component.description || null,
+        price: component.price,
+        partCategory: component.partCategory,
+      })), tx);
+
+      for (let index = 0; index < components.length; index++) {
+        const component = components[index];
+        const garagehubCode = await ProductCodeService.generateCodeForSupplier(supplier.id, tx);
+
+        const [part] = await tx
+          .insert(parts)
+          .values({
+            ...component,
+            sku: component.sku || null,
+            description: component.description || null,
+            supplierId: supplier.id,
+            supplierType: supplier.supplierType,
+            garagehubCode,
+            category: 'Halfcut',
+            vehicleMake: unit.vehicleMake,
+            vehicleModel: unit.vehicleModel,
+            vehicleYearFrom: unit.year,
+            vehicleYearTo: unit.year,
+            halfcutUnitId: unit.id,
+            ...listingModerationService.fieldsFor(flags[index]),
+          })
+          .returning();
+
+        created.push(part);
+      }
+
+      await this.refreshSoldThrough(unit.id, tx);
+      return created;
+    });
+  }
+
+  /**
+   * Recompute a unit's sold-through counts and status from its components
+   *
+   * @param unitId - Donor unit
+   * @param tx - Optional Drizzle transaction (call inside the transaction that changed stock)
+   * @returns Updated unit, or undefined if it no longer exists
+   */
+  async refreshSoldThrough(unitId: string, tx?: NodePgDatabase | any): Promise<HalfcutUnit | undefined> {
+    const database = tx || db;
+
+    const [totals] = await database
+      .select({
+        componentCount: sql<number>`count(*)`,
+        soldComponentCount: sql<number>`count(*) FILTER (WHERE ${parts.stockQuantity} <= 0)`,
+        soldValue: sql<string>`COALESCE(SUM(${parts.price}) FILTER (WHERE ${parts.stockQuantity} <= 0), 0)`,
+      })
+      .from(parts)
+      .where(eq(parts.halfcutUnitId, unitId));
+
+    const componentCount = Number(totals?.componentCount || 0);
+    const soldComponentCount = Number(totals?.soldComponentCount || 0);
+
+    let status: HalfcutUnitStatus = 'available';
+    if (componentCount > 0 && soldComponentCount >= componentCount) {
+      status = 'sold_out';
+    } else if (soldComponentCount > 0) {
+      status = 'partially_sold';
+    }
+
+    const [unit] = await database
+      .update(halfcutUnits)
+      .set({
+        componentCount,
+        soldComponentCount,
+        soldValue: Number(totals?.soldValue || 0).toFixed(2),
+        status,
+        // Keep the first sold-out timestamp; clear it if stock was restored
+        soldOutAt: status === 'sold_out' ? sql`COALESCE(${halfcutUnits.soldOutAt}, now())` : null,
+        updatedAt: new Date(),
+      })
+      .where(eq(halfcutUnits.id, unitId))
+      .returning();
+
+    return unit;
+  }
+
+  /**
+   * Reconcile every unsold unit (catches stock changes made outside the marketplace routes, e.g. orders)
+   *
+   * @returns Number of units whose status changed
+   */
+  async refreshOpenUnits(): Promise<number> {
+    const openUnits = await db
+      .select({ id: halfcutUnits.id, status: halfcutUnits.status, soldComponentCount: halfcutUnits.soldComponentCount })
+      .from(halfcutUnits)
+      .where(ne(halfcutUnits.status, 'sold_out'));
+
+    let changed = 0;
+    for (const unit of openUnits) {
+      const refreshed = await this.refreshSoldThrough(unit.id);
+      if (refreshed && (refreshed.status !== unit.status || refreshed.soldComponentCount !== unit.soldComponentCount)) {
+        changed++;
+      }
+    }
+
+    return changed;
+  }
+}
+
+export const halfcutService = new HalfcutService();
@@ -1,45 +1,171 @@
-import crypto from "crypto";
+import dns from "dns/promises";
+import fs from "fs/promises";
+import net from "net";
+import path from "path";
+import sharp from "sharp";
+import { db } from "../db";
+import { parts, partImageHashes, searchImageLog, type Part } from "@shared/schema";
+import { and, eq, inArray, notInArray, sql, type SQL } from "drizzle-orm";
+import { alias } from "drizzle-orm/pg-core";
 
 /**
- * Image Search Service - MVP Implementation
- * Provides simple perceptual hash-based image similarity matching
- * 
- * Algorithm: Simple average hash (aHash)
- * - Converts image URL to hash for comparison
- * - Hamming distance used for similarity scoring
- * 
- * Limitations (MVP):
- * - Uses URL-based hashing (no actual image processing)
- * - Suppliers must use consistent image hosting
- * - Future: Implement proper perceptual hashing with image processing library
+ * Image Search Service - Perceptual hash image similarity matching
+ *
+ * Every product image is decoded and reduced to three 64-bit perceptual hashes:
+ * - aHash: 8x8 grayscale, bit = pixel brighter than the mean (robust to scaling/compression)
+ * - dHash: 9x8 grayscale, bit = pixel brighter than its right neighbour (robust to brightness/contrast)
+ * - pHash: 32x32 grayscale DCT, bit = low-frequency coefficient above the median (robust to small edits)
+ *
+ * Hashes are stored per image in part_image_hashes and compared by Hamming distance in SQL,
+ * so a workshop photo of a part finds the same part photographed by the supplier.
  */
 
+// Weights of each hash in the combined similarity (pHash is the most discriminative)
+const HASH_WEIGHTS = { aHash: 0.2, dHash: 0.3, pHash: 0.5 };
+
+// Default minimum similarity percentage for a match
+export const DEFAULT_SIMILARITY_THRESHOLD = 80;
+
+// Minimum similarity for two listings' photos to suggest a duplicate listing
+export const DUPLICATE_SIMILARITY_THRESHOLD = 92;
+
+// Matches recorded in searchImageLog per search
+const LOGGED_MATCHES = 10;
+
+// Give up on remote images that take longer than this
+const FETCH_TIMEOUT_MS = 10000;
+
+// Abort remote images larger than this
+const MAX_IMAGE_BYTES = 10 * 1024 * 1024;
+
+// Remote images are only fetched from object storage and the CDN hosts in IMAGE_CDN_HOSTS (comma-separated)
+const ALLOWED_IMAGE_HOSTS = new Set([
+  'storage.googleapis.com',
+  ...(process.env.IMAGE_CDN_HOSTS || '').split(',').map(host => host.trim().toLowerCase()).filter(Boolean),
+]);
+
+// Private, loopback, link-local (incl. cloud metadata 169.254.169.254) and unspecified addresses
+const BLOCKED_ADDRESSES = new net.BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8],
+  ['169.254.0.0', 16], ['172.16.0.0', 12], ['192.168.0.0', 16],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [['::', 127], ['::ffff:0:0', 96], ['fc00::', 7], ['fe80::', 10]] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+
+export interface ImageHashes {
+  aHash: string;
+  dHash: string;
+  pHash: string;
+}
+
+export interface ImageSearchOptions {
+  supplierId?: string; // Omit to search the whole marketplace
+  workshopId?: string; // Recorded in searchImageLog
+  threshold?: number; // Minimum similarity percentage (0-100)
+  limit?: number;
+}
+
+export type ImageSearchMatch = Part & { similarity: number };
+
 export class ImageSearchService {
   /**
-   * Generate a simple hash from image URL
-   * MVP: Uses URL as hash basis (future: process actual image data)
-   * 
-   * @param imageUrl - URL of the image to hash
-   * @returns 64-character hex hash string
+   * Compute aHash, dHash and pHash for an image
+   *
+   * @param image - Raw image bytes (any format sharp can decode)
+   * @returns 16-character hex hashes (64 bits each)
+   */
+  async computeHashes(image: Buffer): Promise<ImageHashes> {
+    const [aPixels, dPixels, pPixels] = await Promise.all([
+      this.grayscalePixels(image, 8, 8),
+      this.grayscalePixels(image, 9, 8),
+      this.grayscalePixels(image, 32, 32),
+    ]);
+
+    return {
+      aHash: this.averageHash(aPixels),
+      dHash: this.differenceHash(dPixels),
+      pHash: this.dctHash(pPixels),
+    };
+  }
+
+  /**
+   * Decode, flatten transparency onto white and resize to a grayscale pixel grid
    */
-  generateImageHash(imageUrl: string): string {
-    if (!imageUrl || imageUrl.trim() === "") {
-      return "0".repeat(64); // Empty hash for missing images
+  private async grayscalePixels(image: Buffer, width: number, height: number): Promise<Uint8Array> {
+    const { data } = await sharp(image)
+      .rotate() // Respect EXIF orientation from phone cameras
+      .flatten({ background: '#ffffff' })
+      .grayscale()
+      .resize(width, height, { fit: 'fill' })
+      .raw()
+      .toBuffer({ resolveWithObject: true });
+
+    return new Uint8Array(data);
+  }
+
+  private averageHash(pixels: Uint8Array): string {
+    const mean = pixels.reduce((sum, value) => sum + value, 0) / pixels.length;
+    return this.bitsToHex(Array.from(pixels, value => value > mean));
+  }
+
+  private differenceHash(pixels: Uint8Array): string {
+    const bits: boolean[] = [];
+    for (let y = 0; y < 8; y++) {
+      for (let x = 0; x < 8; x++) {
+        bits.push(pixels[y * 9 + x] > pixels[y * 9 + x + 1]);
+      }
+    }
+    return this.bitsToHex(bits);
+  }
+
+  private dctHash(pixels: Uint8Array): string {
+    const size = 32;
+    const lowFrequencies = 8;
+
+    // Separable 2D DCT-II, keeping only the top-left 8x8 block
+    const cosines: number[][] = [];
+    for (let u = 0; u < lowFrequencies; u++) {
+      cosines.push(Array.from({ length: size }, (_, x) => Math.cos(((2 * x + 1) * u * Math.PI) / (2 * size))));
+    }
+
+    const rows: number[][] = [];
+    for (let y = 0; y < size; y++) {
+      rows.push(cosines.map(cos => cos.reduce((sum, c, x) => sum + c * pixels[y * size + x], 0)));
+    }
+
+    const coefficients: number[] = [];
+    for (let v = 0; v < lowFrequencies; v++) {
+      for (let u = 0; u < lowFrequencies; u++) {
+        coefficients.push(cosines[v].reduce((sum, c, y) => sum + c * rows[y][u], 0));
+      }
+    }
+
+    // The DC term only reflects overall brightness - exclude it from the median
+    const sorted = coefficients.slice(1).sort((a, b) => a - b);
+    const median = (sorted[31] + sorted[32]) / 2;
+    return this.bitsToHex(coefficients.map(value => value > median));
+  }
+
+  private bitsToHex(bits: boolean[]): string {
+    let hex = '';
+    for (let i = 0; i < bits.length; i += 4) {
+      const nibble = (bits[i] ? 8 : 0) | (bits[i + 1] ? 4 : 0) | (bits[i + 2] ? 2 : 0) | (bits[i + 3] ? 1 : 0);
+      hex += nibble.toString(16);
     }
-    
-    // MVP: Hash the URL (future: fetch and process actual image)
-    // This allows for exact duplicate detection
-    const hash = crypto.createHash('sha256').update(imageUrl).digest('hex');
-    return hash;
+    return hex;
   }
 
   /**
    * Calculate Hamming distance between two hash strings
    * Lower distance = more similar images
-   * 
-   * @param hash1 - First hash (64 hex chars)
-   * @param hash2 - Second hash (64 hex chars)
-   * @returns Number of differing bits (0 = identical, 256 = completely different)
+   *
+   * @param hash1 - First hash (hex)
+   * @param hash2 - Second hash (hex)
+   * @returns Number of differing bits (0 = identical)
    */
   calculateHammingDistance(hash1: string, hash2: string): number {
     if (hash1.length !== hash2.length) {
@@ -68,80 +194,318 @@ export class ImageSearchService {
 
   /**
    * Calculate similarity percentage between two images
-   * 
-   * @param hash1 - First image hash
-   * @param hash2 - Second image hash
-   * @returns Similarity score (0-100, where 100 = identical)
+   *
+   * @param hashes1 - First image hashes
+   * @param hashes2 - Second image hashes
+   * @returns Weighted similarity score (0-100, where 100 = identical)
    */
-  calculateSimilarity(hash1: string, hash2: string): number {
-    const distance = this.calculateHammingDistance(hash1, hash2);
-    const maxDistance = hash1.length * 4; // 4 bits per hex char
-    const similarity = ((maxDistance - distance) / maxDistance) * 100;
+  calculateSimilarity(hashes1: ImageHashes, hashes2: ImageHashes): number {
+    const similarity = (Object.keys(HASH_WEIGHTS) as Array<keyof ImageHashes>).reduce((total, key) => {
+      const distance = this.calculateHammingDistance(hashes1[key], hashes2[key]);
+      return total + HASH_WEIGHTS[key] * (1 - distance / 64);
+    }, 0) * 100;
     return Math.round(similarity * 100) / 100; // Round to 2 decimals
   }
 
   /**
-   * Find similar images in a collection
-   * 
-   * @param targetHash - Hash of the image to search for
-   * @param candidateHashes - Array of {id, hash} objects to compare against
-   * @param threshold - Minimum similarity percentage (default: 80)
-   * @returns Array of {id, similarity} sorted by similarity (descending)
+   * Same weighted similarity as calculateSimilarity, evaluated in PostgreSQL (bit_count needs PG14+)
+   */
+  private similarityExpression(hashes: ImageHashes): SQL<number> {
+    const distance = (column: SQL, hash: string) =>
+      sql`bit_count(('x' || ${column})::bit(64) # ('x' || ${hash})::bit(64))`;
+
+    return sql<number>`(100 * (
+      ${sql.raw(String(HASH_WEIGHTS.aHash))} * (1 - ${distance(sql`${partImageHashes.aHash}`, hashes.aHash)} / 64.0) +
+      ${sql.raw(String(HASH_WEIGHTS.dHash))} * (1 - ${distance(sql`${partImageHashes.dHash}`, hashes.dHash)} / 64.0) +
+      ${sql.raw(String(HASH_WEIGHTS.pHash))} * (1 - ${distance(sql`${partImageHashes.pHash}`, hashes.pHash)} / 64.0)
+    ))`;
+  }
+
+  /**
+   * Read image bytes from a product image URL
+   * Supports files served from /uploads and https URLs on ALLOWED_IMAGE_HOSTS that resolve to public
+   * addresses; redirects are not followed and bodies over MAX_IMAGE_BYTES are aborted.
+   *
+   * @returns Image bytes, or null if the image cannot be read
    */
-  findSimilarImages(
-    targetHash: string,
-    candidateHashes: Array<{ id: string; hash: string }>,
-    threshold: number = 80
-  ): Array<{ id: string; similarity: number }> {
-    const results = candidateHashes
-      .map(candidate => ({
-        id: candidate.id,
-        similarity: this.calculateSimilarity(targetHash, candidate.hash)
-      }))
-      .filter(result => result.similarity >= threshold)
-      .sort((a, b) => b.similarity - a.similarity);
+  async loadImage(imageUrl: string): Promise<Buffer | null> {
+    try {
+      if (imageUrl.startsWith('/uploads/')) {
+        const uploadsDir = path.resolve('uploads');
+        const filePath = path.resolve(uploadsDir, imageUrl.slice('/uploads/'.length));
+        if (!filePath.startsWith(uploadsDir + path.sep)) {
+          return null;
+        }
+        return await fs.readFile(filePath);
+      }
+
+      if (/^https:\/\//i.test(imageUrl)) {
+        if (!(await this.isAllowedImageHost(new URL(imageUrl)))) {
+          console.warn(`[ImageSearch] Refusing to fetch image from disallowed host: ${imageUrl}`);
+          return null;
+        }
+        return await this.fetchImage(imageUrl);
+      }
+    } catch (error) {
+      console.error(`[ImageSearch] Failed to load image ${imageUrl}:`, error);
+    }
+
+    return null;
+  }
+
+  // Host must be allow-listed and resolve only to public addresses
+  private async isAllowedImageHost(url: URL): Promise<boolean> {
+    const hostname = url.hostname.toLowerCase();
+    if (!ALLOWED_IMAGE_HOSTS.has(hostname) || (url.port && url.port !== '443')) {
+      return false;
+    }
+
+    const addresses = await dns.lookup(hostname, { all: true });
+    return addresses.length > 0 && addresses.every(({ address, family }) =>
+      !BLOCKED_ADDRESSES.check(address, family === 6 ? 'ipv6' : 'ipv4'));
+  }
+
+  // Download an image, giving up past MAX_IMAGE_BYTES
+  private async fetchImage(imageUrl: string): Promise<Buffer | null> {
+    const response = await fetch(imageUrl, { redirect: 'error', signal: AbortSignal.timeout(FETCH_TIMEOUT_MS) });
+    if (!response.ok || !response.body) {
+      return null;
+    }
+    if (Number(response.headers.get('content-length') || 0) > MAX_IMAGE_BYTES) {
+      await response.body.cancel();
+      return null;
+    }
+
+    const reader = response.body.getReader();
+    const chunks: Uint8Array[] = [];
+    let size = 0;
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) {
+        break;
+      }
+      size += value.byteLength;
+      if (size > MAX_IMAGE_BYTES) {
+        await reader.cancel();
+        return null;
+      }
+      chunks.push(value);
+    }
+    return Buffer.concat(chunks);
+  }
+
+  /**
+   * Hash every image of a product and store the results
+   * Hashes for images no longer on the product are removed; unchanged images are not re-fetched.
+   *
+   * @param part - Product with imageUrl/images
+   * @returns Number of images hashed
+   */
+  async indexPartImages(part: Pick<Part, 'id' | 'supplierId' | 'imageUrl' | 'images'>): Promise<number> {
+    const imageUrls = Array.from(new Set(
+      [part.imageUrl, ...(part.images || [])].filter((url): url is string => !!url && url.trim() !== '')
+    ));
+
+    await db
+      .delete(partImageHashes)
+      .where(and(
+        eq(partImageHashes.partId, part.id),
+        imageUrls.length > 0 ? notInArray(partImageHashes.imageUrl, imageUrls) : undefined
+      ));
+
+    if (imageUrls.length === 0) {
+      return 0;
+    }
+
+    const existing = await db
+      .select({ imageUrl: partImageHashes.imageUrl })
+      .from(partImageHashes)
+      .where(and(
+        eq(partImageHashes.partId, part.id),
+        inArray(partImageHashes.imageUrl, imageUrls)
+      ));
+    const indexed = new Set(existing.map(row => row.imageUrl));
+
+    let hashed = 0;
+    for (const imageUrl of imageUrls.filter(url => !indexed.has(url))) {
+      const image = await this.loadImage(imageUrl);
+      if (!image) {
+        continue;
+      }
+
+      try {
+        const hashes = await this.computeHashes(image);
+        await db
+          .insert(partImageHashes)
+          .values({ partId: part.id, supplierId: part.supplierId, imageUrl, ...hashes })
+          .onConflictDoUpdate({
+            target: [partImageHashes.partId, partImageHashes.imageUrl],
+            set: hashes,
+          });
+        hashed++;
+      } catch (error) {
+        console.error(`[ImageSearch] Failed to hash image ${imageUrl} for part ${part.id}:`, error);
+      }
+    }
+
+    return indexed.size + hashed;
+  }
+
+  /**
+   * Re-hash all images of a supplier's products (e.g. after a bulk import)
+   *
+   * @returns Counts of products processed and images indexed
+   */
+  async reindexSupplier(supplierId: string): Promise<{ products: number; images: number }> {
+    const supplierParts = await db
+      .select({ id: parts.id, supplierId: parts.supplierId, imageUrl: parts.imageUrl, images: parts.images })
+      .from(parts)
+      .where(eq(parts.supplierId, supplierId));
+
+    let images = 0;
+    for (const part of supplierParts) {
+      images += await this.indexPartImages(part);
+    }
+
+    return { products: supplierParts.length, images };
+  }
+
+  /**
+   * Search for similar products by image
+   *
+   * @param image - Uploaded image bytes
+   * @param options - Supplier scope (omit for marketplace-wide), threshold and limit
+   * @returns Matching products with their best image similarity, most similar first
+   */
+  async searchByImage(image: Buffer, options: ImageSearchOptions = {}): Promise<ImageSearchMatch[]> {
+    const threshold = Math.min(100, Math.max(0, options.threshold ?? DEFAULT_SIMILARITY_THRESHOLD));
+    const limit = Math.min(100, Math.max(1, options.limit || 20));
+
+    const hashes = await this.computeHashes(image);
+    const similarity = this.similarityExpression(hashes);
+
+    // Best-matching image per product
+    const bestMatches = db
+      .select({
+        partId: partImageHashes.partId,
+        similarity: sql<number>`MAX(${similarity})`.as('similarity'),
+      })
+      .from(partImageHashes)
+      .where(options.supplierId ? eq(partImageHashes.supplierId, options.supplierId) : undefined)
+      .groupBy(partImageHashes.partId)
+      .as('best_matches');
+
+    const rows = await db
+      .select({
+        part: parts,
+        similarity: bestMatches.similarity,
+      })
+      .from(bestMatches)
+      .innerJoin(parts, eq(parts.id, bestMatches.partId))
+      .where(and(sql`${bestMatches.similarity} >= ${threshold}`, eq(parts.moderationStatus, 'approved')))
+      .orderBy(sql`${bestMatches.similarity} DESC`, parts.id)
+      .limit(limit);
+
+    const results = rows.map(row => ({
+      ...row.part,
+      similarity: Math.round(Number(row.similarity) * 100) / 100,
+    }));
+
+    // Logging must never fail the search
+    try {
+      await db.insert(searchImageLog).values({
+        searchType: 'image',
+        workshopId: options.workshopId || null,
+        supplierId: options.supplierId || null,
+        scope: options.supplierId ? 'supplier' : 'marketplace',
+        threshold: Math.round(threshold),
+        pHash: hashes.pHash,
+        resultCount: results.length,
+        topMatches: results.slice(0, LOGGED_MATCHES).map(result => ({ partId: result.id, similarity: result.similarity })),
+      });
+    } catch (error) {
+      console.error("[ImageSearch] Failed to log image search:", error);
+    }
 
     return results;
   }
 
   /**
-   * Search for similar products by image URL (supplier-scoped)
-   * 
-   * @param supplierId - Supplier ID to scope the search
-   * @param imageUrl - URL of the image to search for
-   * @returns Array of matching products with similarity scores
+   * Other listings with an image similar to one of this listing's indexed images (duplicate detection)
+   * Pending listings count too; merged ones do not.
+   *
+   * @returns Best similarity per listing, most similar first
    */
-  async searchByImage(supplierId: string, imageUrl: string): Promise<any[]> {
-    // Import storage dynamically to avoid circular dependencies
-    const { storage } = await import("../storage");
-    
-    // Get all products for this supplier
-    const products = await storage.getPartsBySupplier(supplierId);
-    
-    // Generate hash for search image
-    const searchHash = this.generateImageHash(imageUrl);
-    
-    // Generate hashes for all products and find similar ones
-    const candidateHashes = products.map((product: any) => ({
-      id: product.id,
-      hash: this.generateImageHash(product.imageUrl || ""),
-      product
+  async findSimilarParts(
+    partId: string,
+    options: { supplierId?: string; threshold?: number; limit?: number } = {}
+  ): Promise<Array<{ partId: string; similarity: number }>> {
+    const threshold = options.threshold ?? DUPLICATE_SIMILARITY_THRESHOLD;
+    const ownHashes = await db
+      .select({ aHash: partImageHashes.aHash, dHash: partImageHashes.dHash, pHash: partImageHashes.pHash })
+      .from(partImageHashes)
+      .where(eq(partImageHashes.partId, partId));
+
+    const best = new Map<string, number>();
+    for (const hashes of ownHashes) {
+      const similarity = this.similarityExpression(hashes);
+      const rows = await db
+        .select({
+          partId: partImageHashes.partId,
+          similarity: sql<number>`MAX(${similarity})`,
+        })
+        .from(partImageHashes)
+        .innerJoin(parts, eq(parts.id, partImageHashes.partId))
+        .where(and(
+          sql`${partImageHashes.partId} <> ${partId}`,
+          sql`${parts.moderationStatus} <> 'merged'`,
+          options.supplierId ? eq(partImageHashes.supplierId, options.supplierId) : undefined,
+          sql`${similarity} >= ${threshold}`
+        ))
+        .groupBy(partImageHashes.partId);
+
+      for (const row of rows) {
+        const value = Math.round(Number(row.similarity) * 100) / 100;
+        best.set(row.partId, Math.max(best.get(row.partId) ?? 0, value));
+      }
+    }
+
+    return Array.from(best, ([id, similarity]) => ({ partId: id, similarity }))
+      .sort((a, b) => b.similarity - a.similarity)
+      .slice(0, options.limit ?? 20);
+  }
+
+  /**
+   * Pairs of a supplier's listings with similar photos (each pair once, best image pair)
+   */
+  async findSimilarPairs(
+    supplierId: string,
+    threshold: number = DUPLICATE_SIMILARITY_THRESHOLD
+  ): Promise<Array<{ partId: string; otherPartId: string; similarity: number }>> {
+    const other = alias(partImageHashes, 'other_hashes');
+    const distance = (a: SQL, b: SQL) => sql`bit_count(('x' || ${a})::bit(64) # ('x' || ${b})::bit(64))`;
+    const similarity = sql<number>`(100 * (
+      ${sql.raw(String(HASH_WEIGHTS.aHash))} * (1 - ${distance(sql`${partImageHashes.aHash}`, sql`${other.aHash}`)} / 64.0) +
+      ${sql.raw(String(HASH_WEIGHTS.dHash))} * (1 - ${distance(sql`${partImageHashes.dHash}`, sql`${other.dHash}`)} / 64.0) +
+      ${sql.raw(String(HASH_WEIGHTS.pHash))} * (1 - ${distance(sql`${partImageHashes.pHash}`, sql`${other.pHash}`)} / 64.0)
+    ))`;
+
+    const rows = await db
+      .select({
+        partId: partImageHashes.partId,
+        otherPartId: other.partId,
+        similarity: sql<number>`MAX(${similarity})`,
+      })
+      .from(partImageHashes)
+      .innerJoin(other, and(eq(other.supplierId, partImageHashes.supplierId), sql`${partImageHashes.partId} < ${other.partId}`))
+      .where(and(eq(partImageHashes.supplierId, supplierId), sql`${similarity} >= ${threshold}`))
+      .groupBy(partImageHashes.partId, other.partId);
+
+    return rows.map(row => ({
+      partId: row.partId,
+      otherPartId: row.otherPartId,
+      similarity: Math.round(Number(row.similarity) * 100) / 100,
     }));
-    
-    const similarResults = this.findSimilarImages(
-      searchHash,
-      candidateHashes,
-      80 // 80% similarity threshold
-    );
-    
-    // Map back to full product objects
-    return similarResults.map(result => {
-      const candidate = candidateHashes.find((c: any) => c.id === result.id);
-      return {
-        ...candidate?.product,
-        similarity: result.similarity
-      };
-    });
   }
 }
 
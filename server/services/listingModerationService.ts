@@ -0,0 +1,285 @@
+import type { Server as SocketIOServer } from "socket.io";
+import { db } from "../db";
+import {
+  DEFAULT_PART_CATEGORY,
+  notifications,
+  parts,
+  suppliers,
+  type ListingModerationDecision,
+  type ListingModerationStatus,
+  type Part,
+  type Supplier,
+} from "@shared/schema";
+import { and, asc, desc, eq, inArray, ne, sql } from "drizzle-orm";
+import type { NodePgDatabase } from "drizzle-orm/node-postgres";
+import { emitNotification } from "../socket";
+
+/**
+ * Listing Moderation Service - Screening and admin review of new and edited listings
+ *
+ * Listings are screened when created, and again when an edit touches what buyers see
+ * (MODERATED_FIELDS). A listing with any flag goes to the pending queue and is hidden from the
+ * marketplace until an admin approves it; clean listings from verified suppliers go live directly.
+ * Editing a rejected listing always resubmits it for review.
+ *
+ * Flags: unverified_supplier, keyword:<word>, price_out_of_range, price_outlier
+ */
+
+// Words that suggest counterfeit/stolen goods or off-platform deals (matched as whole words, lowercase)
+const FLAGGED_KEYWORDS = [
+  'replica',
+  'counterfeit',
+  'fake',
+  'imitation',
+  'tiruan',
+  'palsu',
+  'stolen',
+  'curi',
+  'cash only',
+  'bank in',
+  'whatsapp',
+  'wa.me',
+  'telegram',
+];
+
+// Prices outside this range (RM) are always queued
+const MIN_LISTING_PRICE = 1;
+const MAX_LISTING_PRICE = 100000;
+
+// Price outlier: below 1/PRICE_OUTLIER_RATIO or above PRICE_OUTLIER_RATIO times the median
+// of approved listings in the same partCategory (needs MIN_COMPARABLE_LISTINGS to compare with)
+const PRICE_OUTLIER_RATIO = 10;
+const MIN_COMPARABLE_LISTINGS = 5;
+
+// Listing fields whose edits are screened again
+export const MODERATED_FIELDS = ['name', 'description', 'category', 'partCategory', 'price', 'imageUrl', 'images'] as const;
+
+// What screening looks at
+export type ScreenedListing = Pick<Part, 'name' | 'description' | 'price' | 'partCategory'>;
+
+// Moderation columns written with a listing
+export type ModerationFields = Pick<Part, 'moderationStatus' | 'moderationFlags' | 'moderationReason' | 'moderatedBy' | 'moderatedAt'>;
+
+// Listing columns a supplier's request body never sets: moderation, values maintained by the system, ownership
+export type ProtectedPartField = keyof ModerationFields | 'mergedIntoId' | 'rating' | 'reviewCount' | 'hasVariants'
+  | 'id' | 'supplierId' | 'supplierType' | 'halfcutUnitId' | 'garagehubCode' | 'createdAt' | 'updatedAt';
+
+export interface ModerationQueueItem extends Part {
+  supplier: { id: string; name: string; isVerified: boolean; userId: string };
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+const KEYWORD_PATTERNS = FLAGGED_KEYWORDS.map(keyword => ({
+  keyword,
+  pattern: new RegExp(`(^|[^a-z0-9])${escapeRegExp(keyword)}([^a-z0-9]|$)`),
+}));
+
+export class ListingModerationService {
+  /**
+   * Drop protected columns from a supplier's request body
+   * Moderation is set by screening, admins and merges; rating/reviewCount by ReviewService; hasVariants by
+   * the variants; ownership and codes by the server when the listing is created.
+   */
+  omitProtectedFields<T extends Record<string, unknown>>(data: T): Omit<T, ProtectedPartField> {
+    const {
+      moderationStatus, moderationFlags, moderationReason, moderatedBy, moderatedAt, mergedIntoId,
+      rating, reviewCount, hasVariants,
+      id, supplierId, supplierType, halfcutUnitId, garagehubCode, createdAt, updatedAt,
+      ...rest
+    } = data;
+    return rest;
+  }
+
+  /**
+   * Whether an edit changes a field that is screened
+   */
+  touchesModeratedFields(changes: Record<string, unknown>): boolean {
+    return MODERATED_FIELDS.some(field => changes[field] !== undefined);
+  }
+
+  /**
+   * Flags for listings of one supplier (one list of flags per listing, empty = clean)
+   */
+  async screen(supplier: Supplier, listings: ScreenedListing[], tx?: NodePgDatabase | any): Promise<string[][]> {
+    const medians = await this.medianPrices(Array.from(new Set(listings.map(listing => listing.partCategory))), tx);
+
+    return listings.map(listing => {
+      const flags: string[] = [];
+
+      if (!supplier.isVerified) {
+        flags.push('unverified_supplier');
+      }
+
+      const text = `${listing.name} ${listing.description || ''}`.toLowerCase();
+      for (const { keyword, pattern } of KEYWORD_PATTERNS) {
+        if (pattern.test(text)) {
+          flags.push(`keyword:${keyword}`);
+        }
+      }
+
+      const price = Number(listing.price);
+      const median = medians.get(listing.partCategory);
+      if (!Number.isFinite(price) || price < MIN_LISTING_PRICE || price > MAX_LISTING_PRICE) {
+        flags.push('price_out_of_range');
+      } else if (median && (price < median / PRICE_OUTLIER_RATIO || price > median * PRICE_OUTLIER_RATIO)) {
+        flags.push('price_outlier');
+      }
+
+      return flags;
+    });
+  }
+
+  /**
+   * Moderation columns for a screened listing
+   * Flagged listings (and edits of rejected ones) are queued; the rest are approved.
+   *
+   * @param previous - Current listing when editing
+   */
+  fieldsFor(flags: string[], previous?: Pick<Part, 'moderationStatus'>): ModerationFields {
+    const queued = flags.length > 0 || previous?.moderationStatus === 'rejected';
+    return {
+      moderationStatus: queued ? 'pending' : 'approved',
+      moderationFlags: flags,
+      moderationReason: null,
+      moderatedBy: null,
+      moderatedAt: null,
+    };
+  }
+
+  /**
+   * What screening sees of a new listing, or of an edit applied to `previous`
+   */
+  toScreenedListing(listing: Partial<ScreenedListing>, previous?: Part): ScreenedListing {
+    return {
+      name: listing.name ?? previous?.name ?? '',
+      description: listing.description !== undefined ? listing.description : previous?.description ?? null,
+      price: String(listing.price ?? previous?.price ?? ''),
+      partCategory: listing.partCategory ?? previous?.partCategory ?? DEFAULT_PART_CATEGORY,
+    };
+  }
+
+  /**
+   * Screen one listing and return its moderation columns
+   * With `previous` (an edit), only screens when the edit touches MODERATED_FIELDS; returns {} otherwise.
+   */
+  async moderate(
+    supplier: Supplier,
+    listing: Partial<ScreenedListing> & Record<string, unknown>,
+    previous?: Part,
+    tx?: NodePgDatabase | any
+  ): Promise<Partial<ModerationFields>> {
+    if (previous && !this.touchesModeratedFields(listing)) {
+      return {};
+    }
+
+    const [flags] = await this.screen(supplier, [this.toScreenedListing(listing, previous)], tx);
+    return this.fieldsFor(flags, previous);
+  }
+
+  /**
+   * Median price of approved listings per partCategory (only categories with enough listings)
+   */
+  private async medianPrices(partCategories: string[], tx?: NodePgDatabase | any): Promise<Map<string, number>> {
+    if (partCategories.length === 0) {
+      return new Map();
+    }
+
+    const database = tx || db;
+    const rows = await database
+      .select({
+        partCategory: parts.partCategory,
+        median: sql<string>`percentile_cont(0.5) WITHIN GROUP (ORDER BY ${parts.price})`,
+        count: sql<number>`count(*)`,
+      })
+      .from(parts)
+      .where(and(eq(parts.moderationStatus, 'approved'), inArray(parts.partCategory, partCategories as Part['partCategory'][])))
+      .groupBy(parts.partCategory);
+
+    return new Map(
+      rows
+        .filter((row: { count: number }) => Number(row.count) >= MIN_COMPARABLE_LISTINGS)
+        .map((row: { partCategory: string; median: string }) => [row.partCategory, Number(row.median)])
+    );
+  }
+
+  /**
+   * Listings awaiting review, oldest first
+   */
+  async getQueue(options: { status?: ListingModerationStatus; supplierId?: string; limit?: number } = {}): Promise<ModerationQueueItem[]> {
+    const status = options.status || 'pending';
+    const rows = await db
+      .select({
+        part: parts,
+        supplier: { id: suppliers.id, name: suppliers.name, isVerified: suppliers.isVerified, userId: suppliers.userId },
+      })
+      .from(parts)
+      .innerJoin(suppliers, eq(parts.supplierId, suppliers.id))
+      .where(and(
+        eq(parts.moderationStatus, status),
+        options.supplierId ? eq(parts.supplierId, options.supplierId) : undefined
+      ))
+      .orderBy(status === 'pending' ? asc(parts.updatedAt) : desc(parts.moderatedAt))
+      .limit(Math.min(200, options.limit || 50));
+
+    return rows.map(row => ({ ...row.part, supplier: row.supplier }));
+  }
+
+  /**
+   * A supplier's listings that are not live (pending or rejected), newest first
+   */
+  async getSupplierUnlisted(supplierId: string): Promise<Part[]> {
+    return await db
+      .select()
+      .from(parts)
+      .where(and(eq(parts.supplierId, supplierId), inArray(parts.moderationStatus, ['pending', 'rejected'])))
+      .orderBy(desc(parts.updatedAt));
+  }
+
+  /**
+   * Approve or reject a listing and notify the supplier
+   *
+   * @returns Updated listing, or undefined when it does not exist (or was merged into another)
+   */
+  async decide(partId: string, adminUserId: string, decision: ListingModerationDecision, io?: SocketIOServer): Promise<Part | undefined> {
+    const [updated] = await db
+      .update(parts)
+      .set({
+        moderationStatus: decision.decision,
+        moderationReason: decision.reason || null,
+        moderatedBy: adminUserId,
+        moderatedAt: new Date(),
+      })
+      .where(and(eq(parts.id, partId), ne(parts.moderationStatus, 'merged')))
+      .returning();
+
+    if (!updated) {
+      return undefined;
+    }
+
+    const [supplier] = await db.select().from(suppliers).where(eq(suppliers.id, updated.supplierId));
+    if (supplier) {
+      const [notification] = await db
+        .insert(notifications)
+        .values({
+          userId: supplier.userId,
+          title: decision.decision === 'approved' ? "Listing Approved" : "Listing Rejected",
+          message: decision.decision === 'approved'
+            ? `${updated.name} is now live in the marketplace`
+            : `${updated.name} was not approved: ${decision.reason}`,
+          type: "listing_moderation",
+        })
+        .returning();
+
+      if (io) {
+        emitNotification(io, supplier.userId, notification);
+      }
+    }
+
+    return updated;
+  }
+}
+
+export const listingModerationService = new ListingModerationService();
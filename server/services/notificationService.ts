@@ -8,9 +8,10 @@ import type { InsertNotification } from "@shared/schema";
  * Centralized service for creating and emitting notifications
  */
 export class NotificationService {
-  private io: SocketIOServer;
+  private io?: SocketIOServer;
 
-  constructor(io: SocketIOServer) {
+  // Without a socket server notifications are still stored, just not pushed live
+  constructor(io?: SocketIOServer) {
     this.io = io;
   }
 
@@ -22,9 +23,11 @@ export class NotificationService {
       const notification = await storage.createNotification(notificationData);
       
       // Emit to user's notification room for real-time updates
-      emitNotification(this.io, notification.userId, notification);
+      if (this.io) {
+        emitNotification(this.io, notification.userId, notification);
+      }
       
-      console.log(`[Notification] Created and emitted to user ${notification.userId}: ${notification.title}`);
+      console.log(`[Notification] Created for user ${notification.userId}: ${notification.title}`);
     } catch (error) {
       console.error("[Notification] Failed to create and emit:", error);
       throw error;
@@ -102,6 +105,24 @@ export class NotificationService {
     });
   }
 
+  /**
+   * Notify about a price drop on a saved part
+   */
+  async notifyPriceDrop(
+    userId: string,
+    partName: string,
+    listName: string,
+    oldPrice: number,
+    newPrice: number
+  ): Promise<void> {
+    await this.createAndEmit({
+      userId,
+      title: "Price Drop",
+      message: `${partName} in "${listName}" is now RM ${newPrice.toFixed(2)} (was RM ${oldPrice.toFixed(2)})`,
+      type: "price_drop",
+    });
+  }
+
   /**
    * Notify about new chat messages
    */
@@ -0,0 +1,175 @@
+import { db } from "../db";
+import { parts, type PartCategory, type SupplierType } from "@shared/schema";
+import { and, eq, sql, type SQL } from "drizzle-orm";
+
+/**
+ * Part Facet Service - Filter facets with counts for marketplace listings
+ *
+ * Facets are disjunctive: each facet's counts apply every active filter EXCEPT its own,
+ * so selecting "Perodua" still shows how many parts the other makes would return,
+ * while the vehicleModel/category/price counts narrow to Perodua.
+ */
+
+// Price bands in RM (upper bound exclusive, null = no upper bound)
+export const PRICE_BANDS: Array<{ key: string; min: number; max: number | null }> = [
+  { key: '0-50', min: 0, max: 50 },
+  { key: '50-100', min: 50, max: 100 },
+  { key: '100-250', min: 100, max: 250 },
+  { key: '250-500', min: 250, max: 500 },
+  { key: '500-1000', min: 500, max: 1000 },
+  { key: '1000+', min: 1000, max: null },
+];
+
+export interface PartFilterParams {
+  vehicleMake?: string;
+  vehicleModel?: string;
+  partCategory?: PartCategory;
+  category?: string;
+  supplierType?: SupplierType;
+  minPrice?: number;
+  maxPrice?: number;
+  inStockOnly?: boolean;
+}
+
+// One SQL condition per facet dimension (absent = filter not active)
+export type PartFilterConditions = Partial<Record<'vehicleMake' | 'vehicleModel' | 'partCategory' | 'category' | 'supplierType' | 'price' | 'inStock', SQL>>;
+
+export interface FacetBucket {
+  value: string;
+  count: number;
+}
+
+export interface PartFacets {
+  vehicleMake: FacetBucket[];
+  vehicleModel: FacetBucket[];
+  partCategory: FacetBucket[];
+  category: FacetBucket[];
+  supplierType: FacetBucket[];
+  priceBand: FacetBucket[];
+  inStock: { inStock: number; outOfStock: number };
+}
+
+export class PartFacetService {
+  /**
+   * Translate filter params into per-dimension SQL conditions
+   */
+  buildFilterConditions(params: PartFilterParams): PartFilterConditions {
+    const conditions: PartFilterConditions = {};
+
+    if (params.vehicleMake) {
+      conditions.vehicleMake = sql`LOWER(${parts.vehicleMake}) = ${params.vehicleMake.toLowerCase()}`;
+    }
+
+    if (params.vehicleModel) {
+      conditions.vehicleModel = sql`LOWER(${parts.vehicleModel}) = ${params.vehicleModel.toLowerCase()}`;
+    }
+
+    if (params.partCategory) {
+      conditions.partCategory = eq(parts.partCategory, params.partCategory);
+    }
+
+    if (params.category) {
+      conditions.category = eq(parts.category, params.category);
+    }
+
+    if (params.supplierType) {
+      conditions.supplierType = eq(parts.supplierType, params.supplierType);
+    }
+
+    if (params.minPrice !== undefined || params.maxPrice !== undefined) {
+      const bounds: SQL[] = [];
+      if (params.minPrice !== undefined) bounds.push(sql`${parts.price} >= ${params.minPrice}`);
+      if (params.maxPrice !== undefined) bounds.push(sql`${parts.price} <= ${params.maxPrice}`);
+      conditions.price = and(...bounds)!;
+    }
+
+    if (params.inStockOnly) {
+      conditions.inStock = sql`${parts.stockQuantity} > 0`;
+    }
+
+    return conditions;
+  }
+
+  /**
+   * Combine base conditions with every active filter except `exclude`
+   */
+  private whereExcluding(baseConditions: SQL[], filters: PartFilterConditions, exclude?: keyof PartFilterConditions): SQL | undefined {
+    const active = (Object.keys(filters) as Array<keyof PartFilterConditions>)
+      .filter(key => key !== exclude)
+      .map(key => filters[key]!);
+    const all = [...baseConditions, ...active];
+    return all.length > 0 ? and(...all) : undefined;
+  }
+
+  /**
+   * Count buckets for a single column
+   */
+  private async countBy(column: SQL, where: SQL | undefined): Promise<FacetBucket[]> {
+    const rows = await db
+      .select({
+        value: sql<string | null>`${column}`,
+        count: sql<number>`count(*)`,
+      })
+      .from(parts)
+      .where(where)
+      .groupBy(column)
+      .orderBy(sql`count(*) DESC`);
+
+    return rows
+      .filter(row => row.value !== null && row.value !== '')
+      .map(row => ({ value: String(row.value), count: Number(row.count) }));
+  }
+
+  /**
+   * Compute facet buckets for a listing
+   *
+   * @param baseConditions - Conditions that always apply (e.g. supplier scope, text query)
+   * @param filters - User-selected filters from buildFilterConditions
+   * @returns Buckets with counts; empty buckets are omitted
+   */
+  async computeFacets(baseConditions: SQL[], filters: PartFilterConditions): Promise<PartFacets> {
+    // Band bounds/keys are inlined (not bound params) so the SELECT and GROUP BY expressions are identical
+    const priceBandCase = sql.join(
+      PRICE_BANDS.map(band => band.max === null
+        ? sql`WHEN ${parts.price} >= ${sql.raw(String(band.min))} THEN ${sql.raw(`'${band.key}'`)}`
+        : sql`WHEN ${parts.price} >= ${sql.raw(String(band.min))} AND ${parts.price} < ${sql.raw(String(band.max))} THEN ${sql.raw(`'${band.key}'`)}`),
+      sql` `
+    );
+
+    const [vehicleMake, vehicleModel, partCategory, category, supplierType, priceBands, stock] = await Promise.all([
+      this.countBy(sql`${parts.vehicleMake}`, this.whereExcluding(baseConditions, filters, 'vehicleMake')),
+      this.countBy(sql`${parts.vehicleModel}`, this.whereExcluding(baseConditions, filters, 'vehicleModel')),
+      this.countBy(sql`${parts.partCategory}`, this.whereExcluding(baseConditions, filters, 'partCategory')),
+      this.countBy(sql`${parts.category}`, this.whereExcluding(baseConditions, filters, 'category')),
+      this.countBy(sql`${parts.supplierType}`, this.whereExcluding(baseConditions, filters, 'supplierType')),
+      this.countBy(sql`CASE ${priceBandCase} END`, this.whereExcluding(baseConditions, filters, 'price')),
+      db
+        .select({
+          inStock: sql<number>`count(*) FILTER (WHERE ${parts.stockQuantity} > 0)`,
+          outOfStock: sql<number>`count(*) FILTER (WHERE ${parts.stockQuantity} <= 0)`,
+        })
+        .from(parts)
+        .where(this.whereExcluding(baseConditions, filters, 'inStock')),
+    ]);
+
+    // Keep price bands in ascending order rather than by count
+    const priceBand = PRICE_BANDS
+      .map(band => priceBands.find(bucket => bucket.value === band.key))
+      .filter((bucket): bucket is FacetBucket => !!bucket);
+
+    return {
+      vehicleMake,
+      vehicleModel,
+      partCategory,
+      category,
+      supplierType,
+      priceBand,
+      inStock: {
+        inStock: Number(stock[0]?.inStock || 0),
+        outOfStock: Number(stock[0]?.outOfStock || 0),
+      },
+    };
+  }
+}
+
+export const partFacetService = new PartFacetService();
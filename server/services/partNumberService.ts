@@ -0,0 +1,336 @@
+import { db } from "../db";
+import {
+  parts,
+  suppliers,
+  partNumbers,
+  partNumberLinks,
+  partInterchangeGroups,
+  type Part,
+  type PartNumber,
+  type PartNumberInput,
+  type PartInterchangeGroup,
+} from "@shared/schema";
+import { and, asc, eq, inArray, isNotNull, ne, notInArray, sql, type SQL } from "drizzle-orm";
+import type { NodePgDatabase } from "drizzle-orm/node-postgres";
+
+/**
+ * Part Number Service - OEM/aftermarket part-number cross-reference
+ *
+ * Suppliers tag their listings with the part numbers they satisfy. Listings are linked when:
+ * - They share a part number (same normalized number, any brand spelling) -> "other sellers"
+ * - Their numbers sit in the same interchange group -> "compatible alternatives"
+ *
+ * Numbers are compared normalized ("04465-0D120", "044650d120" and "04465 0D120" are the same part).
+ */
+
+export interface CrossReferencePart extends Part {
+  supplier: {
+    id: string;
+    name: string;
+    state: string;
+    city: string;
+    rating: string;
+    isVerified: boolean;
+  };
+  matchedNumbers: string[]; // Part numbers that linked this listing
+}
+
+export class PartNumberService {
+  /**
+   * Normalize a part number for matching: uppercase alphanumerics only
+   */
+  normalizePartNumber(number: string): string {
+    return number.toUpperCase().replace(/[^A-Z0-9]/g, '');
+  }
+
+  /**
+   * Find or create catalogue entries for part numbers
+   *
+   * @param inputs - Part numbers as entered by the supplier
+   * @param tx - Optional Drizzle transaction
+   * @returns Catalogue rows, in input order (duplicates collapsed)
+   */
+  async upsertPartNumbers(inputs: PartNumberInput[], tx?: NodePgDatabase | any): Promise<PartNumber[]> {
+    const database = tx || db;
+    const results = new Map<string, PartNumber>();
+
+    for (const input of inputs) {
+      const normalizedNumber = this.normalizePartNumber(input.number);
+      if (!normalizedNumber) {
+        continue;
+      }
+
+      const numberType = input.numberType || 'oem';
+      const brand = input.brand?.trim() || '';
+      const key = `${normalizedNumber}|${numberType}|${brand.toLowerCase()}`;
+      if (results.has(key)) {
+        continue;
+      }
+
+      // Brand is matched case-insensitively so "TOYOTA" and "Toyota" share one entry
+      const [existing] = await database
+        .select()
+        .from(partNumbers)
+        .where(and(
+          eq(partNumbers.normalizedNumber, normalizedNumber),
+          eq(partNumbers.numberType, numberType),
+          sql`LOWER(${partNumbers.brand}) = ${brand.toLowerCase()}`
+        ))
+        .limit(1);
+
+      if (existing) {
+        results.set(key, existing);
+        continue;
+      }
+
+      const [created] = await database
+        .insert(partNumbers)
+        .values({ number: input.number.trim(), normalizedNumber, numberType, brand })
+        .onConflictDoUpdate({
+          target: [partNumbers.normalizedNumber, partNumbers.numberType, partNumbers.brand],
+          set: { number: sql`${partNumbers.number}` }, // No-op update so RETURNING yields the row
+        })
+        .returning();
+
+      results.set(key, created);
+    }
+
+    return Array.from(results.values());
+  }
+
+  /**
+   * Replace the part numbers a listing is tagged with
+   *
+   * @param partId - Listing to tag
+   * @param inputs - Complete list of part numbers (empty clears all tags)
+   * @param tx - Optional Drizzle transaction
+   * @returns The listing's part numbers after the update
+   */
+  async setPartNumbers(partId: string, inputs: PartNumberInput[], tx?: NodePgDatabase | any): Promise<PartNumber[]> {
+    const database = tx || db;
+    const numbers = await this.upsertPartNumbers(inputs, database);
+    const numberIds = numbers.map(number => number.id);
+
+    await database
+      .delete(partNumberLinks)
+      .where(and(
+        eq(partNumberLinks.partId, partId),
+        numberIds.length > 0 ? notInArray(partNumberLinks.partNumberId, numberIds) : undefined
+      ));
+
+    if (numberIds.length > 0) {
+      await database
+        .insert(partNumberLinks)
+        .values(numberIds.map(partNumberId => ({ partId, partNumberId })))
+        .onConflictDoNothing();
+    }
+
+    return numbers;
+  }
+
+  /**
+   * Part numbers a listing is tagged with
+   */
+  async getPartNumbers(partId: string): Promise<PartNumber[]> {
+    const rows = await db
+      .select({ partNumber: partNumbers })
+      .from(partNumberLinks)
+      .innerJoin(partNumbers, eq(partNumberLinks.partNumberId, partNumbers.id))
+      .where(eq(partNumberLinks.partId, partId))
+      .orderBy(asc(partNumbers.numberType), asc(partNumbers.number));
+
+    return rows.map(row => row.partNumber);
+  }
+
+  /**
+   * Listings (any supplier) tagged with numbers matching a condition, cheapest first
+   */
+  private async findTaggedParts(numberCondition: SQL | undefined, excludePartId?: string): Promise<CrossReferencePart[]> {
+    const rows = await db
+      .select({
+        part: parts,
+        supplier: {
+          id: suppliers.id,
+          name: suppliers.name,
+          state: suppliers.state,
+          city: suppliers.city,
+          rating: suppliers.rating,
+          isVerified: suppliers.isVerified,
+        },
+        matchedNumbers: sql<string[]>`array_agg(DISTINCT ${partNumbers.number})`,
+      })
+      .from(partNumberLinks)
+      .innerJoin(partNumbers, eq(partNumberLinks.partNumberId, partNumbers.id))
+      .innerJoin(parts, eq(partNumberLinks.partId, parts.id))
+      .innerJoin(suppliers, eq(parts.supplierId, suppliers.id))
+      .where(and(
+        numberCondition,
+        eq(parts.moderationStatus, 'approved'),
+        excludePartId ? ne(parts.id, excludePartId) : undefined
+      ))
+      .groupBy(parts.id, suppliers.id)
+      .orderBy(asc(parts.price), asc(parts.id));
+
+    return rows.map(row => ({
+      ...row.part,
+      supplier: row.supplier,
+      matchedNumbers: row.matchedNumbers,
+    }));
+  }
+
+  /**
+   * Other listings of the same part: they share at least one part number with this listing
+   *
+   * @param partId - Listing being viewed
+   * @returns Other suppliers' (and this supplier's other) listings, cheapest first
+   */
+  async getOtherSellers(partId: string): Promise<CrossReferencePart[]> {
+    const ownNumbers = db
+      .select({ normalizedNumber: partNumbers.normalizedNumber })
+      .from(partNumberLinks)
+      .innerJoin(partNumbers, eq(partNumberLinks.partNumberId, partNumbers.id))
+      .where(eq(partNumberLinks.partId, partId));
+
+    return this.findTaggedParts(inArray(partNumbers.normalizedNumber, ownNumbers), partId);
+  }
+
+  /**
+   * Interchangeable listings: numbers in the same interchange group as this listing's numbers
+   * Listings that share a number with this one are excluded (they are "other sellers")
+   *
+   * @param partId - Listing being viewed
+   * @returns Compatible alternative listings, cheapest first
+   */
+  async getCompatibleAlternatives(partId: string): Promise<CrossReferencePart[]> {
+    const ownNumbers = db
+      .select({ normalizedNumber: partNumbers.normalizedNumber })
+      .from(partNumberLinks)
+      .innerJoin(partNumbers, eq(partNumberLinks.partNumberId, partNumbers.id))
+      .where(eq(partNumberLinks.partId, partId));
+
+    const ownGroups = db
+      .select({ interchangeGroupId: partNumbers.interchangeGroupId })
+      .from(partNumberLinks)
+      .innerJoin(partNumbers, eq(partNumberLinks.partNumberId, partNumbers.id))
+      .where(and(eq(partNumberLinks.partId, partId), isNotNull(partNumbers.interchangeGroupId)));
+
+    const [alternatives, otherSellers] = await Promise.all([
+      this.findTaggedParts(and(
+        inArray(partNumbers.interchangeGroupId, ownGroups),
+        notInArray(partNumbers.normalizedNumber, ownNumbers)
+      ), partId),
+      this.getOtherSellers(partId),
+    ]);
+
+    const sellerIds = new Set(otherSellers.map(part => part.id));
+    return alternatives.filter(part => !sellerIds.has(part.id));
+  }
+
+  /**
+   * Price comparison by part number: every listing tagged with the number, cheapest first
+   *
+   * @param number - Part number in any formatting
+   */
+  async findByNumber(number: string): Promise<{ partNumbers: PartNumber[]; listings: CrossReferencePart[] }> {
+    const normalizedNumber = this.normalizePartNumber(number);
+    if (!normalizedNumber) {
+      return { partNumbers: [], listings: [] };
+    }
+
+    const [catalogue, listings] = await Promise.all([
+      db.select().from(partNumbers).where(eq(partNumbers.normalizedNumber, normalizedNumber)),
+      this.findTaggedParts(eq(partNumbers.normalizedNumber, normalizedNumber)),
+    ]);
+
+    return { partNumbers: catalogue, listings };
+  }
+
+  /**
+   * Create an interchange group from part numbers
+   * Numbers already in another group are moved into the new group.
+   *
+   * @param name - Display name for the group
+   * @param inputs - Interchangeable part numbers (at least two)
+   * @param notes - Optional fitment notes (e.g. "requires longer bolts")
+   */
+  async createInterchangeGroup(
+    name: string,
+    inputs: PartNumberInput[],
+    notes?: string
+  ): Promise<PartInterchangeGroup & { partNumbers: PartNumber[] }> {
+    return await db.transaction(async (tx) => {
+      const [group] = await tx
+        .insert(partInterchangeGroups)
+        .values({ name, notes: notes || null })
+        .returning();
+
+      const numbers = await this.addToInterchangeGroup(group.id, inputs, tx);
+      return { ...group, partNumbers: numbers };
+    });
+  }
+
+  /**
+   * Add part numbers to an existing interchange group
+   *
+   * @returns The numbers added
+   */
+  async addToInterchangeGroup(groupId: string, inputs: PartNumberInput[], tx?: NodePgDatabase | any): Promise<PartNumber[]> {
+    const database = tx || db;
+    const numbers = await this.upsertPartNumbers(inputs, database);
+
+    if (numbers.length === 0) {
+      return [];
+    }
+
+    await database
+      .update(partNumbers)
+      .set({ interchangeGroupId: groupId })
+      .where(inArray(partNumbers.id, numbers.map(number => number.id)));
+
+    await database
+      .update(partInterchangeGroups)
+      .set({ updatedAt: new Date() })
+      .where(eq(partInterchangeGroups.id, groupId));
+
+    return numbers.map(number => ({ ...number, interchangeGroupId: groupId }));
+  }
+
+  /**
+   * Take a part number out of an interchange group
+   *
+   * @returns false if the number was not in the group
+   */
+  async removeFromInterchangeGroup(groupId: string, partNumberId: string): Promise<boolean> {
+    const removed = await db
+      .update(partNumbers)
+      .set({ interchangeGroupId: null })
+      .where(and(eq(partNumbers.id, partNumberId), eq(partNumbers.interchangeGroupId, groupId)))
+      .returning({ id: partNumbers.id });
+
+    return removed.length > 0;
+  }
+
+  /**
+   * Interchange group with its part numbers
+   */
+  async getInterchangeGroup(groupId: string): Promise<(PartInterchangeGroup & { partNumbers: PartNumber[] }) | undefined> {
+    const [group] = await db
+      .select()
+      .from(partInterchangeGroups)
+      .where(eq(partInterchangeGroups.id, groupId));
+
+    if (!group) {
+      return undefined;
+    }
+
+    const numbers = await db
+      .select()
+      .from(partNumbers)
+      .where(eq(partNumbers.interchangeGroupId, groupId))
+      .orderBy(asc(partNumbers.numberType), asc(partNumbers.number));
+
+    return { ...group, partNumbers: numbers };
+  }
+}
+
+export const partNumberService = new PartNumberService();
@@ -0,0 +1,189 @@
+import { db } from "../db";
+import { parts, suppliers, type Part } from "@shared/schema";
+import { and, eq, sql, type SQL } from "drizzle-orm";
+import { expandSearchTerms } from "../utils/searchSynonyms";
+import { partFacetService, type PartFilterParams, type PartFacets } from "./partFacetService";
+
+/**
+ * Part Search Service - Ranked marketplace search over parts
+ *
+ * Ranking combines:
+ * - PostgreSQL full-text rank (weighted: name > brand/vehicle > category/sku > description)
+ * - pg_trgm word similarity per query term (typo tolerance, e.g. "absorbar" -> "absorber")
+ *
+ * Query terms are expanded through the Malay/English synonym dictionary before matching,
+ * so "brek" finds "Brake Pads" and "minyak hitam" finds "Engine Oil".
+ */
+
+// Minimum trigram word similarity for a term to count as a fuzzy match (0-1)
+const FUZZY_THRESHOLD = 0.45;
+
+// Relative weight of fuzzy similarity vs full-text rank in the final score
+const FUZZY_WEIGHT = 0.5;
+
+export interface PartSearchQuery {
+  q: string;
+  supplierId?: string;
+  filters?: PartFilterParams;
+  includeFacets?: boolean;
+  page?: number;
+  limit?: number;
+}
+
+export interface PartSearchHit extends Part {
+  score: number;
+  supplier: { id: string; name: string; state: string; city: string };
+}
+
+export interface PartSearchResult {
+  results: PartSearchHit[];
+  total: number;
+  page: number;
+  limit: number;
+  expandedTerms: string[][];
+  facets?: PartFacets;
+}
+
+export class PartSearchService {
+  private extensionReady: Promise<void> | null = null;
+
+  /**
+   * Ensure pg_trgm is installed (drizzle-kit push does not manage extensions)
+   * Runs once per process
+   */
+  private ensureTrigramExtension(): Promise<void> {
+    if (!this.extensionReady) {
+      this.extensionReady = db
+        .execute(sql`CREATE EXTENSION IF NOT EXISTS pg_trgm`)
+        .then(() => undefined)
+        .catch((error) => {
+          this.extensionReady = null; // Retry on next search
+          throw error;
+        });
+    }
+    return this.extensionReady;
+  }
+
+  /**
+   * Weighted tsvector over all searchable part fields
+   */
+  private documentVector(): SQL {
+    return sql`(
+      setweight(to_tsvector('simple', coalesce(${parts.name}, '')), 'A') ||
+      setweight(to_tsvector('simple', concat_ws(' ', ${parts.brand}, ${parts.vehicleMake}, ${parts.vehicleModel}, ${parts.model})), 'B') ||
+      setweight(to_tsvector('simple', concat_ws(' ', ${parts.category}, ${parts.partCategory}::text, ${parts.sku})), 'C') ||
+      setweight(to_tsvector('simple', coalesce(${parts.description}, '')), 'D')
+    )`;
+  }
+
+  /**
+   * Plain lowercase text of the searchable fields, used for trigram matching
+   */
+  private documentText(): SQL {
+    return sql`LOWER(concat_ws(' ', ${parts.name}, ${parts.brand}, ${parts.vehicleMake}, ${parts.vehicleModel}, ${parts.category}, ${parts.sku}, ${parts.description}))`;
+  }
+
+  /**
+   * Build a to_tsquery expression: groups are ANDed, alternatives ORed, phrases use <->
+   * The last group's single words get prefix matching for search-as-you-type
+   */
+  buildTsQuery(groups: string[][]): string {
+    return groups
+      .map((alternatives, groupIndex) => {
+        const isLast = groupIndex === groups.length - 1;
+        const terms = alternatives.map(term => {
+          const words = term.split(' ');
+          if (words.length > 1) {
+            return `(${words.join(' <-> ')})`;
+          }
+          return isLast ? `${term}:*` : term;
+        });
+        return `(${terms.join(' | ')})`;
+      })
+      .join(' & ');
+  }
+
+  /**
+   * Search parts with relevance ranking, typo tolerance and synonym expansion
+   *
+   * @param query - Search text plus optional supplier/category/stock filters and pagination
+   * @returns Paginated hits with relevance score (higher = better)
+   */
+  async search(query: PartSearchQuery): Promise<PartSearchResult> {
+    const page = Math.max(1, query.page || 1);
+    const limit = Math.min(100, Math.max(1, query.limit || 20));
+    const groups = expandSearchTerms(query.q);
+
+    if (groups.length === 0) {
+      return { results: [], total: 0, page, limit, expandedTerms: [] };
+    }
+
+    await this.ensureTrigramExtension();
+
+    const tsQuery = sql`to_tsquery('simple', ${this.buildTsQuery(groups)})`;
+    const docVector = this.documentVector();
+    const docText = this.documentText();
+
+    // Best fuzzy similarity per group (any alternative may match)
+    const groupSimilarities = groups.map(alternatives =>
+      sql`GREATEST(${sql.join(alternatives.map(term => sql`word_similarity(${term}, ${docText})`), sql`, `)})`
+    );
+
+    const fullTextMatch = sql`${docVector} @@ ${tsQuery}`;
+    const fuzzyMatch = sql.join(
+      groupSimilarities.map(similarity => sql`${similarity} >= ${sql.raw(String(FUZZY_THRESHOLD))}`),
+      sql` AND `
+    );
+    const fuzzyScore = sql`((${sql.join(groupSimilarities, sql` + `)}) / ${sql.raw(String(groups.length))})`;
+    const score = sql<number>`(ts_rank_cd(${docVector}, ${tsQuery}) + ${sql.raw(String(FUZZY_WEIGHT))} * ${fuzzyScore})`;
+
+    const baseConditions: SQL[] = [sql`(${fullTextMatch} OR (${fuzzyMatch}))`, eq(parts.moderationStatus, 'approved')];
+
+    if (query.supplierId) {
+      baseConditions.push(eq(parts.supplierId, query.supplierId));
+    }
+
+    const filters = partFacetService.buildFilterConditions(query.filters || {});
+    const whereClause = and(...baseConditions, ...Object.values(filters));
+
+    const [rows, [{ count }], facets] = await Promise.all([
+      db
+        .select({
+          part: parts,
+          supplier: {
+            id: suppliers.id,
+            name: suppliers.name,
+            state: suppliers.state,
+            city: suppliers.city,
+          },
+          score,
+        })
+        .from(parts)
+        .innerJoin(suppliers, eq(parts.supplierId, suppliers.id))
+        .where(whereClause)
+        .orderBy(sql`${score} DESC`, parts.id)
+        .limit(limit)
+        .offset((page - 1) * limit),
+      db
+        .select({ count: sql<number>`count(*)` })
+        .from(parts)
+        .where(whereClause),
+      query.includeFacets ? partFacetService.computeFacets(baseConditions, filters) : undefined,
+    ]);
+
+    return {
+      results: rows.map(row => ({
+        ...row.part,
+        supplier: row.supplier,
+        score: Math.round(Number(row.score) * 10000) / 10000,
+      })),
+      total: Number(count),
+      page,
+      limit,
+      expandedTerms: groups,
+      ...(facets && { facets }),
+    };
+  }
+}
+
+export const partSearchService = new PartSearchService();
@@ -0,0 +1,242 @@
+import { db } from "../db";
+import { parts, partVariants, type Part, type PartVariant, type PartVariantInput } from "@shared/schema";
+import { and, asc, eq, gte, notInArray, sql } from "drizzle-orm";
+import type { NodePgDatabase } from "drizzle-orm/node-postgres";
+import { InsufficientStockError, VariantNotFoundError, VariantRequiredError } from "../errors";
+
+/**
+ * Part Variant Service - Sizes/specifications of one product
+ *
+ * A parent part with variants (e.g. a tyre in several sizes, an oil in several viscosities/volumes)
+ * keeps its own price and stockQuantity in sync as aggregates - price is the cheapest variant
+ * ("from RM x") and stock is the total - so listings, search, facets and sorting work unchanged.
+ *
+ * Cart items and supplierOrderItems reference the chosen variant; resolveLine gives the
+ * price/stock that apply to a cart line with or without a variant.
+ */
+
+// Price, stock and label that apply to one cart/order line
+export interface ResolvedLine {
+  part: Part;
+  variant: PartVariant | null;
+  unitPrice: string;
+  stockQuantity: number;
+  variantName: string | null;
+}
+
+export class PartVariantService {
+  /**
+   * Variants of a part in display order
+   */
+  async getVariants(partId: string, tx?: NodePgDatabase | any): Promise<PartVariant[]> {
+    const database = tx || db;
+    return await database
+      .select()
+      .from(partVariants)
+      .where(eq(partVariants.partId, partId))
+      .orderBy(asc(partVariants.sortOrder), asc(partVariants.price), asc(partVariants.name));
+  }
+
+  /**
+   * Replace a part's variants
+   * Variants with an id are updated, new ones inserted, and variants missing from the list removed
+   * (order history keeps its variantName snapshot).
+   *
+   * @param partId - Parent part
+   * @param inputs - Complete variant list (empty removes all variants)
+   * @param tx - Optional Drizzle transaction
+   * @returns Variants after the update
+   */
+  async setVariants(partId: string, inputs: PartVariantInput[], tx?: NodePgDatabase | any): Promise<PartVariant[]> {
+    const database = tx || db;
+    const keptIds: string[] = [];
+
+    for (let index = 0; index < inputs.length; index++) {
+      const input = inputs[index];
+      const values = {
+        sku: input.sku || null,
+        name: input.name,
+        options: input.options,
+        price: input.price,
+        stockQuantity: input.stockQuantity,
+        imageUrl: input.imageUrl || null,
+        sortOrder: input.sortOrder ?? index,
+      };
+
+      if (input.id) {
+        const [updated] = await database
+          .update(partVariants)
+          .set({ ...values, updatedAt: new Date() })
+          .where(and(eq(partVariants.id, input.id), eq(partVariants.partId, partId)))
+          .returning({ id: partVariants.id });
+
+        if (!updated) {
+          throw new VariantNotFoundError(partId, input.id);
+        }
+        keptIds.push(updated.id);
+        continue;
+      }
+
+      // Re-submitting a variant by name (e.g. CSV re-import) updates it rather than failing the unique index
+      const [upserted] = await database
+        .insert(partVariants)
+        .values({ ...values, partId })
+        .onConflictDoUpdate({
+          target: [partVariants.partId, partVariants.name],
+          set: { ...values, updatedAt: new Date() },
+        })
+        .returning({ id: partVariants.id });
+
+      keptIds.push(upserted.id);
+    }
+
+    await database
+      .delete(partVariants)
+      .where(and(
+        eq(partVariants.partId, partId),
+        keptIds.length > 0 ? notInArray(partVariants.id, keptIds) : undefined
+      ));
+
+    await this.syncParent(partId, database);
+    return this.getVariants(partId, database);
+  }
+
+  /**
+   * Recompute the parent's aggregate price/stock from its variants
+   * A part whose variants were all removed keeps its last price/stock and becomes a plain part again.
+   */
+  async syncParent(partId: string, tx?: NodePgDatabase | any): Promise<void> {
+    const database = tx || db;
+
+    const [totals] = await database
+      .select({
+        count: sql<number>`count(*)`,
+        minPrice: sql<string | null>`MIN(${partVariants.price})`,
+        totalStock: sql<number>`COALESCE(SUM(${partVariants.stockQuantity}), 0)`,
+      })
+      .from(partVariants)
+      .where(eq(partVariants.partId, partId));
+
+    if (Number(totals?.count || 0) === 0) {
+      await database
+        .update(parts)
+        .set({ hasVariants: false, updatedAt: new Date() })
+        .where(eq(parts.id, partId));
+      return;
+    }
+
+    await database
+      .update(parts)
+      .set({
+        hasVariants: true,
+        price: totals.minPrice!,
+        stockQuantity: Number(totals.totalStock),
+        updatedAt: new Date(),
+      })
+      .where(eq(parts.id, partId));
+  }
+
+  /**
+   * Resolve the price and stock for a cart/order line
+   *
+   * @param partId - Part being bought
+   * @param variantId - Chosen variant (required when the part has variants)
+   * @throws VariantRequiredError, VariantNotFoundError
+   */
+  async resolveLine(partId: string, variantId?: string | null, tx?: NodePgDatabase | any): Promise<ResolvedLine | undefined> {
+    const database = tx || db;
+    const [part] = await database.select().from(parts).where(eq(parts.id, partId));
+
+    if (!part) {
+      return undefined;
+    }
+
+    if (!variantId) {
+      if (part.hasVariants) {
+        throw new VariantRequiredError(partId);
+      }
+      return { part, variant: null, unitPrice: part.price, stockQuantity: part.stockQuantity, variantName: null };
+    }
+
+    const [variant] = await database
+      .select()
+      .from(partVariants)
+      .where(and(eq(partVariants.id, variantId), eq(partVariants.partId, partId)));
+
+    if (!variant) {
+      throw new VariantNotFoundError(partId, variantId);
+    }
+
+    return { part, variant, unitPrice: variant.price, stockQuantity: variant.stockQuantity, variantName: variant.name };
+  }
+
+  /**
+   * Atomically take stock for a purchased line (variant stock when a variant is given)
+   * Must run inside the checkout transaction.
+   *
+   * @throws InsufficientStockError if stock changed since the cart was priced
+   */
+  async decrementStock(partId: string, variantId: string | null, quantity: number, tx: NodePgDatabase | any): Promise<void> {
+    if (variantId) {
+      const [updated] = await tx
+        .update(partVariants)
+        .set({ stockQuantity: sql`${partVariants.stockQuantity} - ${quantity}`, updatedAt: new Date() })
+        .where(and(
+          eq(partVariants.id, variantId),
+          eq(partVariants.partId, partId),
+          gte(partVariants.stockQuantity, quantity)
+        ))
+        .returning({ id: partVariants.id });
+
+      if (!updated) {
+        const [variant] = await tx.select().from(partVariants).where(eq(partVariants.id, variantId));
+        throw new InsufficientStockError(partId, quantity, variant?.stockQuantity ?? 0);
+      }
+
+      await this.syncParent(partId, tx);
+      return;
+    }
+
+    const [updated] = await tx
+      .update(parts)
+      .set({ stockQuantity: sql`${parts.stockQuantity} - ${quantity}`, updatedAt: new Date() })
+      .where(and(eq(parts.id, partId), eq(parts.hasVariants, false), gte(parts.stockQuantity, quantity)))
+      .returning({ id: parts.id });
+
+    if (!updated) {
+      const [part] = await tx.select().from(parts).where(eq(parts.id, partId));
+      if (part?.hasVariants) {
+        throw new VariantRequiredError(partId);
+      }
+      throw new InsufficientStockError(partId, quantity, part?.stockQuantity ?? 0);
+    }
+  }
+
+  /**
+   * Return stock taken by decrementStock (released reservation)
+   * Stock of a variant that has since been removed is dropped.
+   */
+  async incrementStock(partId: string, variantId: string | null, quantity: number, tx?: NodePgDatabase | any): Promise<void> {
+    const database = tx || db;
+
+    if (variantId) {
+      const [updated] = await database
+        .update(partVariants)
+        .set({ stockQuantity: sql`${partVariants.stockQuantity} + ${quantity}`, updatedAt: new Date() })
+        .where(and(eq(partVariants.id, variantId), eq(partVariants.partId, partId)))
+        .returning({ id: partVariants.id });
+
+      if (updated) {
+        await this.syncParent(partId, database);
+      }
+      return;
+    }
+
+    await database
+      .update(parts)
+      .set({ stockQuantity: sql`${parts.stockQuantity} + ${quantity}`, updatedAt: new Date() })
+      .where(and(eq(parts.id, partId), eq(parts.hasVariants, false)));
+  }
+}
+
+export const partVariantService = new PartVariantService();
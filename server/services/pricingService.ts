@@ -0,0 +1,337 @@
+import { db } from "../db";
+import {
+  cart,
+  cartItems,
+  partPriceTiers,
+  parts,
+  priceListAssignments,
+  priceListItems,
+  priceLists,
+  type InsertPriceList,
+  type PartPriceTier,
+  type PriceList,
+  type PriceListAssignment,
+  type PriceListItem,
+  type PriceListItemInput,
+  type PriceSource,
+  type PriceTierInput,
+  type CartItem,
+} from "@shared/schema";
+import { and, asc, desc, eq, inArray, isNull, lte, or } from "drizzle-orm";
+import type { NodePgDatabase } from "drizzle-orm/node-postgres";
+import { partVariantService, type ResolvedLine } from "./partVariantService";
+
+/**
+ * Pricing Service - Quantity breaks and workshop price lists
+ *
+ * A line's unit price is the lowest of:
+ * - Base price (variant price when a variant is chosen, else parts.price)
+ * - Best quantity-break tier reached by the line quantity
+ * - The workshop's price list entry with this supplier (at most one list per supplier)
+ *
+ * Variant-specific tiers/list entries take precedence over part-wide ones (variantId null).
+ * Cart items store the resolved price; checkout locks it into supplierOrderItems.priceAtTime.
+ */
+
+export interface ResolvedPrice {
+  line: ResolvedLine;
+  basePrice: string;
+  unitPrice: string;
+  source: PriceSource;
+  priceListId: string | null;
+  tierMinQuantity: number | null;
+}
+
+export interface PriceListWithDetails extends PriceList {
+  items: PriceListItem[];
+  assignments: PriceListAssignment[];
+}
+
+// Pick the variant-specific entry when present, else the part-wide one
+function pickForVariant<T extends { variantId: string | null }>(entries: T[], variantId: string | null): T[] {
+  const specific = variantId ? entries.filter(entry => entry.variantId === variantId) : [];
+  return specific.length > 0 ? specific : entries.filter(entry => entry.variantId === null);
+}
+
+export class PricingService {
+  /**
+   * Resolve the unit price of a cart/order line
+   *
+   * @param partId - Part being bought
+   * @param variantId - Chosen variant (required when the part has variants)
+   * @param quantity - Line quantity (selects the tier)
+   * @param workshopId - Buying workshop (selects its price list), or null for anonymous pricing
+   * @returns undefined if the part does not exist
+   * @throws VariantRequiredError, VariantNotFoundError
+   */
+  async resolveUnitPrice(
+    partId: string,
+    variantId: string | null | undefined,
+    quantity: number,
+    workshopId: string | null,
+    tx?: NodePgDatabase | any
+  ): Promise<ResolvedPrice | undefined> {
+    const database = tx || db;
+    const line = await partVariantService.resolveLine(partId, variantId, database);
+    if (!line) {
+      return undefined;
+    }
+
+    const chosenVariantId = line.variant?.id ?? null;
+    const variantCondition = chosenVariantId
+      ? or(isNull(partPriceTiers.variantId), eq(partPriceTiers.variantId, chosenVariantId))
+      : isNull(partPriceTiers.variantId);
+
+    const tiers: PartPriceTier[] = await database
+      .select()
+      .from(partPriceTiers)
+      .where(and(eq(partPriceTiers.partId, partId), lte(partPriceTiers.minQuantity, quantity), variantCondition))
+      .orderBy(desc(partPriceTiers.minQuantity));
+
+    let listEntries: PriceListItem[] = [];
+    if (workshopId) {
+      const rows = await database
+        .select({ item: priceListItems })
+        .from(priceListAssignments)
+        .innerJoin(priceLists, eq(priceListAssignments.priceListId, priceLists.id))
+        .innerJoin(priceListItems, eq(priceListItems.priceListId, priceLists.id))
+        .where(and(
+          eq(priceListAssignments.workshopId, workshopId),
+          eq(priceListAssignments.supplierId, line.part.supplierId),
+          eq(priceLists.isActive, true),
+          eq(priceListItems.partId, partId)
+        ));
+      listEntries = rows.map((row: { item: PriceListItem }) => row.item);
+    }
+
+    const result: ResolvedPrice = {
+      line,
+      basePrice: line.unitPrice,
+      unitPrice: line.unitPrice,
+      source: 'base',
+      priceListId: null,
+      tierMinQuantity: null,
+    };
+
+    // Highest tier reached (rows are ordered by minQuantity desc)
+    const [tier] = pickForVariant(tiers, chosenVariantId);
+    if (tier && Number(tier.price) < Number(result.unitPrice)) {
+      result.unitPrice = tier.price;
+      result.source = 'tier';
+      result.tierMinQuantity = tier.minQuantity;
+    }
+
+    const [listEntry] = pickForVariant(listEntries, chosenVariantId);
+    if (listEntry && Number(listEntry.price) < Number(result.unitPrice)) {
+      result.unitPrice = listEntry.price;
+      result.source = 'price_list';
+      result.priceListId = listEntry.priceListId;
+      result.tierMinQuantity = null;
+    }
+
+    return result;
+  }
+
+  /**
+   * Re-resolve the price of one cart item at its current quantity (cartService calls this on add/quantity changes)
+   *
+   * @returns The item with its stored price, and whether the price changed
+   */
+  async repriceItem(item: CartItem, workshopId: string, tx?: NodePgDatabase | any): Promise<{ item: CartItem; changed: boolean }> {
+    const database = tx || db;
+    let resolved: ResolvedPrice | undefined;
+    try {
+      resolved = await this.resolveUnitPrice(item.partId, item.variantId, item.quantity, workshopId, database);
+    } catch {
+      // Variant missing/removed: leave the line unpriced; checkout reports the error
+      resolved = undefined;
+    }
+
+    const unitPrice = resolved?.unitPrice ?? null;
+    const priceSource = resolved?.source ?? null;
+    if (unitPrice === item.unitPrice && priceSource === item.priceSource) {
+      return { item, changed: false };
+    }
+
+    const [updated] = await database
+      .update(cartItems)
+      .set({ unitPrice, priceSource })
+      .where(eq(cartItems.id, item.id))
+      .returning();
+    return { item: updated, changed: true };
+  }
+
+  /**
+   * Re-resolve prices for every item in a workshop's cart (e.g. after a price list or tier change)
+   *
+   * @returns Number of items whose price changed
+   */
+  async repriceCart(workshopId: string, tx?: NodePgDatabase | any): Promise<number> {
+    const database = tx || db;
+    const rows = await database
+      .select({ item: cartItems })
+      .from(cartItems)
+      .innerJoin(cart, eq(cartItems.cartId, cart.id))
+      .where(eq(cart.workshopId, workshopId));
+
+    let changed = 0;
+    for (const { item } of rows) {
+      if ((await this.repriceItem(item, workshopId, database)).changed) {
+        changed++;
+      }
+    }
+
+    return changed;
+  }
+
+  /**
+   * Quantity-break tiers of a part, lowest quantity first
+   */
+  async getPriceTiers(partId: string, tx?: NodePgDatabase | any): Promise<PartPriceTier[]> {
+    const database = tx || db;
+    return await database
+      .select()
+      .from(partPriceTiers)
+      .where(eq(partPriceTiers.partId, partId))
+      .orderBy(asc(partPriceTiers.variantId), asc(partPriceTiers.minQuantity));
+  }
+
+  /**
+   * Replace a part's quantity-break tiers
+   *
+   * @param partId - Part the tiers belong to
+   * @param inputs - Complete tier list (empty removes all tiers)
+   */
+  async setPriceTiers(partId: string, inputs: PriceTierInput[], tx?: NodePgDatabase | any): Promise<PartPriceTier[]> {
+    const database = tx || db;
+
+    await database.delete(partPriceTiers).where(eq(partPriceTiers.partId, partId));
+    if (inputs.length > 0) {
+      await database.insert(partPriceTiers).values(inputs.map(input => ({
+        partId,
+        variantId: input.variantId || null,
+        minQuantity: input.minQuantity,
+        price: input.price,
+      })));
+    }
+
+    return this.getPriceTiers(partId, database);
+  }
+
+  async createPriceList(supplierId: string, data: InsertPriceList): Promise<PriceList> {
+    const [priceList] = await db
+      .insert(priceLists)
+      .values({ ...data, supplierId })
+      .returning();
+
+    return priceList;
+  }
+
+  async updatePriceList(priceListId: string, data: Partial<InsertPriceList>): Promise<PriceList | undefined> {
+    const [priceList] = await db
+      .update(priceLists)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(priceLists.id, priceListId))
+      .returning();
+
+    return priceList;
+  }
+
+  async listPriceLists(supplierId: string): Promise<PriceList[]> {
+    return await db
+      .select()
+      .from(priceLists)
+      .where(eq(priceLists.supplierId, supplierId))
+      .orderBy(asc(priceLists.name));
+  }
+
+  /**
+   * Price list with its entries and assigned workshops
+   */
+  async getPriceList(priceListId: string): Promise<PriceListWithDetails | undefined> {
+    const [priceList] = await db
+      .select()
+      .from(priceLists)
+      .where(eq(priceLists.id, priceListId));
+
+    if (!priceList) {
+      return undefined;
+    }
+
+    const [items, assignments] = await Promise.all([
+      db.select().from(priceListItems).where(eq(priceListItems.priceListId, priceListId)),
+      db.select().from(priceListAssignments).where(eq(priceListAssignments.priceListId, priceListId)),
+    ]);
+
+    return { ...priceList, items, assignments };
+  }
+
+  /**
+   * Replace a price list's entries
+   * Parts must belong to the list's supplier.
+   *
+   * @returns The entries, or null if some parts are not the supplier's
+   */
+  async setPriceListItems(priceList: PriceList, inputs: PriceListItemInput[]): Promise<PriceListItem[] | null> {
+    const partIds = Array.from(new Set(inputs.map(input => input.partId)));
+    if (partIds.length > 0) {
+      const owned = await db
+        .select({ id: parts.id })
+        .from(parts)
+        .where(and(inArray(parts.id, partIds), eq(parts.supplierId, priceList.supplierId)));
+      if (owned.length !== partIds.length) {
+        return null;
+      }
+    }
+
+    return await db.transaction(async (tx) => {
+      await tx.delete(priceListItems).where(eq(priceListItems.priceListId, priceList.id));
+      if (inputs.length > 0) {
+        await tx.insert(priceListItems).values(inputs.map(input => ({
+          priceListId: priceList.id,
+          partId: input.partId,
+          variantId: input.variantId || null,
+          price: input.price,
+        })));
+      }
+      await tx.update(priceLists).set({ updatedAt: new Date() }).where(eq(priceLists.id, priceList.id));
+
+      return await tx.select().from(priceListItems).where(eq(priceListItems.priceListId, priceList.id));
+    });
+  }
+
+  /**
+   * Assign workshops to a price list
+   * A workshop already on another list of the same supplier is moved to this one.
+   */
+  async assignWorkshops(priceList: PriceList, workshopIds: string[]): Promise<PriceListAssignment[]> {
+    for (const workshopId of Array.from(new Set(workshopIds))) {
+      await db
+        .insert(priceListAssignments)
+        .values({ priceListId: priceList.id, supplierId: priceList.supplierId, workshopId })
+        .onConflictDoUpdate({
+          target: [priceListAssignments.supplierId, priceListAssignments.workshopId],
+          set: { priceListId: priceList.id, createdAt: new Date() },
+        });
+    }
+
+    return await db
+      .select()
+      .from(priceListAssignments)
+      .where(eq(priceListAssignments.priceListId, priceList.id));
+  }
+
+  /**
+   * @returns false if the workshop was not on the list
+   */
+  async unassignWorkshop(priceListId: string, workshopId: string): Promise<boolean> {
+    const removed = await db
+      .delete(priceListAssignments)
+      .where(and(eq(priceListAssignments.priceListId, priceListId), eq(priceListAssignments.workshopId, workshopId)))
+      .returning({ id: priceListAssignments.id });
+
+    return removed.length > 0;
+  }
+}
+
+export const pricingService = new PricingService();
@@ -0,0 +1,214 @@
+import { createHash } from "crypto";
+import { GoogleGenerativeAI } from "@google/generative-ai";
+
+/**
+ * Product Extraction Providers - The AI backends behind GeminiProductService
+ *
+ * A provider turns a product photo into raw product fields (validated by the service) or into
+ * label text. "gemini" calls Google Gemini; "stub" derives fixed answers from the image bytes,
+ * so the same photo always gives the same product - for local development and tests without
+ * an API key or network.
+ *
+ * Selected by AI_PRODUCT_PROVIDER; when unset, Gemini is used if AI_INTEGRATIONS_GEMINI_API_KEY
+ * is configured and the stub otherwise (outside production).
+ */
+
+export type ProductExtractionProviderName = 'gemini' | 'stub';
+
+export interface ProductExtractionProvider {
+  readonly name: ProductExtractionProviderName;
+
+  /**
+   * Raw product fields for the photo (name, description, category, price, stockQuantity)
+   *
+   * @param categoryLabels - Taxonomy category labels the provider should choose from
+   */
+  analyzeImage(imageData: string, mimeType: string, categoryLabels: string[]): Promise<unknown>;
+
+  /**
+   * All visible text on the label/packaging (SKU, part numbers, specifications)
+   */
+  extractText(imageData: string, mimeType: string): Promise<string>;
+}
+
+const GEMINI_MODEL = "gemini-1.5-flash";
+
+export class GeminiExtractionProvider implements ProductExtractionProvider {
+  readonly name = 'gemini' as const;
+  private genAI: GoogleGenerativeAI | null = null;
+
+  /**
+   * Lazy initialization of Gemini client using Replit AI Integrations
+   * Uses AI_INTEGRATIONS_GEMINI_API_KEY and AI_INTEGRATIONS_GEMINI_BASE_URL
+   */
+  private ensureClient() {
+    if (this.genAI) {
+      return this.genAI;
+    }
+
+    const apiKey = process.env.AI_INTEGRATIONS_GEMINI_API_KEY;
+
+    if (!apiKey) {
+      throw new Error("AI_INTEGRATIONS_GEMINI_API_KEY environment variable is required for AI features");
+    }
+
+    this.genAI = new GoogleGenerativeAI(apiKey);
+
+    return this.genAI;
+  }
+
+  /**
+   * Retry helper with exponential backoff
+   */
+  private async retryWithBackoff<T>(
+    fn: () => Promise<T>,
+    maxRetries: number = 3,
+    initialDelay: number = 1000
+  ): Promise<T> {
+    let lastError: Error | null = null;
+
+    for (let attempt = 0; attempt < maxRetries; attempt++) {
+      try {
+        return await fn();
+      } catch (error: any) {
+        lastError = error;
+
+        // Don't retry on client errors (4xx)
+        if (error.status && error.status >= 400 && error.status < 500) {
+          throw error;
+        }
+
+        // Calculate backoff delay
+        const delay = initialDelay * Math.pow(2, attempt);
+        console.warn(`[GeminiExtractionProvider] Attempt ${attempt + 1} failed, retrying in ${delay}ms...`);
+
+        await new Promise(resolve => setTimeout(resolve, delay));
+      }
+    }
+
+    throw lastError || new Error("All retry attempts failed");
+  }
+
+  private async generate(prompt: string, imageData: string, mimeType: string): Promise<string> {
+    const genAI = this.ensureClient();
+
+    return this.retryWithBackoff(async () => {
+      const model = genAI.getGenerativeModel({ model: GEMINI_MODEL });
+      const result = await model.generateContent([
+        prompt,
+        {
+          inlineData: {
+            mimeType,
+            data: imageData,
+          },
+        },
+      ]);
+
+      return result.response.text() || "";
+    });
+  }
+
+  async analyzeImage(imageData: string, mimeType: string, categoryLabels: string[]): Promise<unknown> {
+    const prompt = `
+You are a product recognition AI for an automotive parts marketplace.
+Analyze this automotive product image and extract the following information in JSON format:
+
+{
+  "name": "Product name (e.g., 'Brake Pads Front', 'Oil Filter')",
+  "description": "Detailed product description (2-3 sentences about features, compatibility, quality)",
+  "category": "Product category - one of: ${categoryLabels.join(', ')}",
+  "price": "Estimated price in RM (Malaysian Ringgit as decimal string, e.g., '89.90')",
+  "stockQuantity": "Estimated typical stock quantity as integer (e.g., 50, 100, 200)"
+}
+
+Important guidelines:
+- Be specific with product names (include part position like Front/Rear if visible)
+- Price should be realistic for Malaysian automotive market
+- Description should highlight key features and compatibility
+- If you cannot identify the product clearly, provide best estimates based on visible details
+- Return ONLY valid JSON, no additional text or explanation
+`;
+
+    const text = await this.generate(prompt, imageData, mimeType);
+
+    // Parse JSON response
+    const jsonMatch = text.match(/\{[\s\S]*\}/);
+    if (!jsonMatch) {
+      return null;
+    }
+
+    try {
+      return JSON.parse(jsonMatch[0]);
+    } catch {
+      return null;
+    }
+  }
+
+  async extractText(imageData: string, mimeType: string): Promise<string> {
+    const prompt = "Extract all visible text from this product image, including SKU, part numbers, and specifications. Return only the extracted text.";
+    return this.generate(prompt, imageData, mimeType);
+  }
+}
+
+// Stub answers are picked from these by the image hash
+const STUB_PRODUCTS = [
+  { name: "Brake Pads Front", description: "Semi-metallic front brake pads with low dust and quiet braking." },
+  { name: "Oil Filter", description: "Spin-on oil filter with anti-drainback valve for reliable cold starts." },
+  { name: "Spark Plug", description: "Iridium spark plug for smooth idle and improved fuel efficiency." },
+  { name: "Air Filter", description: "High-flow panel air filter that traps fine dust and debris." },
+  { name: "Shock Absorber Rear", description: "Gas-charged rear shock absorber for stable handling on uneven roads." },
+];
+
+export class StubExtractionProvider implements ProductExtractionProvider {
+  readonly name = 'stub' as const;
+
+  private seed(imageData: string): { hash: string; value: number } {
+    const hash = createHash('sha256').update(imageData).digest('hex');
+    return { hash, value: parseInt(hash.substring(0, 8), 16) };
+  }
+
+  async analyzeImage(imageData: string, _mimeType: string, categoryLabels: string[]): Promise<unknown> {
+    const { hash, value } = this.seed(imageData);
+    const product = STUB_PRODUCTS[value % STUB_PRODUCTS.length];
+
+    return {
+      name: `${product.name} ${hash.substring(0, 6).toUpperCase()}`,
+      description: product.description,
+      category: categoryLabels.length > 0 ? categoryLabels[value % categoryLabels.length] : "General",
+      price: (10 + (value % 49000) / 100).toFixed(2),
+      stockQuantity: 10 + (value % 191),
+    };
+  }
+
+  async extractText(imageData: string): Promise<string> {
+    const { hash } = this.seed(imageData);
+    return [
+      `SKU: STUB-${hash.substring(0, 8).toUpperCase()}`,
+      `Part No: ${hash.substring(8, 13).toUpperCase()}-${hash.substring(13, 18).toUpperCase()}`,
+      "Made in Malaysia",
+    ].join("\n");
+  }
+}
+
+/**
+ * Provider chosen by AI_PRODUCT_PROVIDER, falling back to Gemini when its key is set
+ */
+export function createProductExtractionProvider(): ProductExtractionProvider {
+  const configured = process.env.AI_PRODUCT_PROVIDER;
+
+  if (configured === 'stub') {
+    return new StubExtractionProvider();
+  }
+  if (configured === 'gemini') {
+    return new GeminiExtractionProvider();
+  }
+  if (configured) {
+    console.warn(`[ProductExtraction] Unknown AI_PRODUCT_PROVIDER "${configured}", using default`);
+  }
+
+  if (process.env.AI_INTEGRATIONS_GEMINI_API_KEY || process.env.NODE_ENV === 'production') {
+    return new GeminiExtractionProvider();
+  }
+  console.log('[ProductExtraction] No Gemini API key; using the offline stub provider');
+  return new StubExtractionProvider();
+}
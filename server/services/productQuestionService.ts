@@ -0,0 +1,182 @@
+import type { Server as SocketIOServer } from "socket.io";
+import { db } from "../db";
+import {
+  notifications,
+  parts,
+  productQuestions,
+  suppliers,
+  workshops,
+  type AnswerProductQuestion,
+  type AskProductQuestion,
+  type Part,
+  type ProductQuestion,
+  type Workshop,
+} from "@shared/schema";
+import { and, desc, eq, isNotNull, isNull, or } from "drizzle-orm";
+import { emitNotification } from "../socket";
+
+/**
+ * Product Question Service - Public Q&A threads on listings
+ *
+ * Fitment questions asked in the supplier chat are lost to the next buyer; questions asked here
+ * stay on the listing. A workshop asks, the listing's supplier answers (and may edit the answer),
+ * and answered questions are shown to everyone on the product page. The supplier is notified of
+ * new questions and the asker of the answer.
+ */
+
+// Answered questions returned with a listing
+const PUBLIC_QUESTION_LIMIT = 20;
+
+// Question as shown on the product page (asker shown by workshop name only)
+export interface PublicProductQuestion {
+  id: string;
+  partId: string;
+  workshopName: string;
+  question: string;
+  answer: string | null;
+  answeredAt: Date | null;
+  createdAt: Date | null;
+  isOwn: boolean; // Asked by the viewing workshop (its unanswered questions are included too)
+}
+
+export type SupplierQuestionStatus = 'unanswered' | 'answered' | 'all';
+
+export interface SupplierProductQuestion extends ProductQuestion {
+  part: { id: string; name: string; garagehubCode: string };
+  workshopName: string;
+}
+
+export class ProductQuestionService {
+  /**
+   * Questions shown on a listing: answered ones, newest answer first, plus the viewer's own unanswered ones
+   *
+   * @param viewerWorkshopId - Workshop of the viewing user, if any
+   */
+  async getForPart(partId: string, viewerWorkshopId?: string): Promise<PublicProductQuestion[]> {
+    const rows = await db
+      .select({ question: productQuestions, workshopName: workshops.name })
+      .from(productQuestions)
+      .innerJoin(workshops, eq(productQuestions.workshopId, workshops.id))
+      .where(and(
+        eq(productQuestions.partId, partId),
+        viewerWorkshopId
+          ? or(isNotNull(productQuestions.answer), eq(productQuestions.workshopId, viewerWorkshopId))
+          : isNotNull(productQuestions.answer)
+      ))
+      .orderBy(desc(productQuestions.answeredAt), desc(productQuestions.createdAt))
+      .limit(PUBLIC_QUESTION_LIMIT);
+
+    return rows.map(({ question, workshopName }) => ({
+      id: question.id,
+      partId: question.partId,
+      workshopName,
+      question: question.question,
+      answer: question.answer,
+      answeredAt: question.answeredAt,
+      createdAt: question.createdAt,
+      isOwn: question.workshopId === viewerWorkshopId,
+    }));
+  }
+
+  /**
+   * A supplier's questions across its listings, newest first
+   */
+  async getForSupplier(supplierId: string, status: SupplierQuestionStatus = 'unanswered'): Promise<SupplierProductQuestion[]> {
+    const rows = await db
+      .select({
+        question: productQuestions,
+        part: { id: parts.id, name: parts.name, garagehubCode: parts.garagehubCode },
+        workshopName: workshops.name,
+      })
+      .from(productQuestions)
+      .innerJoin(parts, eq(productQuestions.partId, parts.id))
+      .innerJoin(workshops, eq(productQuestions.workshopId, workshops.id))
+      .where(and(
+        eq(productQuestions.supplierId, supplierId),
+        status === 'unanswered' ? isNull(productQuestions.answer) : undefined,
+        status === 'answered' ? isNotNull(productQuestions.answer) : undefined
+      ))
+      .orderBy(desc(productQuestions.createdAt));
+
+    return rows.map(row => ({ ...row.question, part: row.part, workshopName: row.workshopName }));
+  }
+
+  async getQuestion(questionId: string): Promise<ProductQuestion | undefined> {
+    const [question] = await db.select().from(productQuestions).where(eq(productQuestions.id, questionId));
+    return question;
+  }
+
+  /**
+   * Ask a question on a listing and notify its supplier
+   */
+  async ask(part: Part, workshop: Workshop, userId: string, input: AskProductQuestion, io?: SocketIOServer): Promise<ProductQuestion> {
+    const [question] = await db
+      .insert(productQuestions)
+      .values({
+        partId: part.id,
+        supplierId: part.supplierId,
+        workshopId: workshop.id,
+        askedBy: userId,
+        question: input.question,
+      })
+      .returning();
+
+    const [supplier] = await db.select().from(suppliers).where(eq(suppliers.id, part.supplierId));
+    if (supplier) {
+      await this.notify(supplier.userId, {
+        title: "New Product Question",
+        message: `${workshop.name} asked about ${part.name}: ${input.question.substring(0, 100)}`,
+        type: "product_question",
+      }, io);
+    }
+
+    return question;
+  }
+
+  /**
+   * Answer (or edit the answer to) a question and notify the asker
+   * The asker is only notified the first time a question is answered.
+   */
+  async answer(question: ProductQuestion, userId: string, input: AnswerProductQuestion, io?: SocketIOServer): Promise<ProductQuestion> {
+    const [updated] = await db
+      .update(productQuestions)
+      .set({ answer: input.answer, answeredBy: userId, answeredAt: question.answeredAt ?? new Date() })
+      .where(eq(productQuestions.id, question.id))
+      .returning();
+
+    if (!question.answer) {
+      const [part] = await db.select({ name: parts.name }).from(parts).where(eq(parts.id, question.partId));
+      await this.notify(question.askedBy, {
+        title: "Question Answered",
+        message: `Your question about ${part?.name ?? 'a product'} was answered: ${input.answer.substring(0, 100)}`,
+        type: "product_answer",
+      }, io);
+    }
+
+    return updated;
+  }
+
+  /**
+   * Delete a question (asker or the listing's supplier)
+   */
+  async deleteQuestion(questionId: string): Promise<void> {
+    await db.delete(productQuestions).where(eq(productQuestions.id, questionId));
+  }
+
+  private async notify(
+    userId: string,
+    content: { title: string; message: string; type: string },
+    io?: SocketIOServer
+  ): Promise<void> {
+    const [notification] = await db
+      .insert(notifications)
+      .values({ userId, ...content })
+      .returning();
+
+    if (io) {
+      emitNotification(io, userId, notification);
+    }
+  }
+}
+
+export const productQuestionService = new ProductQuestionService();
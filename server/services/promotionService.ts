@@ -0,0 +1,254 @@
+import { db } from "../db";
+import {
+  promotions,
+  promotionRedemptions,
+  type InsertPromotion,
+  type Promotion,
+  type UpdatePromotion,
+} from "@shared/schema";
+import { and, desc, eq, isNull, lt, or, sql } from "drizzle-orm";
+import type { NodePgDatabase } from "drizzle-orm/node-postgres";
+import { PromotionError } from "../errors";
+
+/**
+ * Promotion Service - Supplier vouchers applied at cart checkout
+ *
+ * A voucher applies to one supplier's share of the cart (one supplier order). Scoping by
+ * category/brand decides which lines are eligible; minimum spend and the discount are computed
+ * on the eligible lines only. Percentage vouchers can be capped by maxDiscountAmount.
+ *
+ * Checkout flow: evaluateCode (price the discount) -> create the supplier order -> redeem
+ * inside the same transaction, which enforces usage limits under a row lock.
+ * Cancelling or expiring the order gives the use back (releaseRedemption).
+ */
+
+// One priced cart line of the supplier's order
+export interface PromotionLine {
+  partId: string;
+  category: string;
+  brand: string | null;
+  unitPrice: number;
+  quantity: number;
+}
+
+export interface PromotionQuote {
+  promotion: Promotion;
+  code: string;
+  eligibleSubtotal: string;
+  discountAmount: string;
+}
+
+export class PromotionService {
+  normalizeCode(code: string): string {
+    return code.trim().toUpperCase();
+  }
+
+  async createPromotion(supplierId: string, data: InsertPromotion): Promise<Promotion> {
+    const [promotion] = await db
+      .insert(promotions)
+      .values({ ...data, supplierId })
+      .returning();
+
+    return promotion;
+  }
+
+  async updatePromotion(promotionId: string, data: UpdatePromotion): Promise<Promotion | undefined> {
+    const [promotion] = await db
+      .update(promotions)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(promotions.id, promotionId))
+      .returning();
+
+    return promotion;
+  }
+
+  async getPromotion(promotionId: string): Promise<Promotion | undefined> {
+    const [promotion] = await db
+      .select()
+      .from(promotions)
+      .where(eq(promotions.id, promotionId));
+
+    return promotion;
+  }
+
+  /**
+   * A supplier's promotions, newest first
+   */
+  async listPromotions(supplierId: string): Promise<Promotion[]> {
+    return await db
+      .select()
+      .from(promotions)
+      .where(eq(promotions.supplierId, supplierId))
+      .orderBy(desc(promotions.createdAt));
+  }
+
+  async findByCode(supplierId: string, code: string, tx?: NodePgDatabase | any): Promise<Promotion | undefined> {
+    const database = tx || db;
+    const [promotion] = await database
+      .select()
+      .from(promotions)
+      .where(and(eq(promotions.supplierId, supplierId), eq(promotions.code, this.normalizeCode(code))));
+
+    return promotion;
+  }
+
+  /**
+   * Price a voucher against the supplier's cart lines
+   *
+   * @param supplierId - Supplier whose order the voucher is for
+   * @param code - Voucher code as typed by the workshop
+   * @param workshopId - Workshop checking out (for the per-workshop limit)
+   * @param lines - The supplier's priced cart lines
+   * @throws PromotionError with the reason the voucher cannot be used
+   */
+  async evaluateCode(
+    supplierId: string,
+    code: string,
+    workshopId: string,
+    lines: PromotionLine[],
+    tx?: NodePgDatabase | any
+  ): Promise<PromotionQuote> {
+    const promotion = await this.findByCode(supplierId, code, tx);
+    if (!promotion) {
+      throw new PromotionError('not_found', `Voucher ${this.normalizeCode(code)} is not valid for this supplier`);
+    }
+
+    return this.evaluate(promotion, workshopId, lines, new Date(), tx);
+  }
+
+  /**
+   * Check a promotion's window, limits and scope, and compute its discount
+   */
+  async evaluate(
+    promotion: Promotion,
+    workshopId: string,
+    lines: PromotionLine[],
+    now: Date = new Date(),
+    tx?: NodePgDatabase | any
+  ): Promise<PromotionQuote> {
+    if (!promotion.isActive) {
+      throw new PromotionError('inactive', `Voucher ${promotion.code} is no longer active`);
+    }
+    if (promotion.startsAt > now) {
+      throw new PromotionError('not_started', `Voucher ${promotion.code} is valid from ${promotion.startsAt.toISOString()}`);
+    }
+    if (promotion.endsAt && promotion.endsAt <= now) {
+      throw new PromotionError('expired', `Voucher ${promotion.code} has expired`);
+    }
+    if (promotion.usageLimit !== null && promotion.usageCount >= promotion.usageLimit) {
+      throw new PromotionError('usage_limit', `Voucher ${promotion.code} has been fully redeemed`);
+    }
+    if (promotion.perWorkshopLimit !== null) {
+      const used = await this.countWorkshopRedemptions(promotion.id, workshopId, tx);
+      if (used >= promotion.perWorkshopLimit) {
+        throw new PromotionError('workshop_limit', `You have already used voucher ${promotion.code}`);
+      }
+    }
+
+    const eligibleSubtotal = lines
+      .filter(line => this.isEligible(promotion, line))
+      .reduce((sum, line) => sum + line.unitPrice * line.quantity, 0);
+
+    if (eligibleSubtotal <= 0) {
+      throw new PromotionError('not_applicable', `Voucher ${promotion.code} does not apply to the items in your cart`);
+    }
+    if (eligibleSubtotal < Number(promotion.minSpend)) {
+      throw new PromotionError('min_spend', `Voucher ${promotion.code} requires a minimum spend of RM ${Number(promotion.minSpend).toFixed(2)}`);
+    }
+
+    let discount = promotion.discountType === 'percentage'
+      ? eligibleSubtotal * Number(promotion.discountValue) / 100
+      : Number(promotion.discountValue);
+    if (promotion.maxDiscountAmount !== null) {
+      discount = Math.min(discount, Number(promotion.maxDiscountAmount));
+    }
+    discount = Math.min(discount, eligibleSubtotal);
+
+    return {
+      promotion,
+      code: promotion.code,
+      eligibleSubtotal: eligibleSubtotal.toFixed(2),
+      discountAmount: (Math.round(discount * 100) / 100).toFixed(2),
+    };
+  }
+
+  /**
+   * A line is eligible when it matches the category scope and the brand scope (empty scope = any)
+   */
+  private isEligible(promotion: Promotion, line: PromotionLine): boolean {
+    const categories = promotion.categories.map(category => category.toLowerCase());
+    const brands = promotion.brands.map(brand => brand.toLowerCase());
+
+    const categoryMatches = categories.length === 0 || categories.includes(line.category.toLowerCase());
+    const brandMatches = brands.length === 0 || (!!line.brand && brands.includes(line.brand.toLowerCase()));
+    return categoryMatches && brandMatches;
+  }
+
+  private async countWorkshopRedemptions(promotionId: string, workshopId: string, tx?: NodePgDatabase | any): Promise<number> {
+    const database = tx || db;
+    const [result] = await database
+      .select({ count: sql<number>`count(*)` })
+      .from(promotionRedemptions)
+      .where(and(eq(promotionRedemptions.promotionId, promotionId), eq(promotionRedemptions.workshopId, workshopId)));
+
+    return Number(result?.count || 0);
+  }
+
+  /**
+   * Record a voucher use for a created supplier order
+   * Must run inside the checkout transaction: the usage update locks the promotion row,
+   * so concurrent checkouts cannot exceed the total or per-workshop limits.
+   *
+   * @throws PromotionError if a limit was reached since the voucher was priced
+   */
+  async redeem(quote: PromotionQuote, workshopId: string, orderId: string, tx: NodePgDatabase | any): Promise<void> {
+    const { promotion } = quote;
+
+    const [updated] = await tx
+      .update(promotions)
+      .set({ usageCount: sql`${promotions.usageCount} + 1`, updatedAt: new Date() })
+      .where(and(
+        eq(promotions.id, promotion.id),
+        or(isNull(promotions.usageLimit), lt(promotions.usageCount, promotions.usageLimit))
+      ))
+      .returning({ id: promotions.id });
+
+    if (!updated) {
+      throw new PromotionError('usage_limit', `Voucher ${promotion.code} has been fully redeemed`);
+    }
+
+    if (promotion.perWorkshopLimit !== null) {
+      const used = await this.countWorkshopRedemptions(promotion.id, workshopId, tx);
+      if (used >= promotion.perWorkshopLimit) {
+        throw new PromotionError('workshop_limit', `You have already used voucher ${promotion.code}`);
+      }
+    }
+
+    await tx.insert(promotionRedemptions).values({
+      promotionId: promotion.id,
+      workshopId,
+      orderId,
+      discountAmount: quote.discountAmount,
+    });
+  }
+
+  /**
+   * Undo the voucher use of a cancelled order, so it counts against neither limit
+   * Must run inside the cancellation transaction. Does nothing for orders without a voucher.
+   */
+  async releaseRedemption(orderId: string, tx: NodePgDatabase | any): Promise<void> {
+    const [redemption] = await tx
+      .delete(promotionRedemptions)
+      .where(eq(promotionRedemptions.orderId, orderId))
+      .returning({ promotionId: promotionRedemptions.promotionId });
+
+    if (!redemption) return;
+
+    await tx
+      .update(promotions)
+      .set({ usageCount: sql`GREATEST(${promotions.usageCount} - 1, 0)`, updatedAt: new Date() })
+      .where(eq(promotions.id, redemption.promotionId));
+  }
+}
+
+export const promotionService = new PromotionService();
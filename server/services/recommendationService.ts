@@ -0,0 +1,237 @@
+import { db } from "../db";
+import {
+  cart,
+  cartItems,
+  parts,
+  partAssociations,
+  popularVehicleParts,
+  suppliers,
+  type Part,
+} from "@shared/schema";
+import { and, asc, desc, eq, inArray, ne, notInArray, sql } from "drizzle-orm";
+
+/**
+ * Recommendation Service - "Frequently bought together" and popular parts per vehicle
+ *
+ * Both are mined from supplier order history by the nightly cron job and stored in
+ * partAssociations / popularVehicleParts, so product and cart requests only read precomputed rows.
+ *
+ * Co-purchase: a basket is everything one workshop ordered on one day (a multi-supplier
+ * checkout creates one order per supplier). Pairs seen in fewer than MIN_BASKET_COUNT baskets are dropped.
+ * Popular parts: a part counts for its own vehicleMake/vehicleModel and every vehicle in its compatibility list.
+ * Only approved (listed) parts are recommended.
+ */
+
+// Order history considered for co-purchase pairs
+const ASSOCIATION_WINDOW_DAYS = 730;
+
+// Order history considered for popular parts (recent demand)
+const POPULARITY_WINDOW_DAYS = 180;
+
+// Minimum baskets a pair must share to be recommended
+const MIN_BASKET_COUNT = 2;
+
+// Associations kept per part / popular parts kept per vehicle
+const MAX_ASSOCIATIONS_PER_PART = 20;
+const MAX_POPULAR_PER_VEHICLE = 20;
+
+const supplierColumns = {
+  id: suppliers.id,
+  name: suppliers.name,
+  state: suppliers.state,
+  city: suppliers.city,
+  rating: suppliers.rating,
+  isVerified: suppliers.isVerified,
+};
+
+export interface RecommendedPart extends Part {
+  supplier: { id: string; name: string; state: string; city: string; rating: string; isVerified: boolean };
+  score: number; // Association confidence (summed over cart lines) or order count for popular parts
+}
+
+export class RecommendationService {
+  /**
+   * Rebuild co-purchase associations from order history
+   * Cancelled orders and lines are ignored.
+   *
+   * @returns Number of association rows written
+   */
+  async recomputeAssociations(): Promise<number> {
+    return await db.transaction(async (tx) => {
+      await tx.delete(partAssociations);
+
+      const result = await tx.execute(sql`
+        WITH baskets AS (
+          SELECT DISTINCT o.workshop_id, date_trunc('day', o.created_at) AS day, oi.part_id
+          FROM supplier_order_items oi
+          JOIN supplier_orders o ON o.id = oi.order_id
+          WHERE o.status <> 'cancelled'
+            AND oi.status <> 'cancelled'
+            AND o.created_at >= now() - make_interval(days => ${ASSOCIATION_WINDOW_DAYS})
+        ),
+        basket_total AS (
+          SELECT count(DISTINCT (workshop_id, day)) AS n FROM baskets
+        ),
+        part_baskets AS (
+          SELECT part_id, count(*) AS n FROM baskets GROUP BY part_id
+        ),
+        pairs AS (
+          SELECT a.part_id, b.part_id AS associated_part_id, count(*) AS basket_count
+          FROM baskets a
+          JOIN baskets b ON b.workshop_id = a.workshop_id AND b.day = a.day AND b.part_id <> a.part_id
+          GROUP BY a.part_id, b.part_id
+          HAVING count(*) >= ${MIN_BASKET_COUNT}
+        ),
+        scored AS (
+          SELECT
+            p.part_id,
+            p.associated_part_id,
+            p.basket_count,
+            p.basket_count::numeric / pa.n AS confidence,
+            (p.basket_count::numeric / pa.n) / (pb.n::numeric / t.n) AS lift,
+            row_number() OVER (PARTITION BY p.part_id ORDER BY p.basket_count DESC, pb.n ASC) AS position
+          FROM pairs p
+          JOIN part_baskets pa ON pa.part_id = p.part_id
+          JOIN part_baskets pb ON pb.part_id = p.associated_part_id
+          CROSS JOIN basket_total t
+        )
+        INSERT INTO part_associations (part_id, associated_part_id, basket_count, confidence, lift, computed_at)
+        SELECT part_id, associated_part_id, basket_count, round(confidence, 4), round(lift, 4), now()
+        FROM scored
+        WHERE position <= ${MAX_ASSOCIATIONS_PER_PART}
+      `);
+
+      return result.rowCount ?? 0;
+    });
+  }
+
+  /**
+   * Rebuild the popular parts ranking for every vehicle make/model
+   *
+   * @returns Number of ranking rows written
+   */
+  async recomputePopularParts(): Promise<number> {
+    return await db.transaction(async (tx) => {
+      await tx.delete(popularVehicleParts);
+
+      const result = await tx.execute(sql`
+        WITH part_vehicles AS (
+          SELECT id AS part_id, lower(trim(vehicle_make)) AS make, lower(trim(vehicle_model)) AS model
+          FROM parts
+          WHERE coalesce(trim(vehicle_make), '') <> '' AND coalesce(trim(vehicle_model), '') <> ''
+          UNION
+          SELECT p.id, lower(trim(c->>'make')), lower(trim(c->>'model'))
+          FROM parts p
+          CROSS JOIN jsonb_array_elements(
+            CASE WHEN jsonb_typeof(p.compatibility) = 'array' THEN p.compatibility ELSE '[]'::jsonb END
+          ) c
+          WHERE coalesce(trim(c->>'make'), '') <> '' AND coalesce(trim(c->>'model'), '') <> ''
+        ),
+        sales AS (
+          SELECT oi.part_id, count(DISTINCT oi.order_id) AS order_count, sum(oi.quantity) AS quantity_sold
+          FROM supplier_order_items oi
+          JOIN supplier_orders o ON o.id = oi.order_id
+          WHERE o.status <> 'cancelled'
+            AND oi.status <> 'cancelled'
+            AND o.created_at >= now() - make_interval(days => ${POPULARITY_WINDOW_DAYS})
+          GROUP BY oi.part_id
+        ),
+        ranked AS (
+          SELECT
+            v.make,
+            v.model,
+            s.part_id,
+            s.order_count,
+            s.quantity_sold,
+            row_number() OVER (PARTITION BY v.make, v.model ORDER BY s.order_count DESC, s.quantity_sold DESC, s.part_id) AS position
+          FROM sales s
+          JOIN part_vehicles v ON v.part_id = s.part_id
+        )
+        INSERT INTO popular_vehicle_parts (vehicle_make, vehicle_model, part_id, order_count, quantity_sold, rank, computed_at)
+        SELECT left(make, 100), left(model, 100), part_id, order_count, quantity_sold, position, now()
+        FROM ranked
+        WHERE position <= ${MAX_POPULAR_PER_VEHICLE}
+        ON CONFLICT DO NOTHING
+      `);
+
+      return result.rowCount ?? 0;
+    });
+  }
+
+  /**
+   * Parts most often bought together with a part, strongest association first
+   * Parts that are out of stock (and not backorderable) are left out.
+   */
+  async getFrequentlyBoughtTogether(partId: string, limit = 8): Promise<RecommendedPart[]> {
+    const rows = await db
+      .select({ part: parts, supplier: supplierColumns, score: partAssociations.confidence })
+      .from(partAssociations)
+      .innerJoin(parts, eq(partAssociations.associatedPartId, parts.id))
+      .innerJoin(suppliers, eq(parts.supplierId, suppliers.id))
+      .where(and(
+        eq(partAssociations.partId, partId),
+        eq(parts.moderationStatus, 'approved'),
+        sql`(${parts.stockQuantity} > 0 OR ${parts.allowBackorder})`
+      ))
+      .orderBy(desc(partAssociations.confidence), desc(partAssociations.basketCount))
+      .limit(limit);
+
+    return rows.map(row => ({ ...row.part, supplier: row.supplier, score: Number(row.score) }));
+  }
+
+  /**
+   * Add-on suggestions for a workshop's cart: parts associated with the cart's parts
+   * that are not in the cart yet, scored by summed confidence over the cart lines
+   */
+  async getCartRecommendations(workshopId: string, limit = 8): Promise<RecommendedPart[]> {
+    const cartPartIds = db
+      .select({ partId: cartItems.partId })
+      .from(cartItems)
+      .innerJoin(cart, eq(cartItems.cartId, cart.id))
+      .where(eq(cart.workshopId, workshopId));
+
+    const score = sql<string>`sum(${partAssociations.confidence})`;
+    const rows = await db
+      .select({ part: parts, supplier: supplierColumns, score })
+      .from(partAssociations)
+      .innerJoin(parts, eq(partAssociations.associatedPartId, parts.id))
+      .innerJoin(suppliers, eq(parts.supplierId, suppliers.id))
+      .where(and(
+        inArray(partAssociations.partId, cartPartIds),
+        notInArray(partAssociations.associatedPartId, cartPartIds),
+        eq(parts.moderationStatus, 'approved'),
+        sql`(${parts.stockQuantity} > 0 OR ${parts.allowBackorder})`
+      ))
+      .groupBy(parts.id, suppliers.id)
+      .orderBy(desc(score), asc(parts.price))
+      .limit(limit);
+
+    return rows.map(row => ({ ...row.part, supplier: row.supplier, score: Number(row.score) }));
+  }
+
+  /**
+   * Best-selling parts for a vehicle, by rank
+   *
+   * @param excludePartId - Listing being viewed, left out of its own suggestions
+   */
+  async getPopularForVehicle(make: string, model: string, limit = 10, excludePartId?: string): Promise<RecommendedPart[]> {
+    const rows = await db
+      .select({ part: parts, supplier: supplierColumns, score: popularVehicleParts.orderCount })
+      .from(popularVehicleParts)
+      .innerJoin(parts, eq(popularVehicleParts.partId, parts.id))
+      .innerJoin(suppliers, eq(parts.supplierId, suppliers.id))
+      .where(and(
+        eq(popularVehicleParts.vehicleMake, make.trim().toLowerCase()),
+        eq(popularVehicleParts.vehicleModel, model.trim().toLowerCase()),
+        excludePartId ? ne(parts.id, excludePartId) : undefined,
+        eq(parts.moderationStatus, 'approved'),
+        sql`(${parts.stockQuantity} > 0 OR ${parts.allowBackorder})`
+      ))
+      .orderBy(asc(popularVehicleParts.rank))
+      .limit(limit);
+
+    return rows.map(row => ({ ...row.part, supplier: row.supplier, score: row.score }));
+  }
+}
+
+export const recommendationService = new RecommendationService();
@@ -0,0 +1,177 @@
+import type { Server as SocketIOServer } from "socket.io";
+import { db } from "../db";
+import {
+  notifications,
+  reviewReports,
+  reviews,
+  users,
+  type ReportReview,
+  type Review,
+  type ReviewModerationDecision,
+  type ReviewReport,
+} from "@shared/schema";
+import { and, asc, desc, eq, inArray, ne, sql } from "drizzle-orm";
+import { ReviewError } from "../errors";
+import { emitNotification } from "../socket";
+import { reviewService } from "./reviewService";
+
+/**
+ * Review Moderation Service - Abuse reports and the admin review queue
+ *
+ * Any signed-in user may report a review once. A published review with AUTO_HOLD_REPORTS open
+ * reports is held automatically (reason "reported"); reviews held at creation by ReviewService
+ * screening (phone numbers, profanity, bursts from new accounts) land in the same queue.
+ * Admins hide or restore; either action resolves the open reports and recounts the target.
+ */
+
+// Open reports that hold a published review until an admin looks at it
+const AUTO_HOLD_REPORTS = 3;
+
+export type ReviewQueueFilter = 'held' | 'reported' | 'hidden';
+
+// Review in the admin queue, with who wrote it and why it is there
+export interface ReviewQueueItem extends Review {
+  reviewer: { id: string; email: string | null; firstName: string | null; lastName: string | null; createdAt: Date | null };
+  openReports: Array<Pick<ReviewReport, 'id' | 'reason' | 'details' | 'createdAt'>>;
+}
+
+export class ReviewModerationService {
+  /**
+   * Report a review; repeated reports by the same user are ignored
+   *
+   * @throws ReviewError 'not_found' for an unknown review, 'forbidden' for the reviewer's own review
+   */
+  async report(reviewId: string, userId: string, input: ReportReview): Promise<{ held: boolean }> {
+    const review = await reviewService.getReview(reviewId);
+    if (!review) {
+      throw new ReviewError('not_found', `Review not found: ${reviewId}`);
+    }
+    if (review.userId === userId) {
+      throw new ReviewError('forbidden', 'You cannot report your own review');
+    }
+
+    return await db.transaction(async (tx) => {
+      await tx
+        .insert(reviewReports)
+        .values({ reviewId, reportedBy: userId, reason: input.reason, details: input.details || null })
+        .onConflictDoNothing();
+
+      if (review.status !== 'published') {
+        return { held: false };
+      }
+
+      const [{ count }] = await tx
+        .select({ count: sql<number>`count(*)::int` })
+        .from(reviewReports)
+        .where(and(eq(reviewReports.reviewId, reviewId), eq(reviewReports.status, 'open')));
+
+      if (count < AUTO_HOLD_REPORTS) {
+        return { held: false };
+      }
+
+      await tx
+        .update(reviews)
+        .set({ status: 'held', holdReasons: sql`array_append(${reviews.holdReasons}, 'reported')` })
+        .where(eq(reviews.id, reviewId));
+      await reviewService.refreshAggregate(review.targetType, review.targetId, tx);
+      return { held: true };
+    });
+  }
+
+  /**
+   * Held, reported (open reports, not yet hidden) or hidden reviews
+   * Held and reported reviews come oldest first; hidden ones most recently moderated first.
+   */
+  async getQueue(filter: ReviewQueueFilter = 'held', limit = 50): Promise<ReviewQueueItem[]> {
+    const reportedIds = sql`select ${reviewReports.reviewId} from ${reviewReports} where ${reviewReports.status} = 'open'`;
+    const condition = filter === 'reported'
+      ? and(ne(reviews.status, 'hidden'), sql`${reviews.id} in (${reportedIds})`)
+      : eq(reviews.status, filter);
+
+    const rows = await db
+      .select({
+        review: reviews,
+        reviewer: { id: users.id, email: users.email, firstName: users.firstName, lastName: users.lastName, createdAt: users.createdAt },
+      })
+      .from(reviews)
+      .innerJoin(users, eq(reviews.userId, users.id))
+      .where(condition)
+      .orderBy(filter === 'hidden' ? desc(reviews.moderatedAt) : asc(reviews.createdAt))
+      .limit(Math.min(200, limit));
+
+    const reports = rows.length === 0 ? [] : await db
+      .select({
+        id: reviewReports.id,
+        reviewId: reviewReports.reviewId,
+        reason: reviewReports.reason,
+        details: reviewReports.details,
+        createdAt: reviewReports.createdAt,
+      })
+      .from(reviewReports)
+      .where(and(inArray(reviewReports.reviewId, rows.map(row => row.review.id)), eq(reviewReports.status, 'open')))
+      .orderBy(asc(reviewReports.createdAt));
+
+    return rows.map(({ review, reviewer }) => ({
+      ...review,
+      reviewer,
+      openReports: reports
+        .filter(report => report.reviewId === review.id)
+        .map(({ reviewId, ...report }) => report),
+    }));
+  }
+
+  /**
+   * Hide or restore a review, resolve its open reports and recount the target
+   * The reviewer is notified when their review is hidden.
+   *
+   * @returns Updated review, or undefined when it does not exist
+   */
+  async decide(reviewId: string, adminUserId: string, decision: ReviewModerationDecision, io?: SocketIOServer): Promise<Review | undefined> {
+    const updated = await db.transaction(async (tx) => {
+      const now = new Date();
+      const [review] = await tx
+        .update(reviews)
+        .set({
+          status: decision.action === 'hide' ? 'hidden' : 'published',
+          moderationNote: decision.note || null,
+          moderatedBy: adminUserId,
+          moderatedAt: now,
+        })
+        .where(eq(reviews.id, reviewId))
+        .returning();
+
+      if (!review) {
+        return undefined;
+      }
+
+      await tx
+        .update(reviewReports)
+        .set({ status: 'resolved', resolvedBy: adminUserId, resolvedAt: now })
+        .where(and(eq(reviewReports.reviewId, reviewId), eq(reviewReports.status, 'open')));
+      await reviewService.refreshAggregate(review.targetType, review.targetId, tx);
+      return review;
+    });
+
+    if (updated && decision.action === 'hide') {
+      const [notification] = await db
+        .insert(notifications)
+        .values({
+          userId: updated.userId,
+          title: "Review Removed",
+          message: decision.note
+            ? `Your review was removed by a moderator: ${decision.note}`
+            : "Your review was removed by a moderator for breaking the review guidelines",
+          type: "review_moderation",
+        })
+        .returning();
+
+      if (io) {
+        emitNotification(io, updated.userId, notification);
+      }
+    }
+
+    return updated;
+  }
+}
+
+export const reviewModerationService = new ReviewModerationService();
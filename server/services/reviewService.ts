@@ -0,0 +1,456 @@
+import type { Server as SocketIOServer } from "socket.io";
+import { db } from "../db";
+import {
+  jobs,
+  notifications,
+  parts,
+  reviews,
+  supplierOrderItems,
+  supplierOrders,
+  suppliers,
+  users,
+  workshops,
+  type InsertReview,
+  type Review,
+  type ReviewReply,
+  type ReviewTargetType,
+  type UpdateReview,
+} from "@shared/schema";
+import { and, desc, eq, gte, inArray, or, sql, type SQL } from "drizzle-orm";
+import type { NodePgDatabase } from "drizzle-orm/node-postgres";
+import { ReviewError } from "../errors";
+import { emitNotification } from "../socket";
+
+/**
+ * Review Service - Verified-purchase reviews and target rating aggregates
+ *
+ * Reviews are limited to buyers: a supplier or product review needs a delivered order placed by
+ * the reviewer's workshop (containing the product, for product reviews), a workshop review needs
+ * a completed job for the reviewer. The backing order/job is stored on the review.
+ *
+ * New and edited reviews are screened: comments with phone numbers or profanity are held for an
+ * admin, and so is a burst of reviews from newly created accounts against the same supplier
+ * (including its products) or workshop - the earlier reviews of the burst are held with it.
+ * Only published reviews are shown (reviewers still see their own) and counted.
+ *
+ * Every create, edit and delete recomputes rating (average, 2 dp) and reviewCount on the target
+ * row in the same transaction. The reviewed supplier/workshop may post one public reply per
+ * review; the target owner is notified of new reviews and the reviewer of replies.
+ * Reports and the admin queue live in ReviewModerationService.
+ */
+
+// Reviews returned per target listing
+const TARGET_REVIEW_LIMIT = 50;
+
+// Malaysian mobile/landline numbers, with or without +60 and separators (e.g. 012-345 6789, +603 1234 5678)
+const PHONE_NUMBER_PATTERN = /(?:\+?6?0)[\s-]?1?\d[\s-]?\d{3,4}[\s-]?\d{4}\b/;
+
+// Whole-word profanity (English and Malay), matched case-insensitively
+const PROFANITY = ['fuck', 'shit', 'bastard', 'asshole', 'bitch', 'bodoh', 'babi', 'sial', 'celaka', 'pukimak', 'lancau', 'puki'];
+
+// Burst detection: this many reviews within the window from accounts younger than NEW_ACCOUNT_DAYS
+const BURST_THRESHOLD = 3;
+const BURST_WINDOW_HOURS = 24;
+const NEW_ACCOUNT_DAYS = 7;
+
+// Business a review counts against for burst detection (product reviews count against the supplier)
+type ReviewedBusiness = { type: 'supplier' | 'workshop'; id: string };
+
+// Review as shown publicly (reviewer by workshop name, or first name and last initial)
+export interface PublicReview extends Review {
+  reviewerName: string;
+}
+
+export interface ReviewSummary {
+  rating: number;
+  reviewCount: number;
+  distribution: Record<1 | 2 | 3 | 4 | 5, number>;
+}
+
+// What a user may do on a target's reviews: review it (with which purchase) or reply as its owner
+export interface ReviewEligibility {
+  canReview: boolean;
+  canReply: boolean;
+  orderId: string | null;
+  jobId: string | null;
+  existingReviewId: string | null;
+}
+
+export class ReviewService {
+  /**
+   * Published reviews of a target, newest first, with the rating breakdown
+   *
+   * @param viewerId - Current user; their own held/hidden review is included so they can see its status
+   */
+  async getForTarget(targetType: ReviewTargetType, targetId: string, viewerId?: string): Promise<{ summary: ReviewSummary; reviews: PublicReview[] }> {
+    const rows = await db
+      .select({
+        review: reviews,
+        firstName: users.firstName,
+        lastName: users.lastName,
+        workshopName: workshops.name,
+      })
+      .from(reviews)
+      .innerJoin(users, eq(reviews.userId, users.id))
+      .leftJoin(workshops, eq(workshops.userId, reviews.userId))
+      .where(and(
+        eq(reviews.targetType, targetType),
+        eq(reviews.targetId, targetId),
+        viewerId ? or(eq(reviews.status, 'published'), eq(reviews.userId, viewerId)) : eq(reviews.status, 'published')
+      ))
+      .orderBy(desc(reviews.createdAt))
+      .limit(TARGET_REVIEW_LIMIT);
+
+    const counts = await db
+      .select({ rating: reviews.rating, count: sql<number>`count(*)::int` })
+      .from(reviews)
+      .where(and(eq(reviews.targetType, targetType), eq(reviews.targetId, targetId), eq(reviews.status, 'published')))
+      .groupBy(reviews.rating);
+
+    const distribution: ReviewSummary['distribution'] = { 1: 0, 2: 0, 3: 0, 4: 0, 5: 0 };
+    let total = 0;
+    let reviewCount = 0;
+    for (const { rating, count } of counts) {
+      distribution[rating as 1 | 2 | 3 | 4 | 5] = count;
+      total += rating * count;
+      reviewCount += count;
+    }
+
+    return {
+      summary: {
+        rating: reviewCount > 0 ? Math.round((total / reviewCount) * 100) / 100 : 0,
+        reviewCount,
+        distribution,
+      },
+      reviews: rows.map(({ review, firstName, lastName, workshopName }) => ({
+        ...review,
+        reviewerName: workshopName
+          ?? ([firstName, lastName ? `${lastName.charAt(0)}.` : null].filter(Boolean).join(' ') || 'Customer'),
+      })),
+    };
+  }
+
+  async getReview(reviewId: string): Promise<Review | undefined> {
+    const [review] = await db.select().from(reviews).where(eq(reviews.id, reviewId));
+    return review;
+  }
+
+  /**
+   * Whether a user can review a target (and the purchase that qualifies them) or reply as its owner
+   */
+  async getEligibility(userId: string, targetType: ReviewTargetType, targetId: string): Promise<ReviewEligibility> {
+    const [existing] = await db
+      .select({ id: reviews.id })
+      .from(reviews)
+      .where(and(eq(reviews.userId, userId), eq(reviews.targetType, targetType), eq(reviews.targetId, targetId)));
+
+    const purchase = await this.findPurchase(userId, targetType, targetId);
+    const ownerId = await this.getTargetOwnerId(targetType, targetId);
+
+    return {
+      canReview: !!purchase && !existing,
+      canReply: ownerId === userId,
+      orderId: purchase?.orderId ?? null,
+      jobId: purchase?.jobId ?? null,
+      existingReviewId: existing?.id ?? null,
+    };
+  }
+
+  /**
+   * Most recent delivered order (supplier/product) or completed job (workshop) backing a review
+   */
+  private async findPurchase(
+    userId: string,
+    targetType: ReviewTargetType,
+    targetId: string
+  ): Promise<{ orderId: string | null; jobId: string | null } | null> {
+    if (targetType === 'workshop') {
+      const [job] = await db
+        .select({ id: jobs.id })
+        .from(jobs)
+        .where(and(eq(jobs.customerId, userId), eq(jobs.workshopId, targetId), eq(jobs.status, 'completed')))
+        .orderBy(desc(jobs.completedDate))
+        .limit(1);
+      return job ? { orderId: null, jobId: job.id } : null;
+    }
+
+    const conditions = [eq(workshops.userId, userId), eq(supplierOrders.status, 'delivered')];
+    if (targetType === 'supplier') {
+      conditions.push(eq(supplierOrders.supplierId, targetId));
+    } else {
+      conditions.push(sql`exists (select 1 from ${supplierOrderItems} where ${supplierOrderItems.orderId} = ${supplierOrders.id} and ${supplierOrderItems.partId} = ${targetId})`);
+    }
+
+    const [order] = await db
+      .select({ id: supplierOrders.id })
+      .from(supplierOrders)
+      .innerJoin(workshops, eq(supplierOrders.workshopId, workshops.id))
+      .where(and(...conditions))
+      .orderBy(desc(supplierOrders.updatedAt))
+      .limit(1);
+    return order ? { orderId: order.id, jobId: null } : null;
+  }
+
+  /**
+   * Create a verified review, screen it, refresh the target's aggregate and notify its owner
+   * Held reviews are created but not counted, and the owner is not notified until an admin restores them.
+   *
+   * @throws ReviewError 'not_found' for an unknown target, 'not_verified' without a qualifying
+   *   purchase, 'duplicate' when the user already reviewed the target
+   */
+  async create(userId: string, input: InsertReview, io?: SocketIOServer): Promise<Review> {
+    const ownerId = await this.getTargetOwnerId(input.targetType, input.targetId);
+    if (!ownerId) {
+      throw new ReviewError('not_found', `${input.targetType} not found: ${input.targetId}`);
+    }
+
+    const eligibility = await this.getEligibility(userId, input.targetType, input.targetId);
+    if (eligibility.existingReviewId) {
+      throw new ReviewError('duplicate', `You have already reviewed this ${input.targetType}`);
+    }
+    if (!eligibility.canReview) {
+      throw new ReviewError('not_verified', input.targetType === 'workshop'
+        ? 'Only customers with a completed job can review this workshop'
+        : `Only workshops with a delivered order can review this ${input.targetType}`);
+    }
+
+    const business = await this.getReviewedBusiness(input.targetType, input.targetId);
+    const holdReasons = this.screenContent(input.comment);
+    const burstReviews = business ? await this.findBurst(userId, business) : [];
+    if (burstReviews.length > 0) {
+      holdReasons.push('review_burst');
+    }
+
+    const review = await db.transaction(async (tx) => {
+      const [created] = await tx
+        .insert(reviews)
+        .values({
+          ...input,
+          userId,
+          orderId: eligibility.orderId,
+          jobId: eligibility.jobId,
+          status: holdReasons.length > 0 ? 'held' : 'published',
+          holdReasons,
+        })
+        .returning();
+
+      // Hold the earlier reviews of the burst too, and recount every target they touched
+      const targets = new Map<string, { targetType: ReviewTargetType; targetId: string }>();
+      targets.set(`${input.targetType}:${input.targetId}`, { targetType: input.targetType, targetId: input.targetId });
+      const published = burstReviews.filter(r => r.status === 'published');
+      if (published.length > 0) {
+        await tx
+          .update(reviews)
+          .set({ status: 'held', holdReasons: sql`array_append(${reviews.holdReasons}, 'review_burst')` })
+          .where(inArray(reviews.id, published.map(r => r.id)));
+        for (const r of published) {
+          targets.set(`${r.targetType}:${r.targetId}`, { targetType: r.targetType, targetId: r.targetId });
+        }
+      }
+
+      for (const target of Array.from(targets.values())) {
+        await this.refreshAggregate(target.targetType, target.targetId, tx);
+      }
+      return created;
+    });
+
+    if (review.status !== 'published') {
+      return review;
+    }
+
+    await this.notify(ownerId, {
+      title: "New Review",
+      message: `You received a ${review.rating}-star review${review.comment ? `: ${review.comment.substring(0, 100)}` : ''}`,
+      type: "review",
+    }, io);
+
+    return review;
+  }
+
+  /**
+   * Edit the reviewer's own rating, comment or photos
+   * An edited comment is screened again; a flagged edit holds a published review.
+   */
+  async update(review: Review, input: UpdateReview): Promise<Review> {
+    const holdReasons = input.comment !== undefined ? this.screenContent(input.comment) : [];
+    const hold = holdReasons.length > 0 && review.status === 'published';
+
+    return await db.transaction(async (tx) => {
+      const [updated] = await tx
+        .update(reviews)
+        .set({
+          ...input,
+          ...(hold ? { status: 'held' as const, holdReasons } : {}),
+          updatedAt: new Date(),
+        })
+        .where(eq(reviews.id, review.id))
+        .returning();
+
+      if (hold || (input.rating !== undefined && input.rating !== review.rating)) {
+        await this.refreshAggregate(review.targetType, review.targetId, tx);
+      }
+      return updated;
+    });
+  }
+
+  async deleteReview(review: Review): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx.delete(reviews).where(eq(reviews.id, review.id));
+      await this.refreshAggregate(review.targetType, review.targetId, tx);
+    });
+  }
+
+  /**
+   * Post or edit the target owner's public reply
+   * The reviewer is only notified the first time a review is replied to.
+   *
+   * @throws ReviewError 'forbidden' unless userId owns the reviewed supplier/workshop
+   */
+  async reply(review: Review, userId: string, input: ReviewReply, io?: SocketIOServer): Promise<Review> {
+    const ownerId = await this.getTargetOwnerId(review.targetType, review.targetId);
+    if (ownerId !== userId) {
+      throw new ReviewError('forbidden', 'Only the reviewed business can reply to this review');
+    }
+
+    const [updated] = await db
+      .update(reviews)
+      .set({ reply: input.reply, repliedBy: userId, repliedAt: review.repliedAt ?? new Date() })
+      .where(eq(reviews.id, review.id))
+      .returning();
+
+    if (!review.reply) {
+      await this.notify(review.userId, {
+        title: "Reply to Your Review",
+        message: input.reply.substring(0, 100),
+        type: "review_reply",
+      }, io);
+    }
+
+    return updated;
+  }
+
+  /**
+   * User who answers for a target: the supplier (also for its products) or the workshop owner
+   */
+  async getTargetOwnerId(targetType: ReviewTargetType, targetId: string): Promise<string | null> {
+    if (targetType === 'workshop') {
+      const [workshop] = await db.select({ userId: workshops.userId }).from(workshops).where(eq(workshops.id, targetId));
+      return workshop?.userId ?? null;
+    }
+
+    if (targetType === 'supplier') {
+      const [supplier] = await db.select({ userId: suppliers.userId }).from(suppliers).where(eq(suppliers.id, targetId));
+      return supplier?.userId ?? null;
+    }
+
+    const [product] = await db
+      .select({ userId: suppliers.userId })
+      .from(parts)
+      .innerJoin(suppliers, eq(parts.supplierId, suppliers.id))
+      .where(eq(parts.id, targetId));
+    return product?.userId ?? null;
+  }
+
+  /**
+   * Hold reasons for a comment: phone_number, profanity:<word>
+   */
+  screenContent(comment: string | null | undefined): string[] {
+    if (!comment) {
+      return [];
+    }
+
+    const reasons: string[] = [];
+    if (PHONE_NUMBER_PATTERN.test(comment)) {
+      reasons.push('phone_number');
+    }
+
+    const words = new Set(comment.toLowerCase().split(/[^a-z]+/));
+    for (const word of PROFANITY) {
+      if (words.has(word)) {
+        reasons.push(`profanity:${word}`);
+      }
+    }
+    return reasons;
+  }
+
+  private async getReviewedBusiness(targetType: ReviewTargetType, targetId: string): Promise<ReviewedBusiness | null> {
+    if (targetType !== 'product') {
+      return { type: targetType, id: targetId };
+    }
+
+    const [part] = await db.select({ supplierId: parts.supplierId }).from(parts).where(eq(parts.id, targetId));
+    return part ? { type: 'supplier', id: part.supplierId } : null;
+  }
+
+  /**
+   * Recent reviews from new accounts against the same business, when a new account's review would
+   * complete a burst; empty otherwise (including for established reviewers)
+   */
+  private async findBurst(userId: string, business: ReviewedBusiness): Promise<Review[]> {
+    const accountCutoff = new Date(Date.now() - NEW_ACCOUNT_DAYS * 24 * 60 * 60 * 1000);
+    const windowStart = new Date(Date.now() - BURST_WINDOW_HOURS * 60 * 60 * 1000);
+
+    const [reviewer] = await db.select({ createdAt: users.createdAt }).from(users).where(eq(users.id, userId));
+    if (!reviewer?.createdAt || reviewer.createdAt < accountCutoff) {
+      return [];
+    }
+
+    const targetCondition: SQL | undefined = business.type === 'workshop'
+      ? and(eq(reviews.targetType, 'workshop'), eq(reviews.targetId, business.id))
+      : or(
+          and(eq(reviews.targetType, 'supplier'), eq(reviews.targetId, business.id)),
+          and(
+            eq(reviews.targetType, 'product'),
+            sql`${reviews.targetId} in (select ${parts.id} from ${parts} where ${parts.supplierId} = ${business.id})`
+          )
+        );
+
+    const rows = await db
+      .select({ review: reviews })
+      .from(reviews)
+      .innerJoin(users, eq(reviews.userId, users.id))
+      .where(and(targetCondition, gte(reviews.createdAt, windowStart), gte(users.createdAt, accountCutoff)));
+
+    // The new review completes the burst
+    return rows.length + 1 >= BURST_THRESHOLD ? rows.map(row => row.review) : [];
+  }
+
+  /**
+   * Recompute rating and reviewCount on the target row from its published reviews
+   */
+  async refreshAggregate(targetType: ReviewTargetType, targetId: string, tx: NodePgDatabase | any): Promise<void> {
+    const [aggregate] = await tx
+      .select({
+        rating: sql<string>`coalesce(round(avg(${reviews.rating}), 2), 0)::text`,
+        reviewCount: sql<number>`count(*)::int`,
+      })
+      .from(reviews)
+      .where(and(eq(reviews.targetType, targetType), eq(reviews.targetId, targetId), eq(reviews.status, 'published')));
+
+    const values = { rating: aggregate.rating, reviewCount: aggregate.reviewCount };
+    if (targetType === 'workshop') {
+      await tx.update(workshops).set(values).where(eq(workshops.id, targetId));
+    } else if (targetType === 'supplier') {
+      await tx.update(suppliers).set(values).where(eq(suppliers.id, targetId));
+    } else {
+      await tx.update(parts).set(values).where(eq(parts.id, targetId));
+    }
+  }
+
+  private async notify(
+    userId: string,
+    content: { title: string; message: string; type: string },
+    io?: SocketIOServer
+  ): Promise<void> {
+    const [notification] = await db
+      .insert(notifications)
+      .values({ userId, ...content })
+      .returning();
+
+    if (io) {
+      emitNotification(io, userId, notification);
+    }
+  }
+}
+
+export const reviewService = new ReviewService();
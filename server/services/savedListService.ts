@@ -0,0 +1,345 @@
+import { db } from "../db";
+import {
+  partVariants,
+  parts,
+  savedListItems,
+  savedLists,
+  suppliers,
+  workshops,
+  type InsertSavedList,
+  type SavedList,
+  type SavedListItem,
+  type SavedListItemInput,
+  type UpdateSavedListItem,
+} from "@shared/schema";
+import { and, asc, desc, eq, inArray, isNull, sql } from "drizzle-orm";
+import { cartService, type CartLineInput } from "./cartService";
+import { partVariantService } from "./partVariantService";
+import { storefrontAnalyticsService } from "./storefrontAnalyticsService";
+import { pricingService, type ResolvedPrice } from "./pricingService";
+import type { NotificationService } from "./notificationService";
+
+/**
+ * Saved List Service - Workshop parts lists / wishlists across suppliers
+ *
+ * Lists store what to buy, not prices: viewing a list resolves each line's current price
+ * (tiers and the workshop's price lists applied) and stock. lastKnownPrice tracks the
+ * listing price a line was saved at, so checkPriceDrops can alert when the supplier lowers it.
+ */
+
+export interface SavedListSummary extends SavedList {
+  itemCount: number;
+}
+
+// A saved line with its current price and stock
+export interface SavedListLine {
+  item: SavedListItem;
+  part: { id: string; name: string; garagehubCode: string; imageUrl: string | null; allowBackorder: boolean };
+  supplier: { id: string; name: string };
+  variantName: string | null;
+  unitPrice: string | null; // null when the line can no longer be priced (variant removed)
+  basePrice: string | null;
+  priceSource: ResolvedPrice['source'] | null;
+  priceChange: string | null; // Current listing price - lastKnownPrice (negative = cheaper)
+  stockQuantity: number;
+  available: boolean;
+}
+
+export interface SavedListDetail extends SavedList {
+  items: SavedListLine[];
+  total: string; // Sum of unitPrice x quantity over priceable lines
+}
+
+// Why a line was not (fully) added to the cart
+export interface AddAllSkip {
+  itemId: string;
+  partId: string;
+  reason: 'out_of_stock' | 'partial_stock' | 'unavailable';
+}
+
+export class SavedListService {
+  /**
+   * A workshop's lists with item counts, most recently updated first
+   */
+  async listLists(workshopId: string): Promise<SavedListSummary[]> {
+    const rows = await db
+      .select({
+        list: savedLists,
+        itemCount: sql<number>`count(${savedListItems.id})`,
+      })
+      .from(savedLists)
+      .leftJoin(savedListItems, eq(savedListItems.listId, savedLists.id))
+      .where(eq(savedLists.workshopId, workshopId))
+      .groupBy(savedLists.id)
+      .orderBy(desc(savedLists.updatedAt));
+
+    return rows.map(row => ({ ...row.list, itemCount: Number(row.itemCount) }));
+  }
+
+  /**
+   * @returns The list, or undefined if it does not exist or is not the workshop's
+   */
+  async getOwnedList(listId: string, workshopId: string): Promise<SavedList | undefined> {
+    const [list] = await db
+      .select()
+      .from(savedLists)
+      .where(and(eq(savedLists.id, listId), eq(savedLists.workshopId, workshopId)));
+
+    return list;
+  }
+
+  async createList(workshopId: string, data: InsertSavedList): Promise<SavedList> {
+    const [list] = await db
+      .insert(savedLists)
+      .values({ ...data, workshopId })
+      .returning();
+
+    return list;
+  }
+
+  async updateList(listId: string, data: Partial<InsertSavedList>): Promise<SavedList | undefined> {
+    const [list] = await db
+      .update(savedLists)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(savedLists.id, listId))
+      .returning();
+
+    return list;
+  }
+
+  async deleteList(listId: string): Promise<void> {
+    await db.delete(savedLists).where(eq(savedLists.id, listId));
+  }
+
+  /**
+   * A list with every line priced for the workshop at its saved quantity
+   */
+  async getListDetail(list: SavedList): Promise<SavedListDetail> {
+    const rows = await db
+      .select({
+        item: savedListItems,
+        part: {
+          id: parts.id,
+          name: parts.name,
+          garagehubCode: parts.garagehubCode,
+          imageUrl: parts.imageUrl,
+          allowBackorder: parts.allowBackorder,
+        },
+        supplier: { id: suppliers.id, name: suppliers.name },
+      })
+      .from(savedListItems)
+      .innerJoin(parts, eq(savedListItems.partId, parts.id))
+      .innerJoin(suppliers, eq(parts.supplierId, suppliers.id))
+      .where(eq(savedListItems.listId, list.id))
+      .orderBy(asc(suppliers.name), asc(savedListItems.createdAt));
+
+    let total = 0;
+    const items: SavedListLine[] = [];
+    for (const row of rows) {
+      let resolved: ResolvedPrice | undefined;
+      try {
+        resolved = await pricingService.resolveUnitPrice(row.item.partId, row.item.variantId, row.item.quantity, list.workshopId);
+      } catch {
+        // Variant removed or now required - shown as unavailable
+        resolved = undefined;
+      }
+
+      const stockQuantity = resolved?.line.stockQuantity ?? 0;
+      if (resolved) {
+        total += Number(resolved.unitPrice) * row.item.quantity;
+      }
+
+      items.push({
+        ...row,
+        variantName: resolved?.line.variantName ?? null,
+        unitPrice: resolved?.unitPrice ?? null,
+        basePrice: resolved?.basePrice ?? null,
+        priceSource: resolved?.source ?? null,
+        priceChange: resolved ? (Number(resolved.basePrice) - Number(row.item.lastKnownPrice)).toFixed(2) : null,
+        stockQuantity,
+        available: !!resolved && (stockQuantity >= row.item.quantity || row.part.allowBackorder),
+      });
+    }
+
+    return { ...list, items, total: total.toFixed(2) };
+  }
+
+  /**
+   * Add a part to a list (increases the quantity if the part/variant is already on it)
+   *
+   * @throws VariantRequiredError, VariantNotFoundError
+   * @returns undefined if the part does not exist
+   */
+  async addItem(list: SavedList, input: SavedListItemInput): Promise<SavedListItem | undefined> {
+    const line = await partVariantService.resolveLine(input.partId, input.variantId);
+    if (!line) {
+      return undefined;
+    }
+
+    const variantId = line.variant?.id ?? null;
+    const [existing] = await db
+      .select()
+      .from(savedListItems)
+      .where(and(
+        eq(savedListItems.listId, list.id),
+        eq(savedListItems.partId, input.partId),
+        variantId ? eq(savedListItems.variantId, variantId) : isNull(savedListItems.variantId)
+      ));
+
+    let item: SavedListItem;
+    if (existing) {
+      [item] = await db
+        .update(savedListItems)
+        .set({
+          quantity: existing.quantity + input.quantity,
+          ...(input.notifyPriceDrop !== undefined ? { notifyPriceDrop: input.notifyPriceDrop } : {}),
+        })
+        .where(eq(savedListItems.id, existing.id))
+        .returning();
+    } else {
+      [item] = await db
+        .insert(savedListItems)
+        .values({
+          listId: list.id,
+          partId: input.partId,
+          variantId,
+          quantity: input.quantity,
+          lastKnownPrice: line.unitPrice,
+          notifyPriceDrop: input.notifyPriceDrop ?? true,
+        })
+        .returning();
+    }
+
+    await db.update(savedLists).set({ updatedAt: new Date() }).where(eq(savedLists.id, list.id));
+    return item;
+  }
+
+  async updateItem(listId: string, itemId: string, data: UpdateSavedListItem): Promise<SavedListItem | undefined> {
+    const [item] = await db
+      .update(savedListItems)
+      .set(data)
+      .where(and(eq(savedListItems.id, itemId), eq(savedListItems.listId, listId)))
+      .returning();
+
+    return item;
+  }
+
+  /**
+   * @returns false if the item is not on the list
+   */
+  async removeItem(listId: string, itemId: string): Promise<boolean> {
+    const removed = await db
+      .delete(savedListItems)
+      .where(and(eq(savedListItems.id, itemId), eq(savedListItems.listId, listId)))
+      .returning({ id: savedListItems.id });
+
+    return removed.length > 0;
+  }
+
+  /**
+   * Add every orderable line of a list to the workshop's cart
+   * Lines short of stock add what is available (all of it for backorderable parts).
+   */
+  async addAllToCart(list: SavedList): Promise<{ added: number; skipped: AddAllSkip[] }> {
+    const items = await db
+      .select()
+      .from(savedListItems)
+      .where(eq(savedListItems.listId, list.id))
+      .orderBy(asc(savedListItems.createdAt));
+
+    const added: CartLineInput[] = [];
+    const skipped: AddAllSkip[] = [];
+    for (const item of items) {
+      let line;
+      try {
+        line = await partVariantService.resolveLine(item.partId, item.variantId);
+      } catch {
+        line = undefined;
+      }
+      if (!line) {
+        skipped.push({ itemId: item.id, partId: item.partId, reason: 'unavailable' });
+        continue;
+      }
+
+      const quantity = line.part.allowBackorder ? item.quantity : Math.min(item.quantity, Math.max(line.stockQuantity, 0));
+      if (quantity <= 0) {
+        skipped.push({ itemId: item.id, partId: item.partId, reason: 'out_of_stock' });
+        continue;
+      }
+      if (quantity < item.quantity) {
+        skipped.push({ itemId: item.id, partId: item.partId, reason: 'partial_stock' });
+      }
+
+      const cartLine: CartLineInput = {
+        partId: item.partId,
+        variantId: line.variant?.id ?? null,
+        supplierId: line.part.supplierId,
+        quantity,
+      };
+      await cartService.addItem(list.workshopId, cartLine);
+      added.push(cartLine);
+    }
+
+    await storefrontAnalyticsService.recordAddsToCart(list.workshopId, added, 'saved_list');
+
+    return { added: added.length, skipped };
+  }
+
+  /**
+   * Alert list owners when the listing price of saved parts fell below the price they last saw
+   * Call after supplier price changes. lastKnownPrice follows rises too, so every later drop alerts.
+   *
+   * @returns Number of alerts sent
+   */
+  async checkPriceDrops(partIds: string[], notifier: NotificationService): Promise<number> {
+    if (partIds.length === 0) {
+      return 0;
+    }
+
+    const rows = await db
+      .select({
+        item: savedListItems,
+        listName: savedLists.name,
+        userId: workshops.userId,
+        partName: parts.name,
+        partPrice: parts.price,
+        variantName: partVariants.name,
+        variantPrice: partVariants.price,
+      })
+      .from(savedListItems)
+      .innerJoin(savedLists, eq(savedListItems.listId, savedLists.id))
+      .innerJoin(workshops, eq(savedLists.workshopId, workshops.id))
+      .innerJoin(parts, eq(savedListItems.partId, parts.id))
+      .leftJoin(partVariants, eq(savedListItems.variantId, partVariants.id))
+      .where(inArray(savedListItems.partId, partIds));
+
+    let alerts = 0;
+    for (const row of rows) {
+      const currentPrice = Number(row.item.variantId ? row.variantPrice : row.partPrice);
+      const lastKnownPrice = Number(row.item.lastKnownPrice);
+      if (isNaN(currentPrice) || currentPrice === lastKnownPrice) {
+        continue;
+      }
+
+      if (currentPrice < lastKnownPrice && row.item.notifyPriceDrop) {
+        const partName = row.variantName ? `${row.partName} (${row.variantName})` : row.partName;
+        try {
+          await notifier.notifyPriceDrop(row.userId, partName, row.listName, lastKnownPrice, currentPrice);
+          alerts++;
+        } catch {
+          // Keep the old price so the drop is reported on the next check
+          continue;
+        }
+      }
+
+      await db
+        .update(savedListItems)
+        .set({ lastKnownPrice: currentPrice.toFixed(2) })
+        .where(eq(savedListItems.id, row.item.id));
+    }
+
+    return alerts;
+  }
+}
+
+export const savedListService = new SavedListService();
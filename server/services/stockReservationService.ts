@@ -0,0 +1,226 @@
+import { db } from "../db";
+import {
+  CANCELLABLE_ORDER_STATUSES,
+  stockReservations,
+  supplierOrderItems,
+  supplierOrders,
+  type StockReleaseReason,
+  type StockReservation,
+} from "@shared/schema";
+import { and, eq, inArray, lte, sql } from "drizzle-orm";
+import type { NodePgDatabase } from "drizzle-orm/node-postgres";
+import { partVariantService } from "./partVariantService";
+import { promotionService } from "./promotionService";
+
+/**
+ * Stock Reservation Service - Holds stock for orders until they are paid
+ *
+ * Placing an order reserves each line: the quantity is taken out of the available stock
+ * (parts/partVariants.stockQuantity) under a conditional update, so two workshops cannot
+ * both buy the last unit. The hold then:
+ * - commits when the order is paid: wallet checkout, or an admin confirming a bank transfer / QR payment
+ * - releases when the supplier cancels the order or payment fails
+ * - releases when it expires while the order is still unpaid and cancellable; the order is cancelled
+ *   with it and its voucher use is given back (expireReservations, run by cron). An unpaid order whose parts
+ *   already left the shop keeps its stock.
+ *
+ * Releasing a committed hold (cancellation after payment) also returns the stock.
+ */
+
+export const DEFAULT_RESERVATION_TTL_MINUTES = 30;
+
+// One order line to reserve
+export interface ReservationLine {
+  partId: string;
+  variantId: string | null;
+  quantity: number;
+}
+
+// Reserved quantity of a part (per variant when the part has variants)
+export interface ReservedStock {
+  partId: string;
+  variantId: string | null;
+  reservedQuantity: number;
+}
+
+// Outcome of an expiry run
+export interface ExpiredReservations {
+  orderIds: string[]; // Orders whose stock was released
+  partIds: string[]; // Parts whose stock went back on the shelf, for backorderService.handleRestockMany
+}
+
+export function getReservationTtlMinutes(): number {
+  const minutes = parseInt(process.env.STOCK_RESERVATION_TTL_MINUTES || '');
+  return minutes > 0 ? minutes : DEFAULT_RESERVATION_TTL_MINUTES;
+}
+
+export class StockReservationService {
+  /**
+   * Reserve stock for every line of a new order
+   * Must run inside the checkout transaction, so a failed line rolls back the whole order.
+   *
+   * @param orderId - Supplier order the lines belong to
+   * @param supplierId - Supplier of the order
+   * @param lines - Order lines
+   * @throws InsufficientStockError, VariantRequiredError
+   */
+  async reserveOrder(
+    orderId: string,
+    supplierId: string,
+    lines: ReservationLine[],
+    tx: NodePgDatabase | any,
+    ttlMinutes: number = getReservationTtlMinutes()
+  ): Promise<StockReservation[]> {
+    const expiresAt = new Date(Date.now() + ttlMinutes * 60 * 1000);
+
+    for (const line of lines) {
+      await partVariantService.decrementStock(line.partId, line.variantId, line.quantity, tx);
+    }
+
+    if (lines.length === 0) {
+      return [];
+    }
+
+    return await tx
+      .insert(stockReservations)
+      .values(lines.map(line => ({
+        orderId,
+        supplierId,
+        partId: line.partId,
+        variantId: line.variantId,
+        quantity: line.quantity,
+        expiresAt,
+      })))
+      .returning();
+  }
+
+  /**
+   * Mark an order's active holds as sold (call when the order is paid)
+   *
+   * @returns Number of reservations committed
+   */
+  async commitOrder(orderId: string, tx?: NodePgDatabase | any): Promise<number> {
+    const database = tx || db;
+    const committed = await database
+      .update(stockReservations)
+      .set({ status: 'committed', committedAt: new Date() })
+      .where(and(eq(stockReservations.orderId, orderId), eq(stockReservations.status, 'active')))
+      .returning({ id: stockReservations.id });
+
+    return committed.length;
+  }
+
+  /**
+   * Return an order's held stock (supplier cancellation, failed payment)
+   * The status update claims each hold, so concurrent releases cannot return stock twice.
+   *
+   * @returns Reservations released
+   */
+  async releaseOrder(orderId: string, reason: StockReleaseReason, tx?: NodePgDatabase | any): Promise<StockReservation[]> {
+    const run = async (database: NodePgDatabase | any) => {
+      const released: StockReservation[] = await database
+        .update(stockReservations)
+        .set({ status: 'released', releasedAt: new Date(), releaseReason: reason })
+        .where(and(
+          eq(stockReservations.orderId, orderId),
+          inArray(stockReservations.status, ['active', 'committed'])
+        ))
+        .returning();
+
+      for (const reservation of released) {
+        await partVariantService.incrementStock(reservation.partId, reservation.variantId, reservation.quantity, database);
+      }
+
+      return released;
+    };
+
+    return tx ? run(tx) : db.transaction(run);
+  }
+
+  /**
+   * Release expired holds of unpaid orders and cancel those orders
+   * Holds of orders that were paid in the meantime, or whose parts already left the shop
+   * (status past CANCELLABLE_ORDER_STATUSES), are committed instead.
+   *
+   * @returns Released orders and parts
+   */
+  async expireReservations(now: Date = new Date()): Promise<ExpiredReservations> {
+    const expired = await db
+      .selectDistinct({ orderId: stockReservations.orderId })
+      .from(stockReservations)
+      .where(and(eq(stockReservations.status, 'active'), lte(stockReservations.expiresAt, now)));
+
+    const releasedOrderIds: string[] = [];
+    const releasedPartIds = new Set<string>();
+    for (const { orderId } of expired) {
+      try {
+        const released = await db.transaction(async (tx) => {
+          // Lock the order so a payment confirmation cannot interleave with the release
+          const [order] = await tx
+            .select()
+            .from(supplierOrders)
+            .where(eq(supplierOrders.id, orderId))
+            .for('update');
+
+          if (order && order.status !== 'cancelled' &&
+              (order.paymentStatus === 'paid' || !CANCELLABLE_ORDER_STATUSES.includes(order.status))) {
+            await this.commitOrder(orderId, tx);
+            return null;
+          }
+
+          const reason: StockReleaseReason = order?.paymentStatus === 'failed' ? 'payment_failed' : 'expired';
+          const reservations = await this.releaseOrder(orderId, reason, tx);
+
+          if (order && order.status !== 'cancelled') {
+            await promotionService.releaseRedemption(orderId, tx);
+            await tx
+              .update(supplierOrderItems)
+              .set({ status: 'cancelled' })
+              .where(eq(supplierOrderItems.orderId, orderId));
+            await tx
+              .update(supplierOrders)
+              .set({ status: 'cancelled', updatedAt: new Date() })
+              .where(eq(supplierOrders.id, orderId));
+          }
+          return reservations;
+        });
+
+        if (released) {
+          releasedOrderIds.push(orderId);
+          released.forEach(reservation => releasedPartIds.add(reservation.partId));
+        }
+      } catch (error) {
+        console.error(`Failed to expire stock reservations for order ${orderId}:`, error);
+      }
+    }
+
+    return { orderIds: releasedOrderIds, partIds: Array.from(releasedPartIds) };
+  }
+
+  /**
+   * Stock currently held by open orders, for a supplier's listing
+   * (available stock is parts.stockQuantity; on hand = available + reserved)
+   */
+  async getReservedStock(supplierId: string): Promise<ReservedStock[]> {
+    const rows = await db
+      .select({
+        partId: stockReservations.partId,
+        variantId: stockReservations.variantId,
+        reservedQuantity: sql<number>`SUM(${stockReservations.quantity})`,
+      })
+      .from(stockReservations)
+      .where(and(eq(stockReservations.supplierId, supplierId), eq(stockReservations.status, 'active')))
+      .groupBy(stockReservations.partId, stockReservations.variantId);
+
+    return rows.map(row => ({ ...row, reservedQuantity: Number(row.reservedQuantity) }));
+  }
+
+  async getOrderReservations(orderId: string): Promise<StockReservation[]> {
+    return await db
+      .select()
+      .from(stockReservations)
+      .where(eq(stockReservations.orderId, orderId));
+  }
+}
+
+export const stockReservationService = new StockReservationService();
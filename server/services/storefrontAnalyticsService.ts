@@ -0,0 +1,440 @@
+import { DateTime } from "luxon";
+import { db } from "../db";
+import {
+  parts,
+  searchImageLog,
+  storefrontDailyStats,
+  storefrontEvents,
+  supplierOrderItems,
+  supplierOrders,
+  type InsertStorefrontEvent,
+  type StorefrontEventSource,
+  type StorefrontEventType,
+} from "@shared/schema";
+import { and, asc, desc, eq, gte, isNotNull, isNull, lt, ne, sql } from "drizzle-orm";
+
+/**
+ * Storefront Analytics Service - Supplier store performance
+ *
+ * Store views, product views, search impressions (marketplace, in-store and image search) and
+ * add-to-cart are recorded as raw storefront events; text searches are logged to searchImageLog
+ * alongside image searches. Each night the previous day (Asia/Kuala_Lumpur) is rolled up into
+ * storefrontDailyStats per supplier and product, with purchases counted from supplier orders.
+ * The supplier analytics report reads only the rollup, plus zero-result searches from the log.
+ *
+ * Recording never throws: analytics must not fail the request that triggered it.
+ */
+
+const TIMEZONE = 'Asia/Kuala_Lumpur';
+
+// Raw events older than this are deleted after rollup
+const EVENT_RETENTION_DAYS = 90;
+
+// Default and maximum report range
+const DEFAULT_REPORT_DAYS = 30;
+const MAX_REPORT_DAYS = 365;
+
+// Searched-but-not-found terms returned per list
+const NOT_FOUND_TERM_LIMIT = 20;
+
+// Products returned in the per-product conversion table
+const PRODUCT_REPORT_LIMIT = 100;
+
+type StatCounters = {
+  storeViews: number;
+  productViews: number;
+  searchImpressions: number;
+  addToCarts: number;
+  orders: number;
+  unitsSold: number;
+  revenue: number;
+};
+
+const EVENT_COUNTER: Record<StorefrontEventType, keyof StatCounters> = {
+  store_view: 'storeViews',
+  product_view: 'productViews',
+  search_impression: 'searchImpressions',
+  add_to_cart: 'addToCarts',
+};
+
+export interface StorefrontFunnel {
+  storeViews: number;
+  searchImpressions: number;
+  productViews: number;
+  addToCarts: number;
+  orders: number;
+  unitsSold: number;
+  revenue: number;
+  viewToCartRate: number; // addToCarts / productViews, %
+  cartToOrderRate: number; // orders / addToCarts, %
+}
+
+export interface ProductConversion {
+  partId: string;
+  name: string;
+  garagehubCode: string;
+  searchImpressions: number;
+  productViews: number;
+  addToCarts: number;
+  orders: number;
+  unitsSold: number;
+  revenue: number;
+  conversionRate: number; // orders / productViews, %
+}
+
+export interface SearchTermCount {
+  term: string;
+  count: number;
+}
+
+export interface StorefrontAnalytics {
+  from: string;
+  to: string;
+  funnel: StorefrontFunnel;
+  daily: Array<{ date: string } & StatCounters>;
+  products: ProductConversion[];
+  notFoundInStore: SearchTermCount[]; // Searches in this store with no results
+  notFoundInMarketplace: SearchTermCount[]; // Marketplace-wide searches with no results (unmet demand)
+}
+
+function emptyCounters(): StatCounters {
+  return { storeViews: 0, productViews: 0, searchImpressions: 0, addToCarts: 0, orders: 0, unitsSold: 0, revenue: 0 };
+}
+
+function rate(numerator: number, denominator: number): number {
+  return denominator > 0 ? Math.round((numerator / denominator) * 10000) / 100 : 0;
+}
+
+export class StorefrontAnalyticsService {
+  /**
+   * Insert raw events (never throws)
+   */
+  async record(events: InsertStorefrontEvent[]): Promise<void> {
+    if (events.length === 0) {
+      return;
+    }
+
+    try {
+      await db.insert(storefrontEvents).values(events);
+    } catch (error) {
+      console.error("[StorefrontAnalytics] Failed to record events:", error);
+    }
+  }
+
+  /**
+   * One search impression per listed product
+   */
+  async recordImpressions(
+    results: Array<{ id: string; supplierId: string }>,
+    source: StorefrontEventSource,
+    workshopId?: string | null
+  ): Promise<void> {
+    await this.record(results.map(result => ({
+      supplierId: result.supplierId,
+      partId: result.id,
+      workshopId: workshopId || null,
+      eventType: 'search_impression' as const,
+      source,
+    })));
+  }
+
+  /**
+   * One add_to_cart event per cart line added; call once the add has committed
+   */
+  async recordAddsToCart(
+    workshopId: string,
+    lines: Array<{ partId: string; supplierId: string; quantity: number }>,
+    source: StorefrontEventSource
+  ): Promise<void> {
+    await this.record(lines.map(line => ({
+      supplierId: line.supplierId,
+      partId: line.partId,
+      workshopId,
+      eventType: 'add_to_cart' as const,
+      source,
+      quantity: line.quantity,
+    })));
+  }
+
+  /**
+   * Log a text search to searchImageLog and record impressions for its results (never throws)
+   *
+   * @param supplierId - Store searched, or undefined for a marketplace-wide search
+   */
+  async recordTextSearch(options: {
+    query: string;
+    supplierId?: string;
+    workshopId?: string | null;
+    resultCount: number;
+    results: Array<{ id: string; supplierId: string }>;
+  }): Promise<void> {
+    const query = options.query.trim().toLowerCase().substring(0, 255);
+    if (!query) {
+      return;
+    }
+
+    try {
+      await db.insert(searchImageLog).values({
+        searchType: 'text',
+        query,
+        workshopId: options.workshopId || null,
+        supplierId: options.supplierId || null,
+        scope: options.supplierId ? 'supplier' : 'marketplace',
+        resultCount: options.resultCount,
+      });
+    } catch (error) {
+      console.error("[StorefrontAnalytics] Failed to log text search:", error);
+    }
+
+    await this.recordImpressions(options.results, options.supplierId ? 'store_search' : 'marketplace_search', options.workshopId);
+  }
+
+  /**
+   * Roll up one day of events and orders into storefrontDailyStats (replaces that day's rows)
+   *
+   * @param day - Any instant within the day to roll up (Asia/Kuala_Lumpur)
+   * @returns Number of stat rows written
+   */
+  async rollupDay(day: Date): Promise<number> {
+    const start = DateTime.fromJSDate(day).setZone(TIMEZONE).startOf('day');
+    const dayStart = start.toJSDate();
+    const dayEnd = start.plus({ days: 1 }).toJSDate();
+
+    return await db.transaction(async (tx) => {
+      const eventCounts = await tx
+        .select({
+          supplierId: storefrontEvents.supplierId,
+          partId: storefrontEvents.partId,
+          eventType: storefrontEvents.eventType,
+          count: sql<number>`count(*)::int`,
+          quantity: sql<number>`coalesce(sum(${storefrontEvents.quantity}), 0)::int`,
+        })
+        .from(storefrontEvents)
+        .where(and(gte(storefrontEvents.createdAt, dayStart), lt(storefrontEvents.createdAt, dayEnd)))
+        .groupBy(storefrontEvents.supplierId, storefrontEvents.partId, storefrontEvents.eventType);
+
+      const orderLines = await tx
+        .select({
+          supplierId: supplierOrders.supplierId,
+          partId: supplierOrderItems.partId,
+          orders: sql<number>`count(distinct ${supplierOrders.id})::int`,
+          unitsSold: sql<number>`coalesce(sum(${supplierOrderItems.quantity}), 0)::int`,
+          revenue: sql<string>`coalesce(sum(${supplierOrderItems.quantity} * ${supplierOrderItems.priceAtTime}), 0)`,
+        })
+        .from(supplierOrderItems)
+        .innerJoin(supplierOrders, eq(supplierOrderItems.orderId, supplierOrders.id))
+        .where(and(
+          ne(supplierOrders.status, 'cancelled'),
+          gte(supplierOrders.createdAt, dayStart),
+          lt(supplierOrders.createdAt, dayEnd)
+        ))
+        .groupBy(supplierOrders.supplierId, supplierOrderItems.partId);
+
+      const storeOrders = await tx
+        .select({
+          supplierId: supplierOrders.supplierId,
+          orders: sql<number>`count(*)::int`,
+        })
+        .from(supplierOrders)
+        .where(and(
+          ne(supplierOrders.status, 'cancelled'),
+          gte(supplierOrders.createdAt, dayStart),
+          lt(supplierOrders.createdAt, dayEnd)
+        ))
+        .groupBy(supplierOrders.supplierId);
+
+      // key: supplierId + partId ('' = store-level row)
+      const stats = new Map<string, { supplierId: string; partId: string | null } & StatCounters>();
+      const row = (supplierId: string, partId: string | null) => {
+        const key = `${supplierId}:${partId ?? ''}`;
+        let stat = stats.get(key);
+        if (!stat) {
+          stat = { supplierId, partId, ...emptyCounters() };
+          stats.set(key, stat);
+        }
+        return stat;
+      };
+
+      for (const event of eventCounts) {
+        const counter = EVENT_COUNTER[event.eventType];
+        const value = event.eventType === 'add_to_cart' ? event.quantity : event.count;
+        if (event.partId) {
+          row(event.supplierId, event.partId)[counter] += value;
+        }
+        // Store-level row totals every event
+        row(event.supplierId, null)[counter] += value;
+      }
+
+      for (const line of orderLines) {
+        const stat = row(line.supplierId, line.partId);
+        stat.orders += line.orders;
+        stat.unitsSold += line.unitsSold;
+        stat.revenue += Number(line.revenue);
+
+        const store = row(line.supplierId, null);
+        store.unitsSold += line.unitsSold;
+        store.revenue += Number(line.revenue);
+      }
+
+      for (const order of storeOrders) {
+        row(order.supplierId, null).orders = order.orders;
+      }
+
+      await tx.delete(storefrontDailyStats).where(eq(storefrontDailyStats.date, dayStart));
+
+      const values = Array.from(stats.values()).map(stat => ({
+        ...stat,
+        date: dayStart,
+        revenue: stat.revenue.toFixed(2),
+      }));
+      if (values.length > 0) {
+        await tx.insert(storefrontDailyStats).values(values);
+      }
+      return values.length;
+    });
+  }
+
+  /**
+   * Delete raw events past the retention window
+   */
+  async purgeEvents(): Promise<number> {
+    const cutoff = DateTime.now().setZone(TIMEZONE).minus({ days: EVENT_RETENTION_DAYS }).startOf('day').toJSDate();
+    const deleted = await db
+      .delete(storefrontEvents)
+      .where(lt(storefrontEvents.createdAt, cutoff))
+      .returning({ id: storefrontEvents.id });
+    return deleted.length;
+  }
+
+  /**
+   * A supplier's funnel, daily series, per-product conversion and searched-but-not-found terms
+   *
+   * @param from - First day (inclusive); defaults to DEFAULT_REPORT_DAYS before `to`
+   * @param to - Last day (inclusive); defaults to yesterday, the latest rolled-up day
+   */
+  async getSupplierAnalytics(supplierId: string, options: { from?: Date; to?: Date } = {}): Promise<StorefrontAnalytics> {
+    const to = options.to
+      ? DateTime.fromJSDate(options.to).setZone(TIMEZONE).startOf('day')
+      : DateTime.now().setZone(TIMEZONE).startOf('day').minus({ days: 1 });
+    let from = options.from
+      ? DateTime.fromJSDate(options.from).setZone(TIMEZONE).startOf('day')
+      : to.minus({ days: DEFAULT_REPORT_DAYS - 1 });
+    if (to.diff(from, 'days').days >= MAX_REPORT_DAYS) {
+      from = to.minus({ days: MAX_REPORT_DAYS - 1 });
+    }
+    const rangeStart = from.toJSDate();
+    const rangeEnd = to.plus({ days: 1 }).toJSDate();
+    const inRange = and(
+      eq(storefrontDailyStats.supplierId, supplierId),
+      gte(storefrontDailyStats.date, rangeStart),
+      lt(storefrontDailyStats.date, rangeEnd)
+    );
+
+    const storeRows = await db
+      .select()
+      .from(storefrontDailyStats)
+      .where(and(inRange, isNull(storefrontDailyStats.partId)))
+      .orderBy(asc(storefrontDailyStats.date));
+
+    const daily = storeRows.map(stat => ({
+      date: DateTime.fromJSDate(stat.date).setZone(TIMEZONE).toISODate()!,
+      storeViews: stat.storeViews,
+      productViews: stat.productViews,
+      searchImpressions: stat.searchImpressions,
+      addToCarts: stat.addToCarts,
+      orders: stat.orders,
+      unitsSold: stat.unitsSold,
+      revenue: Number(stat.revenue),
+    }));
+
+    const totals = emptyCounters();
+    for (const day of daily) {
+      totals.storeViews += day.storeViews;
+      totals.productViews += day.productViews;
+      totals.searchImpressions += day.searchImpressions;
+      totals.addToCarts += day.addToCarts;
+      totals.orders += day.orders;
+      totals.unitsSold += day.unitsSold;
+      totals.revenue += day.revenue;
+    }
+
+    const productRows = await db
+      .select({
+        partId: storefrontDailyStats.partId,
+        name: parts.name,
+        garagehubCode: parts.garagehubCode,
+        searchImpressions: sql<number>`sum(${storefrontDailyStats.searchImpressions})::int`,
+        productViews: sql<number>`sum(${storefrontDailyStats.productViews})::int`,
+        addToCarts: sql<number>`sum(${storefrontDailyStats.addToCarts})::int`,
+        orders: sql<number>`sum(${storefrontDailyStats.orders})::int`,
+        unitsSold: sql<number>`sum(${storefrontDailyStats.unitsSold})::int`,
+        revenue: sql<string>`sum(${storefrontDailyStats.revenue})`,
+      })
+      .from(storefrontDailyStats)
+      .innerJoin(parts, eq(storefrontDailyStats.partId, parts.id))
+      .where(and(inRange, isNotNull(storefrontDailyStats.partId)))
+      .groupBy(storefrontDailyStats.partId, parts.name, parts.garagehubCode)
+      .orderBy(desc(sql`sum(${storefrontDailyStats.productViews})`))
+      .limit(PRODUCT_REPORT_LIMIT);
+
+    const [notFoundInStore, notFoundInMarketplace] = await Promise.all([
+      this.notFoundTerms(rangeStart, rangeEnd, supplierId),
+      this.notFoundTerms(rangeStart, rangeEnd),
+    ]);
+
+    return {
+      from: from.toISODate()!,
+      to: to.toISODate()!,
+      funnel: {
+        ...totals,
+        revenue: Math.round(totals.revenue * 100) / 100,
+        viewToCartRate: rate(totals.addToCarts, totals.productViews),
+        cartToOrderRate: rate(totals.orders, totals.addToCarts),
+      },
+      daily,
+      products: productRows.map(product => ({
+        partId: product.partId!,
+        name: product.name,
+        garagehubCode: product.garagehubCode,
+        searchImpressions: product.searchImpressions,
+        productViews: product.productViews,
+        addToCarts: product.addToCarts,
+        orders: product.orders,
+        unitsSold: product.unitsSold,
+        revenue: Number(product.revenue),
+        conversionRate: rate(product.orders, product.productViews),
+      })),
+      notFoundInStore,
+      notFoundInMarketplace,
+    };
+  }
+
+  /**
+   * Most frequent zero-result text searches, in one store or marketplace-wide
+   */
+  private async notFoundTerms(rangeStart: Date, rangeEnd: Date, supplierId?: string): Promise<SearchTermCount[]> {
+    const rows = await db
+      .select({
+        term: searchImageLog.query,
+        count: sql<number>`count(*)::int`,
+      })
+      .from(searchImageLog)
+      .where(and(
+        eq(searchImageLog.searchType, 'text'),
+        eq(searchImageLog.resultCount, 0),
+        isNotNull(searchImageLog.query),
+        gte(searchImageLog.createdAt, rangeStart),
+        lt(searchImageLog.createdAt, rangeEnd),
+        supplierId
+          ? and(eq(searchImageLog.scope, 'supplier'), eq(searchImageLog.supplierId, supplierId))
+          : eq(searchImageLog.scope, 'marketplace')
+      ))
+      .groupBy(searchImageLog.query)
+      .orderBy(desc(sql`count(*)`))
+      .limit(NOT_FOUND_TERM_LIMIT);
+
+    return rows.map(row => ({ term: row.term!, count: row.count }));
+  }
+}
+
+export const storefrontAnalyticsService = new StorefrontAnalyticsService();
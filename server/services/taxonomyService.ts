@@ -0,0 +1,482 @@
+import { db } from "../db";
+import {
+  parts,
+  taxonomyTerms,
+  DEFAULT_PART_CATEGORY,
+  type CreateTaxonomyTerm,
+  type PartCategory,
+  type TaxonomyTerm,
+  type TaxonomyTermType,
+  type UpdateTaxonomyTerm,
+} from "@shared/schema";
+import { asc, eq, sql } from "drizzle-orm";
+import { TaxonomyError } from "../errors";
+import { DEFAULT_BRANDS, DEFAULT_CATEGORIES } from "../config/defaultTaxonomy";
+
+/**
+ * Taxonomy Service - Admin-managed brands, models, categories and sub-categories
+ *
+ * The taxonomy is the single source for catalogue vocabulary: the catalogue endpoints serve it,
+ * and product edits, imports and AI extraction map free text into it (see TaxonomyResolver).
+ * Terms are cached in memory and reloaded after every admin change.
+ */
+
+// Parent type each child type hangs under
+const PARENT_TYPE: Partial<Record<TaxonomyTermType, TaxonomyTermType>> = {
+  model: 'brand',
+  subcategory: 'category',
+};
+
+export interface TaxonomyTree {
+  brands: Array<TaxonomyTerm & { models: TaxonomyTerm[] }>;
+  categories: Array<TaxonomyTerm & { subcategories: TaxonomyTerm[] }>;
+}
+
+export interface CategoryMatch {
+  category: TaxonomyTerm;
+  subcategory: TaxonomyTerm | null;
+  partCategory: PartCategory;
+}
+
+export interface VehicleMatch {
+  make: TaxonomyTerm | null;
+  model: TaxonomyTerm | null;
+}
+
+// Listing fields the taxonomy canonicalizes
+export interface TaxonomyFields {
+  category?: string | null;
+  partCategory?: PartCategory | null;
+  brand?: string | null;
+  model?: string | null;
+  vehicleMake?: string | null;
+  vehicleModel?: string | null;
+}
+
+export interface UnmappedValue {
+  value: string;
+  count: number;
+}
+
+/**
+ * Lowercase words separated by single spaces ("CR-V" -> "cr v", "Brake  Pads" -> "brake pads")
+ */
+export function normalizeTerm(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+}
+
+function slugify(label: string): string {
+  return normalizeTerm(label).replace(/ /g, '-');
+}
+
+/**
+ * Synchronous matching over a loaded taxonomy snapshot
+ * Category text matches a term exactly (label, slug or alias) or, failing that, by the longest
+ * label/alias contained in it as whole words ("Front Brake Pads Myvi" -> Brakes / Brake Pads).
+ * Makes and models match exactly only.
+ */
+export class TaxonomyResolver {
+  private readonly byId = new Map<string, TaxonomyTerm>();
+  private readonly categoryPhrases: Array<{ phrase: string; term: TaxonomyTerm; isLabel: boolean }> = [];
+
+  constructor(private readonly terms: TaxonomyTerm[]) {
+    for (const term of terms) {
+      this.byId.set(term.id, term);
+      if (term.type === 'category' || term.type === 'subcategory') {
+        for (const phrase of this.labelPhrases(term)) {
+          this.categoryPhrases.push({ phrase, term, isLabel: true });
+        }
+        for (const alias of term.aliases) {
+          const phrase = normalizeTerm(alias);
+          if (phrase) {
+            this.categoryPhrases.push({ phrase, term, isLabel: false });
+          }
+        }
+      }
+    }
+
+    // Longest phrase first; on ties labels beat aliases and categories beat sub-categories
+    this.categoryPhrases.sort((a, b) =>
+      b.phrase.length - a.phrase.length ||
+      Number(b.isLabel) - Number(a.isLabel) ||
+      Number(a.term.type === 'subcategory') - Number(b.term.type === 'subcategory')
+    );
+  }
+
+  private labelPhrases(term: TaxonomyTerm): string[] {
+    const own = [term.labelEn, term.labelMs].map(normalizeTerm);
+    const slug = normalizeTerm(term.slug);
+    return Array.from(new Set([...own, slug].filter(Boolean)));
+  }
+
+  private matches(term: TaxonomyTerm, key: string): boolean {
+    return this.labelPhrases(term).includes(key) || term.aliases.some(alias => normalizeTerm(alias) === key);
+  }
+
+  private toCategoryMatch(term: TaxonomyTerm): CategoryMatch | undefined {
+    const parent = term.parentId ? this.byId.get(term.parentId) : undefined;
+    const category = term.type === 'subcategory' ? parent : term;
+    if (!category) {
+      return undefined;
+    }
+    const subcategory = term.type === 'subcategory' ? term : null;
+
+    return {
+      category,
+      subcategory,
+      partCategory: subcategory?.partCategory ?? category.partCategory ?? DEFAULT_PART_CATEGORY,
+    };
+  }
+
+  /**
+   * @returns The category (and sub-category) for free-text category, or undefined if nothing matches
+   */
+  resolveCategory(text: string | null | undefined): CategoryMatch | undefined {
+    const key = normalizeTerm(text || '');
+    if (!key) {
+      return undefined;
+    }
+
+    const exact = this.categoryPhrases.find(entry => entry.phrase === key);
+    if (exact) {
+      return this.toCategoryMatch(exact.term);
+    }
+
+    const padded = ` ${key} `;
+    const contained = this.categoryPhrases.find(entry => padded.includes(` ${entry.phrase} `));
+    return contained ? this.toCategoryMatch(contained.term) : undefined;
+  }
+
+  /**
+   * Make and model terms for free text; models are looked up under the matched make when there is one
+   */
+  resolveVehicle(make: string | null | undefined, model: string | null | undefined): VehicleMatch {
+    const makeKey = normalizeTerm(make || '');
+    const modelKey = normalizeTerm(model || '');
+
+    const makeTerm = makeKey
+      ? this.terms.find(term => term.type === 'brand' && this.matches(term, makeKey)) ?? null
+      : null;
+
+    let modelTerm: TaxonomyTerm | null = null;
+    if (modelKey) {
+      const candidates = this.terms.filter(term =>
+        term.type === 'model' &&
+        (!makeTerm || term.parentId === makeTerm.id) &&
+        this.matches(term, modelKey)
+      );
+      // Without a make the model name must be unambiguous
+      if (candidates.length === 1 || (makeTerm && candidates.length > 0)) {
+        modelTerm = candidates[0];
+      }
+    }
+
+    return { make: makeTerm, model: modelTerm };
+  }
+
+  /**
+   * Canonical labels for a listing's taxonomy fields
+   * Matched values are replaced with the term's English label; partCategory follows the
+   * category unless given explicitly. Unmatched values are kept as entered.
+   */
+  normalizeFields<T extends TaxonomyFields>(fields: T): T {
+    const result = { ...fields };
+
+    if (typeof fields.category === 'string' && fields.category.trim()) {
+      const match = this.resolveCategory(fields.category);
+      if (match) {
+        result.category = match.category.labelEn;
+        if (fields.partCategory === undefined || fields.partCategory === null) {
+          result.partCategory = match.partCategory;
+        }
+      }
+    }
+
+    for (const [makeField, modelField] of [['vehicleMake', 'vehicleModel'], ['brand', 'model']] as const) {
+      const make = fields[makeField];
+      const model = fields[modelField];
+      if (!make && !model) continue;
+
+      const match = this.resolveVehicle(make, model);
+      if (match.make && make) {
+        result[makeField] = match.make.labelEn;
+      }
+      if (match.model && model) {
+        result[modelField] = match.model.labelEn;
+      }
+    }
+
+    return result;
+  }
+
+  tree(includeInactive: boolean): TaxonomyTree {
+    const visible = this.terms.filter(term => includeInactive || term.isActive);
+    const childrenOf = (parent: TaxonomyTerm) => visible.filter(term => term.parentId === parent.id);
+
+    return {
+      brands: visible
+        .filter(term => term.type === 'brand')
+        .map(brand => ({ ...brand, models: childrenOf(brand) })),
+      categories: visible
+        .filter(term => term.type === 'category')
+        .map(category => ({ ...category, subcategories: childrenOf(category) })),
+    };
+  }
+}
+
+export class TaxonomyService {
+  private resolver: Promise<TaxonomyResolver> | null = null;
+
+  /**
+   * Taxonomy snapshot for synchronous matching (seeded with the defaults on first use)
+   */
+  getResolver(): Promise<TaxonomyResolver> {
+    if (!this.resolver) {
+      this.resolver = this.ensureDefaults()
+        .then(() => db.select().from(taxonomyTerms).orderBy(asc(taxonomyTerms.sortOrder), asc(taxonomyTerms.labelEn)))
+        .then(terms => new TaxonomyResolver(terms))
+        .catch((error) => {
+          this.resolver = null; // Retry on next use
+          throw error;
+        });
+    }
+    return this.resolver;
+  }
+
+  /**
+   * Drop the cached snapshot after a change
+   */
+  invalidate(): void {
+    this.resolver = null;
+  }
+
+  /**
+   * Insert the default taxonomy when the table is empty
+   */
+  async ensureDefaults(): Promise<void> {
+    const [{ count }] = await db.select({ count: sql<number>`count(*)` }).from(taxonomyTerms);
+    if (Number(count) > 0) {
+      return;
+    }
+
+    await db.transaction(async (tx) => {
+      const insert = async (values: typeof taxonomyTerms.$inferInsert) => {
+        const [term] = await tx.insert(taxonomyTerms).values(values).onConflictDoNothing().returning();
+        return term;
+      };
+
+      for (let index = 0; index < DEFAULT_BRANDS.length; index++) {
+        const brand = DEFAULT_BRANDS[index];
+        const brandTerm = await insert({
+          type: 'brand',
+          slug: slugify(brand.label),
+          labelEn: brand.label,
+          labelMs: brand.label,
+          aliases: brand.aliases ?? [],
+          sortOrder: index,
+        });
+        if (!brandTerm) continue; // Seeded concurrently
+
+        for (let modelIndex = 0; modelIndex < brand.models.length; modelIndex++) {
+          const model = brand.models[modelIndex];
+          await insert({
+            type: 'model',
+            parentId: brandTerm.id,
+            slug: `${brandTerm.slug}-${slugify(model)}`,
+            labelEn: model,
+            labelMs: model,
+            sortOrder: modelIndex,
+          });
+        }
+      }
+
+      for (let index = 0; index < DEFAULT_CATEGORIES.length; index++) {
+        const category = DEFAULT_CATEGORIES[index];
+        const categoryTerm = await insert({
+          type: 'category',
+          slug: slugify(category.labelEn),
+          labelEn: category.labelEn,
+          labelMs: category.labelMs,
+          partCategory: category.partCategory,
+          aliases: category.aliases ?? [],
+          sortOrder: index,
+        });
+        if (!categoryTerm) continue;
+
+        const subcategories = category.subcategories ?? [];
+        for (let subIndex = 0; subIndex < subcategories.length; subIndex++) {
+          const subcategory = subcategories[subIndex];
+          await insert({
+            type: 'subcategory',
+            parentId: categoryTerm.id,
+            slug: `${categoryTerm.slug}-${slugify(subcategory.labelEn)}`,
+            labelEn: subcategory.labelEn,
+            labelMs: subcategory.labelMs,
+            partCategory: subcategory.partCategory ?? category.partCategory,
+            aliases: subcategory.aliases ?? [],
+            sortOrder: subIndex,
+          });
+        }
+      }
+    });
+  }
+
+  /**
+   * Brands with their models and categories with their sub-categories, in display order
+   */
+  async getTree(includeInactive = false): Promise<TaxonomyTree> {
+    return (await this.getResolver()).tree(includeInactive);
+  }
+
+  async getTerm(id: string): Promise<TaxonomyTerm | undefined> {
+    const [term] = await db.select().from(taxonomyTerms).where(eq(taxonomyTerms.id, id));
+    return term;
+  }
+
+  /**
+   * @throws TaxonomyError if the parent is missing or of the wrong type, or the label is taken
+   */
+  async createTerm(input: CreateTaxonomyTerm): Promise<TaxonomyTerm> {
+    const parentType = PARENT_TYPE[input.type];
+    let parent: TaxonomyTerm | undefined;
+
+    if (parentType) {
+      parent = input.parentId ? await this.getTerm(input.parentId) : undefined;
+      if (!parent || parent.type !== parentType) {
+        throw new TaxonomyError('invalid_parent', `A ${input.type} must belong to a ${parentType}`);
+      }
+    } else if (input.parentId) {
+      throw new TaxonomyError('invalid_parent', `A ${input.type} cannot have a parent`);
+    }
+
+    await this.assertLabelAvailable(input.type, parent?.id ?? null, input.labelEn);
+
+    const slug = parent ? `${parent.slug}-${slugify(input.labelEn)}` : slugify(input.labelEn);
+    const isCategory = input.type === 'category' || input.type === 'subcategory';
+    const [term] = await db
+      .insert(taxonomyTerms)
+      .values({
+        type: input.type,
+        parentId: parent?.id ?? null,
+        slug,
+        labelEn: input.labelEn,
+        labelMs: input.labelMs,
+        partCategory: isCategory ? input.partCategory ?? parent?.partCategory ?? DEFAULT_PART_CATEGORY : null,
+        aliases: input.aliases ?? [],
+        sortOrder: input.sortOrder ?? 0,
+        isActive: input.isActive ?? true,
+      })
+      .onConflictDoNothing()
+      .returning();
+
+    if (!term) {
+      throw new TaxonomyError('duplicate', `A ${input.type} with the slug "${slug}" already exists`);
+    }
+
+    this.invalidate();
+    return term;
+  }
+
+  /**
+   * The slug stays fixed when the label changes, so links and filters keep working
+   *
+   * @throws TaxonomyError if the new label is taken
+   */
+  async updateTerm(id: string, input: UpdateTaxonomyTerm): Promise<TaxonomyTerm | undefined> {
+    const existing = await this.getTerm(id);
+    if (!existing) {
+      return undefined;
+    }
+
+    if (input.labelEn && normalizeTerm(input.labelEn) !== normalizeTerm(existing.labelEn)) {
+      await this.assertLabelAvailable(existing.type, existing.parentId, input.labelEn);
+    }
+
+    const isCategory = existing.type === 'category' || existing.type === 'subcategory';
+    const [term] = await db
+      .update(taxonomyTerms)
+      .set({
+        ...input,
+        partCategory: isCategory ? input.partCategory ?? existing.partCategory : null,
+        updatedAt: new Date(),
+      })
+      .where(eq(taxonomyTerms.id, id))
+      .returning();
+
+    this.invalidate();
+    return term;
+  }
+
+  /**
+   * Delete a term and its children (models of a brand, sub-categories of a category)
+   * Listings keep their stored labels; deactivate instead to hide a term but keep mapping to it.
+   */
+  async deleteTerm(id: string): Promise<boolean> {
+    const deleted = await db
+      .delete(taxonomyTerms)
+      .where(eq(taxonomyTerms.id, id))
+      .returning({ id: taxonomyTerms.id });
+
+    this.invalidate();
+    return deleted.length > 0;
+  }
+
+  private async assertLabelAvailable(type: TaxonomyTermType, parentId: string | null, labelEn: string): Promise<void> {
+    const resolver = await this.getResolver();
+    const key = normalizeTerm(labelEn);
+    const taken = resolver.tree(true);
+    const siblings = type === 'brand' ? taken.brands
+      : type === 'category' ? taken.categories
+      : type === 'model' ? taken.brands.find(brand => brand.id === parentId)?.models ?? []
+      : taken.categories.find(category => category.id === parentId)?.subcategories ?? [];
+
+    if (siblings.some(term => normalizeTerm(term.labelEn) === key)) {
+      throw new TaxonomyError('duplicate', `"${labelEn}" already exists`);
+    }
+  }
+
+  async resolveCategory(text: string): Promise<CategoryMatch | undefined> {
+    return (await this.getResolver()).resolveCategory(text);
+  }
+
+  /**
+   * See TaxonomyResolver.normalizeFields
+   */
+  async normalizeFields<T extends TaxonomyFields>(fields: T): Promise<T> {
+    return (await this.getResolver()).normalizeFields(fields);
+  }
+
+  /**
+   * Category and vehicle make values on listings that the taxonomy does not map, most used first
+   * Admins use this to add missing terms or aliases.
+   */
+  async findUnmappedValues(): Promise<{ categories: UnmappedValue[]; vehicleMakes: UnmappedValue[] }> {
+    const resolver = await this.getResolver();
+
+    const [categoryRows, makeRows] = await Promise.all([
+      db
+        .select({ value: parts.category, count: sql<number>`count(*)` })
+        .from(parts)
+        .groupBy(parts.category),
+      db
+        .select({ value: parts.vehicleMake, count: sql<number>`count(*)` })
+        .from(parts)
+        .where(sql`coalesce(trim(${parts.vehicleMake}), '') <> ''`)
+        .groupBy(parts.vehicleMake),
+    ]);
+
+    const byCount = (a: UnmappedValue, b: UnmappedValue) => b.count - a.count;
+    return {
+      categories: categoryRows
+        .filter(row => !resolver.resolveCategory(row.value))
+        .map(row => ({ value: row.value, count: Number(row.count) }))
+        .sort(byCount),
+      vehicleMakes: makeRows
+        .filter(row => !resolver.resolveVehicle(row.value, null).make)
+        .map(row => ({ value: row.value!, count: Number(row.count) }))
+        .sort(byCount),
+    };
+  }
+}
+
+export const taxonomyService = new TaxonomyService();
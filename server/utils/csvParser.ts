@@ -1,13 +1,81 @@
-import type { InsertPart } from "@shared/schema";
+import ExcelJS from "exceljs";
+import {
+  DEFAULT_PART_CATEGORY,
+  VARIANT_OPTION_KEYS,
+  partCategoryEnum,
+  type CompatibilityItem,
+  type InsertPart,
+  type PartCategory,
+  type PartNumberInput,
+  type PartNumberType,
+  type VariantOptionKey,
+} from "@shared/schema";
 
+/**
+ * Catalogue import/export column layout (the exporter writes exactly these headers, in this order)
+ *
+ * Multi-value cells:
+ * - compatibility: "Make:Model:YearFrom-YearTo" entries separated by ";" (years optional, "2018-" = open-ended)
+ * - images: URLs separated by "|"
+ * - oemNumbers / aftermarketNumbers: "Brand:Number" entries separated by ";" or "|" (brand optional)
+ * - variantOptions: "key=value" pairs separated by ";" (keys from VARIANT_OPTION_KEYS)
+ *
+ * Headers are matched case-insensitively, ignoring spaces/underscores ("Stock Quantity" = stockQuantity).
+ */
+export const PRODUCT_IMPORT_COLUMNS = [
+  'name',
+  'sku',
+  'garagehubCode',
+  'description',
+  'category',
+  'partCategory',
+  'brand',
+  'model',
+  'vehicleMake',
+  'vehicleModel',
+  'vehicleYearFrom',
+  'vehicleYearTo',
+  'compatibility',
+  'price',
+  'stockQuantity',
+  'imageUrl',
+  'images',
+  'oemNumbers',
+  'aftermarketNumbers',
+  'variantGroup',
+  'variantName',
+  'variantOptions',
+] as const;
+
+export type ProductImportColumn = typeof PRODUCT_IMPORT_COLUMNS[number];
+
+/**
+ * One parsed data row. Fields are undefined when the column is absent or the cell is blank,
+ * which the importer treats as "leave unchanged" for existing products.
+ */
 export interface CSVProductRow {
-  name: string;
+  row: number; // Record number in the file (header = 1), for error reports
+  name?: string;
   sku?: string;
+  garagehubCode?: string; // Matches an existing product; never used to create one
   description?: string;
-  category: string;
-  price: string;
-  stockQuantity: number;
+  category?: string;
+  partCategory?: PartCategory;
+  brand?: string;
+  model?: string;
+  vehicleMake?: string;
+  vehicleModel?: string;
+  vehicleYearFrom?: number;
+  vehicleYearTo?: number;
+  compatibility?: CompatibilityItem[];
+  price?: string;
+  stockQuantity?: number;
   imageUrl?: string;
+  images?: string[];
+  partNumbers?: PartNumberInput[]; // From oemNumbers/aftermarketNumbers columns - tag with partNumberService.setPartNumbers after insert
+  variantGroup?: string; // Rows sharing a variantGroup become one product with variants
+  variantName?: string;
+  variantOptions?: Partial<Record<VariantOptionKey, string>>;
 }
 
 export interface CSVParseError {
@@ -22,179 +90,530 @@ export interface CSVParseResult {
   errors: CSVParseError[];
   totalRows: number;
   successfulRows: number;
+  rejectedVariantGroups: string[]; // Variant groups (lowercased) with at least one invalid row - the whole group must be skipped
+}
+
+// Normalized header -> column (plus a few common spellings)
+const HEADER_ALIASES: Record<string, ProductImportColumn> = {
+  ...Object.fromEntries(PRODUCT_IMPORT_COLUMNS.map(column => [column.toLowerCase(), column])),
+  stock: 'stockQuantity',
+  qty: 'stockQuantity',
+  quantity: 'stockQuantity',
+  code: 'garagehubCode',
+  make: 'vehicleMake',
+  yearfrom: 'vehicleYearFrom',
+  yearto: 'vehicleYearTo',
+  image: 'imageUrl',
+};
+
+function normalizeHeader(header: string): string {
+  return header.toLowerCase().replace(/[^a-z0-9]/g, '');
 }
 
 export function parseProductCSV(csvContent: string): CSVParseResult {
+  return parseProductRecords(parseCSVRecords(csvContent));
+}
+
+/**
+ * Parse the first worksheet of an XLSX workbook with the same columns and validation as CSV
+ */
+export async function parseProductXLSX(buffer: Buffer): Promise<CSVParseResult> {
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.load(buffer as any);
+
+  const worksheet = workbook.worksheets[0];
+  if (!worksheet) {
+    throw new Error("XLSX file has no worksheets");
+  }
+
+  const records: string[][] = [];
+  const columnCount = worksheet.columnCount;
+  worksheet.eachRow({ includeEmpty: true }, (row) => {
+    const values: string[] = [];
+    for (let column = 1; column <= columnCount; column++) {
+      values.push(row.getCell(column).text ?? '');
+    }
+    records.push(values);
+  });
+
+  return parseProductRecords(records);
+}
+
+/**
+ * Validate header + data records into product rows
+ * Shared by CSV and XLSX; record index i is reported as row i + 1 (header = row 1).
+ */
+function parseProductRecords(records: string[][]): CSVParseResult {
   const errors: CSVParseError[] = [];
   const products: CSVProductRow[] = [];
-  
-  const lines = csvContent.trim().split('\n').filter(line => line.trim());
-  
-  if (lines.length === 0) {
+  const rejectedVariantGroups = new Set<string>();
+
+  // Keep original positions for error reports, but ignore fully blank rows
+  const indexed = records
+    .map((values, index) => ({ values, row: index + 1 }))
+    .filter(record => record.values.some(value => value.trim() !== ''));
+
+  if (indexed.length === 0) {
     throw new Error("CSV file is empty");
   }
 
-  if (lines.length === 1) {
+  if (indexed.length === 1) {
     throw new Error("CSV file contains only headers, no data rows");
   }
 
   // Parse header
-  const headers = parseCSVLine(lines[0]).map(h => h.trim().toLowerCase());
-  
-  // Validate required headers
-  const requiredHeaders = ['name', 'category', 'price', 'stockquantity'];
-  const missingHeaders = requiredHeaders.filter(h => !headers.includes(h));
-  
-  if (missingHeaders.length > 0) {
-    throw new Error(`Missing required columns: ${missingHeaders.join(', ')}. Found: ${headers.join(', ')}`);
+  const rawHeaders = indexed[0].values.map(h => h.trim());
+  const headers = rawHeaders.map(header => HEADER_ALIASES[normalizeHeader(header)]);
+
+  const unknownHeaders = rawHeaders.filter((header, index) => header && !headers[index]);
+  if (unknownHeaders.length > 0) {
+    throw new Error(`Unknown columns: ${unknownHeaders.join(', ')}. Allowed: ${PRODUCT_IMPORT_COLUMNS.join(', ')}`);
+  }
+
+  // Rows must identify a product: by name (new products) or by sku/garagehubCode (updates)
+  if (!headers.includes('name') && !headers.includes('sku') && !headers.includes('garagehubCode')) {
+    throw new Error(`Missing required columns: name, or sku/garagehubCode for updates. Found: ${rawHeaders.join(', ')}`);
   }
 
   // Parse data rows
-  for (let i = 1; i < lines.length; i++) {
-    const values = parseCSVLine(lines[i]);
-    
-    if (values.length !== headers.length) {
+  for (const { values, row: rowNumber } of indexed.slice(1)) {
+    if (values.length > headers.length && values.slice(headers.length).some(value => value.trim() !== '')) {
       errors.push({
-        row: i + 1,
+        row: rowNumber,
         field: 'all',
-        value: lines[i],
+        value: values.join(','),
         message: `Column count mismatch. Expected ${headers.length}, got ${values.length}`,
       });
       continue;
     }
 
-    const row: any = {};
+    const cells: Partial<Record<ProductImportColumn, string>> = {};
     headers.forEach((header, index) => {
-      row[header] = values[index]?.trim() || '';
+      const value = values[index]?.trim();
+      if (header && value) {
+        cells[header] = value;
+      }
     });
 
-    // Validate and transform with detailed error tracking
-    const rowErrors: CSVParseError[] = [];
+    const parsed = parseProductCells(cells, rowNumber);
+    if (parsed.errors.length > 0) {
+      errors.push(...parsed.errors);
+      if (cells.variantGroup) {
+        rejectedVariantGroups.add(cells.variantGroup.toLowerCase());
+      }
+      continue;
+    }
+    products.push(parsed.product);
+  }
+
+  return {
+    products,
+    errors,
+    totalRows: indexed.length - 1, // Exclude header
+    successfulRows: products.length,
+    rejectedVariantGroups: Array.from(rejectedVariantGroups),
+  };
+}
 
-    // Validate name
-    if (!row.name || row.name.trim().length === 0) {
-      rowErrors.push({
-        row: i + 1,
-        field: 'name',
-        value: row.name,
-        message: 'Product name is required',
-      });
+/**
+ * Validate and transform the non-blank cells of one row
+ */
+function parseProductCells(
+  cells: Partial<Record<ProductImportColumn, string>>,
+  row: number
+): { product: CSVProductRow; errors: CSVParseError[] } {
+  const rowErrors: CSVParseError[] = [];
+  const addError = (field: string, value: string | undefined, message: string) =>
+    rowErrors.push({ row, field, value: value ?? '', message });
+
+  if (!cells.name && !cells.sku && !cells.garagehubCode) {
+    addError('name', cells.name, 'Product name is required (or sku/garagehubCode to update an existing product)');
+  }
+
+  // Note: category is optional here - defaults to "General" when the product is created
+
+  // Validate price
+  let price: string | undefined;
+  if (cells.price !== undefined) {
+    const value = parseFloat(cells.price.replace(/^RM\s*/i, '').replace(/,/g, ''));
+    if (isNaN(value) || value < 0) {
+      addError('price', cells.price, 'Price must be a valid positive number');
+    } else {
+      price = value.toFixed(2);
     }
+  }
 
-    // Note: category is optional here - defaults to "General" in convertToInsertParts
+  // Validate stock quantity
+  let stockQuantity: number | undefined;
+  if (cells.stockQuantity !== undefined) {
+    const value = Number(cells.stockQuantity);
+    if (!Number.isInteger(value) || value < 0) {
+      addError('stockQuantity', cells.stockQuantity, 'Stock quantity must be a valid non-negative integer');
+    } else {
+      stockQuantity = value;
+    }
+  }
 
-    // Validate price
-    const price = parseFloat(row.price);
-    if (isNaN(price) || price < 0) {
-      rowErrors.push({
-        row: i + 1,
-        field: 'price',
-        value: row.price,
-        message: 'Price must be a valid positive number',
-      });
+  // Validate part category (optional - derived from category when blank)
+  let partCategory: PartCategory | undefined;
+  if (cells.partCategory !== undefined) {
+    const value = cells.partCategory.toLowerCase() as PartCategory;
+    if (!partCategoryEnum.enumValues.includes(value)) {
+      addError('partCategory', cells.partCategory, `Part category must be one of: ${partCategoryEnum.enumValues.join(', ')}`);
+    } else {
+      partCategory = value;
     }
+  }
 
-    // Validate stock quantity
-    const stockQuantity = parseInt(row.stockquantity);
-    if (isNaN(stockQuantity) || stockQuantity < 0) {
-      rowErrors.push({
-        row: i + 1,
-        field: 'stockQuantity',
-        value: row.stockquantity,
-        message: 'Stock quantity must be a valid non-negative integer',
-      });
+  // Validate vehicle years
+  const parseYear = (field: 'vehicleYearFrom' | 'vehicleYearTo'): number | undefined => {
+    const raw = cells[field];
+    if (raw === undefined) return undefined;
+    const value = Number(raw);
+    if (!Number.isInteger(value) || value < 1900 || value > 2100) {
+      addError(field, raw, 'Year must be a 4-digit year between 1900 and 2100');
+      return undefined;
     }
+    return value;
+  };
+  const vehicleYearFrom = parseYear('vehicleYearFrom');
+  const vehicleYearTo = parseYear('vehicleYearTo');
+  if (vehicleYearFrom !== undefined && vehicleYearTo !== undefined && vehicleYearFrom > vehicleYearTo) {
+    addError('vehicleYearTo', cells.vehicleYearTo, 'vehicleYearTo must not be earlier than vehicleYearFrom');
+  }
 
-    if (rowErrors.length > 0) {
-      errors.push(...rowErrors);
-      continue;
+  // Validate compatibility (optional): "Perodua:Myvi:2018-2022; Perodua:Axia:2014-"
+  let compatibility: CompatibilityItem[] | undefined;
+  if (cells.compatibility !== undefined) {
+    const result = parseCompatibilityList(cells.compatibility);
+    if (result.invalidEntries.length > 0) {
+      addError('compatibility', cells.compatibility, `Invalid compatibility entries: ${result.invalidEntries.join('; ')}. Use Make:Model:YearFrom-YearTo`);
+    } else {
+      compatibility = result.items;
+    }
+  }
+
+  // Validate part numbers (optional): "Brand:Number" entries separated by ";" or "|"
+  let partNumbers: PartNumberInput[] | undefined;
+  if (cells.oemNumbers !== undefined || cells.aftermarketNumbers !== undefined) {
+    partNumbers = [
+      ...parsePartNumberList(cells.oemNumbers || '', 'oem'),
+      ...parsePartNumberList(cells.aftermarketNumbers || '', 'aftermarket'),
+    ];
+    const invalidNumber = partNumbers.find(partNumber => partNumber.number.length > 100 || (partNumber.brand?.length ?? 0) > 100);
+    if (invalidNumber) {
+      addError(
+        invalidNumber.numberType === 'oem' ? 'oemNumbers' : 'aftermarketNumbers',
+        invalidNumber.number,
+        'Part numbers and brands must be at most 100 characters'
+      );
     }
+  }
 
-    // All validations passed (category can be empty - will default to "General" in convertToInsertParts)
-    products.push({
-      name: row.name.trim(),
-      sku: row.sku?.trim() || '',
-      description: row.description?.trim() || '',
-      category: row.category?.trim() || '',
-      price: price.toFixed(2),
-      stockQuantity,
-      imageUrl: row.imageurl?.trim() || '',
-    });
+  // Validate variant options (optional): "viscosity=5W-30; volumeLitres=4"
+  let variantOptions: Partial<Record<VariantOptionKey, string>> | undefined;
+  if (cells.variantOptions !== undefined) {
+    const result = parseVariantOptions(cells.variantOptions);
+    if (result.unknownKeys.length > 0) {
+      addError('variantOptions', cells.variantOptions, `Unknown variant option(s): ${result.unknownKeys.join(', ')}. Allowed: ${VARIANT_OPTION_KEYS.join(', ')}`);
+    } else {
+      variantOptions = result.options;
+    }
+  }
+
+  // Length limits of the parts columns
+  const limits: Array<[ProductImportColumn, number]> = [
+    ['name', 255], ['sku', 100], ['garagehubCode', 10], ['category', 100], ['brand', 100],
+    ['model', 100], ['vehicleMake', 100], ['vehicleModel', 100],
+  ];
+  for (const [field, max] of limits) {
+    if ((cells[field]?.length ?? 0) > max) {
+      addError(field, cells[field], `Must be at most ${max} characters`);
+    }
+  }
+
+  const images = cells.images?.split('|').map(url => url.trim()).filter(url => url.length > 0);
+  if (images && images.length > 5) {
+    addError('images', cells.images, 'At most 5 images per product');
   }
 
   return {
-    products,
-    errors,
-    totalRows: lines.length - 1, // Exclude header
-    successfulRows: products.length,
+    errors: rowErrors,
+    product: {
+      row,
+      name: cells.name,
+      sku: cells.sku,
+      garagehubCode: cells.garagehubCode,
+      description: cells.description,
+      category: cells.category,
+      partCategory,
+      brand: cells.brand,
+      model: cells.model,
+      vehicleMake: cells.vehicleMake,
+      vehicleModel: cells.vehicleModel,
+      vehicleYearFrom,
+      vehicleYearTo,
+      compatibility,
+      price,
+      stockQuantity,
+      imageUrl: cells.imageUrl,
+      images,
+      partNumbers,
+      variantGroup: cells.variantGroup,
+      variantName: cells.variantName,
+      variantOptions,
+    },
   };
 }
 
 /**
- * Parse a CSV line handling quoted fields with commas and escaped quotes (RFC 4180)
+ * Split CSV content into records (RFC 4180)
+ * Handles quoted fields containing commas, escaped quotes ("") and line breaks, CRLF endings and a UTF-8 BOM
  */
-function parseCSVLine(line: string): string[] {
-  const result: string[] = [];
+export function parseCSVRecords(content: string): string[][] {
+  const records: string[][] = [];
+  let record: string[] = [];
   let current = '';
   let inQuotes = false;
-  let i = 0;
+  let i = content.charCodeAt(0) === 0xfeff ? 1 : 0;
 
-  while (i < line.length) {
-    const char = line[i];
-    
-    if (char === '"') {
-      if (inQuotes && line[i + 1] === '"') {
-        // Escaped quote ("")
-        current += '"';
-        i += 2;
-        continue;
-      } else {
-        // Toggle quote state
-        inQuotes = !inQuotes;
+  while (i < content.length) {
+    const char = content[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (content[i + 1] === '"') {
+          // Escaped quote ("")
+          current += '"';
+          i += 2;
+          continue;
+        }
+        inQuotes = false;
         i++;
         continue;
       }
-    } else if (char === ',' && !inQuotes) {
-      result.push(current);
-      current = '';
+      current += char;
       i++;
       continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+      i++;
+    } else if (char === ',') {
+      record.push(current);
+      current = '';
+      i++;
+    } else if (char === '\r' || char === '\n') {
+      record.push(current);
+      records.push(record);
+      record = [];
+      current = '';
+      // Treat CRLF as a single line break
+      i += char === '\r' && content[i + 1] === '\n' ? 2 : 1;
     } else {
       current += char;
       i++;
     }
   }
-  
-  result.push(current);
+
+  // Last record (files may or may not end with a newline)
+  if (current !== '' || record.length > 0) {
+    record.push(current);
+    records.push(record);
+  }
+
+  return records;
+}
+
+/**
+ * Format one CSV line, quoting values that contain commas, quotes or line breaks
+ */
+export function toCSVLine(values: Array<string | number | null | undefined>): string {
+  return values
+    .map(value => {
+      const text = value === null || value === undefined ? '' : String(value);
+      return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+    })
+    .join(',');
+}
+
+/**
+ * Parse a compatibility cell, e.g. "Perodua:Myvi:2018-2022; Toyota:Vios:2013-; Proton:Saga"
+ */
+export function parseCompatibilityList(value: string): { items: CompatibilityItem[]; invalidEntries: string[] } {
+  const items: CompatibilityItem[] = [];
+  const invalidEntries: string[] = [];
+
+  for (const entry of value.split(';').map(part => part.trim()).filter(part => part.length > 0)) {
+    const [make, model, years, ...rest] = entry.split(':').map(part => part.trim());
+    const yearMatch = years ? /^(\d{4})?\s*(?:-\s*(\d{4})?)?$/.exec(years) : null;
+
+    if (!make || !model || rest.length > 0 || (years && !yearMatch)) {
+      invalidEntries.push(entry);
+      continue;
+    }
+
+    const item: CompatibilityItem = { make, model };
+    if (yearMatch?.[1]) item.yearFrom = Number(yearMatch[1]);
+    // "2018" alone is a single year; "2018-" is open-ended
+    if (yearMatch?.[2]) item.yearTo = Number(yearMatch[2]);
+    else if (yearMatch?.[1] && !years!.includes('-')) item.yearTo = item.yearFrom;
+    items.push(item);
+  }
+
+  return { items, invalidEntries };
+}
+
+/**
+ * Parse a part-number cell, e.g. "Toyota:04465-0D120; 04465-BZ010 | Bosch:0986AB1234"
+ * The brand prefix is optional; entries without a number are skipped
+ */
+export function parsePartNumberList(value: string, numberType: PartNumberType): PartNumberInput[] {
+  return value
+    .split(/[;|]/)
+    .map(entry => entry.trim())
+    .filter(entry => entry.length > 0)
+    .map(entry => {
+      const separator = entry.indexOf(':');
+      const brand = separator > 0 ? entry.slice(0, separator).trim() : '';
+      const number = separator > 0 ? entry.slice(separator + 1).trim() : entry;
+      return { number, numberType, ...(brand && { brand }) };
+    })
+    .filter(partNumber => partNumber.number.length > 0);
+}
+
+/**
+ * Parse a variant options cell, e.g. "tyreSize=205/55R16; loadIndex=91; speedRating=V"
+ * Keys are matched case-insensitively against VARIANT_OPTION_KEYS
+ */
+export function parseVariantOptions(value: string): { options: Partial<Record<VariantOptionKey, string>>; unknownKeys: string[] } {
+  const options: Partial<Record<VariantOptionKey, string>> = {};
+  const unknownKeys: string[] = [];
+
+  for (const entry of value.split(';')) {
+    const separator = entry.indexOf('=');
+    if (separator <= 0) {
+      continue;
+    }
+
+    const rawKey = entry.slice(0, separator).trim();
+    const optionValue = entry.slice(separator + 1).trim();
+    const key = VARIANT_OPTION_KEYS.find(known => known.toLowerCase() === rawKey.toLowerCase());
+
+    if (!key) {
+      unknownKeys.push(rawKey);
+    } else if (optionValue) {
+      options[key] = optionValue;
+    }
+  }
+
+  return { options, unknownKeys };
+}
+
+/**
+ * Format compatibility items as a compatibility cell (inverse of parseCompatibilityList)
+ */
+export function formatCompatibilityList(items: CompatibilityItem[] | null | undefined): string {
+  return (items || [])
+    .map(item => {
+      let years = '';
+      if (item.yearFrom !== undefined && item.yearFrom === item.yearTo) years = `${item.yearFrom}`;
+      else if (item.yearFrom !== undefined || item.yearTo !== undefined) years = `${item.yearFrom ?? ''}-${item.yearTo ?? ''}`;
+      return years ? `${item.make}:${item.model}:${years}` : `${item.make}:${item.model}`;
+    })
+    .join('; ');
+}
+
+/**
+ * Format part numbers as an oemNumbers/aftermarketNumbers cell (inverse of parsePartNumberList)
+ */
+export function formatPartNumberList(partNumbers: PartNumberInput[]): string {
+  return partNumbers
+    .map(partNumber => (partNumber.brand ? `${partNumber.brand}:${partNumber.number}` : partNumber.number))
+    .join('; ');
+}
+
+/**
+ * Format variant options as a variantOptions cell (inverse of parseVariantOptions)
+ */
+export function formatVariantOptions(options: Partial<Record<VariantOptionKey, string>> | null | undefined): string {
+  return Object.entries(options || {})
+    .map(([key, value]) => `${key}=${value}`)
+    .join('; ');
+}
+
+/**
+ * Group rows into products: rows sharing a variantGroup form one product whose first row
+ * supplies the product details; every other row is its own product
+ */
+export function groupProductRows(products: CSVProductRow[]): CSVProductRow[][] {
+  const result: CSVProductRow[][] = [];
+  const groups = new Map<string, CSVProductRow[]>();
+
+  for (const product of products) {
+    const groupKey = product.variantGroup?.toLowerCase();
+    const existing = groupKey ? groups.get(groupKey) : undefined;
+
+    if (existing) {
+      existing.push(product);
+      continue;
+    }
+
+    const group = [product];
+    if (groupKey) {
+      groups.set(groupKey, group);
+    }
+    result.push(group);
+  }
+
   return result;
 }
 
 /**
- * Map category string to partCategory enum
- * Maps common automotive categories to the required enum values
+ * Build the InsertPart for a new product from its row group
+ * Rows must have passed validation; name and price are required for new products.
  */
-function mapCategoryToPartCategory(category: string): 'engine' | 'transmission' | 'brake' | 'suspension' | 'electrical' | 'cooling' | 'body' | 'interior' | 'exterior' | 'wheel_tyre' | 'fluids' | 'service' {
-  const lower = category.toLowerCase();
-  
-  if (lower.includes('engine') || lower.includes('motor')) return 'engine';
-  if (lower.includes('transmission') || lower.includes('gearbox')) return 'transmission';
-  if (lower.includes('brake') || lower.includes('pad')) return 'brake';
-  if (lower.includes('suspension') || lower.includes('shock')) return 'suspension';
-  if (lower.includes('electrical') || lower.includes('battery') || lower.includes('alternator')) return 'electrical';
-  if (lower.includes('cooling') || lower.includes('radiator')) return 'cooling';
-  if (lower.includes('body')) return 'body';
-  if (lower.includes('interior') || lower.includes('seat')) return 'interior';
-  if (lower.includes('exterior') || lower.includes('bumper')) return 'exterior';
-  if (lower.includes('wheel') || lower.includes('tyre') || lower.includes('tire')) return 'wheel_tyre';
-  if (lower.includes('fluid') || lower.includes('oil') || lower.includes('coolant')) return 'fluids';
-  if (lower.includes('service') || lower.includes('filter')) return 'service';
-  
-  // Default to service if no match
-  return 'service';
+export function toInsertPart(group: CSVProductRow[], supplierId: string): InsertPart {
+  const [product] = group;
+  const isVariantGroup = !!product.variantGroup;
+
+  // Ensure non-empty category (required by insertPartSchema)
+  const category = (product.category && product.category.trim().length > 0)
+    ? product.category.trim()
+    : "General";
+
+  const insertPart: InsertPart = {
+    supplierId,
+    name: product.name!,
+    sku: isVariantGroup ? null : product.sku || null, // Grouped rows carry their SKU on the variant
+    description: product.description || null,
+    category,
+    partCategory: product.partCategory || DEFAULT_PART_CATEGORY, // Import planning maps the category onto the taxonomy first
+    brand: product.brand || null,
+    model: product.model || null,
+    vehicleMake: product.vehicleMake || null,
+    vehicleModel: product.vehicleModel || null,
+    vehicleYearFrom: product.vehicleYearFrom ?? null,
+    vehicleYearTo: product.vehicleYearTo ?? null,
+    compatibility: product.compatibility,
+    price: product.price ?? '0.00',
+    stockQuantity: product.stockQuantity ?? 0,
+    imageUrl: isVariantGroup ? null : product.imageUrl || null, // Grouped rows carry their image on the variant
+    images: product.images,
+  };
+
+  if (isVariantGroup) {
+    insertPart.variants = group.map(toVariantInput);
+  }
+
+  return insertPart;
 }
 
 /**
  * Convert CSV product rows to InsertPart objects
+ * Rows sharing a variantGroup are merged into one product: the first row supplies the product
+ * details, and every row in the group becomes a variant with its own SKU, price and stock.
  */
 export function convertToInsertParts(
   products: CSVProductRow[],
@@ -204,22 +623,25 @@ export function convertToInsertParts(
     throw new Error("Supplier ID is required");
   }
 
-  return products.map(product => {
-    // Ensure non-empty category (required by insertPartSchema)
-    const category = (product.category && product.category.trim().length > 0) 
-      ? product.category.trim()
-      : "General";
-
-    return {
-      supplierId,
-      name: product.name,
-      sku: product.sku || null,
-      description: product.description || null,
-      category,
-      partCategory: mapCategoryToPartCategory(category),
-      price: product.price,
-      stockQuantity: product.stockQuantity,
-      imageUrl: product.imageUrl || null,
-    };
-  });
+  return groupProductRows(products).map(group => toInsertPart(group, supplierId));
+}
+
+/**
+ * Variant for a grouped CSV row; the label defaults to its option values (e.g. "5W-30 4L")
+ */
+export function toVariantInput(product: CSVProductRow, sortOrder: number): NonNullable<InsertPart['variants']>[number] {
+  const units: Partial<Record<VariantOptionKey, string>> = { volumeLitres: 'L', capacityAh: 'Ah' };
+  const optionLabel = Object.entries(product.variantOptions || {})
+    .map(([key, value]) => `${value}${units[key as VariantOptionKey] || ''}`)
+    .join(' ');
+
+  return {
+    sku: product.sku || null,
+    name: product.variantName || optionLabel || product.sku || `Variant ${sortOrder + 1}`,
+    options: product.variantOptions || {},
+    price: product.price ?? '0.00',
+    stockQuantity: product.stockQuantity ?? 0,
+    imageUrl: product.imageUrl || null,
+    sortOrder,
+  };
 }
@@ -0,0 +1,57 @@
+/**
+ * Order total and escrow split calculations for supplier orders
+ *
+ * Voucher discounts are funded by the supplier: they reduce the parts amount before the
+ * platform fee is taken, so the fee is charged on what the workshop actually paid for parts.
+ * Delivery charges pass through to the runner untouched.
+ */
+
+export const DEFAULT_PLATFORM_FEE_PERCENT = 5;
+
+export interface OrderTotalsInput {
+  itemsTotal: number; // Sum of priceAtTime x quantity
+  discountAmount?: number; // Voucher discount (clamped to itemsTotal)
+  deliveryCharge?: number;
+  platformFeePercent?: number;
+}
+
+export interface OrderTotals {
+  itemsTotal: string;
+  discountAmount: string;
+  deliveryCharge: string;
+  totalAmount: string; // Charged to the workshop
+  partsAmount: string; // itemsTotal - discountAmount
+  platformFeePercent: string;
+  platformFeeAmount: string;
+  supplierPayout: string;
+  runnerPayout: string;
+}
+
+function roundCurrency(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+/**
+ * Totals for supplierOrders and the matching platformEscrow amounts (decimal strings)
+ */
+export function calculateOrderTotals(input: OrderTotalsInput): OrderTotals {
+  const itemsTotal = roundCurrency(input.itemsTotal);
+  const discountAmount = roundCurrency(Math.min(Math.max(input.discountAmount ?? 0, 0), itemsTotal));
+  const deliveryCharge = roundCurrency(input.deliveryCharge ?? 0);
+  const platformFeePercent = input.platformFeePercent ?? DEFAULT_PLATFORM_FEE_PERCENT;
+
+  const partsAmount = roundCurrency(itemsTotal - discountAmount);
+  const platformFeeAmount = roundCurrency(partsAmount * platformFeePercent / 100);
+
+  return {
+    itemsTotal: itemsTotal.toFixed(2),
+    discountAmount: discountAmount.toFixed(2),
+    deliveryCharge: deliveryCharge.toFixed(2),
+    totalAmount: roundCurrency(partsAmount + deliveryCharge).toFixed(2),
+    partsAmount: partsAmount.toFixed(2),
+    platformFeePercent: platformFeePercent.toFixed(2),
+    platformFeeAmount: platformFeeAmount.toFixed(2),
+    supplierPayout: roundCurrency(partsAmount - platformFeeAmount).toFixed(2),
+    runnerPayout: deliveryCharge.toFixed(2),
+  };
+}
@@ -0,0 +1,251 @@
+import { sql, type SQL } from "drizzle-orm";
+import type { CursorPage, SortDirection } from "@shared/schema";
+
+/**
+ * Cursor (keyset) pagination shared by marketplace and dashboard list endpoints
+ *
+ * Query contract:
+ * - limit: page size (default 20, max 100)
+ * - sort: comma-separated keys with optional direction, e.g. "price:asc,rating:desc"
+ * - cursor: opaque token from the previous page's nextCursor
+ *
+ * The cursor encodes the sort values of the last row plus its id (always the final tiebreaker),
+ * so pages stay stable while rows are inserted and never skip or repeat rows. Cursors come from the
+ * client: values that do not fit the sort key's type are dropped (first page) rather than bound into SQL.
+ */
+
+export const DEFAULT_PAGE_LIMIT = 20;
+export const MAX_PAGE_LIMIT = 100;
+
+export interface SortField {
+  key: string;
+  direction: SortDirection;
+}
+
+export type CursorValue = string | number;
+
+export interface PageRequest {
+  limit: number;
+  sort: SortField[];
+  cursor: CursorValue[] | null;
+}
+
+// Type of a sort key's values, used to check cursor values before they are bound
+export type SortValueType = 'text' | 'number' | 'timestamp';
+
+// Sortable key definition for an endpoint: SQL expression (must be non-null), default direction, value type (default text)
+export interface SortableKey {
+  expression: SQL;
+  defaultDirection: SortDirection;
+  valueType?: SortValueType;
+}
+
+// Select keys of the sort values read back for the cursor (sort0, sort1, ...)
+export type SortValueKey = `sort${number}`;
+
+const NUMBER_PATTERN = /^-?\d+(\.\d+)?(e[+-]?\d+)?$/i;
+const TIMESTAMP_PATTERN = /^\d{4}-\d{2}-\d{2}([ T]\d{2}:\d{2}(:\d{2}(\.\d+)?)?)?(Z|[+-]\d{2}(:?\d{2})?)?$/;
+
+function isValidCursorValue(value: CursorValue, valueType: SortValueType = 'text'): boolean {
+  switch (valueType) {
+    case 'number':
+      return typeof value === 'number' ? Number.isFinite(value) : NUMBER_PATTERN.test(value);
+    case 'timestamp':
+      return typeof value === 'string' && TIMESTAMP_PATTERN.test(value) && !isNaN(Date.parse(value));
+    default:
+      return typeof value === 'string';
+  }
+}
+
+/**
+ * Whether the request opted into the paginated { items, nextCursor } envelope
+ * Endpoints keep returning bare arrays to clients that send no pagination params.
+ */
+export function isPaginatedRequest(query: Record<string, unknown>): boolean {
+  return query.limit !== undefined || query.cursor !== undefined;
+}
+
+/**
+ * Encode sort values into an opaque cursor token
+ */
+export function encodeCursor(values: unknown[]): string {
+  return Buffer.from(JSON.stringify(values)).toString('base64url');
+}
+
+/**
+ * Decode a cursor token; returns null for missing or malformed cursors (only string and number values are accepted)
+ */
+export function decodeCursor(cursor: unknown): CursorValue[] | null {
+  if (typeof cursor !== 'string' || cursor.length === 0) {
+    return null;
+  }
+
+  try {
+    const values = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    if (!Array.isArray(values) || !values.every(value => typeof value === 'string' || typeof value === 'number')) {
+      return null;
+    }
+    return values;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Parse limit/sort/cursor query params
+ * Unknown sort keys are ignored; defaultSort applies when nothing valid was requested.
+ *
+ * @param query - Express req.query
+ * @param sortableKeys - Keys this endpoint can sort by, with their default directions
+ * @param defaultSort - Sort used when the request has none, e.g. "newest"
+ */
+export function parsePageRequest(
+  query: Record<string, unknown>,
+  sortableKeys: Record<string, Pick<SortableKey, 'defaultDirection' | 'valueType'>>,
+  defaultSort: string
+): PageRequest {
+  const limit = Math.min(MAX_PAGE_LIMIT, Math.max(1, parseInt(query.limit as string) || DEFAULT_PAGE_LIMIT));
+
+  const parseSort = (raw: string): SortField[] => raw
+    .split(',')
+    .map(part => part.trim().split(':'))
+    .filter(([key]) => key in sortableKeys)
+    .map(([key, direction]) => ({
+      key,
+      direction: direction === 'asc' || direction === 'desc' ? direction : sortableKeys[key].defaultDirection,
+    }));
+
+  let sort = typeof query.sort === 'string' ? parseSort(query.sort) : [];
+  if (sort.length === 0) {
+    sort = parseSort(defaultSort);
+  }
+
+  // A cursor from a different sort order, or with values the sort keys cannot hold, is meaningless - start from the first page
+  const cursor = decodeCursor(query.cursor);
+  const cursorMatches = !!cursor && cursor.length === sort.length + 1 &&
+    sort.every((field, i) => isValidCursorValue(cursor[i], sortableKeys[field.key].valueType)) &&
+    typeof cursor[sort.length] === 'string';
+
+  return {
+    limit,
+    sort,
+    cursor: cursorMatches ? cursor : null,
+  };
+}
+
+/**
+ * Build ORDER BY and keyset WHERE clauses for a page request
+ *
+ * @param request - Parsed page request
+ * @param sortableKeys - Endpoint sort key definitions
+ * @param idColumn - Unique tiebreaker expression (row id)
+ * @returns orderBy expressions, optional cursor condition, and the select expressions to read cursor values back
+ *   (select them as a nested sortValues object and read row.sortValues[`sort${i}`])
+ */
+export function buildKeysetQuery(
+  request: PageRequest,
+  sortableKeys: Record<string, SortableKey>,
+  idColumn: SQL
+): { orderBy: SQL[]; where: SQL | undefined; sortValues: Record<SortValueKey, SQL<string>> } {
+  const fields = [
+    ...request.sort.map(field => ({ expression: sortableKeys[field.key].expression, direction: field.direction })),
+    { expression: idColumn, direction: request.sort[request.sort.length - 1]?.direction ?? 'asc' as SortDirection },
+  ];
+
+  const orderBy = fields.map(field =>
+    field.direction === 'asc' ? sql`${field.expression} ASC` : sql`${field.expression} DESC`
+  );
+
+  // (a, b, id) after (va, vb, vid) with mixed directions:
+  // a > va OR (a = va AND b > vb) OR (a = va AND b = vb AND id > vid)
+  let where: SQL | undefined;
+  if (request.cursor) {
+    const cursor = request.cursor;
+    const branches = fields.map((field, i) => {
+      const equalities = fields.slice(0, i).map((prev, j) => sql`${prev.expression} = ${cursor[j]}`);
+      const comparison = field.direction === 'asc'
+        ? sql`${field.expression} > ${cursor[i]}`
+        : sql`${field.expression} < ${cursor[i]}`;
+      return sql`(${sql.join([...equalities, comparison], sql` AND `)})`;
+    });
+    where = sql`(${sql.join(branches, sql` OR `)})`;
+  }
+
+  // Read back as text so the cursor round-trips exactly (timestamps, decimals) when bound as a param
+  const sortValues: Record<SortValueKey, SQL<string>> = {};
+  request.sort.forEach((field, i) => {
+    sortValues[`sort${i}`] = sql<string>`(${sortableKeys[field.key].expression})::text`;
+  });
+
+  return { orderBy, where, sortValues };
+}
+
+/**
+ * Turn a limit+1 fetch into a page
+ *
+ * @param rows - Rows fetched with limit + 1
+ * @param limit - Requested page size
+ * @param cursorValues - Sort values followed by id for a row
+ */
+export function toCursorPage<T, R = T>(
+  rows: T[],
+  limit: number,
+  cursorValues: (row: T) => unknown[],
+  mapItem?: (row: T) => R
+): CursorPage<R> {
+  const hasMore = rows.length > limit;
+  const pageRows = hasMore ? rows.slice(0, limit) : rows;
+  const last = pageRows[pageRows.length - 1];
+
+  return {
+    items: mapItem ? pageRows.map(mapItem) : pageRows as unknown as R[],
+    nextCursor: hasMore && last ? encodeCursor(cursorValues(last)) : null,
+  };
+}
+
+/**
+ * Paginate an in-memory list with the same cursor contract
+ * For endpoints whose rows come from aggregated storage calls rather than a single query
+ *
+ * @param rows - Full list
+ * @param request - Parsed page request
+ * @param sortValueOf - Reads a sort key's value (number, string or Date) from a row
+ * @param idOf - Unique row id
+ */
+export function paginateArray<T>(
+  rows: T[],
+  request: PageRequest,
+  sortValueOf: (row: T, key: string) => number | string | Date | null | undefined,
+  idOf: (row: T) => string
+): CursorPage<T> {
+  const valuesOf = (row: T): Array<number | string> => [
+    ...request.sort.map(field => {
+      const value = sortValueOf(row, field.key);
+      if (value instanceof Date) return value.getTime();
+      return value ?? '';
+    }),
+    idOf(row),
+  ];
+
+  const directions = [...request.sort.map(field => field.direction), request.sort[request.sort.length - 1]?.direction ?? 'asc'];
+
+  const compare = (a: Array<number | string>, b: unknown[]): number => {
+    for (let i = 0; i < a.length; i++) {
+      const left = a[i];
+      const right = b[i] as number | string;
+      if (left === right) continue;
+      const order = left < right ? -1 : 1;
+      return directions[i] === 'asc' ? order : -order;
+    }
+    return 0;
+  };
+
+  const sorted = rows
+    .map(row => ({ row, values: valuesOf(row) }))
+    .sort((a, b) => compare(a.values, b.values));
+
+  const cursor = request.cursor;
+  const remaining = cursor ? sorted.filter(entry => compare(entry.values, cursor) > 0) : sorted;
+
+  return toCursorPage(remaining.slice(0, request.limit + 1), request.limit, entry => entry.values, entry => entry.row);
+}
@@ -0,0 +1,113 @@
+/**
+ * Search synonym dictionary for Malay/English workshop terms
+ * Each entry is a set of equivalent terms; multi-word terms are matched as phrases.
+ * Keep entries lowercase - queries are normalized before lookup.
+ */
+export const SEARCH_SYNONYMS: string[][] = [
+  ['brek', 'brake', 'breik'],
+  ['pad brek', 'brake pad', 'brake pads'],
+  ['kasut brek', 'brake shoe', 'brake shoes'],
+  ['minyak hitam', 'engine oil', 'motor oil'],
+  ['minyak gear', 'gear oil', 'transmission oil', 'atf'],
+  ['minyak brek', 'brake fluid'],
+  ['penapis', 'filter'],
+  ['penapis minyak', 'oil filter'],
+  ['penapis udara', 'air filter'],
+  ['penapis minyak hitam', 'oil filter'],
+  ['bateri', 'battery'],
+  ['tayar', 'tyre', 'tire'],
+  ['rim', 'wheel', 'sport rim'],
+  ['enjin', 'engine'],
+  ['gearbox', 'transmission', 'kotak gear'],
+  ['radiator', 'rediator'],
+  ['air radiator', 'coolant'],
+  ['kipas', 'fan', 'radiator fan'],
+  ['lampu', 'lamp', 'light'],
+  ['lampu depan', 'headlamp', 'headlight'],
+  ['lampu belakang', 'tail lamp', 'taillight'],
+  ['cermin', 'mirror'],
+  ['cermin sisi', 'side mirror'],
+  ['cermin depan', 'windscreen', 'windshield'],
+  ['wiper', 'pengelap cermin'],
+  ['bumper', 'bamper'],
+  ['penyerap hentak', 'absorber', 'shock absorber'],
+  ['spring', 'coil spring', 'spring gegelung'],
+  ['palam pencucuh', 'spark plug', 'plug'],
+  ['tali sawat', 'belt', 'timing belt', 'fan belt'],
+  ['pam minyak', 'fuel pump'],
+  ['pam air', 'water pump'],
+  ['klac', 'clutch', 'cluth'],
+  ['ekzos', 'exhaust'],
+  ['aircond', 'air cond', 'aircon', 'air conditioner', 'kompresor aircond', 'compressor'],
+  ['stereng', 'steering'],
+  ['pintu', 'door'],
+  ['bonet', 'bonnet', 'hood'],
+  ['depan', 'front'],
+  ['belakang', 'rear'],
+  ['kiri', 'left', 'lh'],
+  ['kanan', 'right', 'rh'],
+  ['terpakai', 'used', 'second hand', 'recond'],
+  ['baru', 'new'],
+];
+
+// Lookup: term -> all equivalent terms (including itself)
+const synonymIndex = new Map<string, string[]>();
+for (const group of SEARCH_SYNONYMS) {
+  for (const term of group) {
+    const existing = synonymIndex.get(term) || [];
+    synonymIndex.set(term, Array.from(new Set([...existing, ...group])));
+  }
+}
+
+// Longest phrase in the dictionary (in words) - bounds the phrase matching window
+const maxPhraseWords = Math.max(...SEARCH_SYNONYMS.flat().map(term => term.split(' ').length));
+
+/**
+ * Normalize a raw search query into lowercase alphanumeric words
+ */
+export function normalizeSearchQuery(query: string): string[] {
+  return query
+    .toLowerCase()
+    .replace(/[^a-z0-9\s-]/g, ' ')
+    .split(/[\s-]+/)
+    .filter(word => word.length > 0);
+}
+
+/**
+ * Expand a search query into term groups
+ * Each group holds alternatives for one concept in the query (the original term plus its synonyms);
+ * a result must match every group, and any alternative within a group.
+ *
+ * Example: "brek depan myvi" -> [['brek', 'brake', 'breik'], ['depan', 'front'], ['myvi']]
+ *
+ * @param query - Raw user query
+ * @returns Array of alternative-term groups (multi-word alternatives are phrases)
+ */
+export function expandSearchTerms(query: string): string[][] {
+  const words = normalizeSearchQuery(query);
+  const groups: string[][] = [];
+
+  let i = 0;
+  while (i < words.length) {
+    let matched = false;
+
+    // Greedy longest-phrase match so "minyak hitam" wins over "minyak"
+    for (let size = Math.min(maxPhraseWords, words.length - i); size > 0; size--) {
+      const phrase = words.slice(i, i + size).join(' ');
+      const synonyms = synonymIndex.get(phrase);
+      if (synonyms) {
+        groups.push(synonyms);
+        i += size;
+        matched = true;
+        break;
+      }
+    }
+
+    if (!matched) {
+      groups.push([words[i]]);
+      i++;
+    }
+  }
+
+  return groups;
+}
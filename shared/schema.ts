@@ -11,6 +11,7 @@ import {
   decimal,
   boolean,
   pgEnum,
+  type AnyPgColumn,
 } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
@@ -53,6 +54,9 @@ export const partCategoryEnum = pgEnum('part_category', [
 ]);
 export type PartCategory = 'engine' | 'transmission' | 'brake' | 'suspension' | 'electrical' | 'cooling' | 'body' | 'interior' | 'exterior' | 'wheel_tyre' | 'fluids' | 'service';
 
+// partCategory given to listings whose category does not map onto the taxonomy
+export const DEFAULT_PART_CATEGORY: PartCategory = 'service';
+
 // Users table (Replit Auth compatible with role extension + local auth)
 export const users = pgTable("users", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -96,7 +100,8 @@ export const workshops = pgTable("workshops", {
   longitude: decimal("longitude", { precision: 10, scale: 7 }),
   geofenceRadius: integer("geofence_radius").notNull().default(100),
   walletBalance: decimal("wallet_balance", { precision: 10, scale: 2 }).notNull().default('0'),
-  rating: decimal("rating", { precision: 3, scale: 2 }).notNull().default('0'),
+  rating: decimal("rating", { precision: 3, scale: 2 }).notNull().default('0'), // Average of verified reviews, maintained by ReviewService
+  reviewCount: integer("review_count").notNull().default(0),
   completedJobs: integer("completed_jobs").notNull().default(0),
   isVerified: boolean("is_verified").notNull().default(false),
   createdAt: timestamp("created_at").defaultNow(),
@@ -121,6 +126,8 @@ export const workshopsRelations = relations(workshops, ({ one, many }) => ({
 export const insertWorkshopSchema = createInsertSchema(workshops).omit({
   id: true,
   createdAt: true,
+  rating: true, // Aggregated from reviews
+  reviewCount: true,
 }).extend({
   latitude: z.string().optional(),
   longitude: z.string().optional(),
@@ -148,7 +155,8 @@ export const suppliers = pgTable("suppliers", {
   supplierType: supplierTypeEnum("supplier_type").notNull().default('OEM'), // Shopee-style: OEM or Halfcut
   deliveryMethod: varchar("delivery_method", { length: 20 }).$type<DeliveryMethod>().notNull().default('both'),
   walletBalance: decimal("wallet_balance", { precision: 10, scale: 2 }).notNull().default('0'),
-  rating: decimal("rating", { precision: 3, scale: 2 }).notNull().default('0'),
+  rating: decimal("rating", { precision: 3, scale: 2 }).notNull().default('0'), // Average of verified reviews, maintained by ReviewService
+  reviewCount: integer("review_count").notNull().default(0),
   completedOrders: integer("completed_orders").notNull().default(0),
   isVerified: boolean("is_verified").notNull().default(false),
   createdAt: timestamp("created_at").defaultNow(),
@@ -172,6 +180,8 @@ export const suppliersRelations = relations(suppliers, ({ one, many }) => ({
 export const insertSupplierSchema = createInsertSchema(suppliers).omit({
   id: true,
   createdAt: true,
+  rating: true, // Aggregated from reviews
+  reviewCount: true,
 });
 
 export type InsertSupplier = z.infer<typeof insertSupplierSchema>;
@@ -183,6 +193,13 @@ export type SupplierSummary = Pick<Supplier, 'id' | 'userId' | 'name' | 'descrip
   categories: string[];
 };
 
+// Cursor pagination envelope shared by paginated list endpoints and React Query hooks
+export type SortDirection = 'asc' | 'desc';
+export type CursorPage<T> = {
+  items: T[];
+  nextCursor: string | null;
+};
+
 // Supplier Code Sequences table for atomic garagehubCode generation
 export const supplierCodeSequences = pgTable("supplier_code_sequences", {
   supplierId: varchar("supplier_id").primaryKey().references(() => suppliers.id, { onDelete: 'cascade' }),
@@ -191,8 +208,47 @@ export const supplierCodeSequences = pgTable("supplier_code_sequences", {
 
 export type SupplierCodeSequence = typeof supplierCodeSequences.$inferSelect;
 
-// Product category enum (Nov 2025: Added 'Halfcut' for Shopee-style marketplace)
-export type ProductCategory = 'OEM' | 'Lubricant' | 'Battery' | 'Tyre' | 'Tools' | 'Accessories' | 'Halfcut' | 'Other';
+// Halfcut unit sold-through status (derived from how many of its components have sold)
+export type HalfcutUnitStatus = 'available' | 'partially_sold' | 'sold_out';
+
+// Halfcut condition grade for used components: A = excellent, B = good/minor wear, C = usable/cosmetic damage
+export type ConditionGrade = 'A' | 'B' | 'C';
+
+// Halfcut Units table (donor vehicle a Halfcut supplier strips into component listings)
+export const halfcutUnits = pgTable("halfcut_units", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  supplierId: varchar("supplier_id").notNull().references(() => suppliers.id, { onDelete: 'cascade' }),
+  vehicleMake: varchar("vehicle_make", { length: 100 }).notNull(), // e.g. Honda
+  vehicleModel: varchar("vehicle_model", { length: 100 }).notNull(), // e.g. Civic FC
+  year: integer("year"), // Manufacture year of the donor vehicle
+  chassisNumber: varchar("chassis_number", { length: 50 }),
+  engineNumber: varchar("engine_number", { length: 50 }),
+  engineCode: varchar("engine_code", { length: 30 }), // e.g. L15B7
+  transmission: varchar("transmission", { length: 30 }), // e.g. CVT, 5MT
+  mileageKm: integer("mileage_km"),
+  sourceCountry: varchar("source_country", { length: 50 }), // e.g. Japan, UK
+  description: text("description"),
+  images: text("images").array().default(sql`ARRAY[]::text[]`),
+  status: varchar("status", { length: 20 }).$type<HalfcutUnitStatus>().notNull().default('available'),
+  componentCount: integer("component_count").notNull().default(0),
+  soldComponentCount: integer("sold_component_count").notNull().default(0),
+  soldValue: decimal("sold_value", { precision: 10, scale: 2 }).notNull().default('0'), // Sum of sold component prices (RM)
+  soldOutAt: timestamp("sold_out_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("idx_halfcut_units_supplier").on(table.supplierId),
+  index("idx_halfcut_units_status").on(table.status),
+]);
+
+// Product category: English label of a taxonomy 'category' term (see taxonomyTerms)
+// Listings created before the taxonomy, or with categories it cannot map, keep their free text.
+export type ProductCategory = string;
+
+// Listing moderation status
+// pending: queued for admin review (unverified supplier, flagged keywords or price); rejected: hidden with the admin's reason
+// merged: duplicate folded into another listing by its supplier (mergedIntoId); kept for order history
+export type ListingModerationStatus = 'pending' | 'approved' | 'rejected' | 'merged';
 
 // Parts/Products table
 export const parts = pgTable("parts", {
@@ -216,10 +272,26 @@ export const parts = pgTable("parts", {
   stockQuantity: integer("stock_quantity").notNull().default(0),
   imageUrl: varchar("image_url"), // Legacy - kept for backwards compatibility
   images: text("images").array().default(sql`ARRAY[]::text[]`), // New: supports up to 5 images
+  halfcutUnitId: varchar("halfcut_unit_id").references(() => halfcutUnits.id, { onDelete: 'set null' }), // Donor unit for halfcut components
+  conditionGrade: varchar("condition_grade", { length: 1 }).$type<ConditionGrade>(), // Used parts only
+  isTested: boolean("is_tested"), // Used parts only: null = not stated
+  warrantyDays: integer("warranty_days"), // 0 = sold as-is
+  hasVariants: boolean("has_variants").notNull().default(false), // price = cheapest variant, stockQuantity = total across variants
+  allowBackorder: boolean("allow_backorder").notNull().default(false), // Accept orders beyond stock; the excess is backordered
+  expectedRestockDate: timestamp("expected_restock_date"), // Shown to buyers while out of stock / on backorder
+  moderationStatus: varchar("moderation_status", { length: 20 }).$type<ListingModerationStatus>().notNull().default('approved'), // Only approved listings appear in the marketplace
+  moderationFlags: text("moderation_flags").array().default(sql`ARRAY[]::text[]`), // Why the listing was queued, e.g. unverified_supplier, keyword:replica
+  moderationReason: text("moderation_reason"), // Admin's note, required when rejecting
+  moderatedBy: varchar("moderated_by").references(() => users.id),
+  moderatedAt: timestamp("moderated_at"),
+  mergedIntoId: varchar("merged_into_id").references((): AnyPgColumn => parts.id), // Set when this duplicate was merged into another listing
+  rating: decimal("rating", { precision: 3, scale: 2 }).notNull().default('0'), // Average of verified reviews, maintained by ReviewService
+  reviewCount: integer("review_count").notNull().default(0),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 }, (table) => ({
   idxPartsSupplier: index("idx_parts_supplier").on(table.supplierId),
+  idxPartsHalfcutUnit: index("idx_parts_halfcut_unit").on(table.halfcutUnitId),
   idxPartsCategory: index("idx_parts_category").on(table.category),
   uniqueSupplierCode: uniqueIndex("unique_supplier_code").on(table.supplierId, table.garagehubCode), // Unique per supplier
   idxPartsSupplierType: index("idx_parts_supplier_type").on(table.supplierType),
@@ -229,6 +301,7 @@ export const parts = pgTable("parts", {
   idxPartsNameLower: index("idx_parts_name_lower").on(sql`LOWER(name)`), // Individual indexes for text search
   idxPartsVehicleMakeLower: index("idx_parts_vehiclemake_lower").on(sql`LOWER(vehicle_make)`),
   idxPartsVehicleModelLower: index("idx_parts_vehiclemodel_lower").on(sql`LOWER(vehicle_model)`),
+  idxPartsModerationStatus: index("idx_parts_moderation_status").on(table.moderationStatus, table.createdAt), // Moderation queue
 }));
 
 export const partsRelations = relations(parts, ({ one, many }) => ({
@@ -236,10 +309,76 @@ export const partsRelations = relations(parts, ({ one, many }) => ({
     fields: [parts.supplierId],
     references: [suppliers.id],
   }),
+  halfcutUnit: one(halfcutUnits, {
+    fields: [parts.halfcutUnitId],
+    references: [halfcutUnits.id],
+  }),
+  variants: many(partVariants),
   supplierOrderItems: many(supplierOrderItems),
   inventory: many(inventory),
 }));
 
+export const halfcutUnitsRelations = relations(halfcutUnits, ({ one, many }) => ({
+  supplier: one(suppliers, {
+    fields: [halfcutUnits.supplierId],
+    references: [suppliers.id],
+  }),
+  components: many(parts),
+}));
+
+// Variant option keys suppliers can use (shared by product form, CSV import and storefront filters)
+export const VARIANT_OPTION_KEYS = [
+  'tyreSize', // e.g. 205/55R16
+  'loadIndex', // e.g. 91
+  'speedRating', // e.g. V
+  'viscosity', // e.g. 5W-30
+  'volumeLitres', // e.g. 4
+  'capacityAh', // e.g. 55
+  'batteryModel', // e.g. NS60
+  'size', // Generic size (filters, wipers, bulbs)
+  'specification', // Free-text spec (e.g. API SN, DOT4)
+] as const;
+export type VariantOptionKey = typeof VARIANT_OPTION_KEYS[number];
+
+// Part Variants table (sizes/specifications of one product, each with its own SKU, price and stock)
+export const partVariants = pgTable("part_variants", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  partId: varchar("part_id").notNull().references(() => parts.id, { onDelete: 'cascade' }),
+  sku: varchar("sku", { length: 100 }).unique(),
+  name: varchar("name", { length: 255 }).notNull(), // Display label, e.g. "205/55R16 91V" or "5W-30 4L"
+  options: jsonb("options").$type<Partial<Record<VariantOptionKey, string>>>().notNull().default({}),
+  price: decimal("price", { precision: 10, scale: 2 }).notNull(),
+  stockQuantity: integer("stock_quantity").notNull().default(0),
+  imageUrl: varchar("image_url"),
+  sortOrder: integer("sort_order").notNull().default(0),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("idx_part_variants_part").on(table.partId),
+  uniqueIndex("idx_part_variants_part_name").on(table.partId, table.name),
+]);
+
+export const partVariantsRelations = relations(partVariants, ({ one }) => ({
+  part: one(parts, {
+    fields: [partVariants.partId],
+    references: [parts.id],
+  }),
+}));
+
+export const partVariantOptionsSchema = z.record(z.enum(VARIANT_OPTION_KEYS), z.string().trim().min(1).max(50));
+
+// Variant as submitted with a product (id present = update existing variant)
+export const partVariantInputSchema = z.object({
+  id: z.string().optional(),
+  sku: z.string().trim().max(100).nullable().optional(),
+  name: z.string().trim().min(1).max(255),
+  options: partVariantOptionsSchema.default({}),
+  price: z.union([z.string(), z.number()]).transform(val => Number(val).toFixed(2)).refine(val => !isNaN(Number(val)) && Number(val) >= 0, "Price must be a valid positive number"),
+  stockQuantity: z.number().int().min(0).default(0),
+  imageUrl: z.string().nullable().optional(),
+  sortOrder: z.number().int().optional(),
+});
+
 // Compatibility validation schema (for parts.compatibility JSONB field)
 export const compatibilityItemSchema = z.object({
   make: z.string(),
@@ -250,6 +389,9 @@ export const compatibilityItemSchema = z.object({
 
 export const insertPartSchema = createInsertSchema(parts, {
   compatibility: z.array(compatibilityItemSchema).optional(),
+  conditionGrade: z.enum(['A', 'B', 'C']).nullable().optional(),
+  warrantyDays: z.number().int().min(0).max(3650).nullable().optional(),
+  expectedRestockDate: z.coerce.date().nullable().optional(),
   category: z.string().transform(val => {
     const trimmed = val?.trim() || '';
     return trimmed.length > 0 ? trimmed : 'General';
@@ -260,6 +402,16 @@ export const insertPartSchema = createInsertSchema(parts, {
   updatedAt: true,
   garagehubCode: true, // Auto-generated by ProductCodeService
   supplierType: true, // Auto-populated from supplier
+  moderationStatus: true, // Set by listing moderation, never by suppliers
+  moderationFlags: true,
+  moderationReason: true,
+  moderatedBy: true,
+  moderatedAt: true,
+  mergedIntoId: true, // Set by duplicate merges only
+  rating: true, // Aggregated from reviews
+  reviewCount: true,
+}).extend({
+  variants: z.array(partVariantInputSchema).max(50).optional(), // Parent price/stock are derived from variants when present
 });
 
 // Update schema - excludes id, supplierId, createdAt, updatedAt, garagehubCode, supplierType (prevents ownership/code changes)
@@ -271,10 +423,364 @@ export type CompatibilityItem = z.infer<typeof compatibilityItemSchema>;
 export type InsertPart = z.infer<typeof insertPartSchema>;
 export type UpdatePart = z.infer<typeof updatePartSchema>;
 export type Part = typeof parts.$inferSelect;
+export type PartVariantInput = z.infer<typeof partVariantInputSchema>;
+export type PartVariant = typeof partVariants.$inferSelect;
+
+// Admin decision on a queued listing
+export const listingModerationDecisionSchema = z.object({
+  decision: z.enum(['approved', 'rejected']),
+  reason: z.string().trim().max(1000).optional(),
+}).refine(data => data.decision === 'approved' || !!data.reason, {
+  message: "A reason is required when rejecting a listing",
+  path: ['reason'],
+});
+
+export type ListingModerationDecision = z.infer<typeof listingModerationDecisionSchema>;
+
+// Supplier merges a duplicate listing into the listing in the URL
+export const mergeListingSchema = z.object({
+  duplicateId: z.string().min(1),
+});
+
+export type MergeListing = z.infer<typeof mergeListingSchema>;
+
+// Taxonomy term type
+// brand: vehicle make (Perodua, Toyota); model: vehicle model under a brand (parentId = brand)
+// category: marketplace category; subcategory: narrower category under a category (parentId = category)
+export type TaxonomyTermType = 'brand' | 'model' | 'category' | 'subcategory';
+
+// Taxonomy Terms table - Admin-managed catalogue taxonomy with Malay/English labels
+// Listings store the English label (parts.category, vehicleMake, vehicleModel); categories and
+// sub-categories map onto the fixed partCategory enum used for filtering. Aliases are extra
+// lowercase spellings that imports, product edits and AI extraction are matched against.
+export const taxonomyTerms = pgTable("taxonomy_terms", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  type: varchar("type", { length: 20 }).$type<TaxonomyTermType>().notNull(),
+  parentId: varchar("parent_id").references((): AnyPgColumn => taxonomyTerms.id, { onDelete: 'cascade' }), // Brand of a model / category of a subcategory
+  slug: varchar("slug", { length: 120 }).notNull(), // Unique per type; models/subcategories are prefixed with the parent slug
+  labelEn: varchar("label_en", { length: 100 }).notNull(),
+  labelMs: varchar("label_ms", { length: 100 }).notNull(),
+  partCategory: partCategoryEnum("part_category"), // Categories/subcategories only
+  aliases: text("aliases").array().notNull().default(sql`ARRAY[]::text[]`),
+  sortOrder: integer("sort_order").notNull().default(0),
+  isActive: boolean("is_active").notNull().default(true), // Inactive terms are hidden from the catalogue but still map imports
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("idx_taxonomy_terms_slug").on(table.type, table.slug),
+  index("idx_taxonomy_terms_parent").on(table.parentId),
+]);
+
+export const taxonomyTermsRelations = relations(taxonomyTerms, ({ one, many }) => ({
+  parent: one(taxonomyTerms, {
+    fields: [taxonomyTerms.parentId],
+    references: [taxonomyTerms.id],
+    relationName: "taxonomyParent",
+  }),
+  children: many(taxonomyTerms, { relationName: "taxonomyParent" }),
+}));
+
+const taxonomyAliasesSchema = z.array(z.string().trim().toLowerCase().min(1).max(100)).max(50);
+
+export const createTaxonomyTermSchema = z.object({
+  type: z.enum(['brand', 'model', 'category', 'subcategory']),
+  parentId: z.string().nullable().optional(),
+  labelEn: z.string().trim().min(1).max(100),
+  labelMs: z.string().trim().min(1).max(100),
+  partCategory: z.enum(partCategoryEnum.enumValues).nullable().optional(),
+  aliases: taxonomyAliasesSchema.optional(),
+  sortOrder: z.number().int().min(0).max(10000).optional(),
+  isActive: z.boolean().optional(),
+});
+
+// Type and parent are fixed once created
+export const updateTaxonomyTermSchema = createTaxonomyTermSchema.omit({ type: true, parentId: true }).partial();
+
+export type CreateTaxonomyTerm = z.infer<typeof createTaxonomyTermSchema>;
+export type UpdateTaxonomyTerm = z.infer<typeof updateTaxonomyTermSchema>;
+export type TaxonomyTerm = typeof taxonomyTerms.$inferSelect;
+
+// Where a cart/order line's unit price came from
+export type PriceSource = 'base' | 'tier' | 'price_list';
+
+// Part Price Tiers table - Quantity-break pricing ("10+ units: RM 8.50 each")
+export const partPriceTiers = pgTable("part_price_tiers", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  partId: varchar("part_id").notNull().references(() => parts.id, { onDelete: 'cascade' }),
+  variantId: varchar("variant_id").references(() => partVariants.id, { onDelete: 'cascade' }), // null = all variants of the part
+  minQuantity: integer("min_quantity").notNull(),
+  price: decimal("price", { precision: 10, scale: 2 }).notNull(), // Unit price from minQuantity upwards
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("idx_part_price_tiers_part").on(table.partId, table.minQuantity),
+]);
+
+// Price Lists table - Supplier price lists for specific workshops (e.g. regular trade customers)
+export const priceLists = pgTable("price_lists", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  supplierId: varchar("supplier_id").notNull().references(() => suppliers.id, { onDelete: 'cascade' }),
+  name: varchar("name", { length: 255 }).notNull(),
+  description: text("description"),
+  isActive: boolean("is_active").notNull().default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("idx_price_lists_supplier").on(table.supplierId),
+]);
+
+// Price List Items table - Workshop unit price for a part (or one variant of it)
+export const priceListItems = pgTable("price_list_items", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  priceListId: varchar("price_list_id").notNull().references(() => priceLists.id, { onDelete: 'cascade' }),
+  partId: varchar("part_id").notNull().references(() => parts.id, { onDelete: 'cascade' }),
+  variantId: varchar("variant_id").references(() => partVariants.id, { onDelete: 'cascade' }), // null = all variants of the part
+  price: decimal("price", { precision: 10, scale: 2 }).notNull(),
+}, (table) => [
+  index("idx_price_list_items_list_part").on(table.priceListId, table.partId),
+]);
+
+// Price List Assignments table - A workshop has at most one price list per supplier
+export const priceListAssignments = pgTable("price_list_assignments", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  priceListId: varchar("price_list_id").notNull().references(() => priceLists.id, { onDelete: 'cascade' }),
+  supplierId: varchar("supplier_id").notNull().references(() => suppliers.id, { onDelete: 'cascade' }),
+  workshopId: varchar("workshop_id").notNull().references(() => workshops.id, { onDelete: 'cascade' }),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("idx_price_list_assignments_supplier_workshop").on(table.supplierId, table.workshopId),
+  index("idx_price_list_assignments_list").on(table.priceListId),
+]);
+
+export const partPriceTiersRelations = relations(partPriceTiers, ({ one }) => ({
+  part: one(parts, {
+    fields: [partPriceTiers.partId],
+    references: [parts.id],
+  }),
+  variant: one(partVariants, {
+    fields: [partPriceTiers.variantId],
+    references: [partVariants.id],
+  }),
+}));
+
+export const priceListsRelations = relations(priceLists, ({ one, many }) => ({
+  supplier: one(suppliers, {
+    fields: [priceLists.supplierId],
+    references: [suppliers.id],
+  }),
+  items: many(priceListItems),
+  assignments: many(priceListAssignments),
+}));
+
+export const priceListItemsRelations = relations(priceListItems, ({ one }) => ({
+  priceList: one(priceLists, {
+    fields: [priceListItems.priceListId],
+    references: [priceLists.id],
+  }),
+  part: one(parts, {
+    fields: [priceListItems.partId],
+    references: [parts.id],
+  }),
+}));
+
+export const priceListAssignmentsRelations = relations(priceListAssignments, ({ one }) => ({
+  priceList: one(priceLists, {
+    fields: [priceListAssignments.priceListId],
+    references: [priceLists.id],
+  }),
+  workshop: one(workshops, {
+    fields: [priceListAssignments.workshopId],
+    references: [workshops.id],
+  }),
+}));
+
+const unitPriceInput = z.union([z.string(), z.number()]).transform(val => Number(val).toFixed(2)).refine(val => !isNaN(Number(val)) && Number(val) >= 0, "Price must be a valid positive number");
+
+export const priceTierInputSchema = z.object({
+  variantId: z.string().nullable().optional(),
+  minQuantity: z.number().int().min(2).max(100000),
+  price: unitPriceInput,
+});
+
+export const insertPriceListSchema = createInsertSchema(priceLists, {
+  name: z.string().trim().min(1).max(255),
+}).omit({
+  id: true,
+  supplierId: true, // From the route
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const priceListItemInputSchema = z.object({
+  partId: z.string().min(1),
+  variantId: z.string().nullable().optional(),
+  price: unitPriceInput,
+});
+
+export type PriceTierInput = z.infer<typeof priceTierInputSchema>;
+export type PartPriceTier = typeof partPriceTiers.$inferSelect;
+export type InsertPriceList = z.infer<typeof insertPriceListSchema>;
+export type PriceList = typeof priceLists.$inferSelect;
+export type PriceListItemInput = z.infer<typeof priceListItemInputSchema>;
+export type PriceListItem = typeof priceListItems.$inferSelect;
+export type PriceListAssignment = typeof priceListAssignments.$inferSelect;
+
+export const insertHalfcutUnitSchema = createInsertSchema(halfcutUnits, {
+  year: z.number().int().min(1950).max(2100).nullable().optional(),
+  mileageKm: z.number().int().min(0).nullable().optional(),
+  images: z.array(z.string()).max(10).optional(),
+}).omit({
+  id: true,
+  supplierId: true, // From the route
+  status: true, // Sold-through fields are maintained by halfcutService
+  componentCount: true,
+  soldComponentCount: true,
+  soldValue: true,
+  soldOutAt: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const updateHalfcutUnitSchema = insertHalfcutUnitSchema.partial();
+
+// Component derived from a halfcut unit - vehicle fitment is inherited from the unit
+export const halfcutComponentSchema = z.object({
+  name: z.string().trim().min(1).max(255),
+  description: z.string().optional(),
+  sku: z.string().max(100).optional(),
+  partCategory: z.enum(partCategoryEnum.enumValues),
+  price: z.union([z.string(), z.number()]).transform(val => Number(val).toFixed(2)).refine(val => !isNaN(Number(val)) && Number(val) >= 0, "Price must be a valid positive number"),
+  stockQuantity: z.number().int().min(0).default(1),
+  conditionGrade: z.enum(['A', 'B', 'C']),
+  isTested: z.boolean(),
+  warrantyDays: z.number().int().min(0).max(3650).default(0),
+  images: z.array(z.string()).max(5).optional(),
+});
+
+export type InsertHalfcutUnit = z.infer<typeof insertHalfcutUnitSchema>;
+export type UpdateHalfcutUnit = z.infer<typeof updateHalfcutUnitSchema>;
+export type HalfcutComponentInput = z.infer<typeof halfcutComponentSchema>;
+export type HalfcutUnit = typeof halfcutUnits.$inferSelect;
+
+// Part Image Hashes table (perceptual hashes per product image for image search)
+export const partImageHashes = pgTable("part_image_hashes", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  partId: varchar("part_id").notNull().references(() => parts.id, { onDelete: 'cascade' }),
+  supplierId: varchar("supplier_id").notNull().references(() => suppliers.id, { onDelete: 'cascade' }), // Denormalized for supplier-scoped search
+  imageUrl: varchar("image_url").notNull(),
+  aHash: varchar("a_hash", { length: 16 }).notNull(), // 64-bit average hash (hex)
+  dHash: varchar("d_hash", { length: 16 }).notNull(), // 64-bit difference hash (hex)
+  pHash: varchar("p_hash", { length: 16 }).notNull(), // 64-bit DCT perceptual hash (hex)
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("idx_part_image_hashes_part").on(table.partId),
+  index("idx_part_image_hashes_supplier").on(table.supplierId),
+  uniqueIndex("idx_part_image_hashes_unique").on(table.partId, table.imageUrl),
+]);
+
+export const partImageHashesRelations = relations(partImageHashes, ({ one }) => ({
+  part: one(parts, {
+    fields: [partImageHashes.partId],
+    references: [parts.id],
+  }),
+  supplier: one(suppliers, {
+    fields: [partImageHashes.supplierId],
+    references: [suppliers.id],
+  }),
+}));
+
+export const insertPartImageHashSchema = createInsertSchema(partImageHashes).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type InsertPartImageHash = z.infer<typeof insertPartImageHashSchema>;
+export type PartImageHash = typeof partImageHashes.$inferSelect;
+
+// Part number type: OEM (vehicle manufacturer) or aftermarket (e.g. Bosch, Denso)
+export type PartNumberType = 'oem' | 'aftermarket';
+
+// Interchange Groups table (part numbers that can substitute for one another)
+export const partInterchangeGroups = pgTable("part_interchange_groups", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: varchar("name", { length: 255 }).notNull(), // e.g. "Myvi/Axia front brake pads"
+  notes: text("notes"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Part Numbers table (OEM/aftermarket cross-reference catalogue shared across suppliers)
+export const partNumbers = pgTable("part_numbers", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  number: varchar("number", { length: 100 }).notNull(), // As printed, e.g. "04465-0D120"
+  normalizedNumber: varchar("normalized_number", { length: 100 }).notNull(), // Uppercase alphanumerics only, e.g. "044650D120"
+  numberType: varchar("number_type", { length: 20 }).$type<PartNumberType>().notNull(),
+  brand: varchar("brand", { length: 100 }).notNull().default(''), // Manufacturer (e.g. Toyota, Bosch), empty when unknown
+  interchangeGroupId: varchar("interchange_group_id").references(() => partInterchangeGroups.id, { onDelete: 'set null' }),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("idx_part_numbers_unique").on(table.normalizedNumber, table.numberType, table.brand),
+  index("idx_part_numbers_group").on(table.interchangeGroupId),
+]);
+
+// Part <-> Part Number links (a supplier's listing tagged with the numbers it satisfies)
+export const partNumberLinks = pgTable("part_number_links", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  partId: varchar("part_id").notNull().references(() => parts.id, { onDelete: 'cascade' }),
+  partNumberId: varchar("part_number_id").notNull().references(() => partNumbers.id, { onDelete: 'cascade' }),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("idx_part_number_links_unique").on(table.partId, table.partNumberId),
+  index("idx_part_number_links_number").on(table.partNumberId),
+]);
+
+export const partInterchangeGroupsRelations = relations(partInterchangeGroups, ({ many }) => ({
+  partNumbers: many(partNumbers),
+}));
+
+export const partNumbersRelations = relations(partNumbers, ({ one, many }) => ({
+  interchangeGroup: one(partInterchangeGroups, {
+    fields: [partNumbers.interchangeGroupId],
+    references: [partInterchangeGroups.id],
+  }),
+  links: many(partNumberLinks),
+}));
+
+export const partNumberLinksRelations = relations(partNumberLinks, ({ one }) => ({
+  part: one(parts, {
+    fields: [partNumberLinks.partId],
+    references: [parts.id],
+  }),
+  partNumber: one(partNumbers, {
+    fields: [partNumberLinks.partNumberId],
+    references: [partNumbers.id],
+  }),
+}));
+
+// Part number as entered by suppliers (CSV or product form)
+export const partNumberInputSchema = z.object({
+  number: z.string().trim().min(1).max(100),
+  numberType: z.enum(['oem', 'aftermarket']).default('oem'),
+  brand: z.string().trim().max(100).optional(),
+});
+
+export const insertPartInterchangeGroupSchema = createInsertSchema(partInterchangeGroups).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export type PartNumberInput = z.infer<typeof partNumberInputSchema>;
+export type InsertPartInterchangeGroup = z.infer<typeof insertPartInterchangeGroupSchema>;
+export type PartInterchangeGroup = typeof partInterchangeGroups.$inferSelect;
+export type PartNumber = typeof partNumbers.$inferSelect;
+export type PartNumberLink = typeof partNumberLinks.$inferSelect;
 
 // Supplier Order status enum
 export type SupplierOrderStatus = 'created' | 'accepted' | 'preparing' | 'assigned_runner' | 'delivering' | 'delivered' | 'cancelled';
 
+// Orders that can still be cancelled (before the parts leave the shop)
+export const CANCELLABLE_ORDER_STATUSES: SupplierOrderStatus[] = ['created', 'accepted', 'preparing'];
+
 // Delivery type enum
 export type DeliveryType = 'pickup' | 'runner';
 
@@ -296,7 +802,10 @@ export const supplierOrders = pgTable("supplier_orders", {
   paymentStatus: varchar("payment_status", { length: 20 }).$type<PaymentStatus>().notNull().default('pending'),
   itemsTotal: decimal("items_total", { precision: 10, scale: 2 }).notNull().default('0'),
   deliveryCharge: decimal("delivery_charge", { precision: 10, scale: 2 }).notNull().default('0'),
-  totalAmount: decimal("total_amount", { precision: 10, scale: 2 }).notNull(),
+  discountAmount: decimal("discount_amount", { precision: 10, scale: 2 }).notNull().default('0'), // Voucher discount on itemsTotal (supplier-funded)
+  promotionId: varchar("promotion_id").references(() => promotions.id, { onDelete: 'set null' }),
+  voucherCode: varchar("voucher_code", { length: 30 }), // Snapshot of the code used
+  totalAmount: decimal("total_amount", { precision: 10, scale: 2 }).notNull(), // itemsTotal - discountAmount + deliveryCharge
   distanceKm: decimal("distance_km", { precision: 10, scale: 2 }),
   deliveryAddress: text("delivery_address").notNull(),
   notes: text("notes"),
@@ -343,13 +852,25 @@ export const insertOrderSchema = insertSupplierOrderSchema;
 export type InsertOrder = InsertSupplierOrder;
 export type Order = SupplierOrder;
 
+// Supplier order line state
+// in_stock: all units reserved from stock
+// backordered: backorderQuantity units await restock (partially fulfilled when < quantity)
+// cancelled: line dropped from the order
+export type SupplierOrderItemStatus = 'in_stock' | 'backordered' | 'cancelled';
+
 // Supplier Order Items table
 export const supplierOrderItems = pgTable("supplier_order_items", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   orderId: varchar("order_id").notNull().references(() => supplierOrders.id),
   partId: varchar("part_id").notNull().references(() => parts.id),
+  variantId: varchar("variant_id").references(() => partVariants.id, { onDelete: 'set null' }),
+  variantName: varchar("variant_name", { length: 255 }), // Snapshot of the variant label at order time
   quantity: integer("quantity").notNull(),
-  priceAtTime: decimal("price_at_time", { precision: 10, scale: 2 }).notNull(),
+  priceAtTime: decimal("price_at_time", { precision: 10, scale: 2 }).notNull(), // Unit price locked at checkout
+  priceSource: varchar("price_source", { length: 20 }).$type<PriceSource>().notNull().default('base'),
+  status: varchar("status", { length: 20 }).$type<SupplierOrderItemStatus>().notNull().default('in_stock'),
+  backorderQuantity: integer("backorder_quantity").notNull().default(0), // Units still awaiting stock (0 = fully in stock)
+  expectedRestockDate: timestamp("expected_restock_date"), // Supplier's restock estimate when the line was backordered
 });
 
 export const supplierOrderItemsRelations = relations(supplierOrderItems, ({ one }) => ({
@@ -361,6 +882,10 @@ export const supplierOrderItemsRelations = relations(supplierOrderItems, ({ one
     fields: [supplierOrderItems.partId],
     references: [parts.id],
   }),
+  variant: one(partVariants, {
+    fields: [supplierOrderItems.variantId],
+    references: [partVariants.id],
+  }),
 }));
 
 export const insertSupplierOrderItemSchema = createInsertSchema(supplierOrderItems).omit({
@@ -377,6 +902,306 @@ export const insertOrderItemSchema = insertSupplierOrderItemSchema;
 export type InsertOrderItem = InsertSupplierOrderItem;
 export type OrderItem = SupplierOrderItem;
 
+// Stock reservation status enum
+// active: stock held for an unconfirmed order (expires at expiresAt)
+// committed: order paid - the stock is sold
+// released: stock returned (order expired unpaid, payment failed or cancelled)
+export type StockReservationStatus = 'active' | 'committed' | 'released';
+
+export type StockReleaseReason = 'expired' | 'payment_failed' | 'cancelled';
+
+// Stock Reservations table - Stock held by supplier order lines
+// Reserving takes the quantity out of parts/partVariants.stockQuantity (which is therefore
+// the available stock); releasing puts it back. On-hand stock = available + active/committed holds.
+export const stockReservations = pgTable("stock_reservations", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  orderId: varchar("order_id").notNull().references(() => supplierOrders.id, { onDelete: 'cascade' }),
+  supplierId: varchar("supplier_id").notNull().references(() => suppliers.id),
+  partId: varchar("part_id").notNull().references(() => parts.id, { onDelete: 'cascade' }),
+  variantId: varchar("variant_id").references(() => partVariants.id, { onDelete: 'set null' }),
+  quantity: integer("quantity").notNull(),
+  status: varchar("status", { length: 20 }).$type<StockReservationStatus>().notNull().default('active'),
+  expiresAt: timestamp("expires_at").notNull(),
+  committedAt: timestamp("committed_at"),
+  releasedAt: timestamp("released_at"),
+  releaseReason: varchar("release_reason", { length: 20 }).$type<StockReleaseReason>(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("idx_stock_reservations_order").on(table.orderId),
+  index("idx_stock_reservations_status_expiry").on(table.status, table.expiresAt),
+  index("idx_stock_reservations_supplier").on(table.supplierId, table.status),
+]);
+
+export const stockReservationsRelations = relations(stockReservations, ({ one }) => ({
+  order: one(supplierOrders, {
+    fields: [stockReservations.orderId],
+    references: [supplierOrders.id],
+  }),
+  part: one(parts, {
+    fields: [stockReservations.partId],
+    references: [parts.id],
+  }),
+  variant: one(partVariants, {
+    fields: [stockReservations.variantId],
+    references: [partVariants.id],
+  }),
+}));
+
+export type StockReservation = typeof stockReservations.$inferSelect;
+
+// Restock subscription status enum
+export type RestockSubscriptionStatus = 'active' | 'notified' | 'ordered' | 'cancelled';
+
+// Restock Subscriptions table - Workshops waiting for an out-of-stock part
+// autoOrderQuantity set = the quantity is added to the workshop's cart when stock arrives
+export const restockSubscriptions = pgTable("restock_subscriptions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  workshopId: varchar("workshop_id").notNull().references(() => workshops.id, { onDelete: 'cascade' }),
+  partId: varchar("part_id").notNull().references(() => parts.id, { onDelete: 'cascade' }),
+  variantId: varchar("variant_id").references(() => partVariants.id, { onDelete: 'cascade' }), // null = any stock of the part
+  autoOrderQuantity: integer("auto_order_quantity"), // null = notify only
+  status: varchar("status", { length: 20 }).$type<RestockSubscriptionStatus>().notNull().default('active'),
+  notifiedAt: timestamp("notified_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("idx_restock_subscriptions_part").on(table.partId, table.status),
+  index("idx_restock_subscriptions_workshop").on(table.workshopId),
+]);
+
+export const restockSubscriptionsRelations = relations(restockSubscriptions, ({ one }) => ({
+  workshop: one(workshops, {
+    fields: [restockSubscriptions.workshopId],
+    references: [workshops.id],
+  }),
+  part: one(parts, {
+    fields: [restockSubscriptions.partId],
+    references: [parts.id],
+  }),
+  variant: one(partVariants, {
+    fields: [restockSubscriptions.variantId],
+    references: [partVariants.id],
+  }),
+}));
+
+export const restockSubscriptionInputSchema = z.object({
+  variantId: z.string().nullable().optional(),
+  autoOrderQuantity: z.number().int().min(1).max(10000).nullable().optional(),
+});
+
+export type RestockSubscriptionInput = z.infer<typeof restockSubscriptionInputSchema>;
+export type RestockSubscription = typeof restockSubscriptions.$inferSelect;
+
+// Part Associations table - "Frequently bought together" pairs mined from order history
+// Rebuilt by the recommendation cron job; one row per direction (A -> B and B -> A).
+// A basket is everything one workshop ordered on one day, so multi-supplier checkouts count together.
+export const partAssociations = pgTable("part_associations", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  partId: varchar("part_id").notNull().references(() => parts.id, { onDelete: 'cascade' }),
+  associatedPartId: varchar("associated_part_id").notNull().references(() => parts.id, { onDelete: 'cascade' }),
+  basketCount: integer("basket_count").notNull(), // Baskets containing both parts
+  confidence: decimal("confidence", { precision: 6, scale: 4 }).notNull(), // Share of partId's baskets that also contain associatedPartId
+  lift: decimal("lift", { precision: 10, scale: 4 }).notNull(), // confidence / overall share of baskets with associatedPartId (> 1 = bought together more than by chance)
+  computedAt: timestamp("computed_at").notNull().defaultNow(),
+}, (table) => [
+  uniqueIndex("idx_part_associations_pair").on(table.partId, table.associatedPartId),
+  index("idx_part_associations_part").on(table.partId, table.basketCount),
+]);
+
+export const partAssociationsRelations = relations(partAssociations, ({ one }) => ({
+  part: one(parts, {
+    fields: [partAssociations.partId],
+    references: [parts.id],
+  }),
+  associatedPart: one(parts, {
+    fields: [partAssociations.associatedPartId],
+    references: [parts.id],
+  }),
+}));
+
+export type PartAssociation = typeof partAssociations.$inferSelect;
+
+// Popular Vehicle Parts table - Best-selling parts per vehicle make/model over a recent window
+// Make/model are stored lowercased; rank 1 = most ordered. Rebuilt by the recommendation cron job.
+export const popularVehicleParts = pgTable("popular_vehicle_parts", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  vehicleMake: varchar("vehicle_make", { length: 100 }).notNull(),
+  vehicleModel: varchar("vehicle_model", { length: 100 }).notNull(),
+  partId: varchar("part_id").notNull().references(() => parts.id, { onDelete: 'cascade' }),
+  orderCount: integer("order_count").notNull(), // Distinct orders containing the part
+  quantitySold: integer("quantity_sold").notNull(),
+  rank: integer("rank").notNull(),
+  computedAt: timestamp("computed_at").notNull().defaultNow(),
+}, (table) => [
+  uniqueIndex("idx_popular_vehicle_parts_unique").on(table.vehicleMake, table.vehicleModel, table.partId),
+  index("idx_popular_vehicle_parts_rank").on(table.vehicleMake, table.vehicleModel, table.rank),
+]);
+
+export const popularVehiclePartsRelations = relations(popularVehicleParts, ({ one }) => ({
+  part: one(parts, {
+    fields: [popularVehicleParts.partId],
+    references: [parts.id],
+  }),
+}));
+
+export type PopularVehiclePart = typeof popularVehicleParts.$inferSelect;
+
+// Product Questions table - Public Q&A per listing
+// Workshops ask, the listing's supplier answers. Answered questions are public on the product page;
+// unanswered ones are only visible to the asker and the supplier.
+export const productQuestions = pgTable("product_questions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  partId: varchar("part_id").notNull().references(() => parts.id, { onDelete: 'cascade' }),
+  supplierId: varchar("supplier_id").notNull().references(() => suppliers.id, { onDelete: 'cascade' }), // Listing's supplier (answers)
+  workshopId: varchar("workshop_id").notNull().references(() => workshops.id, { onDelete: 'cascade' }),
+  askedBy: varchar("asked_by").notNull().references(() => users.id),
+  question: text("question").notNull(),
+  answer: text("answer"), // null = unanswered
+  answeredBy: varchar("answered_by").references(() => users.id),
+  answeredAt: timestamp("answered_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("idx_product_questions_part").on(table.partId, table.answeredAt),
+  index("idx_product_questions_supplier").on(table.supplierId, table.answeredAt),
+  index("idx_product_questions_workshop").on(table.workshopId),
+]);
+
+export const productQuestionsRelations = relations(productQuestions, ({ one }) => ({
+  part: one(parts, {
+    fields: [productQuestions.partId],
+    references: [parts.id],
+  }),
+  supplier: one(suppliers, {
+    fields: [productQuestions.supplierId],
+    references: [suppliers.id],
+  }),
+  workshop: one(workshops, {
+    fields: [productQuestions.workshopId],
+    references: [workshops.id],
+  }),
+}));
+
+export const askProductQuestionSchema = z.object({
+  question: z.string().trim().min(5).max(1000),
+});
+
+export const answerProductQuestionSchema = z.object({
+  answer: z.string().trim().min(1).max(2000),
+});
+
+export type AskProductQuestion = z.infer<typeof askProductQuestionSchema>;
+export type AnswerProductQuestion = z.infer<typeof answerProductQuestionSchema>;
+export type ProductQuestion = typeof productQuestions.$inferSelect;
+
+// Promotion discount type enum
+export type PromotionDiscountType = 'percentage' | 'fixed';
+
+// Promotions table - Supplier voucher codes applied to the supplier's share of a cart
+export const promotions = pgTable("promotions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  supplierId: varchar("supplier_id").notNull().references(() => suppliers.id, { onDelete: 'cascade' }),
+  code: varchar("code", { length: 30 }).notNull(), // Stored uppercase; unique per supplier
+  name: varchar("name", { length: 255 }).notNull(),
+  description: text("description"),
+  discountType: varchar("discount_type", { length: 20 }).$type<PromotionDiscountType>().notNull(),
+  discountValue: decimal("discount_value", { precision: 10, scale: 2 }).notNull(), // Percent (0-100) or RM amount
+  maxDiscountAmount: decimal("max_discount_amount", { precision: 10, scale: 2 }), // Cap for percentage vouchers
+  minSpend: decimal("min_spend", { precision: 10, scale: 2 }).notNull().default('0'), // On eligible items
+  categories: text("categories").array().notNull().default(sql`ARRAY[]::text[]`), // Empty = all categories
+  brands: text("brands").array().notNull().default(sql`ARRAY[]::text[]`), // Empty = all brands
+  startsAt: timestamp("starts_at").notNull().defaultNow(),
+  endsAt: timestamp("ends_at"), // null = no end date
+  usageLimit: integer("usage_limit"), // Total redemptions; null = unlimited
+  perWorkshopLimit: integer("per_workshop_limit").default(1), // null = unlimited
+  usageCount: integer("usage_count").notNull().default(0),
+  isActive: boolean("is_active").notNull().default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("idx_promotions_supplier_code").on(table.supplierId, table.code),
+]);
+
+// Promotion Redemptions table - One voucher per supplier order
+export const promotionRedemptions = pgTable("promotion_redemptions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  promotionId: varchar("promotion_id").notNull().references(() => promotions.id, { onDelete: 'cascade' }),
+  workshopId: varchar("workshop_id").notNull().references(() => workshops.id),
+  orderId: varchar("order_id").notNull().unique().references(() => supplierOrders.id, { onDelete: 'cascade' }),
+  discountAmount: decimal("discount_amount", { precision: 10, scale: 2 }).notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("idx_promotion_redemptions_workshop").on(table.promotionId, table.workshopId),
+]);
+
+export const promotionsRelations = relations(promotions, ({ one, many }) => ({
+  supplier: one(suppliers, {
+    fields: [promotions.supplierId],
+    references: [suppliers.id],
+  }),
+  redemptions: many(promotionRedemptions),
+}));
+
+export const promotionRedemptionsRelations = relations(promotionRedemptions, ({ one }) => ({
+  promotion: one(promotions, {
+    fields: [promotionRedemptions.promotionId],
+    references: [promotions.id],
+  }),
+  workshop: one(workshops, {
+    fields: [promotionRedemptions.workshopId],
+    references: [workshops.id],
+  }),
+  order: one(supplierOrders, {
+    fields: [promotionRedemptions.orderId],
+    references: [supplierOrders.id],
+  }),
+}));
+
+const decimalInput = z.union([z.string(), z.number()])
+  .transform(val => Number(val))
+  .refine(val => !isNaN(val) && val >= 0, "Must be a valid positive number")
+  .transform(val => val.toFixed(2));
+
+export const insertPromotionSchema = createInsertSchema(promotions, {
+  code: z.string().trim().min(3).max(30).regex(/^[A-Za-z0-9_-]+$/, "Code may only contain letters, numbers, - and _").transform(val => val.toUpperCase()),
+  name: z.string().trim().min(1).max(255),
+  discountType: z.enum(['percentage', 'fixed']),
+  discountValue: decimalInput,
+  maxDiscountAmount: decimalInput.nullable().optional(),
+  minSpend: decimalInput.optional(),
+  categories: z.array(z.string().trim().min(1).max(100)).max(50).optional(),
+  brands: z.array(z.string().trim().min(1).max(100)).max(50).optional(),
+  startsAt: z.coerce.date().optional(),
+  endsAt: z.coerce.date().nullable().optional(),
+  usageLimit: z.number().int().min(1).nullable().optional(),
+  perWorkshopLimit: z.number().int().min(1).nullable().optional(),
+}).omit({
+  id: true,
+  supplierId: true, // From the route
+  usageCount: true, // Maintained by promotionService
+  createdAt: true,
+  updatedAt: true,
+});
+
+// Refinements shared by create and update (update checks only the fields it receives)
+function refinePromotion<T extends z.ZodTypeAny>(schema: T) {
+  return schema
+    .refine((data: any) => data.discountType !== 'percentage' || data.discountValue === undefined || Number(data.discountValue) <= 100, {
+      message: "Percentage discount cannot exceed 100",
+      path: ['discountValue'],
+    })
+    .refine((data: any) => !data.startsAt || !data.endsAt || data.endsAt > data.startsAt, {
+      message: "endsAt must be after startsAt",
+      path: ['endsAt'],
+    });
+}
+
+export const createPromotionSchema = refinePromotion(insertPromotionSchema);
+export const updatePromotionSchema = refinePromotion(insertPromotionSchema.partial());
+
+export type InsertPromotion = z.infer<typeof insertPromotionSchema>;
+export type UpdatePromotion = Partial<InsertPromotion>;
+export type Promotion = typeof promotions.$inferSelect;
+export type PromotionRedemption = typeof promotionRedemptions.$inferSelect;
+
 // Payment Transactions table (Track all payment activities for orders)
 export const paymentTransactions = pgTable("payment_transactions", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -1705,8 +2530,11 @@ export const cartItems = pgTable("cart_items", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   cartId: varchar("cart_id").notNull().references(() => cart.id, { onDelete: 'cascade' }),
   partId: varchar("part_id").notNull().references(() => parts.id, { onDelete: 'cascade' }),
+  variantId: varchar("variant_id").references(() => partVariants.id, { onDelete: 'cascade' }), // Required when the part has variants
   supplierId: varchar("supplier_id").notNull().references(() => suppliers.id),
   quantity: integer("quantity").notNull().default(1),
+  unitPrice: decimal("unit_price", { precision: 10, scale: 2 }), // Resolved by pricingService (tier / workshop price list); null = not yet priced
+  priceSource: varchar("price_source", { length: 20 }).$type<PriceSource>(),
   deliveryType: varchar("delivery_type", { length: 20 }).$type<DeliveryType>().notNull().default('runner'),
   createdAt: timestamp("created_at").defaultNow(),
 });
@@ -1720,6 +2548,10 @@ export const cartItemsRelations = relations(cartItems, ({ one }) => ({
     fields: [cartItems.partId],
     references: [parts.id],
   }),
+  variant: one(partVariants, {
+    fields: [cartItems.variantId],
+    references: [partVariants.id],
+  }),
   supplier: one(suppliers, {
     fields: [cartItems.supplierId],
     references: [suppliers.id],
@@ -1734,6 +2566,111 @@ export const insertCartItemSchema = createInsertSchema(cartItems).omit({
 export type InsertCartItem = z.infer<typeof insertCartItemSchema>;
 export type CartItem = typeof cartItems.$inferSelect;
 
+// Add to cart request - price and supplier come from the listing
+export const addCartItemSchema = z.object({
+  partId: z.string().min(1),
+  variantId: z.string().min(1).nullish(), // Required when the part has variants
+  quantity: z.number().int().min(1).max(10000).default(1),
+  source: z.enum(['store', 'product_page', 'marketplace_search', 'store_search', 'image_search', 'cart']).default('cart'), // Storefront analytics
+});
+
+export type AddCartItem = z.infer<typeof addCartItemSchema>;
+
+// Cart quantity change request
+export const updateCartItemSchema = z.object({
+  quantity: z.number().int().min(1).max(10000),
+});
+
+// Cart checkout request - the cart is split into one order per supplier, paid in one go
+export const cartCheckoutSchema = z.object({
+  deliveryType: z.enum(['pickup', 'runner']).default('pickup'),
+  deliveryAddress: z.string().trim().max(500).optional(), // Runner delivery address; defaults to the workshop's address
+  notes: z.string().trim().max(1000).optional(),
+  paymentMethod: z.enum(['wallet', 'bank_transfer', 'qr_code']).default('wallet'),
+  vouchers: z.record(z.string(), z.string().trim().min(1).max(30)).default({}), // Voucher code by supplierId
+  itemIds: z.array(z.string().min(1)).min(1).max(100).optional(), // Check out only these cart items ("buy now"); default: the whole cart
+});
+
+export type CartCheckout = z.infer<typeof cartCheckoutSchema>;
+
+// Saved Lists table - Workshop's named parts lists / wishlists (e.g. "Myvi 10k service kit")
+export const savedLists = pgTable("saved_lists", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  workshopId: varchar("workshop_id").notNull().references(() => workshops.id, { onDelete: 'cascade' }),
+  name: varchar("name", { length: 255 }).notNull(),
+  description: text("description"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("idx_saved_lists_workshop").on(table.workshopId),
+]);
+
+// Saved List Items table - Parts of a saved list, across suppliers
+export const savedListItems = pgTable("saved_list_items", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  listId: varchar("list_id").notNull().references(() => savedLists.id, { onDelete: 'cascade' }),
+  partId: varchar("part_id").notNull().references(() => parts.id, { onDelete: 'cascade' }),
+  variantId: varchar("variant_id").references(() => partVariants.id, { onDelete: 'cascade' }),
+  quantity: integer("quantity").notNull().default(1),
+  lastKnownPrice: decimal("last_known_price", { precision: 10, scale: 2 }).notNull(), // Price when saved / last price-drop alert
+  notifyPriceDrop: boolean("notify_price_drop").notNull().default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("idx_saved_list_items_list").on(table.listId),
+  index("idx_saved_list_items_part").on(table.partId),
+]);
+
+export const savedListsRelations = relations(savedLists, ({ one, many }) => ({
+  workshop: one(workshops, {
+    fields: [savedLists.workshopId],
+    references: [workshops.id],
+  }),
+  items: many(savedListItems),
+}));
+
+export const savedListItemsRelations = relations(savedListItems, ({ one }) => ({
+  list: one(savedLists, {
+    fields: [savedListItems.listId],
+    references: [savedLists.id],
+  }),
+  part: one(parts, {
+    fields: [savedListItems.partId],
+    references: [parts.id],
+  }),
+  variant: one(partVariants, {
+    fields: [savedListItems.variantId],
+    references: [partVariants.id],
+  }),
+}));
+
+export const insertSavedListSchema = createInsertSchema(savedLists, {
+  name: z.string().trim().min(1).max(255),
+  description: z.string().max(2000).nullable().optional(),
+}).omit({
+  id: true,
+  workshopId: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const savedListItemInputSchema = z.object({
+  partId: z.string().min(1),
+  variantId: z.string().nullable().optional(),
+  quantity: z.number().int().min(1).max(10000).default(1),
+  notifyPriceDrop: z.boolean().optional(),
+});
+
+export const updateSavedListItemSchema = z.object({
+  quantity: z.number().int().min(1).max(10000).optional(),
+  notifyPriceDrop: z.boolean().optional(),
+});
+
+export type InsertSavedList = z.infer<typeof insertSavedListSchema>;
+export type SavedList = typeof savedLists.$inferSelect;
+export type SavedListItemInput = z.infer<typeof savedListItemInputSchema>;
+export type UpdateSavedListItem = z.infer<typeof updateSavedListItemSchema>;
+export type SavedListItem = typeof savedListItems.$inferSelect;
+
 // Delivery Offer status enum
 export type DeliveryOfferStatus = 'pending' | 'accepted' | 'rejected' | 'expired';
 
@@ -1862,7 +2799,8 @@ export const platformEscrow = pgTable("platform_escrow", {
   
   // Amount breakdown
   totalAmount: decimal("total_amount", { precision: 10, scale: 2 }).notNull(), // Total paid by workshop
-  partsAmount: decimal("parts_amount", { precision: 10, scale: 2 }).notNull(), // Parts cost
+  partsAmount: decimal("parts_amount", { precision: 10, scale: 2 }).notNull(), // Parts cost after voucher discount
+  discountAmount: decimal("discount_amount", { precision: 10, scale: 2 }).notNull().default('0'), // Voucher discount (borne by the supplier)
   deliveryAmount: decimal("delivery_amount", { precision: 10, scale: 2 }).default('0'), // Delivery fee
   platformFeePercent: decimal("platform_fee_percent", { precision: 5, scale: 2 }).notNull().default('5'), // Platform fee %
   platformFeeAmount: decimal("platform_fee_amount", { precision: 10, scale: 2 }).notNull(), // Calculated platform fee
@@ -1977,17 +2915,25 @@ export const insertPlatformSettingSchema = createInsertSchema(platformSettings).
 export type InsertPlatformSetting = z.infer<typeof insertPlatformSettingSchema>;
 export type PlatformSetting = typeof platformSettings.$inferSelect;
 
-// Search Image Log table (Nov 2025: Mock AI image search tracking for Shopee-style marketplace)
+// Search Image Log table (Nov 2025: Image search tracking for Shopee-style marketplace)
+// Also logs text searches (searchType 'text'), the source of "searched but not found" terms in storefront analytics
 export const searchImageLog = pgTable("search_image_log", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   workshopId: varchar("workshop_id").references(() => workshops.id),
   supplierId: varchar("supplier_id").references(() => suppliers.id),
+  searchType: varchar("search_type", { length: 10 }).$type<'image' | 'text'>().notNull().default('image'),
+  query: varchar("query", { length: 255 }), // Normalized (trimmed, lowercase) text query
   imageUrl: varchar("image_url", { length: 500 }),
   resultCount: integer("result_count").notNull().default(0),
+  scope: varchar("scope", { length: 20 }).$type<'supplier' | 'marketplace'>().notNull().default('supplier'),
+  threshold: integer("threshold"), // Minimum similarity % used for the search
+  pHash: varchar("p_hash", { length: 16 }), // Perceptual hash of the uploaded image
+  topMatches: jsonb("top_matches").$type<Array<{ partId: string; similarity: number }>>(), // Best matches with scores
   createdAt: timestamp("created_at").defaultNow(),
 }, (table) => [
   index("idx_search_log_workshop").on(table.workshopId),
   index("idx_search_log_supplier").on(table.supplierId),
+  index("idx_search_log_not_found").on(table.searchType, table.resultCount, table.createdAt), // Zero-result text searches
 ]);
 
 export const searchImageLogRelations = relations(searchImageLog, ({ one }) => ({
@@ -2009,23 +2955,138 @@ export const insertSearchImageLogSchema = createInsertSchema(searchImageLog).omi
 export type InsertSearchImageLog = z.infer<typeof insertSearchImageLogSchema>;
 export type SearchImageLog = typeof searchImageLog.$inferSelect;
 
+// Storefront event type and where it happened
+export type StorefrontEventType = 'store_view' | 'product_view' | 'search_impression' | 'add_to_cart';
+export type StorefrontEventSource = 'store' | 'product_page' | 'marketplace_search' | 'store_search' | 'image_search' | 'saved_list' | 'restock' | 'cart';
+
+// Storefront Events table - raw supplier storefront activity, rolled up nightly into storefrontDailyStats
+// Purchases are not events: the rollup counts them from supplier orders.
+export const storefrontEvents = pgTable("storefront_events", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  supplierId: varchar("supplier_id").notNull().references(() => suppliers.id, { onDelete: 'cascade' }),
+  partId: varchar("part_id").references(() => parts.id, { onDelete: 'cascade' }), // Null for store views
+  workshopId: varchar("workshop_id").references(() => workshops.id, { onDelete: 'set null' }), // Viewer, when signed in as a workshop
+  eventType: varchar("event_type", { length: 30 }).$type<StorefrontEventType>().notNull(),
+  source: varchar("source", { length: 30 }).$type<StorefrontEventSource>(),
+  quantity: integer("quantity").notNull().default(1), // Units added, for add_to_cart
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("idx_storefront_events_created").on(table.createdAt),
+  index("idx_storefront_events_supplier").on(table.supplierId, table.createdAt),
+]);
+
+export type StorefrontEvent = typeof storefrontEvents.$inferSelect;
+export type InsertStorefrontEvent = typeof storefrontEvents.$inferInsert;
+
+// Storefront Daily Stats table - one row per supplier, product and day (partId null = store-level totals)
+export const storefrontDailyStats = pgTable("storefront_daily_stats", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  supplierId: varchar("supplier_id").notNull().references(() => suppliers.id, { onDelete: 'cascade' }),
+  partId: varchar("part_id").references(() => parts.id, { onDelete: 'cascade' }),
+  date: timestamp("date").notNull(), // Start of the day (Asia/Kuala_Lumpur)
+  storeViews: integer("store_views").notNull().default(0),
+  productViews: integer("product_views").notNull().default(0),
+  searchImpressions: integer("search_impressions").notNull().default(0),
+  addToCarts: integer("add_to_carts").notNull().default(0),
+  orders: integer("orders").notNull().default(0), // Non-cancelled orders containing the product (store row: all orders)
+  unitsSold: integer("units_sold").notNull().default(0),
+  revenue: decimal("revenue", { precision: 12, scale: 2 }).notNull().default('0'), // Item value at order prices, before vouchers
+}, (table) => [
+  index("idx_storefront_daily_supplier").on(table.supplierId, table.date),
+  index("idx_storefront_daily_date").on(table.date),
+]);
+
+export type StorefrontDailyStat = typeof storefrontDailyStats.$inferSelect;
+
+// Catalog Imports table - CSV/XLSX catalogue imports (dry runs included) and their per-row errors
+export type CatalogImportStatus = 'previewed' | 'completed' | 'failed';
+
+export const catalogImports = pgTable("catalog_imports", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  supplierId: varchar("supplier_id").notNull().references(() => suppliers.id, { onDelete: 'cascade' }),
+  userId: varchar("user_id").references(() => users.id),
+  fileName: varchar("file_name", { length: 255 }),
+  format: varchar("format", { length: 10 }).$type<'csv' | 'xlsx'>().notNull(),
+  dryRun: boolean("dry_run").notNull().default(false),
+  status: varchar("status", { length: 20 }).$type<CatalogImportStatus>().notNull(),
+  totalRows: integer("total_rows").notNull().default(0),
+  createdCount: integer("created_count").notNull().default(0),
+  updatedCount: integer("updated_count").notNull().default(0),
+  unchangedCount: integer("unchanged_count").notNull().default(0),
+  errorCount: integer("error_count").notNull().default(0),
+  errors: jsonb("errors").$type<Array<{ row: number; field: string; value: string; message: string }>>().notNull().default(sql`'[]'::jsonb`), // Source of the downloadable error report
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("idx_catalog_imports_supplier").on(table.supplierId, table.createdAt),
+]);
+
+export type CatalogImport = typeof catalogImports.$inferSelect;
+
+// AI extraction kind: product details from a photo, or label/packaging text (OCR)
+export type AiExtractionKind = 'product' | 'text';
+
+// AI Extraction Cache table - provider output per image (sha256 of the bytes), so re-uploads cost no AI call
+export const aiExtractionCache = pgTable("ai_extraction_cache", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  imageHash: varchar("image_hash", { length: 64 }).notNull(),
+  kind: varchar("kind", { length: 10 }).$type<AiExtractionKind>().notNull(),
+  provider: varchar("provider", { length: 20 }).notNull(),
+  result: jsonb("result").notNull(), // Validated provider output, before taxonomy mapping
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("idx_ai_extraction_cache_image").on(table.imageHash, table.kind, table.provider),
+]);
+
+export type AiExtractionCacheEntry = typeof aiExtractionCache.$inferSelect;
+
+// AI Extraction Usage table - one row per extraction request; uncached rows count towards the supplier's daily quota
+export const aiExtractionUsage = pgTable("ai_extraction_usage", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  supplierId: varchar("supplier_id").notNull().references(() => suppliers.id, { onDelete: 'cascade' }),
+  kind: varchar("kind", { length: 10 }).$type<AiExtractionKind>().notNull(),
+  provider: varchar("provider", { length: 20 }).notNull(),
+  imageHash: varchar("image_hash", { length: 64 }).notNull(),
+  cached: boolean("cached").notNull().default(false),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("idx_ai_extraction_usage_supplier").on(table.supplierId, table.createdAt),
+]);
+
+export type AiExtractionUsage = typeof aiExtractionUsage.$inferSelect;
+
 // Review target type enum (Nov 12, 2025)
 export const reviewTargetTypeEnum = pgEnum('review_target_type', ['workshop', 'supplier', 'product']);
 export type ReviewTargetType = 'workshop' | 'supplier' | 'product';
 
+// Review visibility: held = auto-screened, awaiting an admin; hidden = removed by an admin
+export type ReviewStatus = 'published' | 'held' | 'hidden';
+
 // Reviews table (Nov 12, 2025: Comprehensive rating system for workshops, suppliers, and products)
+// Only verified purchases: supplier/product reviews need a delivered order, workshop reviews a completed job.
 export const reviews = pgTable("reviews", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   userId: varchar("user_id").notNull().references(() => users.id),
   targetType: reviewTargetTypeEnum("target_type").notNull(),
   targetId: varchar("target_id").notNull(), // workshop.id, supplier.id, or product.id
+  orderId: varchar("order_id").references(() => supplierOrders.id, { onDelete: 'set null' }), // Delivered order backing a supplier/product review
+  jobId: varchar("job_id").references(() => jobs.id, { onDelete: 'set null' }), // Completed job backing a workshop review
   rating: integer("rating").notNull(), // 1-5 stars
   comment: text("comment"),
+  photos: text("photos").array().default(sql`ARRAY[]::text[]`), // Up to 5 image URLs
+  reply: text("reply"), // Public reply from the reviewed supplier/workshop
+  repliedBy: varchar("replied_by").references(() => users.id),
+  repliedAt: timestamp("replied_at"),
+  status: varchar("status", { length: 20 }).$type<ReviewStatus>().notNull().default('published'), // Only published reviews are shown and counted
+  holdReasons: text("hold_reasons").array().default(sql`ARRAY[]::text[]`), // Why the review was held, e.g. phone_number, profanity:<word>, review_burst, reported
+  moderatedBy: varchar("moderated_by").references(() => users.id),
+  moderatedAt: timestamp("moderated_at"),
+  moderationNote: text("moderation_note"), // Admin's note on hide/restore
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 }, (table) => [
   index("idx_reviews_user").on(table.userId),
   index("idx_reviews_target").on(table.targetType, table.targetId),
+  index("idx_reviews_status").on(table.status, table.createdAt), // Moderation queue
   // Prevent duplicate reviews: one review per user per target
   uniqueIndex("idx_reviews_unique").on(table.userId, table.targetType, table.targetId),
 ]);
@@ -2035,16 +3096,96 @@ export const reviewsRelations = relations(reviews, ({ one }) => ({
     fields: [reviews.userId],
     references: [users.id],
   }),
+  order: one(supplierOrders, {
+    fields: [reviews.orderId],
+    references: [supplierOrders.id],
+  }),
+  job: one(jobs, {
+    fields: [reviews.jobId],
+    references: [jobs.id],
+  }),
 }));
 
 export const insertReviewSchema = createInsertSchema(reviews, {
   rating: z.number().min(1).max(5),
   comment: z.string().min(10).max(1000).optional(),
+  photos: z.array(z.string().min(1)).max(5).optional(),
 }).omit({
   id: true,
+  userId: true, // From the session
+  orderId: true, // Resolved from the reviewer's purchases
+  jobId: true,
+  reply: true,
+  repliedBy: true,
+  repliedAt: true,
+  status: true, // Set by screening and admins only
+  holdReasons: true,
+  moderatedBy: true,
+  moderatedAt: true,
+  moderationNote: true,
   createdAt: true,
   updatedAt: true,
 });
 
+// Reviewer edits rating, comment and photos only
+export const updateReviewSchema = insertReviewSchema.pick({
+  rating: true,
+  comment: true,
+  photos: true,
+}).partial();
+
+export const reviewReplySchema = z.object({
+  reply: z.string().trim().min(1).max(1000),
+});
+
 export type InsertReview = z.infer<typeof insertReviewSchema>;
+export type UpdateReview = z.infer<typeof updateReviewSchema>;
+export type ReviewReply = z.infer<typeof reviewReplySchema>;
 export type Review = typeof reviews.$inferSelect;
+
+// Review report reason
+export type ReviewReportReason = 'fake' | 'abusive' | 'spam' | 'conflict_of_interest' | 'other';
+export type ReviewReportStatus = 'open' | 'resolved';
+
+// Review reports table - users flagging fake or abusive reviews for admin moderation
+export const reviewReports = pgTable("review_reports", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  reviewId: varchar("review_id").notNull().references(() => reviews.id, { onDelete: 'cascade' }),
+  reportedBy: varchar("reported_by").notNull().references(() => users.id),
+  reason: varchar("reason", { length: 30 }).$type<ReviewReportReason>().notNull(),
+  details: text("details"),
+  status: varchar("status", { length: 20 }).$type<ReviewReportStatus>().notNull().default('open'),
+  resolvedBy: varchar("resolved_by").references(() => users.id),
+  resolvedAt: timestamp("resolved_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("idx_review_reports_review").on(table.reviewId, table.status),
+  // One report per user per review
+  uniqueIndex("idx_review_reports_unique").on(table.reviewId, table.reportedBy),
+]);
+
+export const reviewReportsRelations = relations(reviewReports, ({ one }) => ({
+  review: one(reviews, {
+    fields: [reviewReports.reviewId],
+    references: [reviews.id],
+  }),
+  reporter: one(users, {
+    fields: [reviewReports.reportedBy],
+    references: [users.id],
+  }),
+}));
+
+export const reportReviewSchema = z.object({
+  reason: z.enum(['fake', 'abusive', 'spam', 'conflict_of_interest', 'other']),
+  details: z.string().trim().max(1000).optional(),
+});
+
+// Admin action on a held or reported review
+export const reviewModerationDecisionSchema = z.object({
+  action: z.enum(['hide', 'restore']),
+  note: z.string().trim().max(1000).optional(),
+});
+
+export type ReportReview = z.infer<typeof reportReviewSchema>;
+export type ReviewModerationDecision = z.infer<typeof reviewModerationDecisionSchema>;
+export type ReviewReport = typeof reviewReports.$inferSelect;